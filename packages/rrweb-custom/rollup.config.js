@@ -17,6 +17,12 @@ function toRecordPackPath(path) {
     .replace('rrweb', 'rrweb-record-pack');
 }
 
+function toRecordWorkerPath(path) {
+  return path
+    .replace(/^([\w]+)\//, '$1/record/')
+    .replace('rrweb', 'rrweb-record-worker');
+}
+
 function toReplayPath(path) {
   return path
     .replace(/^([\w]+)\//, '$1/replay/')
@@ -57,6 +63,12 @@ const baseConfigs = [
     name: 'rrwebRecord',
     pathFn: toRecordPackPath,
   },
+  // worker of the record transport
+  {
+    input: './src/record/worker/index.ts',
+    name: 'rrwebRecordWorker',
+    pathFn: toRecordWorkerPath,
+  },
   // replay only
   {
     input: './src/replay/index.ts',
@@ -93,6 +105,16 @@ const baseConfigs = [
     name: 'rrwebConsoleReplay',
     pathFn: toPluginPath('console', 'replay'),
   },
+  {
+    input: './src/plugins/network/record/index.ts',
+    name: 'rrwebNetworkRecord',
+    pathFn: toPluginPath('network', 'record'),
+  },
+  {
+    input: './src/plugins/network/replay/index.ts',
+    name: 'rrwebNetworkReplay',
+    pathFn: toPluginPath('network', 'replay'),
+  },
 ];
 
 let configs = [];
@@ -177,6 +199,11 @@ if (process.env.BROWSER_ONLY) {
       name: 'rrwebConsoleRecord',
       pathFn: toPluginPath('console', 'record'),
     },
+    {
+      input: './src/plugins/network/record/index.ts',
+      name: 'rrwebNetworkRecord',
+      pathFn: toPluginPath('network', 'record'),
+    },
   ];
 
   configs = [];
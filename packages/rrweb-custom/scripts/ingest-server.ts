@@ -0,0 +1,113 @@
+/* tslint:disable: no-console */
+
+/**
+ * A reference ingest server of the uploader, which keeps the received
+ * batches in memory. Run it by `yarn ingest-server`, and the port can be
+ * changed by the PORT environment variable.
+ *
+ * POST /events     receives a batch, gzip payloads are detected by the
+ *                  magic number since the beacons can not carry headers
+ * GET /events/:id  returns the events of an uploader in order
+ */
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { uploadBatch } from '../src/types';
+
+export type ingestServerOptions = {
+  // the bearer token required by the uploads if set
+  token?: string;
+};
+
+function isGzip(body: Buffer): boolean {
+  return body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+}
+
+function parseBatch(body: Buffer): uploadBatch | null {
+  try {
+    const batch = JSON.parse(
+      (isGzip(body) ? zlib.gunzipSync(body) : body).toString('utf8'),
+    );
+    if (
+      typeof batch.id === 'string' &&
+      typeof batch.seq === 'number' &&
+      Array.isArray(batch.events)
+    ) {
+      return batch;
+    }
+  } catch {
+    // the payload is broken
+  }
+  return null;
+}
+
+export function createIngestServer(options: ingestServerOptions = {}) {
+  // batches of the uploaders by their sequence numbers
+  const uploads = new Map<string, Map<number, uploadBatch>>();
+
+  const server = http.createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, Content-Encoding, Authorization',
+    );
+    const send = (status: number, data?: unknown) => {
+      res.statusCode = status;
+      if (data !== undefined) {
+        res.setHeader('Content-Type', 'application/json');
+      }
+      res.end(data === undefined ? undefined : JSON.stringify(data));
+    };
+
+    const match = /^\/events(?:\/([^/?]+))?/.exec(req.url || '');
+    if (req.method === 'OPTIONS') {
+      return send(204);
+    }
+    if (!match) {
+      return send(404);
+    }
+    if (req.method === 'GET' && match[1]) {
+      const batches = Array.from(uploads.get(match[1])?.values() || []);
+      return send(
+        200,
+        batches
+          .sort((a, b) => a.seq - b.seq)
+          .reduce<uploadBatch['events']>((e, b) => e.concat(b.events), []),
+      );
+    }
+    if (req.method !== 'POST') {
+      return send(405);
+    }
+    if (
+      options.token &&
+      req.headers.authorization !== `Bearer ${options.token}`
+    ) {
+      return send(401);
+    }
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const batch = parseBatch(Buffer.concat(chunks));
+      if (!batch) {
+        return send(400);
+      }
+      if (!uploads.has(batch.id)) {
+        uploads.set(batch.id, new Map());
+      }
+      // the batches received twice are dropped
+      uploads.get(batch.id)!.set(batch.seq, batch);
+      send(204);
+    });
+  });
+
+  return { server, uploads };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 8787;
+  createIngestServer({ token: process.env.TOKEN })
+    .server.listen(port)
+    .on('listening', () => {
+      console.log(`Ingest server is listening on http://localhost:${port}`);
+    });
+}
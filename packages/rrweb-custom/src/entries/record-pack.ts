@@ -1,2 +1,4 @@
 export * from '../record/index';
+export { Recorder } from '../record/recorder';
 export * from '../packer/pack';
+export * from '../packer/stream-pack';
@@ -1,2 +1,3 @@
 export * from '../replay';
 export * from '../packer/unpack';
+export * from '../packer/stream-unpack';
@@ -1,5 +1,10 @@
 import record from './record';
+import { Recorder } from './record/recorder';
+import { BUDGET_REPORT_TAG } from './record/budget-manager';
+import { PersistentQueue } from './record/persistent-queue';
+import { Uploader } from './record/uploader';
 import { Replayer } from './replay';
+import { buildKeyframeIndex } from './replay/keyframe';
 import { _mirror } from './utils';
 import * as utils from './utils';
 
@@ -7,7 +12,9 @@ export {
   EventType,
   IncrementalSource,
   MouseInteractions,
+  KeyboardInteractions,
   ReplayerEvents,
+  CanvasContext,
 } from './types';
 
 const { addCustomEvent } = record;
@@ -15,9 +22,14 @@ const { freezePage } = record;
 
 export {
   record,
+  Recorder,
+  BUDGET_REPORT_TAG,
+  PersistentQueue,
+  Uploader,
   addCustomEvent,
   freezePage,
   Replayer,
+  buildKeyframeIndex,
   _mirror as mirror,
   utils,
 };
@@ -8,3 +8,36 @@ export type eventWithTimeAndPacker = eventWithTime & {
 };
 
 export const MARK = 'v1';
+
+export const STREAM_MARK = 'v2';
+
+/**
+ * A chunk of events packed by the stream packer.
+ * Strings in the events may be replaced by references to the dictionary,
+ * which is shared by all the chunks of a stream.
+ */
+export type packedChunk = {
+  v: string;
+  // sequence of the chunk in the stream, starts from 0
+  i: number;
+  // new entries of the dictionary
+  d: string[];
+  e: Array<unknown>;
+};
+
+export type StreamPackerOptions = {
+  // pack the buffered events into a chunk when the count reaches chunkSize
+  chunkSize?: number;
+};
+
+export type StreamPacker = {
+  // returns a chunk when the buffer is full
+  push(event: eventWithTime): string | null;
+  // pack all the buffered events, returns null if the buffer is empty
+  flush(): string | null;
+};
+
+export type StreamUnpacker = {
+  // decode plain, v1 and v2 data, chunks should be unpacked in order
+  unpack(raw: string): eventWithTime[];
+};
@@ -0,0 +1,185 @@
+/**
+ * Strings which appear in almost every recording, they are in the
+ * dictionary before any chunk is packed.
+ */
+const PRESET = [
+  'type',
+  'data',
+  'timestamp',
+  'source',
+  'positions',
+  'x',
+  'y',
+  'id',
+  'timeOffset',
+  'adds',
+  'removes',
+  'texts',
+  'attributes',
+  'parentId',
+  'nextId',
+  'node',
+  'tagName',
+  'childNodes',
+  'textContent',
+  'isStyle',
+  'isSVG',
+  'rootId',
+  'isShadow',
+  'isShadowHost',
+  'value',
+  'text',
+  'isChecked',
+  'href',
+  'width',
+  'height',
+  'initialOffset',
+  'top',
+  'left',
+  'style',
+  'class',
+  'src',
+  'rr_dataURL',
+  '_cssText',
+  'plugin',
+  'payload',
+  'level',
+  'trace',
+  'rule',
+  'index',
+  'property',
+  'args',
+  'setter',
+  'html',
+  'head',
+  'body',
+  'div',
+  'span',
+  'a',
+  'p',
+  'img',
+  'input',
+  'button',
+  'ul',
+  'li',
+  'svg',
+  'path',
+  'link',
+  'meta',
+  'script',
+];
+
+const REF = '~';
+const MIN_LENGTH = 2;
+const MAX_LENGTH = 128;
+const MAX_ENTRIES = 65536;
+const MAX_CANDIDATES = 65536;
+
+/**
+ * Replace the repeated strings of events with references to a dictionary.
+ * A string is added to the dictionary when it's seen for the second time.
+ */
+export class DictionaryEncoder {
+  private entries = new Map<string, number>();
+  private candidates = new Set<string>();
+  private newEntries: string[] = [];
+
+  constructor() {
+    PRESET.forEach((s, idx) => this.entries.set(s, idx));
+  }
+
+  public encode(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.encodeString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.encode(v));
+    }
+    if (value && typeof value === 'object') {
+      const encoded: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        encoded[this.encodeString(key)] = this.encode(
+          (value as Record<string, unknown>)[key],
+        );
+      }
+      return encoded;
+    }
+    return value;
+  }
+
+  /**
+   * Get the entries added since the last call.
+   */
+  public takeNewEntries(): string[] {
+    const newEntries = this.newEntries;
+    this.newEntries = [];
+    return newEntries;
+  }
+
+  private encodeString(s: string): string {
+    let idx = this.entries.get(s);
+    if (
+      idx === undefined &&
+      s.length >= MIN_LENGTH &&
+      s.length <= MAX_LENGTH &&
+      this.entries.size < MAX_ENTRIES
+    ) {
+      if (this.candidates.has(s)) {
+        this.candidates.delete(s);
+        idx = this.entries.size;
+        this.entries.set(s, idx);
+        this.newEntries.push(s);
+      } else {
+        if (this.candidates.size >= MAX_CANDIDATES) {
+          this.candidates.clear();
+        }
+        this.candidates.add(s);
+      }
+    }
+    if (idx !== undefined) {
+      return REF + idx.toString(36);
+    }
+    return s[0] === REF ? REF + s : s;
+  }
+}
+
+export class DictionaryDecoder {
+  private entries: string[] = PRESET.slice();
+
+  public addEntries(entries: string[]) {
+    this.entries.push(...entries);
+  }
+
+  public decode(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.decodeString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.decode(v));
+    }
+    if (value && typeof value === 'object') {
+      const decoded: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        decoded[this.decodeString(key)] = this.decode(
+          (value as Record<string, unknown>)[key],
+        );
+      }
+      return decoded;
+    }
+    return value;
+  }
+
+  private decodeString(s: string): string {
+    if (s[0] !== REF) {
+      return s;
+    }
+    if (s[1] === REF) {
+      return s.slice(1);
+    }
+    const entry = this.entries[parseInt(s.slice(1), 36)];
+    if (entry === undefined) {
+      throw new Error(`Unknown dictionary reference ${s}.`);
+    }
+    return entry;
+  }
+}
@@ -1,2 +1,4 @@
 export { pack } from './pack';
 export { unpack } from './unpack';
+export { createStreamPacker } from './stream-pack';
+export { createStreamUnpacker, unpackStream } from './stream-unpack';
@@ -0,0 +1,45 @@
+import { strFromU8, strToU8, zlibSync } from 'fflate';
+import {
+  STREAM_MARK,
+  StreamPacker,
+  StreamPackerOptions,
+  packedChunk,
+} from './base';
+import { DictionaryEncoder } from './dictionary';
+import { eventWithTime } from '../types';
+
+/**
+ * Create a packer which compresses a stream of events in chunks.
+ * The chunks should be unpacked in order by a stream unpacker.
+ */
+export function createStreamPacker(
+  options: StreamPackerOptions = {},
+): StreamPacker {
+  const { chunkSize = 50 } = options;
+  const encoder = new DictionaryEncoder();
+  let buffer: eventWithTime[] = [];
+  let sequence = 0;
+
+  const flush = () => {
+    if (!buffer.length) {
+      return null;
+    }
+    const e = buffer.map((event) => encoder.encode(event));
+    buffer = [];
+    const chunk: packedChunk = {
+      v: STREAM_MARK,
+      i: sequence++,
+      d: encoder.takeNewEntries(),
+      e,
+    };
+    return strFromU8(zlibSync(strToU8(JSON.stringify(chunk))), true);
+  };
+
+  return {
+    push(event) {
+      buffer.push(event);
+      return buffer.length >= chunkSize ? flush() : null;
+    },
+    flush,
+  };
+}
@@ -0,0 +1,75 @@
+import { strFromU8, strToU8, unzlibSync } from 'fflate';
+import {
+  MARK,
+  STREAM_MARK,
+  StreamUnpacker,
+  eventWithTimeAndPacker,
+  packedChunk,
+} from './base';
+import { DictionaryDecoder } from './dictionary';
+import { eventWithTime } from '../types';
+
+/**
+ * Create an unpacker which decodes the chunks of a stream packer.
+ * It also accepts events packed by `pack` and plain events.
+ */
+export function createStreamUnpacker(): StreamUnpacker {
+  let decoder = new DictionaryDecoder();
+  let sequence = 0;
+
+  return {
+    unpack(raw) {
+      if (typeof raw !== 'string') {
+        return [raw];
+      }
+      try {
+        const e: eventWithTime = JSON.parse(raw);
+        if (e.timestamp) {
+          return [e];
+        }
+      } catch (error) {
+        // ignore and continue
+      }
+      let data: eventWithTimeAndPacker | packedChunk;
+      try {
+        data = JSON.parse(strFromU8(unzlibSync(strToU8(raw, true))));
+      } catch {
+        throw new Error('Unknown data format.');
+      }
+      if (data.v === MARK) {
+        return [data as eventWithTimeAndPacker];
+      }
+      if (data.v !== STREAM_MARK) {
+        throw new Error(
+          `These events were packed with packer ${data.v} which is incompatible with current packer ${STREAM_MARK}.`,
+        );
+      }
+      const chunk = data as packedChunk;
+      if (chunk.i === 0) {
+        // a new stream starts
+        decoder = new DictionaryDecoder();
+        sequence = 0;
+      }
+      if (chunk.i !== sequence) {
+        throw new Error(
+          `Expect chunk ${sequence} of the stream but got chunk ${chunk.i}.`,
+        );
+      }
+      sequence++;
+      decoder.addEntries(chunk.d);
+      return chunk.e.map((e) => decoder.decode(e) as eventWithTime);
+    },
+  };
+}
+
+/**
+ * Unpack all the chunks of a stream in order.
+ */
+export function unpackStream(raws: string[]): eventWithTime[] {
+  const unpacker = createStreamUnpacker();
+  const events: eventWithTime[] = [];
+  for (const raw of raws) {
+    events.push(...unpacker.unpack(raw));
+  }
+  return events;
+}
@@ -7,10 +7,10 @@
  * 3. StackFrame contains some functions we don't need.
  */
 export class StackFrame {
-  private fileName: string;
-  private functionName: string;
-  private lineNumber?: number;
-  private columnNumber?: number;
+  public fileName: string;
+  public functionName: string;
+  public lineNumber?: number;
+  public columnNumber?: number;
 
   constructor(obj: {
     fileName?: string;
@@ -1,3 +1,4 @@
+import { INode } from 'rrweb-snapshot';
 import { listenerHandler, RecordPlugin } from '../../../types';
 import { stringify } from './stringify';
 import { StackFrame, ErrorStackParser } from './error-stack-parser';
@@ -46,10 +47,39 @@ const defaultLogOptions: LogRecordOptions = {
   logger: console,
 };
 
+/**
+ * the source of a log record, console calls have no kind
+ * so that they are compatible with the records of older versions
+ */
+export type LogKind = 'error' | 'unhandledrejection' | 'resource';
+
+export type StackFrameData = {
+  fileName: string;
+  functionName: string;
+  lineNumber?: number;
+  columnNumber?: number;
+};
+
+export type ErrorData = {
+  name: string;
+  message: string;
+  stack: StackFrameData[];
+};
+
+export type ResourceData = {
+  // mirror id of the element which failed to load the resource
+  id: number;
+  tagName: string;
+  url: string;
+};
+
 export type LogData = {
   level: LogLevel;
   trace: string[];
   payload: string[];
+  kind?: LogKind;
+  error?: ErrorData;
+  resource?: ResourceData;
 };
 
 type logCallback = (p: LogData) => void;
@@ -99,6 +129,34 @@ export type Logger = {
   warn?: typeof console.warn;
 };
 
+function parseStack(error: Error | undefined): StackFrame[] {
+  try {
+    return error ? ErrorStackParser.parse(error) : [];
+  } catch {
+    // the error has no stack, e.g. a thrown string
+    return [];
+  }
+}
+
+function toErrorData(
+  error: Error | undefined,
+  message: string,
+  stack: StackFrame[],
+): ErrorData {
+  return {
+    name: error?.name || 'Error',
+    message: error ? error.message : message,
+    stack: stack.map(
+      ({ fileName, functionName, lineNumber, columnNumber }) => ({
+        fileName,
+        functionName,
+        lineNumber,
+        columnNumber,
+      }),
+    ),
+  };
+}
+
 function initLogObserver(
   cb: logCallback,
   logOptions: LogRecordOptions,
@@ -123,19 +181,74 @@ function initLogObserver(
         if (originalOnError) {
           originalOnError.apply(this, [msg, file, line, col, error]);
         }
-        const trace: string[] = ErrorStackParser.parse(
-          error,
-        ).map((stackFrame: StackFrame) => stackFrame.toString());
+        const stack = parseStack(error);
         const payload = [stringify(msg, logOptions.stringifyOptions)];
         cb({
           level: 'error',
-          trace,
+          trace: stack.map((stackFrame) => stackFrame.toString()),
           payload,
+          kind: 'error',
+          error: toErrorData(error, String(msg), stack),
         });
       };
       cancelHandlers.push(() => {
         window.onerror = originalOnError;
       });
+
+      const onUnhandledRejection = (event: PromiseRejectionEvent) => {
+        const { reason } = event;
+        const error = reason instanceof Error ? reason : undefined;
+        const stack = parseStack(error);
+        cb({
+          level: 'error',
+          trace: stack.map((stackFrame) => stackFrame.toString()),
+          payload: [stringify(reason, logOptions.stringifyOptions)],
+          kind: 'unhandledrejection',
+          error: toErrorData(
+            error,
+            stringify(reason, logOptions.stringifyOptions),
+            stack,
+          ),
+        });
+      };
+      window.addEventListener('unhandledrejection', onUnhandledRejection);
+      cancelHandlers.push(() => {
+        window.removeEventListener('unhandledrejection', onUnhandledRejection);
+      });
+
+      // errors of resources are not bubbled, so they are listened in the capture phase
+      const onResourceError = (event: Event) => {
+        const target = event.target as Element | null;
+        if (!target || !('tagName' in target)) {
+          // thrown errors are handled by window.onerror
+          return;
+        }
+        const url =
+          (target as HTMLImageElement).currentSrc ||
+          target.getAttribute('src') ||
+          target.getAttribute('href') ||
+          '';
+        cb({
+          level: 'error',
+          trace: [],
+          payload: [
+            stringify(
+              `Failed to load resource: ${url}`,
+              logOptions.stringifyOptions,
+            ),
+          ],
+          kind: 'resource',
+          resource: {
+            id: ((target as unknown) as INode).__sn?.id ?? -1,
+            tagName: target.tagName.toLowerCase(),
+            url,
+          },
+        });
+      };
+      window.addEventListener('error', onResourceError, true);
+      cancelHandlers.push(() => {
+        window.removeEventListener('error', onResourceError, true);
+      });
     }
   }
   for (const levelType of logOptions.level!) {
@@ -69,10 +69,7 @@ class LogReplayPlugin {
                 ORIGINAL_ATTRIBUTE_NAME
               ]
             : console.log;
-          logger(
-            ...data.payload.map((s) => JSON.parse(s)),
-            this.formatMessage(data),
-          );
+          logger(...this.formatPayload(data), this.formatMessage(data));
         };
       } else {
         replayLogger[level] = (data: LogData) => {
@@ -83,16 +80,33 @@ class LogReplayPlugin {
                 ORIGINAL_ATTRIBUTE_NAME
               ]
             : console[level];
-          logger(
-            ...data.payload.map((s) => JSON.parse(s)),
-            this.formatMessage(data),
-          );
+          logger(...this.formatPayload(data), this.formatMessage(data));
         };
       }
     }
     return replayLogger;
   }
 
+  /**
+   * parse the payload and describe the source of errors
+   * @param data the log data
+   */
+  private formatPayload(data: LogData): Array<unknown> {
+    const payload = data.payload.map((s) => JSON.parse(s) as unknown);
+    switch (data.kind) {
+      case 'error':
+        return ['Uncaught', ...payload];
+      case 'unhandledrejection':
+        return ['Uncaught (in promise)', ...payload];
+      case 'resource':
+        return data.resource
+          ? [...payload, `<${data.resource.tagName}> #${data.resource.id}`]
+          : payload;
+      default:
+        return payload;
+    }
+  }
+
   /**
    * format the trace data to a string
    * @param data the log data
@@ -0,0 +1,453 @@
+import { listenerHandler, RecordPlugin } from '../../../types';
+import { patch } from '../../../utils';
+
+export type InitiatorType = 'fetch' | 'xmlhttprequest';
+
+export type NetworkHeaders = Record<string, string>;
+
+export type NetworkRequest = {
+  initiatorType: InitiatorType;
+  method: string;
+  url: string;
+  // 0 if the request failed before receiving a response
+  status: number;
+  // timestamps of the start and the end of the request
+  startTime: number;
+  endTime: number;
+  // sizes of the bodies in bytes, if they are known
+  requestSize?: number;
+  responseSize?: number;
+  requestHeaders?: NetworkHeaders;
+  responseHeaders?: NetworkHeaders;
+  requestBody?: string;
+  responseBody?: string;
+  // message of the error which made the request fail
+  error?: string;
+};
+
+type networkCallback = (p: NetworkRequest) => void;
+
+type NetworkRecordOptions = {
+  initiatorTypes?: InitiatorType[];
+  recordHeaders?: boolean;
+  recordBody?: boolean;
+  // limit of body length, longer bodies will be truncated
+  bodyLengthLimit?: number;
+  /**
+   * names of the headers whose values will be masked,
+   * they are compared in lower case
+   */
+  maskHeaders?: string[];
+  // return true to skip recording the request, e.g. uploading of events
+  ignoreRequestFn?: (url: string) => boolean;
+  /**
+   * redact the request before it's recorded,
+   * return null to skip recording the request
+   */
+  maskRequestFn?: (request: NetworkRequest) => NetworkRequest | null;
+  win?: Window;
+};
+
+const defaultNetworkOptions: NetworkRecordOptions = {
+  initiatorTypes: ['fetch', 'xmlhttprequest'],
+  recordHeaders: false,
+  recordBody: false,
+  bodyLengthLimit: 10000,
+  maskHeaders: ['authorization', 'cookie', 'proxy-authorization', 'set-cookie'],
+};
+
+// windows whose network APIs are patched by the plugin
+const patchedWindows: Set<Window> = new Set();
+
+function toAbsoluteUrl(url: string, win: Window): string {
+  try {
+    return new URL(url, win.location.href).href;
+  } catch {
+    return url;
+  }
+}
+
+function getBodySize(body: unknown): number | undefined {
+  if (typeof body === 'string') {
+    return new Blob([body]).size;
+  }
+  if (body instanceof Blob) {
+    return body.size;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (body instanceof URLSearchParams) {
+    return new Blob([body.toString()]).size;
+  }
+  return undefined;
+}
+
+function stringifyBody(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (body instanceof URLSearchParams) {
+    return body.toString();
+  }
+  if (body === null || body === undefined) {
+    return undefined;
+  }
+  // binary data and form data are not recorded
+  return `[${Object.prototype.toString.call(body).slice(8, -1)}]`;
+}
+
+// the content types whose bodies are recorded as text
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|x-www-form-urlencoded|graphql/i;
+
+type bodyText = {
+  text: string;
+  // the size in bytes, if the whole body is read
+  size?: number;
+};
+
+/**
+ * read the text of a body up to the limit, the rest is not downloaded
+ */
+function readBodyText(
+  body: Request | Response,
+  limit: number,
+): Promise<bodyText | undefined> {
+  if (!body.body) {
+    return Promise.resolve(undefined);
+  }
+  const contentType = body.headers.get('content-type');
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) {
+    // binary bodies are recorded as their types
+    void body.body.cancel();
+    return Promise.resolve({ text: `[${contentType}]` });
+  }
+  const reader = body.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  const read = (): Promise<bodyText> =>
+    reader.read().then(({ done, value }) => {
+      if (done) {
+        return { text: text + decoder.decode(), size };
+      }
+      size += value!.byteLength;
+      text += decoder.decode(value, { stream: true });
+      if (text.length >= limit) {
+        void reader.cancel();
+        return { text };
+      }
+      return read();
+    });
+  return read();
+}
+
+/**
+ * parse the headers from the result of getAllResponseHeaders
+ */
+function parseHeaders(raw: string): NetworkHeaders {
+  const headers: NetworkHeaders = {};
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line
+        .slice(colon + 1)
+        .trim();
+    }
+  }
+  return headers;
+}
+
+function initNetworkObserver(
+  cb: networkCallback,
+  options: NetworkRecordOptions,
+): listenerHandler {
+  const win = options.win || window;
+  if (patchedWindows.has(win)) {
+    // the observer is initialized for each document, e.g. same-origin iframes
+    return () => {};
+  }
+  patchedWindows.add(win);
+
+  const maskHeaders = options.maskHeaders!.map((name) => name.toLowerCase());
+  const limit = options.bodyLengthLimit!;
+
+  const normalizeHeaders = (headers: NetworkHeaders): NetworkHeaders => {
+    const normalized: NetworkHeaders = {};
+    for (const name of Object.keys(headers)) {
+      const key = name.toLowerCase();
+      normalized[key] = maskHeaders.includes(key)
+        ? '*'.repeat(headers[name].length)
+        : headers[name];
+    }
+    return normalized;
+  };
+
+  const truncate = (body: string | undefined) =>
+    body !== undefined && body.length > limit ? body.slice(0, limit) : body;
+
+  const emit = (request: NetworkRequest) => {
+    if (options.recordHeaders) {
+      request.requestHeaders = normalizeHeaders(request.requestHeaders || {});
+      request.responseHeaders = normalizeHeaders(request.responseHeaders || {});
+    } else {
+      delete request.requestHeaders;
+      delete request.responseHeaders;
+    }
+    if (options.recordBody) {
+      request.requestBody = truncate(request.requestBody);
+      request.responseBody = truncate(request.responseBody);
+    } else {
+      delete request.requestBody;
+      delete request.responseBody;
+    }
+    const masked = options.maskRequestFn
+      ? options.maskRequestFn(request)
+      : request;
+    if (masked) {
+      cb(masked);
+    }
+  };
+
+  const shouldRecord = (url: string) =>
+    !options.ignoreRequestFn || !options.ignoreRequestFn(url);
+
+  const restoreHandlers: listenerHandler[] = [];
+  if (options.initiatorTypes!.includes('fetch')) {
+    restoreHandlers.push(initFetchObserver(win, emit, shouldRecord, options));
+  }
+  if (options.initiatorTypes!.includes('xmlhttprequest')) {
+    restoreHandlers.push(initXhrObserver(win, emit, shouldRecord, options));
+  }
+  return () => {
+    restoreHandlers.forEach((h) => h());
+    patchedWindows.delete(win);
+  };
+}
+
+function initFetchObserver(
+  win: Window,
+  emit: networkCallback,
+  shouldRecord: (url: string) => boolean,
+  options: NetworkRecordOptions,
+): listenerHandler {
+  const limit = options.bodyLengthLimit!;
+  return patch(win, 'fetch', (original: typeof fetch) => {
+    return (input: RequestInfo, init?: RequestInit) => {
+      const isRequest = typeof input !== 'string' && 'url' in input;
+      const url = toAbsoluteUrl(
+        isRequest ? (input as Request).url : String(input),
+        win,
+      );
+      if (!shouldRecord(url)) {
+        return original.call(win, input, init);
+      }
+      const requestHeaders: NetworkHeaders = {};
+      new Headers(
+        init?.headers || (isRequest ? (input as Request).headers : undefined),
+      ).forEach((value, name) => {
+        requestHeaders[name] = value;
+      });
+      const request: NetworkRequest = {
+        initiatorType: 'fetch',
+        method: (
+          init?.method || (isRequest ? (input as Request).method : 'GET')
+        ).toUpperCase(),
+        url,
+        status: 0,
+        startTime: Date.now(),
+        endTime: 0,
+        requestSize: getBodySize(init?.body),
+        requestHeaders,
+        requestBody: stringifyBody(init?.body),
+      };
+      const bodyReads: Array<Promise<void>> = [];
+      const readBody = (
+        body: Request | Response,
+        onRead: (body: bodyText) => void,
+      ) => {
+        bodyReads.push(
+          // read from a clone, so the page can still consume the body
+          readBodyText(body.clone(), limit).then(
+            (result) => {
+              if (result) {
+                onRead(result);
+              }
+            },
+            (error: Error) => {
+              request.error = String(error);
+            },
+          ),
+        );
+      };
+      if (options.recordBody && isRequest && init?.body === undefined) {
+        // the body of the request is consumed by fetch
+        readBody(input as Request, ({ text, size }) => {
+          request.requestBody = text;
+          request.requestSize = size;
+        });
+      }
+      const done = () => {
+        const finish = () => {
+          request.endTime = Date.now();
+          emit(request);
+        };
+        if (bodyReads.length) {
+          Promise.all(bodyReads).then(finish);
+        } else {
+          finish();
+        }
+      };
+      return original.call(win, input, init).then(
+        (response: Response) => {
+          request.status = response.status;
+          request.responseHeaders = {};
+          response.headers.forEach((value: string, name: string) => {
+            request.responseHeaders![name] = value;
+          });
+          const contentLength = response.headers.get('content-length');
+          if (contentLength !== null) {
+            request.responseSize = Number(contentLength);
+          }
+          if (options.recordBody) {
+            readBody(response, ({ text, size }) => {
+              request.responseBody = text;
+              if (request.responseSize === undefined) {
+                request.responseSize = size;
+              }
+            });
+          }
+          done();
+          return response;
+        },
+        (error: Error) => {
+          request.error = String(error);
+          done();
+          throw error;
+        },
+      );
+    };
+  });
+}
+
+type xhrState = {
+  method: string;
+  url: string;
+  requestHeaders: NetworkHeaders;
+};
+
+function initXhrObserver(
+  win: Window,
+  emit: networkCallback,
+  shouldRecord: (url: string) => boolean,
+  options: NetworkRecordOptions,
+): listenerHandler {
+  // tslint:disable-next-line: variable-name
+  const XHR = (win as Window & { XMLHttpRequest?: typeof XMLHttpRequest })
+    .XMLHttpRequest;
+  if (!XHR) {
+    return () => {};
+  }
+  const states: WeakMap<XMLHttpRequest, xhrState> = new WeakMap();
+  const restoreHandlers: listenerHandler[] = [
+    patch(XHR.prototype, 'open', (original: XMLHttpRequest['open']) => {
+      return function (
+        this: XMLHttpRequest,
+        method: string,
+        url: string | URL,
+        ...args: Array<unknown>
+      ) {
+        states.set(this, {
+          method: method.toUpperCase(),
+          url: toAbsoluteUrl(String(url), win),
+          requestHeaders: {},
+        });
+        return (original as (...args: Array<unknown>) => void).call(
+          this,
+          method,
+          url,
+          ...args,
+        );
+      };
+    }),
+    patch(
+      XHR.prototype,
+      'setRequestHeader',
+      (original: XMLHttpRequest['setRequestHeader']) => {
+        return function (this: XMLHttpRequest, name: string, value: string) {
+          const state = states.get(this);
+          if (state) {
+            state.requestHeaders[name] = value;
+          }
+          return original.call(this, name, value);
+        };
+      },
+    ),
+    patch(XHR.prototype, 'send', (original: XMLHttpRequest['send']) => {
+      return function (
+        this: XMLHttpRequest,
+        body?: Document | BodyInit | null,
+      ) {
+        const state = states.get(this);
+        if (state && shouldRecord(state.url)) {
+          const request: NetworkRequest = {
+            initiatorType: 'xmlhttprequest',
+            method: state.method,
+            url: state.url,
+            status: 0,
+            startTime: Date.now(),
+            endTime: 0,
+            requestSize: getBodySize(body),
+            requestHeaders: state.requestHeaders,
+            requestBody: stringifyBody(body),
+          };
+          const onError = (event: Event) => {
+            request.error = event.type;
+          };
+          this.addEventListener('error', onError);
+          this.addEventListener('abort', onError);
+          this.addEventListener('timeout', onError);
+          this.addEventListener('loadend', () => {
+            request.endTime = Date.now();
+            request.status = this.status;
+            request.responseHeaders = parseHeaders(
+              this.getAllResponseHeaders(),
+            );
+            const { responseType, response } = this;
+            if (responseType === '' || responseType === 'text') {
+              request.responseSize = getBodySize(this.responseText);
+              if (options.recordBody) {
+                request.responseBody = this.responseText;
+              }
+            } else {
+              request.responseSize = getBodySize(response);
+              if (options.recordBody) {
+                request.responseBody =
+                  responseType === 'json'
+                    ? JSON.stringify(response)
+                    : stringifyBody(response);
+              }
+            }
+            emit(request);
+          });
+        }
+        return original.call(this, body);
+      };
+    }),
+  ];
+  return () => {
+    restoreHandlers.forEach((h) => h());
+  };
+}
+
+export const PLUGIN_NAME = 'rrweb/network@1';
+
+export const getRecordNetworkPlugin: (
+  options?: NetworkRecordOptions,
+) => RecordPlugin = (options) => ({
+  name: PLUGIN_NAME,
+  observer: initNetworkObserver,
+  options: options
+    ? Object.assign({}, defaultNetworkOptions, options)
+    : defaultNetworkOptions,
+});
@@ -0,0 +1,96 @@
+import { NetworkRequest, PLUGIN_NAME } from '../record';
+import {
+  eventWithTime,
+  EventType,
+  pluginEvent,
+  ReplayPlugin,
+} from '../../../types';
+
+type NetworkReplayConfig = {
+  /**
+   * called with the requests which have finished until the current time
+   * of the replay, it can be used to render a network panel
+   */
+  onChange?: (requests: NetworkRequest[]) => void;
+  /**
+   * called when a request is replayed in normal playback,
+   * the requests replayed by seeking are not included
+   */
+  onRequest?: (request: NetworkRequest) => void;
+};
+
+const ORIGINAL_ATTRIBUTE_NAME = '__rrweb_original__';
+type PatchedConsoleLog = {
+  [ORIGINAL_ATTRIBUTE_NAME]: typeof console.log;
+};
+
+/**
+ * print the request to the console, which is the default onRequest
+ */
+function logRequest(request: NetworkRequest) {
+  const logger = ((console.log as unknown) as PatchedConsoleLog)[
+    ORIGINAL_ATTRIBUTE_NAME
+  ]
+    ? ((console.log as unknown) as PatchedConsoleLog)[ORIGINAL_ATTRIBUTE_NAME]
+    : console.log;
+  const status = request.error || request.status;
+  logger(
+    `[network] ${request.method} ${request.url} ${status} (${
+      request.endTime - request.startTime
+    }ms)`,
+  );
+}
+
+function isNetworkEvent(event: eventWithTime): boolean {
+  return event.type === EventType.Plugin && event.data.plugin === PLUGIN_NAME;
+}
+
+export const getReplayNetworkPlugin: (
+  options?: NetworkReplayConfig,
+) => ReplayPlugin = (options = {}) => {
+  const onRequest =
+    options.onRequest || (options.onChange ? undefined : logRequest);
+  let networkEvents: eventWithTime[] = [];
+  let eventCount = -1;
+  let requestCount = -1;
+
+  return {
+    handler(event: eventWithTime, isSync, { replayer }) {
+      const { events } = replayer.service.state.context;
+      if (events.length !== eventCount) {
+        eventCount = events.length;
+        networkEvents = events.filter(isNetworkEvent);
+      }
+      if (isNetworkEvent(event) && !isSync && onRequest) {
+        onRequest(
+          (event.data as pluginEvent['data']).payload as NetworkRequest,
+        );
+      }
+      if (!options.onChange) {
+        return;
+      }
+      // the replayer may cast events of an earlier time after seeking back
+      let start = 0;
+      let end = networkEvents.length;
+      while (start < end) {
+        const mid = Math.floor((start + end) / 2);
+        if (networkEvents[mid].timestamp <= event.timestamp) {
+          start = mid + 1;
+        } else {
+          end = mid;
+        }
+      }
+      const count = start;
+      if (count !== requestCount) {
+        requestCount = count;
+        options.onChange(
+          networkEvents
+            .slice(0, count)
+            .map(
+              (e) => (e.data as pluginEvent['data']).payload as NetworkRequest,
+            ),
+        );
+      }
+    },
+  };
+};
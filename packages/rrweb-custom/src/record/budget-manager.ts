@@ -0,0 +1,226 @@
+import {
+  budgetLimit,
+  budgetOptions,
+  budgetReport,
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+  incrementalSnapshotEvent,
+} from '../types';
+
+export const BUDGET_REPORT_TAG = 'rrweb/budget';
+
+const WINDOW = 1000;
+
+// the events of these sources can be replaced by the last one of the target
+const COALESCIBLE_SOURCES = [
+  IncrementalSource.MouseMove,
+  IncrementalSource.TouchMove,
+  IncrementalSource.Drag,
+  IncrementalSource.Scroll,
+  IncrementalSource.ViewportResize,
+  IncrementalSource.Input,
+  IncrementalSource.MediaInteraction,
+  IncrementalSource.CanvasFrame,
+  IncrementalSource.Selection,
+  IncrementalSource.VisualViewport,
+];
+
+// the events of the other sources change the page, e.g. mutations, dropping
+// them makes the replay diverge, so the recording is resumed by a checkout
+const DROPPABLE_SOURCES = COALESCIBLE_SOURCES.concat([
+  IncrementalSource.MouseInteraction,
+  IncrementalSource.Log,
+  IncrementalSource.Keyboard,
+  IncrementalSource.Pointer,
+]);
+
+type incrementalEvent = incrementalSnapshotEvent & { timestamp: number };
+
+type usage = {
+  events: number;
+  bytes: number;
+};
+
+function isOverLimit(u: usage, limit: budgetLimit | undefined) {
+  return Boolean(
+    limit &&
+      ((limit.eventsPerSecond !== undefined &&
+        u.events > limit.eventsPerSecond) ||
+        (limit.bytesPerSecond !== undefined && u.bytes > limit.bytesPerSecond)),
+  );
+}
+
+function increase(
+  counts: Partial<Record<IncrementalSource, number>>,
+  source: IncrementalSource,
+) {
+  counts[source] = (counts[source] || 0) + 1;
+}
+
+/**
+ * Limit the throughput of the incremental snapshots by the budget, the
+ * usage is counted in windows of one second.
+ */
+export class BudgetManager {
+  private options: budgetOptions;
+  private emit: (e: eventWithTime) => void;
+  private checkout: () => void;
+  private windowStart = 0;
+  private total: usage = { events: 0, bytes: 0 };
+  private sources: Map<IncrementalSource, usage> = new Map();
+  private coalescedEvents: Map<string, incrementalEvent> = new Map();
+  private checkoutPending = false;
+  private releasing = false;
+  private report: budgetReport = { dropped: {}, coalesced: {}, checkouts: 0 };
+  private windowTimer: ReturnType<typeof setTimeout> | null = null;
+  private reportTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: {
+    budget: budgetOptions;
+    emit: (e: eventWithTime) => void;
+    checkout: () => void;
+    reportCb: (report: budgetReport) => void;
+  }) {
+    this.options = options.budget;
+    this.emit = options.emit;
+    this.checkout = options.checkout;
+    const { reportInterval = 10000 } = this.options;
+    this.reportTimer = setInterval(() => {
+      const { dropped, coalesced, checkouts } = this.report;
+      if (
+        Object.keys(dropped).length ||
+        Object.keys(coalesced).length ||
+        checkouts
+      ) {
+        options.reportCb(this.report);
+        this.report = { dropped: {}, coalesced: {}, checkouts: 0 };
+      }
+    }, reportInterval);
+  }
+
+  /**
+   * returns false if the event is over the budget, it's dropped or will be
+   * emitted later
+   */
+  public admit(e: eventWithTime): boolean {
+    if (
+      this.releasing ||
+      e.type !== EventType.IncrementalSnapshot ||
+      // attaching an iframe is a full snapshot of the iframe
+      (e.data.source === IncrementalSource.Mutation && e.data.isAttachIframe)
+    ) {
+      return true;
+    }
+    const { source } = e.data;
+    if (e.timestamp - this.windowStart >= WINDOW && !this.windowTimer) {
+      this.resetWindow(e.timestamp);
+    }
+    if (this.checkoutPending) {
+      increase(this.report.dropped, source);
+      return false;
+    }
+    const sourceLimit = this.options.sources?.[source];
+    const bytes =
+      this.options.total?.bytesPerSecond !== undefined ||
+      sourceLimit?.bytesPerSecond !== undefined
+        ? JSON.stringify(e).length
+        : 0;
+    const sourceUsage = this.sources.get(source) || { events: 0, bytes: 0 };
+    this.sources.set(source, sourceUsage);
+    const total = {
+      events: this.total.events + 1,
+      bytes: this.total.bytes + bytes,
+    };
+    const next = {
+      events: sourceUsage.events + 1,
+      bytes: sourceUsage.bytes + bytes,
+    };
+    const { maxMutationBatchSize } = this.options;
+    const isBatchTooLarge =
+      e.data.source === IncrementalSource.Mutation &&
+      maxMutationBatchSize !== undefined &&
+      e.data.adds.length +
+        e.data.removes.length +
+        e.data.texts.length +
+        e.data.attributes.length >
+        maxMutationBatchSize;
+    if (
+      !isBatchTooLarge &&
+      !isOverLimit(total, this.options.total) &&
+      !isOverLimit(next, sourceLimit)
+    ) {
+      this.total = total;
+      Object.assign(sourceUsage, next);
+      return true;
+    }
+    this.overflow(e, source);
+    return false;
+  }
+
+  public stop() {
+    if (this.windowTimer) {
+      clearTimeout(this.windowTimer);
+    }
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+    }
+    this.windowTimer = this.reportTimer = null;
+    this.coalescedEvents.clear();
+  }
+
+  private overflow(e: incrementalEvent, source: IncrementalSource) {
+    const { overflow = 'drop' } = this.options;
+    if (overflow === 'checkout' || DROPPABLE_SOURCES.indexOf(source) === -1) {
+      this.checkoutPending = true;
+      // the coalesced events are taken by the checkout
+      this.coalescedEvents.forEach((coalesced) =>
+        increase(this.report.dropped, coalesced.data.source),
+      );
+      this.coalescedEvents.clear();
+      increase(this.report.dropped, source);
+    } else if (
+      overflow === 'coalesce' &&
+      COALESCIBLE_SOURCES.indexOf(source) !== -1
+    ) {
+      const { id } = e.data as { id?: number };
+      const key = `${source}-${id ?? ''}`;
+      if (this.coalescedEvents.has(key)) {
+        increase(this.report.coalesced, source);
+        this.coalescedEvents.delete(key);
+      }
+      this.coalescedEvents.set(key, e);
+    } else {
+      increase(this.report.dropped, source);
+      return;
+    }
+    if (!this.windowTimer) {
+      this.windowTimer = setTimeout(
+        () => this.endWindow(),
+        this.windowStart + WINDOW - Date.now(),
+      );
+    }
+  }
+
+  private endWindow() {
+    this.windowTimer = null;
+    this.resetWindow(Date.now());
+    if (this.checkoutPending) {
+      this.checkoutPending = false;
+      this.report.checkouts++;
+      this.checkout();
+      return;
+    }
+    const events = Array.from(this.coalescedEvents.values());
+    this.coalescedEvents.clear();
+    this.releasing = true;
+    events.forEach((e) => this.emit(e));
+    this.releasing = false;
+  }
+
+  private resetWindow(timestamp: number) {
+    this.windowStart = timestamp;
+    this.total = { events: 0, bytes: 0 };
+    this.sources.clear();
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  bufferOptions,
+  EventType,
+  eventWithTime,
+  listenerHandler,
+} from '../types';
+import { on } from '../utils';
+
+type bufferedEvent = {
+  event: eventWithTime;
+  isCheckout?: boolean;
+};
+
+/**
+ * Keep the last checkout segments of a recording in memory and emit them
+ * only when a trigger fires. Each segment but the first one of the buffer
+ * starts at the Meta and FullSnapshot events of a checkout, so the flushed
+ * events can be replayed, or continue the events flushed before.
+ */
+export class BufferManager {
+  private emit: (e: eventWithTime, isCheckout?: boolean) => void;
+  private segments: bufferedEvent[][] = [];
+  private maxSegments: number;
+  private triggerTags: string[];
+  private handlers: listenerHandler[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: {
+    buffer: bufferOptions;
+    emit: (e: eventWithTime, isCheckout?: boolean) => void;
+  }) {
+    const {
+      segments = 2,
+      flushOnError = true,
+      flushOnCustomEvents = [],
+    } = options.buffer;
+    this.emit = options.emit;
+    this.maxSegments = Math.max(segments, 1);
+    this.triggerTags = flushOnCustomEvents;
+    if (flushOnError) {
+      // flushed in the next task, so the events of the error are included
+      const scheduleFlush = () => {
+        if (!this.flushTimer) {
+          this.flushTimer = setTimeout(() => this.flush(), 0);
+        }
+      };
+      this.handlers.push(
+        on(
+          'error',
+          (event) => {
+            // the load errors of the resources are also captured by window
+            if (event.target === window) {
+              scheduleFlush();
+            }
+          },
+          window,
+        ),
+        on('unhandledrejection', scheduleFlush, window),
+      );
+    }
+  }
+
+  public push(e: eventWithTime, isCheckout?: boolean) {
+    if (!this.segments.length || (e.type === EventType.Meta && isCheckout)) {
+      this.segments.push([]);
+      if (this.segments.length > this.maxSegments) {
+        this.segments.shift();
+      }
+    }
+    this.segments[this.segments.length - 1].push({ event: e, isCheckout });
+    if (
+      e.type === EventType.Custom &&
+      this.triggerTags.indexOf(e.data.tag) !== -1
+    ) {
+      this.flush();
+    }
+  }
+
+  public flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const segments = this.segments;
+    this.segments = [];
+    for (const segment of segments) {
+      for (const { event, isCheckout } of segment) {
+        this.emit(event, isCheckout);
+      }
+    }
+  }
+
+  public stop() {
+    this.handlers.forEach((h) => h());
+    this.handlers = [];
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.segments = [];
+  }
+}
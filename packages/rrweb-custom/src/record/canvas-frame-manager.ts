@@ -0,0 +1,157 @@
+import { INode, PrivacyEngine } from 'rrweb-snapshot';
+import {
+  blockClass,
+  canvasFrameCallback,
+  dataURLOptions,
+  Mirror,
+} from '../types';
+import { isBlocked } from '../utils';
+import {
+  createFrameWorker,
+  frameRequest,
+  frameResponse,
+} from './canvas/frame-worker';
+
+type frameWindow = Pick<
+  Window,
+  'document' | 'requestAnimationFrame' | 'cancelAnimationFrame'
+>;
+
+/**
+ * Record the bitmaps of the canvases at a fixed rate, instead of recording
+ * every call to the canvas apis. The bitmaps are encoded in a worker when
+ * it's supported, otherwise on the main thread.
+ */
+export class CanvasFrameManager {
+  private canvasFrameCb: canvasFrameCallback;
+  private win: frameWindow;
+  private mirror: Mirror;
+  private blockClass: blockClass;
+  private privacyEngine: PrivacyEngine;
+  private fps: number;
+  private dataURLOptions: dataURLOptions;
+  private worker: Worker | null = null;
+  // ids of the canvases whose bitmaps are being encoded in the worker
+  private pendingIds: Set<number> = new Set();
+  // encoded on the main thread, the worker keeps its own
+  private lastDataURLs: Map<number, string> = new Map();
+  private lastFrameTime = 0;
+  private rafId = 0;
+
+  constructor(options: {
+    canvasFrameCb: canvasFrameCallback;
+    win: frameWindow;
+    mirror: Mirror;
+    blockClass: blockClass;
+    privacyEngine: PrivacyEngine;
+    fps: number;
+    dataURLOptions: dataURLOptions;
+  }) {
+    this.canvasFrameCb = options.canvasFrameCb;
+    this.win = options.win;
+    this.mirror = options.mirror;
+    this.blockClass = options.blockClass;
+    this.privacyEngine = options.privacyEngine;
+    this.fps = options.fps;
+    this.dataURLOptions = options.dataURLOptions;
+    this.worker = createFrameWorker();
+    if (this.worker) {
+      this.worker.onmessage = (e: MessageEvent) =>
+        this.handleResponse(e.data as frameResponse);
+      // e.g. the blob url is blocked by the content security policy
+      this.worker.onerror = () => this.stopWorker();
+    }
+    this.rafId = this.win.requestAnimationFrame(this.onFrame);
+  }
+
+  public stop() {
+    this.win.cancelAnimationFrame(this.rafId);
+    this.stopWorker();
+  }
+
+  private onFrame = (timestamp: number) => {
+    this.rafId = this.win.requestAnimationFrame(this.onFrame);
+    if (
+      this.lastFrameTime &&
+      timestamp - this.lastFrameTime < 1000 / this.fps
+    ) {
+      return;
+    }
+    this.lastFrameTime = timestamp;
+    this.takeFrames();
+  };
+
+  private takeFrames() {
+    const canvases = this.win.document.querySelectorAll('canvas');
+    for (const canvas of Array.from(canvases)) {
+      const id = this.mirror.getId((canvas as unknown) as INode);
+      if (
+        id === -1 ||
+        this.pendingIds.has(id) ||
+        !canvas.width ||
+        !canvas.height ||
+        isBlocked(canvas, this.blockClass, this.privacyEngine)
+      ) {
+        continue;
+      }
+      if (this.worker) {
+        this.takeFrameInWorker(id, canvas, this.worker);
+      } else {
+        this.takeFrame(id, canvas);
+      }
+    }
+  }
+
+  private takeFrameInWorker(
+    id: number,
+    canvas: HTMLCanvasElement,
+    worker: Worker,
+  ) {
+    this.pendingIds.add(id);
+    const { width, height } = canvas;
+    createImageBitmap(canvas).then(
+      (bitmap) => {
+        const request: frameRequest = {
+          id,
+          bitmap,
+          width,
+          height,
+          dataURLOptions: this.dataURLOptions,
+        };
+        worker.postMessage(request, [bitmap]);
+      },
+      () => this.pendingIds.delete(id),
+    );
+  }
+
+  private takeFrame(id: number, canvas: HTMLCanvasElement) {
+    let dataURL: string;
+    try {
+      dataURL = canvas.toDataURL(
+        this.dataURLOptions.type,
+        this.dataURLOptions.quality,
+      );
+    } catch {
+      // the canvas is tainted by cross-origin data
+      return;
+    }
+    this.handleResponse({
+      id,
+      dataURL: this.lastDataURLs.get(id) === dataURL ? undefined : dataURL,
+    });
+    this.lastDataURLs.set(id, dataURL);
+  }
+
+  private handleResponse({ id, dataURL }: frameResponse) {
+    this.pendingIds.delete(id);
+    if (dataURL) {
+      this.canvasFrameCb({ id, dataURL });
+    }
+  }
+
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pendingIds.clear();
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  CanvasContext,
+  canvasMutationRecorder,
+  IWindow,
+  listenerHandler,
+} from '../../types';
+import { patch } from '../../utils';
+import {
+  addObjectCall,
+  invalidateImageSource,
+  serializeArg,
+  serializeArgs,
+  setObjectRecipe,
+} from './serialize-args';
+
+// the methods which do not change the canvas
+const READ_ONLY_METHODS = /^(get|is|create)|^measureText$/;
+
+const OBJECT_TYPES: Record<string, string> = {
+  createLinearGradient: 'CanvasGradient',
+  createRadialGradient: 'CanvasGradient',
+  createConicGradient: 'CanvasGradient',
+  createPattern: 'CanvasPattern',
+};
+
+/**
+ * the setters are recorded synchronously, so they keep the order with
+ * the calls to the methods
+ */
+function hookCanvasSetter<T>(
+  proto: T,
+  key: string,
+  original: PropertyDescriptor,
+  onSet: (target: T, value: unknown) => void,
+): listenerHandler {
+  Object.defineProperty(proto, key, {
+    ...original,
+    set(this: T, value: unknown) {
+      onSet(this, value);
+      original.set!.call(this, value);
+    },
+  });
+  return () => {
+    Object.defineProperty(proto, key, original);
+  };
+}
+
+/**
+ * record the calls to the methods of an object which has a recipe
+ */
+function patchObjectMethods(
+  proto: object,
+  win: IWindow,
+  handlers: listenerHandler[],
+) {
+  for (const prop of Object.getOwnPropertyNames(proto)) {
+    const descriptor = Object.getOwnPropertyDescriptor(proto, prop);
+    if (prop === 'constructor' || typeof descriptor?.value !== 'function') {
+      continue;
+    }
+    handlers.push(
+      patch(proto, prop, (original) => {
+        return function (this: object, ...args: Array<unknown>) {
+          addObjectCall(this, {
+            property: prop,
+            args: serializeArgs(args, win, this),
+          });
+          return original.apply(this, args);
+        };
+      }),
+    );
+  }
+}
+
+/**
+ * paths are rebuilt by the constructor arguments and the calls to them
+ */
+function initPath2DObserver(win: IWindow): listenerHandler {
+  // tslint:disable-next-line: variable-name
+  const OriginalPath2D = win.Path2D;
+  if (!OriginalPath2D) {
+    return () => {};
+  }
+  const handlers: listenerHandler[] = [];
+  patchObjectMethods(OriginalPath2D.prototype, win, handlers);
+  const patchedPath2D = function Path2D(path?: Path2D | string) {
+    const value = new OriginalPath2D(path);
+    setObjectRecipe(value, {
+      rr_type: 'Path2D',
+      args: path === undefined ? [] : [serializeArg(path, win, value)],
+    });
+    return value;
+  };
+  patchedPath2D.prototype = OriginalPath2D.prototype;
+  win.Path2D = (patchedPath2D as unknown) as typeof Path2D;
+  return () => {
+    win.Path2D = OriginalPath2D;
+    handlers.forEach((h) => h());
+  };
+}
+
+export function initCanvas2DMutationObserver(
+  record: canvasMutationRecorder,
+  win: IWindow,
+): listenerHandler {
+  const handlers: listenerHandler[] = [];
+  const proto = win.CanvasRenderingContext2D.prototype;
+  for (const prop of Object.getOwnPropertyNames(proto)) {
+    const descriptor = Object.getOwnPropertyDescriptor(proto, prop);
+    if (!descriptor || prop === 'constructor') {
+      continue;
+    }
+    if (descriptor.set) {
+      handlers.push(
+        hookCanvasSetter(proto, prop, descriptor, (ctx, value) =>
+          record(ctx.canvas, {
+            type: CanvasContext['2D'],
+            property: prop,
+            args: [serializeArg(value, win, ctx)],
+            setter: true,
+          }),
+        ),
+      );
+      continue;
+    }
+    if (typeof descriptor.value !== 'function') {
+      continue;
+    }
+    handlers.push(
+      patch(proto, prop, (original) => {
+        return function (
+          this: CanvasRenderingContext2D,
+          ...args: Array<unknown>
+        ) {
+          const serializedArgs = serializeArgs(args, win, this);
+          if (!READ_ONLY_METHODS.test(prop)) {
+            record(this.canvas, {
+              type: CanvasContext['2D'],
+              property: prop,
+              args: serializedArgs,
+            });
+          }
+          const result = original.apply(this, args);
+          if (!READ_ONLY_METHODS.test(prop)) {
+            invalidateImageSource(this.canvas);
+          }
+          if (prop in OBJECT_TYPES && result) {
+            setObjectRecipe(result, {
+              rr_type: OBJECT_TYPES[prop],
+              property: prop,
+              args: serializedArgs,
+            });
+          }
+          return result;
+        };
+      }),
+    );
+  }
+  if (win.CanvasGradient) {
+    patchObjectMethods(win.CanvasGradient.prototype, win, handlers);
+  }
+  if (win.CanvasPattern) {
+    patchObjectMethods(win.CanvasPattern.prototype, win, handlers);
+  }
+  handlers.push(initPath2DObserver(win));
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
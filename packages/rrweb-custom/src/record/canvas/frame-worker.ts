@@ -0,0 +1,77 @@
+import { dataURLOptions } from '../../types';
+
+export type frameRequest = {
+  id: number;
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  dataURLOptions: dataURLOptions;
+};
+
+// the data url is not defined if the bitmap is not changed
+export type frameResponse = {
+  id: number;
+  dataURL?: string;
+};
+
+type frameWorkerScope = {
+  onmessage: (e: { data: frameRequest }) => void;
+  postMessage: (response: frameResponse) => void;
+  FileReaderSync: new () => { readAsDataURL(blob: Blob): string };
+};
+
+/**
+ * The body of the worker which encodes the bitmaps into data urls. It's
+ * run from its source, so it must not refer to anything out of itself.
+ */
+function frameWorker() {
+  const scope = (self as unknown) as frameWorkerScope;
+  const lastDataURLs: Record<number, string> = {};
+  scope.onmessage = function (e) {
+    const request = e.data;
+    const canvas = new OffscreenCanvas(request.width, request.height);
+    canvas.getContext('2d')!.drawImage(request.bitmap, 0, 0);
+    request.bitmap.close();
+    canvas
+      .convertToBlob(request.dataURLOptions)
+      .then(function (blob) {
+        const dataURL = new scope.FileReaderSync().readAsDataURL(blob);
+        if (lastDataURLs[request.id] === dataURL) {
+          scope.postMessage({ id: request.id });
+          return;
+        }
+        lastDataURLs[request.id] = dataURL;
+        scope.postMessage({ id: request.id, dataURL });
+      })
+      .catch(function () {
+        scope.postMessage({ id: request.id });
+      });
+  };
+}
+
+/**
+ * create the worker from a blob url, returns null if the browser does not
+ * support encoding off the main thread
+ */
+export function createFrameWorker(): Worker | null {
+  if (
+    typeof Worker === 'undefined' ||
+    typeof OffscreenCanvas === 'undefined' ||
+    typeof createImageBitmap === 'undefined'
+  ) {
+    return null;
+  }
+  try {
+    const url = URL.createObjectURL(
+      new Blob([`(${frameWorker.toString()})()`], {
+        type: 'text/javascript',
+      }),
+    );
+    const worker = new Worker(url);
+    // the url is resolved when the worker is created
+    URL.revokeObjectURL(url);
+    return worker;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  CanvasArg,
+  canvasObjectCall,
+  IWindow,
+  SerializedCanvasArg,
+} from '../../types';
+import {
+  getConstructorName,
+  isWebGLObject,
+  variableListFor,
+} from '../../utils';
+
+const TYPED_ARRAY_TYPES = [
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'DataView',
+];
+
+type canvasObjectRecipe = {
+  rr_type: string;
+  args: CanvasArg[];
+  property?: string;
+  calls: canvasObjectCall[];
+};
+
+// recipes to rebuild the objects which cannot be read, e.g. gradients
+const objectRecipes: WeakMap<object, canvasObjectRecipe> = new WeakMap();
+
+/**
+ * get the index of a webgl object in the context, it's saved when seen
+ * for the first time, so the objects created in replay get the same index
+ */
+export function saveWebGLVar(value: object, ctx: object): number {
+  const list = variableListFor(ctx, getConstructorName(value));
+  let index = list.indexOf(value);
+  if (index === -1) {
+    index = list.length;
+    list.push(value);
+  }
+  return index;
+}
+
+/**
+ * remember how an object is created, so it can be serialized by value
+ */
+export function setObjectRecipe(
+  value: object,
+  recipe: Omit<canvasObjectRecipe, 'calls'>,
+) {
+  objectRecipes.set(value, { ...recipe, calls: [] });
+}
+
+/**
+ * remember a call to a method of an object which has a recipe
+ */
+export function addObjectCall(value: object, call: canvasObjectCall) {
+  objectRecipes.get(value)?.calls.push(call);
+}
+
+export function encodeArrayBuffer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // avoid exceeding the arguments limit of fromCharCode
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(
+      null,
+      (bytes.subarray(i, i + chunkSize) as unknown) as number[],
+    );
+  }
+  return btoa(binary);
+}
+
+type imageSourceEncoding = {
+  // the frame of the source which is encoded
+  frame: string;
+  arg: SerializedCanvasArg | null;
+};
+
+// the encodings of the image sources, as toDataURL is slow
+const imageSourceEncodings: WeakMap<
+  object,
+  imageSourceEncoding
+> = new WeakMap();
+
+/**
+ * the key of the current frame of an image source, or null if the frame
+ * cannot be told
+ */
+function getImageSourceFrame(
+  source: CanvasImageSource,
+  win: IWindow,
+): string | null {
+  if (source instanceof win.HTMLCanvasElement) {
+    // the canvas is cleared when it's resized
+    return `${source.width}x${source.height}`;
+  }
+  if (source instanceof win.HTMLVideoElement) {
+    return `${source.currentSrc}#${source.currentTime}`;
+  }
+  if (getConstructorName(source) === 'ImageBitmap') {
+    return '';
+  }
+  return null;
+}
+
+/**
+ * drop the encoding of a canvas when it's drawn on
+ */
+export function invalidateImageSource(canvas: object) {
+  imageSourceEncodings.delete(canvas);
+}
+
+function encodeImageSource(
+  source: CanvasImageSource,
+  win: IWindow,
+): SerializedCanvasArg | null {
+  try {
+    if (source instanceof win.HTMLImageElement) {
+      return { rr_type: 'HTMLImageElement', src: source.src };
+    }
+    const frame = getImageSourceFrame(source, win);
+    const cached = imageSourceEncodings.get(source);
+    if (frame !== null && cached && cached.frame === frame) {
+      return cached.arg;
+    }
+    let canvas: HTMLCanvasElement;
+    if (source instanceof win.HTMLCanvasElement) {
+      canvas = source;
+    } else {
+      // e.g. video frames and image bitmaps
+      canvas = win.document.createElement('canvas');
+      const { width, height } = source as { width: number; height: number };
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')!.drawImage(source, 0, 0);
+    }
+    const arg: SerializedCanvasArg = {
+      rr_type: 'HTMLImageElement',
+      src: canvas.toDataURL(),
+    };
+    if (frame !== null) {
+      imageSourceEncodings.set(source, { frame, arg });
+    }
+    return arg;
+  } catch {
+    // the canvas is tainted by cross-origin data
+    return null;
+  }
+}
+
+/**
+ * Serialize an argument of the canvas apis into JSON. Binary data is
+ * encoded by value, webgl objects by reference, and images as data urls.
+ */
+export function serializeArg(
+  value: unknown,
+  win: IWindow,
+  ctx: object,
+): CanvasArg {
+  if (
+    value === null ||
+    value === undefined ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value === undefined ? null : value;
+  }
+  if (Array.isArray(value)) {
+    return serializeArgs(value, win, ctx);
+  }
+  if (typeof value !== 'object') {
+    return null;
+  }
+  const name = getConstructorName(value!);
+  if (name === 'ArrayBuffer') {
+    return {
+      rr_type: name,
+      base64: encodeArrayBuffer(value as ArrayBuffer),
+    };
+  }
+  if (TYPED_ARRAY_TYPES.includes(name)) {
+    const view = value as ArrayBufferView;
+    const buffer = view.buffer.slice(
+      view.byteOffset,
+      view.byteOffset + view.byteLength,
+    );
+    return { rr_type: name, args: [serializeArg(buffer, win, ctx)] };
+  }
+  if (name === 'ImageData') {
+    const { data, width, height } = value as ImageData;
+    return {
+      rr_type: name,
+      args: [serializeArg(data, win, ctx), width, height],
+    };
+  }
+  if (name === 'DOMMatrix') {
+    return {
+      rr_type: name,
+      args: [Array.from((value as DOMMatrix).toFloat64Array())],
+    };
+  }
+  if (
+    name === 'HTMLImageElement' ||
+    name === 'HTMLCanvasElement' ||
+    name === 'HTMLVideoElement' ||
+    name === 'ImageBitmap' ||
+    name === 'OffscreenCanvas'
+  ) {
+    return encodeImageSource(value as CanvasImageSource, win);
+  }
+  if (isWebGLObject(value)) {
+    return { rr_type: name, index: saveWebGLVar(value!, ctx) };
+  }
+  const recipe = objectRecipes.get(value!);
+  if (recipe) {
+    // copy the calls, as more calls may be made to the object later
+    return { ...recipe, calls: recipe.calls.slice() };
+  }
+  if (name === 'Object') {
+    // dictionaries, e.g. the settings of createImageData
+    return value as CanvasArg;
+  }
+  return null;
+}
+
+export function serializeArgs(
+  args: Array<unknown>,
+  win: IWindow,
+  ctx: object,
+): CanvasArg[] {
+  return args.map((arg) => serializeArg(arg, win, ctx));
+}
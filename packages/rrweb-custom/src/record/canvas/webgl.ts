@@ -0,0 +1,92 @@
+import {
+  CanvasContext,
+  canvasMutationRecorder,
+  IWindow,
+  listenerHandler,
+} from '../../types';
+import { isWebGLObject, patch } from '../../utils';
+import {
+  invalidateImageSource,
+  saveWebGLVar,
+  serializeArgs,
+} from './serialize-args';
+
+/**
+ * the methods which do not change the context, they are recorded only if
+ * they return webgl objects, e.g. getUniformLocation, so the objects can
+ * be referred by the later calls
+ */
+const READ_ONLY_METHODS = /^(get|is|check)|^readPixels$/;
+
+function patchGLPrototype(
+  proto: WebGLRenderingContext | WebGL2RenderingContext,
+  type: CanvasContext,
+  record: canvasMutationRecorder,
+  win: IWindow,
+): listenerHandler[] {
+  const handlers: listenerHandler[] = [];
+  for (const prop of Object.getOwnPropertyNames(proto)) {
+    const descriptor = Object.getOwnPropertyDescriptor(proto, prop);
+    if (prop === 'constructor' || typeof descriptor?.value !== 'function') {
+      continue;
+    }
+    // the extensions are enabled by getExtension
+    const isReadOnly = READ_ONLY_METHODS.test(prop) && prop !== 'getExtension';
+    handlers.push(
+      patch(proto, prop, (original) => {
+        return function (this: WebGLRenderingContext, ...args: Array<unknown>) {
+          const result = original.apply(this, args);
+          const isObject = isWebGLObject(result);
+          if (
+            (!isReadOnly || isObject) &&
+            this.canvas instanceof win.HTMLCanvasElement
+          ) {
+            record(this.canvas, {
+              type,
+              property: prop,
+              args: serializeArgs(args, win, this),
+            });
+          }
+          if (isObject) {
+            saveWebGLVar(result as object, this);
+          }
+          if (!isReadOnly) {
+            invalidateImageSource(this.canvas);
+          }
+          return result;
+        };
+      }),
+    );
+  }
+  return handlers;
+}
+
+export function initCanvasWebGLMutationObserver(
+  record: canvasMutationRecorder,
+  win: IWindow,
+): listenerHandler {
+  const handlers: listenerHandler[] = [];
+  if (win.WebGLRenderingContext) {
+    handlers.push(
+      ...patchGLPrototype(
+        win.WebGLRenderingContext.prototype,
+        CanvasContext.WebGL,
+        record,
+        win,
+      ),
+    );
+  }
+  if (win.WebGL2RenderingContext) {
+    handlers.push(
+      ...patchGLPrototype(
+        win.WebGL2RenderingContext.prototype,
+        CanvasContext.WebGL2,
+        record,
+        win,
+      ),
+    );
+  }
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
@@ -1,17 +1,138 @@
-import { serializedNodeWithId, INode } from 'rrweb-snapshot';
-import { mutationCallBack } from '../types';
+import {
+  serializedNodeWithId,
+  INode,
+  NodeType,
+  genId,
+  expandTemplateInstance,
+} from 'rrweb-snapshot';
+import {
+  crossOriginIframeMessage,
+  EventType,
+  eventWithTime,
+  incrementalData,
+  IncrementalSource,
+  listenerHandler,
+  mutationCallBack,
+} from '../types';
+import { on } from '../utils';
+import { StylesheetManager } from './stylesheet-manager';
+
+/**
+ * the ids of the nodes and the stylesheets recorded in an iframe, mapped to
+ * the ids in this recording
+ */
+type crossOriginIdMaps = {
+  ids: Map<number, number>;
+  styleIds: Map<number, number>;
+};
+
+/**
+ * the origin of the document loaded by the iframe, or null if it's not loaded
+ * from a url, e.g. about:blank or srcdoc
+ */
+function getIframeOrigin(iframeEl: HTMLIFrameElement): string | null {
+  try {
+    const { origin } = new URL(iframeEl.src);
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+function remapId(
+  map: Map<number, number>,
+  id: number,
+  gen: () => number = genId,
+): number {
+  // e.g. the ignored nodes
+  if (id < 0) {
+    return id;
+  }
+  let mapped = map.get(id);
+  if (mapped === undefined) {
+    mapped = gen();
+    map.set(id, mapped);
+  }
+  return mapped;
+}
+
+function remapNode(
+  ids: Map<number, number>,
+  node: serializedNodeWithId,
+  templates?: serializedNodeWithId[],
+): serializedNodeWithId {
+  if (node.type === NodeType.TemplateInstance && templates) {
+    return remapNode(ids, expandTemplateInstance(node, templates), templates);
+  }
+  const remapped = { ...node, id: remapId(ids, node.id) };
+  if (remapped.rootId !== undefined) {
+    remapped.rootId = remapId(ids, remapped.rootId);
+  }
+  if (remapped.type === NodeType.Document) {
+    // the template instances are expanded
+    delete remapped.templates;
+  }
+  if (
+    remapped.type === NodeType.Document ||
+    remapped.type === NodeType.Element
+  ) {
+    remapped.childNodes = remapped.childNodes.map((child) =>
+      remapNode(ids, child, templates),
+    );
+  }
+  return remapped;
+}
 
 export class IframeManager {
   private iframes: WeakMap<HTMLIFrameElement, true> = new WeakMap();
+  // the iframes by their windows, which are the sources of the messages
+  private crossOriginIframes: WeakMap<
+    Window,
+    HTMLIFrameElement
+  > = new WeakMap();
+  private crossOriginIdMaps: WeakMap<
+    HTMLIFrameElement,
+    crossOriginIdMaps
+  > = new WeakMap();
   private mutationCb: mutationCallBack;
+  private emit: (e: eventWithTime) => void;
+  private stylesheetManager: StylesheetManager;
+  private recordCrossOriginIframes: boolean;
+  private messageHandler: listenerHandler | null = null;
   private loadListener?: (iframeEl: HTMLIFrameElement) => unknown;
 
-  constructor(options: { mutationCb: mutationCallBack }) {
+  constructor(options: {
+    mutationCb: mutationCallBack;
+    emit: (e: eventWithTime) => void;
+    stylesheetManager: StylesheetManager;
+    recordCrossOriginIframes: boolean;
+  }) {
     this.mutationCb = options.mutationCb;
+    this.emit = options.emit;
+    this.stylesheetManager = options.stylesheetManager;
+    this.recordCrossOriginIframes = options.recordCrossOriginIframes;
+    if (this.recordCrossOriginIframes) {
+      this.messageHandler = on(
+        'message',
+        (e) => this.handleMessage(e as MessageEvent),
+        window,
+      );
+    }
   }
 
   public addIframe(iframeEl: HTMLIFrameElement) {
     this.iframes.set(iframeEl, true);
+    const win = iframeEl.contentWindow;
+    const origin = getIframeOrigin(iframeEl);
+    if (this.recordCrossOriginIframes && win && origin) {
+      this.crossOriginIframes.set(win, iframeEl);
+      // the recording in the iframe attaches its document again, or attaches
+      // it when the recording starts if the iframe is not loaded yet
+      const message: crossOriginIframeMessage = {
+        type: 'rrweb-iframe-snapshot',
+      };
+      win.postMessage(message, origin);
+    }
   }
 
   public addLoadListener(cb: (iframeEl: HTMLIFrameElement) => unknown) {
@@ -34,4 +155,185 @@ export class IframeManager {
     });
     this.loadListener?.((iframeEl as unknown) as HTMLIFrameElement);
   }
+
+  public stop() {
+    this.messageHandler?.();
+    this.messageHandler = null;
+  }
+
+  private handleMessage(message: MessageEvent) {
+    const data = message.data as crossOriginIframeMessage | null;
+    if (
+      !data ||
+      typeof data !== 'object' ||
+      data.type !== 'rrweb-iframe-event' ||
+      !message.source
+    ) {
+      return;
+    }
+    const iframeEl = this.crossOriginIframes.get(message.source as Window);
+    // the iframe may have navigated to another origin since it was added
+    if (
+      iframeEl &&
+      '__sn' in iframeEl &&
+      message.origin === getIframeOrigin(iframeEl)
+    ) {
+      this.emitCrossOriginEvent(iframeEl as INode, data.event);
+    }
+  }
+
+  /**
+   * emit an event recorded in a cross-origin iframe as if it's recorded in
+   * this page, the full snapshot of the iframe is attached like the one of
+   * a same-origin iframe
+   */
+  private emitCrossOriginEvent(iframeEl: INode, e: eventWithTime) {
+    const key = (iframeEl as unknown) as HTMLIFrameElement;
+    if (e.type === EventType.FullSnapshot) {
+      // the events after the snapshot only refer to the nodes in it
+      const maps = { ids: new Map(), styleIds: new Map() };
+      this.crossOriginIdMaps.set(key, maps);
+      const { node, initialOffset } = e.data;
+      const childSn = remapNode(
+        maps.ids,
+        node,
+        node.type === NodeType.Document ? node.templates : undefined,
+      );
+      this.mutationCb({
+        adds: [{ parentId: iframeEl.__sn.id, nextId: null, node: childSn }],
+        removes: [],
+        texts: [],
+        attributes: [],
+        isAttachIframe: true,
+      });
+      if (initialOffset.left || initialOffset.top) {
+        this.emit({
+          type: EventType.IncrementalSnapshot,
+          data: {
+            source: IncrementalSource.Scroll,
+            id: childSn.id,
+            x: initialOffset.left,
+            y: initialOffset.top,
+          },
+          timestamp: e.timestamp,
+        });
+      }
+      return;
+    }
+    const maps = this.crossOriginIdMaps.get(key);
+    // the events before the first full snapshot can not be replayed
+    if (!maps) {
+      return;
+    }
+    switch (e.type) {
+      case EventType.IncrementalSnapshot: {
+        const data = this.remapIncrementalData(maps, e.data);
+        if (data) {
+          this.emit({ ...e, data });
+        }
+        break;
+      }
+      case EventType.Custom:
+      case EventType.Plugin:
+        this.emit(e);
+        break;
+      default:
+        // the meta and load events of the iframe
+        break;
+    }
+  }
+
+  private remapIncrementalData(
+    maps: crossOriginIdMaps,
+    data: incrementalData,
+  ): incrementalData | null {
+    const id = (n: number) => remapId(maps.ids, n);
+    const styleId = (n: number) =>
+      remapId(maps.styleIds, n, () => this.stylesheetManager.genStyleId());
+    switch (data.source) {
+      case IncrementalSource.Mutation:
+        return {
+          ...data,
+          adds: data.adds.map((add) => ({
+            ...add,
+            parentId: id(add.parentId),
+            ...(add.previousId ? { previousId: id(add.previousId) } : {}),
+            nextId: add.nextId === null ? null : id(add.nextId),
+            node: remapNode(maps.ids, add.node),
+          })),
+          removes: data.removes.map((remove) => ({
+            ...remove,
+            parentId: id(remove.parentId),
+            id: id(remove.id),
+          })),
+          texts: data.texts.map((text) => ({ ...text, id: id(text.id) })),
+          attributes: data.attributes.map((attribute) => ({
+            ...attribute,
+            id: id(attribute.id),
+          })),
+        };
+      case IncrementalSource.MouseMove:
+      case IncrementalSource.TouchMove:
+      case IncrementalSource.Drag:
+        return {
+          ...data,
+          positions: data.positions.map((p) => ({ ...p, id: id(p.id) })),
+        };
+      case IncrementalSource.Pointer:
+        return {
+          ...data,
+          positions: data.positions.map((p) => ({ ...p, id: id(p.id) })),
+        };
+      case IncrementalSource.MouseInteraction:
+      case IncrementalSource.Scroll:
+      case IncrementalSource.Input:
+      case IncrementalSource.MediaInteraction:
+      case IncrementalSource.CanvasMutation:
+      case IncrementalSource.CanvasFrame:
+      case IncrementalSource.Keyboard:
+        return { ...data, id: id(data.id) };
+      case IncrementalSource.StyleSheetRule:
+      case IncrementalSource.StyleDeclaration:
+        return {
+          ...data,
+          ...(data.id !== undefined ? { id: id(data.id) } : {}),
+          ...(data.styleId !== undefined
+            ? { styleId: styleId(data.styleId) }
+            : {}),
+        };
+      case IncrementalSource.AdoptedStyleSheet:
+        return {
+          ...data,
+          id: id(data.id),
+          ...(data.styles
+            ? {
+                styles: data.styles.map((style) => ({
+                  ...style,
+                  styleId: styleId(style.styleId),
+                })),
+              }
+            : {}),
+          styleIds: data.styleIds.map(styleId),
+        };
+      case IncrementalSource.Selection:
+        if ('id' in data) {
+          return { ...data, id: id(data.id) };
+        }
+        return {
+          ...data,
+          range: data.range && {
+            ...data.range,
+            anchor: id(data.range.anchor),
+            focus: id(data.range.focus),
+          },
+        };
+      case IncrementalSource.ViewportResize:
+      case IncrementalSource.VisualViewport:
+        // the size of the iframe is recorded in this page, and only the
+        // pinch-zoom of this page is replayed
+        return null;
+      default:
+        return data;
+    }
+  }
 }
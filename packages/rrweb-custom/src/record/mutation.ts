@@ -3,6 +3,7 @@ import {
   serializeNodeWithId,
   transformAttribute,
   MaskInputOptions,
+  MaskMediaOptions,
   SlimDOMOptions,
   IGNORED_NODE,
   isShadowRoot,
@@ -10,6 +11,13 @@ import {
   maskInputValue,
   MaskTextFn,
   MaskInputFn,
+  MaskAttributeFn,
+  maskText,
+  maskAttributeValue,
+  maskBackgroundImage,
+  MEDIA_SOURCE_ATTRIBUTES,
+  needMaskingMedia,
+  PrivacyEngine,
 } from 'rrweb-snapshot';
 import {
   mutationRecord,
@@ -171,6 +179,10 @@ export default class MutationBuffer {
   private maskInputOptions: MaskInputOptions;
   private maskTextFn: MaskTextFn | undefined;
   private maskInputFn: MaskInputFn | undefined;
+  private maskAttributeFn: MaskAttributeFn | undefined;
+  private maskMediaOptions: MaskMediaOptions;
+  // shared by the recording, reset before each batch of mutations
+  private privacyEngine: PrivacyEngine;
   private recordCanvas: boolean;
   private slimDOMOptions: SlimDOMOptions;
   private doc: Document;
@@ -189,6 +201,9 @@ export default class MutationBuffer {
     maskInputOptions: MaskInputOptions,
     maskTextFn: MaskTextFn | undefined,
     maskInputFn: MaskInputFn | undefined,
+    maskAttributeFn: MaskAttributeFn | undefined,
+    maskMediaOptions: MaskMediaOptions,
+    privacyEngine: PrivacyEngine,
     recordCanvas: boolean,
     slimDOMOptions: SlimDOMOptions,
     doc: Document,
@@ -204,6 +219,9 @@ export default class MutationBuffer {
     this.maskInputOptions = maskInputOptions;
     this.maskTextFn = maskTextFn;
     this.maskInputFn = maskInputFn;
+    this.maskAttributeFn = maskAttributeFn;
+    this.maskMediaOptions = maskMediaOptions;
+    this.privacyEngine = privacyEngine;
     this.recordCanvas = recordCanvas;
     this.slimDOMOptions = slimDOMOptions;
     this.emissionCallback = cb;
@@ -236,6 +254,7 @@ export default class MutationBuffer {
   }
 
   public processMutations = (mutations: mutationRecord[]) => {
+    this.privacyEngine.reset();
     mutations.forEach(this.processMutation);
     this.emit();
   };
@@ -262,7 +281,10 @@ export default class MutationBuffer {
         ns = ns && ns.nextSibling;
         nextId = ns && this.mirror.getId((ns as unknown) as INode);
       }
-      if (nextId === -1 && isBlocked(n.nextSibling, this.blockClass)) {
+      if (
+        nextId === -1 &&
+        isBlocked(n.nextSibling, this.blockClass, this.privacyEngine)
+      ) {
         nextId = null;
       }
       return nextId;
@@ -297,8 +319,11 @@ export default class MutationBuffer {
         maskInputOptions: this.maskInputOptions,
         maskTextFn: this.maskTextFn,
         maskInputFn: this.maskInputFn,
+        maskAttributeFn: this.maskAttributeFn,
+        maskMediaOptions: this.maskMediaOptions,
         slimDOMOptions: this.slimDOMOptions,
         recordCanvas: this.recordCanvas,
+        privacyEngine: this.privacyEngine,
         onSerialize: (currentN) => {
           if (isIframeINode(currentN)) {
             this.iframeManager.addIframe(currentN);
@@ -438,17 +463,26 @@ export default class MutationBuffer {
     switch (m.type) {
       case 'characterData': {
         const value = m.target.textContent;
-        if (!isBlocked(m.target, this.blockClass) && value !== m.oldValue) {
+        const privacy = this.privacyEngine.getPolicy(m.target);
+        if (
+          !isBlocked(m.target, this.blockClass, this.privacyEngine) &&
+          value !== m.oldValue
+        ) {
           this.texts.push({
             value:
-              needMaskingText(
-                m.target,
-                this.maskTextClass,
-                this.maskTextSelector,
-              ) && value
-                ? this.maskTextFn
-                  ? this.maskTextFn(value)
-                  : value.replace(/[\S]/g, '*')
+              (privacy.maskText ??
+                needMaskingText(
+                  m.target,
+                  this.maskTextClass,
+                  this.maskTextSelector,
+                )) &&
+              value
+                ? maskText(
+                    value,
+                    this.maskTextFn,
+                    privacy.hash,
+                    privacy.hashSalt,
+                  )
                 : value,
             node: m.target,
           });
@@ -458,6 +492,7 @@ export default class MutationBuffer {
       case 'attributes': {
         const target = m.target as HTMLElement;
         let value = (m.target as HTMLElement).getAttribute(m.attributeName!);
+        const privacy = this.privacyEngine.getPolicy(m.target);
         if (m.attributeName === 'value') {
           value = maskInputValue({
             maskInputOptions: this.maskInputOptions,
@@ -465,9 +500,15 @@ export default class MutationBuffer {
             type: (m.target as HTMLElement).getAttribute('type'),
             value,
             maskInputFn: this.maskInputFn,
+            privacy,
           });
         }
-        if (isBlocked(m.target, this.blockClass) || value === m.oldValue) {
+        if (
+          isBlocked(m.target, this.blockClass, this.privacyEngine) ||
+          value === m.oldValue ||
+          (MEDIA_SOURCE_ATTRIBUTES.indexOf(m.attributeName!) !== -1 &&
+            needMaskingMedia(target, this.maskMediaOptions))
+        ) {
           return;
         }
         let item: attributeCursor | undefined = this.attributes.find(
@@ -481,9 +522,30 @@ export default class MutationBuffer {
           this.attributes.push(item);
         }
         if (m.attributeName === 'style') {
+          const maskStyle = (style: string) =>
+            maskAttributeValue(
+              target,
+              'style',
+              this.maskMediaOptions.backgroundImage
+                ? maskBackgroundImage(style)
+                : style,
+              this.maskAttributeFn,
+              privacy,
+            );
           const old = this.doc.createElement('span');
           if (m.oldValue) {
-            old.setAttribute('style', m.oldValue);
+            old.setAttribute('style', maskStyle(m.oldValue));
+          }
+          // the diff is taken between the masked styles
+          let current = target;
+          if (
+            value !== null &&
+            (this.maskAttributeFn ||
+              this.maskMediaOptions.backgroundImage ||
+              privacy.maskAttributes.indexOf('style') !== -1)
+          ) {
+            current = this.doc.createElement('span');
+            current.setAttribute('style', maskStyle(value));
           }
           if (
             item.attributes['style'] === undefined ||
@@ -492,10 +554,10 @@ export default class MutationBuffer {
             item.attributes['style'] = {};
           }
           const styleObj = item.attributes['style'] as styleAttributeValue;
-          for (let i = 0; i < target.style.length; i++) {
-            let pname = target.style[i];
-            const newValue = target.style.getPropertyValue(pname);
-            const newPriority = target.style.getPropertyPriority(pname);
+          for (let i = 0; i < current.style.length; i++) {
+            let pname = current.style[i];
+            const newValue = current.style.getPropertyValue(pname);
+            const newPriority = current.style.getPropertyPriority(pname);
             if (
               newValue != old.style.getPropertyValue(pname) ||
               newPriority != old.style.getPropertyPriority(pname)
@@ -510,20 +572,30 @@ export default class MutationBuffer {
           for (let i = 0; i < old.style.length; i++) {
             let pname = old.style[i];
             if (
-              target.style.getPropertyValue(pname) === '' ||
-              !target.style.getPropertyValue(pname) // covering potential non-standard browsers
+              current.style.getPropertyValue(pname) === '' ||
+              !current.style.getPropertyValue(pname) // covering potential non-standard browsers
             ) {
               styleObj[pname] = false; // delete
             }
           }
         } else {
-          // overwrite attribute if the mutations was triggered in same time
-          item.attributes[m.attributeName!] = transformAttribute(
+          const transformed = transformAttribute(
             this.doc,
             (m.target as HTMLElement).tagName,
             m.attributeName!,
             value!,
           );
+          // overwrite attribute if the mutations was triggered in same time
+          item.attributes[m.attributeName!] =
+            value === null
+              ? transformed
+              : maskAttributeValue(
+                  target,
+                  m.attributeName!,
+                  transformed,
+                  this.maskAttributeFn,
+                  privacy,
+                );
         }
         break;
       }
@@ -535,8 +607,8 @@ export default class MutationBuffer {
             ? this.mirror.getId((m.target.host as unknown) as INode)
             : this.mirror.getId(m.target as INode);
           if (
-            isBlocked(n, this.blockClass) ||
-            isBlocked(m.target, this.blockClass) ||
+            isBlocked(n, this.blockClass, this.privacyEngine) ||
+            isBlocked(m.target, this.blockClass, this.privacyEngine) ||
             isIgnored(n)
           ) {
             return;
@@ -582,10 +654,10 @@ export default class MutationBuffer {
   };
 
   private genAdds = (n: Node | INode, target?: Node | INode) => {
-    if (isBlocked(n, this.blockClass)) {
+    if (isBlocked(n, this.blockClass, this.privacyEngine)) {
       return;
     }
-    if (target && isBlocked(target, this.blockClass)) {
+    if (target && isBlocked(target, this.blockClass, this.privacyEngine)) {
       return;
     }
     if (isINode(n)) {
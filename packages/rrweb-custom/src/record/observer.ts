@@ -1,10 +1,15 @@
 import {
   INode,
   MaskInputOptions,
+  MaskMediaOptions,
   SlimDOMOptions,
   maskInputValue,
   MaskInputFn,
   MaskTextFn,
+  MaskAttributeFn,
+  PrivacyEngine,
+  needMaskingInput,
+  needMaskingText,
 } from 'rrweb-snapshot';
 import { FontFaceDescriptors, FontFaceSet } from 'css-font-loading-module';
 import {
@@ -13,6 +18,7 @@ import {
   hookSetter,
   getWindowHeight,
   getWindowWidth,
+  getVisualViewport,
   isBlocked,
   isTouchEvent,
   patch,
@@ -27,6 +33,12 @@ import {
   listenerHandler,
   scrollCallback,
   styleSheetRuleCallback,
+  styleSheetRuleParam,
+  styleDeclarationCallback,
+  styleDeclarationParam,
+  ConstructableStyleSheet,
+  StyleSheetHost,
+  IWindow,
   viewportResizeCallback,
   inputValue,
   inputCallback,
@@ -40,13 +52,28 @@ import {
   MediaInteractions,
   SamplingStrategy,
   canvasMutationCallback,
+  canvasMutationRecorder,
   fontCallback,
   fontParam,
+  keyboardCallback,
+  keyboardParam,
+  KeyboardInteractions,
+  keyCategory,
+  selectionCallback,
+  selectionParam,
+  pointerCallback,
+  pointerPosition,
+  PointerInteractions,
+  visualViewportCallback,
+  VisualViewportHost,
   Mirror,
 } from '../types';
 import MutationBuffer from './mutation';
 import { IframeManager } from './iframe-manager';
 import { ShadowDomManager } from './shadow-dom-manager';
+import { StylesheetManager } from './stylesheet-manager';
+import { initCanvas2DMutationObserver } from './canvas/2d';
+import { initCanvasWebGLMutationObserver } from './canvas/webgl';
 
 type WindowWithStoredMutationObserver = Window & {
   __rrMutationObserver?: MutationObserver;
@@ -57,8 +84,6 @@ type WindowWithAngularZone = Window & {
   };
 };
 
-export const mutationBuffers: MutationBuffer[] = [];
-
 function getEventTarget(event: Event): EventTarget | null {
   try {
     if ('composedPath' in event) {
@@ -89,11 +114,15 @@ export function initMutationObserver(
   maskInputOptions: MaskInputOptions,
   maskTextFn: MaskTextFn | undefined,
   maskInputFn: MaskInputFn | undefined,
+  maskAttributeFn: MaskAttributeFn | undefined,
+  maskMediaOptions: MaskMediaOptions,
+  privacyEngine: PrivacyEngine,
   recordCanvas: boolean,
   slimDOMOptions: SlimDOMOptions,
   mirror: Mirror,
   iframeManager: IframeManager,
   shadowDomManager: ShadowDomManager,
+  mutationBuffers: MutationBuffer[],
   rootEl: Node,
 ): MutationObserver {
   const mutationBuffer = new MutationBuffer();
@@ -109,6 +138,9 @@ export function initMutationObserver(
     maskInputOptions,
     maskTextFn,
     maskInputFn,
+    maskAttributeFn,
+    maskMediaOptions,
+    privacyEngine,
     recordCanvas,
     slimDOMOptions,
     doc,
@@ -160,6 +192,7 @@ function initMoveObserver(
   sampling: SamplingStrategy,
   doc: Document,
   mirror: Mirror,
+  recordPointers: boolean,
 ): listenerHandler {
   if (sampling.mousemove === false) {
     return () => {};
@@ -248,10 +281,99 @@ function initMoveObserver(
   // that support event 'drag'
   const dragEventDefined = typeof DragEvent !== 'undefined';
   const handlers = [
-    on('mousemove', updatePosition, doc),
-    on('touchmove', updatePosition, doc),
     on('drag', dragEventDefined ? updateDragPosition : updatePosition, doc),
   ];
+  // the moves of the mouse and the touches are recorded as pointers
+  if (!recordPointers) {
+    handlers.push(
+      on('mousemove', updatePosition, doc),
+      on('touchmove', updatePosition, doc),
+    );
+  }
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
+
+export function initPointerObserver(
+  cb: pointerCallback,
+  sampling: SamplingStrategy,
+  doc: Document,
+  mirror: Mirror,
+): listenerHandler {
+  if (sampling.pointer === false) {
+    return () => {};
+  }
+
+  const threshold =
+    typeof sampling.pointer === 'number' ? sampling.pointer : 50;
+  const callbackThreshold =
+    typeof sampling.mousemoveCallback === 'number'
+      ? sampling.mousemoveCallback
+      : 500;
+
+  let positions: pointerPosition[] = [];
+  let timeBaseline: number | null;
+  // the moves are throttled for each pointer, so none of the concurrent
+  // touches is dropped
+  const lastMoves = new Map<number, number>();
+  const wrappedCb = throttle(() => {
+    const totalOffset = Date.now() - timeBaseline!;
+    cb({
+      positions: positions.map((p) => {
+        p.timeOffset -= totalOffset;
+        return p;
+      }),
+    });
+    positions = [];
+    timeBaseline = null;
+  }, callbackThreshold);
+
+  const getHandler = (type: PointerInteractions) => (event: Event) => {
+    const e = event as PointerEvent;
+    const now = Date.now();
+    if (type === PointerInteractions.Move) {
+      const lastMove = lastMoves.get(e.pointerId);
+      if (lastMove !== undefined && now - lastMove < threshold) {
+        return;
+      }
+      lastMoves.set(e.pointerId, now);
+    } else if (type !== PointerInteractions.Down) {
+      lastMoves.delete(e.pointerId);
+    }
+    if (!timeBaseline) {
+      timeBaseline = now;
+    }
+    const position: pointerPosition = {
+      type,
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      x: e.clientX,
+      y: e.clientY,
+      id: mirror.getId(getEventTarget(e) as INode),
+      timeOffset: now - timeBaseline,
+    };
+    if (e.pointerType !== 'mouse') {
+      position.pressure = e.pressure;
+    }
+    if (e.tiltX || e.tiltY) {
+      position.tiltX = e.tiltX;
+      position.tiltY = e.tiltY;
+    }
+    if (e.width > 1 || e.height > 1) {
+      position.width = e.width;
+      position.height = e.height;
+    }
+    positions.push(position);
+    wrappedCb(undefined);
+  };
+
+  const handlers = [
+    on('pointerdown', getHandler(PointerInteractions.Down), doc),
+    on('pointermove', getHandler(PointerInteractions.Move), doc),
+    on('pointerup', getHandler(PointerInteractions.Up), doc),
+    on('pointercancel', getHandler(PointerInteractions.Cancel), doc),
+  ];
   return () => {
     handlers.forEach((h) => h());
   };
@@ -262,6 +384,7 @@ function initMouseInteractionObserver(
   doc: Document,
   mirror: Mirror,
   blockClass: blockClass,
+  privacyEngine: PrivacyEngine,
   sampling: SamplingStrategy,
 ): listenerHandler {
   if (sampling.mouseInteraction === false) {
@@ -277,7 +400,7 @@ function initMouseInteractionObserver(
   const getHandler = (eventKey: keyof typeof MouseInteractions) => {
     return (event: MouseEvent | TouchEvent) => {
       const target = getEventTarget(event) as Node;
-      if (isBlocked(target as Node, blockClass)) {
+      if (isBlocked(target as Node, blockClass, privacyEngine)) {
         return;
       }
       const e = isTouchEvent(event) ? event.changedTouches[0] : event;
@@ -316,11 +439,12 @@ export function initScrollObserver(
   doc: Document,
   mirror: Mirror,
   blockClass: blockClass,
+  privacyEngine: PrivacyEngine,
   sampling: SamplingStrategy,
 ): listenerHandler {
   const updatePosition = throttle<UIEvent>((evt) => {
     const target = getEventTarget(evt);
-    if (!target || isBlocked(target as Node, blockClass)) {
+    if (!target || isBlocked(target as Node, blockClass, privacyEngine)) {
       return;
     }
     const id = mirror.getId(target as INode);
@@ -362,6 +486,34 @@ function initViewportResizeObserver(
   return on('resize', updateDimension, window);
 }
 
+export function initVisualViewportObserver(
+  cb: visualViewportCallback,
+  win: Window,
+  sampling: SamplingStrategy,
+): listenerHandler {
+  const viewport = (win as VisualViewportHost).visualViewport;
+  if (sampling.visualViewport === false || !viewport) {
+    return () => {};
+  }
+  let last = JSON.stringify(getVisualViewport(win));
+  // the pan of a pinch-zoomed page is like a scroll
+  const updateViewport = throttle(() => {
+    const p = getVisualViewport(win);
+    const serialized = JSON.stringify(p);
+    if (p && serialized !== last) {
+      last = serialized;
+      cb(p);
+    }
+  }, sampling.scroll || 100);
+  const handlers = [
+    on('resize', updateViewport, viewport),
+    on('scroll', updateViewport, viewport),
+  ];
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
+
 function wrapEventWithUserTriggeredFlag(
   v: inputValue,
   enable: boolean,
@@ -372,7 +524,6 @@ function wrapEventWithUserTriggeredFlag(
 }
 
 export const INPUT_TAGS = ['INPUT', 'TEXTAREA', 'SELECT'];
-const lastInputValueMap: WeakMap<EventTarget, inputValue> = new WeakMap();
 function initInputObserver(
   cb: inputCallback,
   doc: Document,
@@ -381,9 +532,12 @@ function initInputObserver(
   ignoreClass: string,
   maskInputOptions: MaskInputOptions,
   maskInputFn: MaskInputFn | undefined,
+  privacyEngine: PrivacyEngine,
   sampling: SamplingStrategy,
   userTriggeredOnInput: boolean,
 ): listenerHandler {
+  // kept for each recording, the same input is recorded by every recorder
+  const lastInputValueMap: WeakMap<EventTarget, inputValue> = new WeakMap();
   function eventHandler(event: Event) {
     const target = getEventTarget(event);
     const userTriggered = event.isTrusted;
@@ -391,30 +545,30 @@ function initInputObserver(
       !target ||
       !(target as Element).tagName ||
       INPUT_TAGS.indexOf((target as Element).tagName) < 0 ||
-      isBlocked(target as Node, blockClass)
+      isBlocked(target as Node, blockClass, privacyEngine)
     ) {
       return;
     }
     const type: string | undefined = (target as HTMLInputElement).type;
-    if ((target as HTMLElement).classList.contains(ignoreClass)) {
+    const privacy = privacyEngine.getPolicy(target as Node);
+    if (
+      privacy.ignore ??
+      (target as HTMLElement).classList.contains(ignoreClass)
+    ) {
       return;
     }
     let text = (target as HTMLInputElement).value;
     let isChecked = false;
     if (type === 'radio' || type === 'checkbox') {
       isChecked = (target as HTMLInputElement).checked;
-    } else if (
-      maskInputOptions[
-        (target as Element).tagName.toLowerCase() as keyof MaskInputOptions
-      ] ||
-      maskInputOptions[type as keyof MaskInputOptions]
-    ) {
+    } else {
       text = maskInputValue({
         maskInputOptions,
         tagName: (target as HTMLElement).tagName,
         type,
         value: text,
         maskInputFn,
+        privacy,
       });
     }
     cbWithDedup(
@@ -495,48 +649,590 @@ function initInputObserver(
   };
 }
 
+type styleSheetTarget = Pick<styleSheetRuleParam, 'id' | 'styleId'>;
+
+const NAVIGATION_KEYS = [
+  'Tab',
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  'Home',
+  'End',
+  'PageUp',
+  'PageDown',
+];
+const EDITING_KEYS = ['Backspace', 'Delete', 'Enter', 'Insert'];
+const MODIFIER_KEYS = [
+  'Alt',
+  'AltGraph',
+  'CapsLock',
+  'Control',
+  'Fn',
+  'Meta',
+  'OS',
+  'Shift',
+];
+
+// a single character, which may be a surrogate pair
+function isPrintableKey(key: string): boolean {
+  return key.length === 1 || /^[\uD800-\uDBFF][\uDC00-\uDFFF]$/.test(key);
+}
+
+export function getKeyCategory(event: KeyboardEvent): keyCategory {
+  const { key } = event;
+  if (MODIFIER_KEYS.indexOf(key) !== -1) {
+    return 'other';
+  }
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    return 'shortcut';
+  }
+  if (NAVIGATION_KEYS.indexOf(key) !== -1) {
+    return 'navigation';
+  }
+  if (EDITING_KEYS.indexOf(key) !== -1 || isPrintableKey(key)) {
+    return 'editing';
+  }
+  return 'other';
+}
+
+export function initKeyboardObserver(
+  cb: keyboardCallback,
+  doc: Document,
+  mirror: Mirror,
+  blockClass: blockClass,
+  ignoreClass: string,
+  maskTextClass: maskTextClass,
+  maskTextSelector: string | null,
+  maskInputOptions: MaskInputOptions,
+  privacyEngine: PrivacyEngine,
+  sampling: SamplingStrategy,
+): listenerHandler {
+  if (sampling.keyboard === false) {
+    return () => {};
+  }
+  // whether the characters typed into the target are masked
+  const isMaskedTarget = (target: HTMLElement) => {
+    const privacy = privacyEngine.getPolicy(target);
+    if (INPUT_TAGS.indexOf(target.tagName) !== -1) {
+      return (
+        (privacy.ignore ?? target.classList.contains(ignoreClass)) ||
+        needMaskingInput({
+          maskInputOptions,
+          tagName: target.tagName,
+          type: (target as HTMLInputElement).type,
+          privacy,
+        })
+      );
+    }
+    return (
+      target.isContentEditable &&
+      (privacy.maskText ??
+        needMaskingText(target, maskTextClass, maskTextSelector))
+    );
+  };
+  const getHandler = (type: KeyboardInteractions) => (event: Event) => {
+    const e = event as KeyboardEvent;
+    const target = getEventTarget(e) as HTMLElement | null;
+    // e.g. the keys of the IME compositions
+    if (!target || !e.key || isBlocked(target, blockClass, privacyEngine)) {
+      return;
+    }
+    const d: keyboardParam = {
+      type,
+      id: mirror.getId((target as unknown) as INode),
+      category: getKeyCategory(e),
+    };
+    // the shortcuts do not type the characters, except the ones with Alt
+    // on some layouts
+    if (
+      !isPrintableKey(e.key) ||
+      e.ctrlKey ||
+      e.metaKey ||
+      !isMaskedTarget(target)
+    ) {
+      d.key = e.key;
+    }
+    if (e.altKey) {
+      d.altKey = true;
+    }
+    if (e.ctrlKey) {
+      d.ctrlKey = true;
+    }
+    if (e.metaKey) {
+      d.metaKey = true;
+    }
+    if (e.shiftKey) {
+      d.shiftKey = true;
+    }
+    if (e.repeat) {
+      d.repeat = true;
+    }
+    cb(d);
+  };
+  const handlers = [
+    on('keydown', getHandler(KeyboardInteractions.KeyDown), doc),
+    on('keyup', getHandler(KeyboardInteractions.KeyUp), doc),
+  ];
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
+
+// the selection of these inputs is not a part of the document selection
+function getInputSelection(
+  el: Element | null,
+): { start: number; end: number; backward: boolean } | null {
+  if (!el || (el.tagName !== 'INPUT' && el.tagName !== 'TEXTAREA')) {
+    return null;
+  }
+  try {
+    const input = el as HTMLInputElement;
+    // null for the inputs without a caret, e.g. checkboxes, some browsers
+    // throw instead
+    if (input.selectionStart === null || input.selectionEnd === null) {
+      return null;
+    }
+    return {
+      start: input.selectionStart,
+      end: input.selectionEnd,
+      backward: input.selectionDirection === 'backward',
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function initSelectionObserver(
+  cb: selectionCallback,
+  doc: Document,
+  mirror: Mirror,
+  blockClass: blockClass,
+  privacyEngine: PrivacyEngine,
+  sampling: SamplingStrategy,
+): listenerHandler {
+  if (sampling.selection === false) {
+    return () => {};
+  }
+  let lastSelection = '';
+  const isRecordable = (node: Node) =>
+    mirror.getId((node as unknown) as INode) !== -1 &&
+    !isBlocked(node, blockClass, privacyEngine);
+  const updateSelection = () => {
+    const activeEl = doc.activeElement;
+    const inputSelection = getInputSelection(activeEl);
+    let p: selectionParam;
+    if (activeEl && inputSelection) {
+      if (!isRecordable(activeEl)) {
+        return;
+      }
+      p = {
+        id: mirror.getId((activeEl as unknown) as INode),
+        start: inputSelection.start,
+        end: inputSelection.end,
+      };
+      if (inputSelection.backward) {
+        p.backward = true;
+      }
+    } else {
+      const selection = doc.getSelection();
+      if (!selection || !selection.rangeCount) {
+        p = { range: null };
+      } else {
+        const { anchorNode, anchorOffset, focusNode, focusOffset } = selection;
+        if (
+          !anchorNode ||
+          !focusNode ||
+          !isRecordable(anchorNode) ||
+          !isRecordable(focusNode)
+        ) {
+          return;
+        }
+        p = {
+          range: {
+            anchor: mirror.getId((anchorNode as unknown) as INode),
+            anchorOffset,
+            focus: mirror.getId((focusNode as unknown) as INode),
+            focusOffset,
+          },
+        };
+      }
+    }
+    // the selection change is also fired by the select events of the inputs
+    const serialized = JSON.stringify(p);
+    if (serialized !== lastSelection) {
+      lastSelection = serialized;
+      cb(p);
+    }
+  };
+  const handlers = [
+    on('selectionchange', updateSelection, doc),
+    on('select', updateSelection, doc),
+  ];
+  return () => {
+    handlers.forEach((h) => h());
+  };
+}
+
+function getStyleSheetTarget(
+  sheet: CSSStyleSheet,
+  mirror: Mirror,
+  stylesheetManager: StylesheetManager,
+): styleSheetTarget | null {
+  // the owner node of a constructed stylesheet is null
+  const id = mirror.getId((sheet.ownerNode as unknown) as INode);
+  if (id !== -1) {
+    return { id };
+  }
+  const styleId = stylesheetManager.getStyleId(sheet);
+  return styleId === -1 ? null : { styleId };
+}
+
+/**
+ * get the indexes of the rule and its parent rules, from the outermost one
+ */
+function getNestedRuleIndex(rule: CSSRule): number[] {
+  const index: number[] = [];
+  let current = rule;
+  while (current.parentRule) {
+    const parent = current.parentRule as CSSGroupingRule;
+    index.unshift(Array.from(parent.cssRules).indexOf(current));
+    current = parent;
+  }
+  if (current.parentStyleSheet) {
+    index.unshift(
+      Array.from(current.parentStyleSheet.cssRules).indexOf(current),
+    );
+  }
+  return index;
+}
+
+/**
+ * Patch the prototypes of a window once for all the recordings, the handlers
+ * of the recordings are called by the patches. The prototypes are restored
+ * when the last recording stops, so stopping a recording doesn't stop the
+ * other ones.
+ */
+function sharePatch<H>(
+  install: (win: IWindow, handlers: Set<H>) => listenerHandler,
+): (win: IWindow, handler: H) => listenerHandler {
+  const patches: WeakMap<
+    IWindow,
+    { handlers: Set<H>; restore: listenerHandler }
+  > = new WeakMap();
+  return (win, handler) => {
+    let current = patches.get(win);
+    if (!current) {
+      const handlers: Set<H> = new Set();
+      current = { handlers, restore: install(win, handlers) };
+      patches.set(win, current);
+    }
+    const { handlers, restore } = current;
+    handlers.add(handler);
+    return () => {
+      if (!handlers.delete(handler) || handlers.size) {
+        return;
+      }
+      restore();
+      patches.delete(win);
+    };
+  };
+}
+
+type styleSheetChange = Omit<styleSheetRuleParam, 'id' | 'styleId'>;
+
+const patchStyleSheets = sharePatch<
+  (sheet: CSSStyleSheet, change: styleSheetChange) => void
+>((win, handlers) => {
+  const proto = win.CSSStyleSheet.prototype as ConstructableStyleSheet;
+  const recordChange = (sheet: CSSStyleSheet, change: styleSheetChange) => {
+    handlers.forEach((handler) => handler(sheet, change));
+  };
+
+  const insertRule = proto.insertRule;
+  proto.insertRule = function (rule: string, index?: number) {
+    recordChange(this, { adds: [{ rule, index }] });
+    return insertRule.apply(this, arguments);
+  };
+
+  const deleteRule = proto.deleteRule;
+  proto.deleteRule = function (index: number) {
+    recordChange(this, { removes: [{ index }] });
+    return deleteRule.apply(this, arguments);
+  };
+
+  const restoreHandlers: listenerHandler[] = [];
+  for (const method of ['replace', 'replaceSync'] as const) {
+    restoreHandlers.push(
+      patch(proto, method, (original) => {
+        return function (this: CSSStyleSheet, text: string) {
+          recordChange(this, { replace: text });
+          return original.apply(this, arguments);
+        };
+      }),
+    );
+  }
+
+  return () => {
+    proto.insertRule = insertRule;
+    proto.deleteRule = deleteRule;
+    restoreHandlers.forEach((h) => h());
+  };
+});
+
 function initStyleSheetObserver(
   cb: styleSheetRuleCallback,
+  win: IWindow,
   mirror: Mirror,
+  stylesheetManager: StylesheetManager,
 ): listenerHandler {
-  const insertRule = CSSStyleSheet.prototype.insertRule;
-  CSSStyleSheet.prototype.insertRule = function (rule: string, index?: number) {
-    const id = mirror.getId(this.ownerNode as INode);
-    if (id !== -1) {
+  return patchStyleSheets(win, (sheet, change) => {
+    const target = getStyleSheetTarget(sheet, mirror, stylesheetManager);
+    if (target) {
       cb({
-        id,
-        adds: [{ rule, index }],
+        ...target,
+        ...change,
       });
     }
-    return insertRule.apply(this, arguments);
+  });
+}
+
+/**
+ * get the css property of a property of the declarations, e.g. the
+ * property of backgroundColor is background-color
+ */
+function toCssProperty(key: string): string {
+  if (key === 'cssFloat') {
+    return 'float';
+  }
+  const property = key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+  // vendor prefixes, e.g. webkitTransform
+  return /^(webkit|moz|ms)-/.test(property) ? `-${property}` : property;
+}
+
+type styleDeclarationChange = Pick<styleDeclarationParam, 'set' | 'remove'>;
+
+const patchStyleDeclarations = sharePatch<
+  (style: CSSStyleDeclaration, change: styleDeclarationChange) => void
+>((win, handlers) => {
+  const proto = win.CSSStyleDeclaration.prototype;
+
+  // the changes made inside a recorded change, e.g. setProperty may set the property
+  let isRecording = false;
+  const recordChange = <T>(
+    style: CSSStyleDeclaration,
+    change: styleDeclarationChange,
+    apply: () => T,
+  ): T => {
+    if (!isRecording) {
+      handlers.forEach((handler) => handler(style, change));
+    }
+    const wasRecording = isRecording;
+    isRecording = true;
+    try {
+      return apply();
+    } finally {
+      isRecording = wasRecording;
+    }
   };
 
-  const deleteRule = CSSStyleSheet.prototype.deleteRule;
-  CSSStyleSheet.prototype.deleteRule = function (index: number) {
-    const id = mirror.getId(this.ownerNode as INode);
-    if (id !== -1) {
-      cb({
-        id,
-        removes: [{ index }],
+  const setProperty = proto.setProperty;
+  proto.setProperty = function (
+    this: CSSStyleDeclaration,
+    property: string,
+    value: string | null,
+    priority?: string,
+  ) {
+    const args = arguments;
+    return recordChange(this, { set: { property, value, priority } }, () =>
+      setProperty.apply(this, args),
+    );
+  };
+
+  const removeProperty = proto.removeProperty;
+  proto.removeProperty = function (
+    this: CSSStyleDeclaration,
+    property: string,
+  ) {
+    const args = arguments;
+    return recordChange(this, { remove: { property } }, () =>
+      removeProperty.apply(this, args),
+    );
+  };
+
+  const restoreHandlers: listenerHandler[] = [];
+  // the properties are defined by CSS2Properties in firefox
+  const { CSS2Properties } = win as IWindow & {
+    CSS2Properties?: typeof CSSStyleDeclaration;
+  };
+  for (const target of [proto, CSS2Properties?.prototype]) {
+    if (!target) {
+      continue;
+    }
+    for (const key of Object.getOwnPropertyNames(target)) {
+      const descriptor = Object.getOwnPropertyDescriptor(target, key);
+      if (!descriptor?.set || !descriptor.configurable || key === 'cssText') {
+        continue;
+      }
+      const property = toCssProperty(key);
+      Object.defineProperty(target, key, {
+        ...descriptor,
+        set(this: CSSStyleDeclaration, value: string) {
+          recordChange(this, { set: { property, value } }, () =>
+            descriptor.set!.call(this, value),
+          );
+        },
+      });
+      restoreHandlers.push(() => {
+        Object.defineProperty(target, key, descriptor);
       });
     }
-    return deleteRule.apply(this, arguments);
+  }
+
+  return () => {
+    proto.setProperty = setProperty;
+    proto.removeProperty = removeProperty;
+    restoreHandlers.forEach((h) => h());
   };
+});
 
+/**
+ * The declarations of the rules are changed by setProperty, removeProperty
+ * and the properties, e.g. rule.style.color. Setting the cssText of the
+ * declarations is not recorded.
+ */
+export function initStyleDeclarationObserver(
+  cb: styleDeclarationCallback,
+  win: IWindow,
+  mirror: Mirror,
+  stylesheetManager: StylesheetManager,
+): listenerHandler {
+  return patchStyleDeclarations(win, (style, change) => {
+    // the declarations of inline styles are recorded by the mutation observer
+    const rule = style.parentRule;
+    if (!rule || !rule.parentStyleSheet) {
+      return;
+    }
+    const target = getStyleSheetTarget(
+      rule.parentStyleSheet,
+      mirror,
+      stylesheetManager,
+    );
+    if (target) {
+      cb({
+        ...target,
+        index: getNestedRuleIndex(rule),
+        ...change,
+      });
+    }
+  });
+}
+
+// the methods which change the adoptedStyleSheets array in place
+const SHEETS_MUTATION_METHODS = [
+  'push',
+  'pop',
+  'shift',
+  'unshift',
+  'splice',
+  'sort',
+  'reverse',
+  'fill',
+  'copyWithin',
+];
+
+const patchAdoptedStyleSheets = sharePatch<
+  (host: StyleSheetHost, sheets: CSSStyleSheet[]) => void
+>((win, handlers) => {
+  const restoreHandlers: listenerHandler[] = [];
+  const adoptStyleSheets = (host: StyleSheetHost, sheets: CSSStyleSheet[]) => {
+    handlers.forEach((handler) => handler(host, sheets));
+  };
+  const patchedSheets: WeakSet<CSSStyleSheet[]> = new WeakSet();
+  const patchSheets = (host: StyleSheetHost, sheets: CSSStyleSheet[]) => {
+    if (!sheets || patchedSheets.has(sheets)) {
+      return;
+    }
+    patchedSheets.add(sheets);
+    for (const method of SHEETS_MUTATION_METHODS) {
+      restoreHandlers.push(
+        patch(sheets, method, (original: Function) => {
+          return function (this: CSSStyleSheet[], ...args: Array<unknown>) {
+            const result = original.apply(this, args);
+            adoptStyleSheets(host, this);
+            return result;
+          };
+        }),
+      );
+    }
+  };
+  for (const proto of [win.Document.prototype, win.ShadowRoot?.prototype]) {
+    if (!proto || !('adoptedStyleSheets' in proto)) {
+      // adoptedStyleSheets is not supported
+      continue;
+    }
+    restoreHandlers.push(
+      hookSetter<StyleSheetHost>(
+        proto,
+        'adoptedStyleSheets',
+        {
+          set(this: StyleSheetHost) {
+            // the hook is delayed, the array may be changed after it's set
+            adoptStyleSheets(this, this.adoptedStyleSheets!);
+          },
+        },
+        false,
+        win,
+      ),
+    );
+    // the array is patched when it's read, so the changes to it are recorded
+    const original = Object.getOwnPropertyDescriptor(
+      proto,
+      'adoptedStyleSheets',
+    );
+    if (original?.get) {
+      Object.defineProperty(proto, 'adoptedStyleSheets', {
+        get(this: StyleSheetHost) {
+          const sheets = original.get!.call(this);
+          patchSheets(this, sheets);
+          return sheets;
+        },
+      });
+    }
+  }
   return () => {
-    CSSStyleSheet.prototype.insertRule = insertRule;
-    CSSStyleSheet.prototype.deleteRule = deleteRule;
+    restoreHandlers.forEach((h) => h());
   };
+});
+
+/**
+ * The sheets are recorded when adoptedStyleSheets is set, or changed by
+ * the array methods, e.g. push. Setting an index of the array directly
+ * is not recorded.
+ */
+export function initAdoptedStyleSheetObserver(
+  win: IWindow,
+  mirror: Mirror,
+  stylesheetManager: StylesheetManager,
+): listenerHandler {
+  return patchAdoptedStyleSheets(win, (host, sheets) => {
+    const node = 'host' in host ? host.host : host;
+    stylesheetManager.adoptStyleSheets(
+      Array.from(sheets),
+      mirror.getId((node as unknown) as INode),
+    );
+  });
 }
 
 function initMediaInteractionObserver(
   mediaInteractionCb: mediaInteractionCallback,
   blockClass: blockClass,
+  privacyEngine: PrivacyEngine,
   mirror: Mirror,
 ): listenerHandler {
   const handler = (type: MediaInteractions) => (event: Event) => {
     const target = getEventTarget(event);
-    if (!target || isBlocked(target as Node, blockClass)) {
+    if (!target || isBlocked(target as Node, blockClass, privacyEngine)) {
       return;
     }
     mediaInteractionCb({
@@ -557,78 +1253,39 @@ function initMediaInteractionObserver(
 
 function initCanvasMutationObserver(
   cb: canvasMutationCallback,
+  win: IWindow,
   blockClass: blockClass,
+  privacyEngine: PrivacyEngine,
   mirror: Mirror,
 ): listenerHandler {
-  const props = Object.getOwnPropertyNames(CanvasRenderingContext2D.prototype);
-  const handlers: listenerHandler[] = [];
-  for (const prop of props) {
-    try {
-      if (
-        typeof CanvasRenderingContext2D.prototype[
-          prop as keyof CanvasRenderingContext2D
-        ] !== 'function'
-      ) {
-        continue;
+  /**
+   * the canvas may be drawn before it's serialized by the mutation observer,
+   * so the mutations are emitted in the next task, when it has an id
+   */
+  let pendingMutations: Array<Parameters<canvasMutationRecorder>> = [];
+  const flush = () => {
+    const mutations = pendingMutations;
+    pendingMutations = [];
+    for (const [canvas, mutation] of mutations) {
+      const id = mirror.getId((canvas as unknown) as INode);
+      if (id !== -1) {
+        cb({ id, ...mutation });
       }
-      const restoreHandler = patch(
-        CanvasRenderingContext2D.prototype,
-        prop,
-        function (original) {
-          return function (
-            this: CanvasRenderingContext2D,
-            ...args: Array<unknown>
-          ) {
-            if (!isBlocked(this.canvas, blockClass)) {
-              setTimeout(() => {
-                const recordArgs = [...args];
-                if (prop === 'drawImage') {
-                  if (
-                    recordArgs[0] &&
-                    recordArgs[0] instanceof HTMLCanvasElement
-                  ) {
-                    const canvas = recordArgs[0];
-                    const ctx = canvas.getContext('2d');
-                    let imgd = ctx?.getImageData(
-                      0,
-                      0,
-                      canvas.width,
-                      canvas.height,
-                    );
-                    let pix = imgd?.data;
-                    recordArgs[0] = JSON.stringify(pix);
-                  }
-                }
-                cb({
-                  id: mirror.getId((this.canvas as unknown) as INode),
-                  property: prop,
-                  args: recordArgs,
-                });
-              }, 0);
-            }
-            return original.apply(this, args);
-          };
-        },
-      );
-      handlers.push(restoreHandler);
-    } catch {
-      const hookHandler = hookSetter<CanvasRenderingContext2D>(
-        CanvasRenderingContext2D.prototype,
-        prop,
-        {
-          set(v) {
-            cb({
-              id: mirror.getId((this.canvas as unknown) as INode),
-              property: prop,
-              args: [v],
-              setter: true,
-            });
-          },
-        },
-      );
-      handlers.push(hookHandler);
     }
-  }
+  };
+  const record: canvasMutationRecorder = (canvas, mutation) => {
+    if (isBlocked(canvas, blockClass, privacyEngine)) {
+      return;
+    }
+    if (!pendingMutations.length) {
+      setTimeout(flush, 0);
+    }
+    pendingMutations.push([canvas, mutation]);
+  };
+  const handlers = [
+    initCanvas2DMutationObserver(record, win),
+    initCanvasWebGLMutationObserver(record, win),
+  ];
   return () => {
     handlers.forEach((h) => h());
   };
@@ -694,8 +1351,13 @@ function mergeHooks(o: observerParam, hooks: hooksParam) {
     inputCb,
     mediaInteractionCb,
     styleSheetRuleCb,
+    styleDeclarationCb,
     canvasMutationCb,
     fontCb,
+    keyboardCb,
+    selectionCb,
+    pointerCb,
+    visualViewportCb,
   } = o;
   o.mutationCb = (...p: Arguments<mutationCallBack>) => {
     if (hooks.mutation) {
@@ -745,6 +1407,12 @@ function mergeHooks(o: observerParam, hooks: hooksParam) {
     }
     styleSheetRuleCb(...p);
   };
+  o.styleDeclarationCb = (...p: Arguments<styleDeclarationCallback>) => {
+    if (hooks.styleDeclaration) {
+      hooks.styleDeclaration(...p);
+    }
+    styleDeclarationCb(...p);
+  };
   o.canvasMutationCb = (...p: Arguments<canvasMutationCallback>) => {
     if (hooks.canvasMutation) {
       hooks.canvasMutation(...p);
@@ -757,6 +1425,30 @@ function mergeHooks(o: observerParam, hooks: hooksParam) {
     }
     fontCb(...p);
   };
+  o.keyboardCb = (...p: Arguments<keyboardCallback>) => {
+    if (hooks.keyboard) {
+      hooks.keyboard(...p);
+    }
+    keyboardCb(...p);
+  };
+  o.selectionCb = (...p: Arguments<selectionCallback>) => {
+    if (hooks.selection) {
+      hooks.selection(...p);
+    }
+    selectionCb(...p);
+  };
+  o.pointerCb = (...p: Arguments<pointerCallback>) => {
+    if (hooks.pointer) {
+      hooks.pointer(...p);
+    }
+    pointerCb(...p);
+  };
+  o.visualViewportCb = (...p: Arguments<visualViewportCallback>) => {
+    if (hooks.visualViewport) {
+      hooks.visualViewport(...p);
+    }
+    visualViewportCb(...p);
+  };
 }
 
 export function initObservers(
@@ -775,11 +1467,15 @@ export function initObservers(
     o.maskInputOptions,
     o.maskTextFn,
     o.maskInputFn,
+    o.maskAttributeFn,
+    o.maskMediaOptions,
+    o.privacyEngine,
     o.recordCanvas,
     o.slimDOMOptions,
     o.mirror,
     o.iframeManager,
     o.shadowDomManager,
+    o.mutationBuffers,
     o.doc,
   );
   const mousemoveHandler = initMoveObserver(
@@ -787,12 +1483,17 @@ export function initObservers(
     o.sampling,
     o.doc,
     o.mirror,
+    o.recordPointers,
   );
+  const pointerHandler = o.recordPointers
+    ? initPointerObserver(o.pointerCb, o.sampling, o.doc, o.mirror)
+    : () => {};
   const mouseInteractionHandler = initMouseInteractionObserver(
     o.mouseInteractionCb,
     o.doc,
     o.mirror,
     o.blockClass,
+    o.privacyEngine,
     o.sampling,
   );
   const scrollHandler = initScrollObserver(
@@ -800,9 +1501,16 @@ export function initObservers(
     o.doc,
     o.mirror,
     o.blockClass,
+    o.privacyEngine,
     o.sampling,
   );
   const viewportResizeHandler = initViewportResizeObserver(o.viewportResizeCb);
+  const win = o.doc.defaultView as IWindow;
+  // only the pinch-zoom of the top page is replayed
+  const visualViewportHandler =
+    win && win === win.top
+      ? initVisualViewportObserver(o.visualViewportCb, win, o.sampling)
+      : () => {};
   const inputHandler = initInputObserver(
     o.inputCb,
     o.doc,
@@ -811,21 +1519,64 @@ export function initObservers(
     o.ignoreClass,
     o.maskInputOptions,
     o.maskInputFn,
+    o.privacyEngine,
     o.sampling,
     o.userTriggeredOnInput,
   );
   const mediaInteractionHandler = initMediaInteractionObserver(
     o.mediaInteractionCb,
     o.blockClass,
+    o.privacyEngine,
     o.mirror,
   );
+  const keyboardHandler = initKeyboardObserver(
+    o.keyboardCb,
+    o.doc,
+    o.mirror,
+    o.blockClass,
+    o.ignoreClass,
+    o.maskTextClass,
+    o.maskTextSelector,
+    o.maskInputOptions,
+    o.privacyEngine,
+    o.sampling,
+  );
+  const selectionHandler = initSelectionObserver(
+    o.selectionCb,
+    o.doc,
+    o.mirror,
+    o.blockClass,
+    o.privacyEngine,
+    o.sampling,
+  );
   const styleSheetObserver = initStyleSheetObserver(
     o.styleSheetRuleCb,
+    win,
     o.mirror,
+    o.stylesheetManager,
   );
-  const canvasMutationObserver = o.recordCanvas
-    ? initCanvasMutationObserver(o.canvasMutationCb, o.blockClass, o.mirror)
-    : () => {};
+  const styleDeclarationObserver = initStyleDeclarationObserver(
+    o.styleDeclarationCb,
+    win,
+    o.mirror,
+    o.stylesheetManager,
+  );
+  const adoptedStyleSheetObserver = initAdoptedStyleSheetObserver(
+    win,
+    o.mirror,
+    o.stylesheetManager,
+  );
+  // the bitmaps of the canvases are recorded instead in the sampled mode
+  const canvasMutationObserver =
+    o.recordCanvas && typeof o.sampling.canvas !== 'number'
+      ? initCanvasMutationObserver(
+          o.canvasMutationCb,
+          win,
+          o.blockClass,
+          o.privacyEngine,
+          o.mirror,
+        )
+      : () => {};
   const fontObserver = o.collectFonts ? initFontObserver(o.fontCb) : () => {};
   // plugins
   const pluginHandlers: listenerHandler[] = [];
@@ -836,12 +1587,18 @@ export function initObservers(
   return () => {
     mutationObserver.disconnect();
     mousemoveHandler();
+    pointerHandler();
     mouseInteractionHandler();
     scrollHandler();
     viewportResizeHandler();
+    visualViewportHandler();
     inputHandler();
     mediaInteractionHandler();
+    keyboardHandler();
+    selectionHandler();
     styleSheetObserver();
+    styleDeclarationObserver();
+    adoptedStyleSheetObserver();
     canvasMutationObserver();
     fontObserver();
     pluginHandlers.forEach((h) => h());
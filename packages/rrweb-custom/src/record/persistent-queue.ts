@@ -0,0 +1,318 @@
+import {
+  eventWithTime,
+  listenerHandler,
+  persistentQueueOptions,
+  queuedEvent,
+} from '../types';
+import { on } from '../utils';
+
+const EVENT_STORE = 'events';
+const META_STORE = 'meta';
+const SEQ_KEY = 'seq';
+const LOCK_KEY = 'lock';
+// the lock of the upload expires if the page is closed during an upload
+const LOCK_TIMEOUT = 30000;
+
+type uploadLock = {
+  owner: string;
+  expires: number;
+};
+
+function createQueueId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(
+  factory: IDBFactory,
+  dbName: string,
+): Promise<IDBDatabase> {
+  const request = factory.open(dbName, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(EVENT_STORE, { keyPath: 'seq' });
+    db.createObjectStore(META_STORE);
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Write the emitted events to IndexedDB in batches, and upload them from
+ * there. The events left by a crashed or closed page are uploaded when the
+ * queue is created on the next page load.
+ * Every event gets a sequence number which keeps increasing across the page
+ * loads and is shared by the pages using the same database. The pages take
+ * a lock to upload, so an event is uploaded once, unless the page is closed
+ * before an uploaded batch is removed from the queue.
+ * The events are kept in memory if IndexedDB is not available.
+ */
+export class PersistentQueue {
+  private upload: persistentQueueOptions['upload'];
+  private onError: NonNullable<persistentQueueOptions['onError']>;
+  private batchSize: number;
+  private flushInterval: number;
+  private id = createQueueId();
+  private pending: Array<Omit<queuedEvent, 'seq'>> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private seq = 0;
+  private db: IDBDatabase | null = null;
+  private memory: queuedEvent[] = [];
+  private ready: Promise<void>;
+  private writing: Promise<void>;
+  private uploading = false;
+  private uploadRequested = false;
+  // the events up to this sequence number are uploaded in this page
+  private uploadedSeq = -1;
+  private pagehideHandler: listenerHandler | null = null;
+
+  constructor(options: persistentQueueOptions) {
+    const {
+      upload,
+      dbName = 'rrweb-queue',
+      batchSize = 50,
+      flushInterval = 1000,
+      onError = (...args) => console.warn(...args),
+    } = options;
+    this.upload = upload;
+    this.onError = onError;
+    this.batchSize = Math.max(batchSize, 1);
+    this.flushInterval = flushInterval;
+    this.ready = this.open(
+      options.indexedDB ||
+        (typeof indexedDB !== 'undefined' ? indexedDB : null),
+      dbName,
+    );
+    this.writing = this.ready;
+    // resume the upload of the events stored by the previous pages
+    this.ready.then(() => this.uploadStored());
+    if (typeof window !== 'undefined') {
+      // the page may be unloaded before the next batch
+      this.pagehideHandler = on('pagehide', () => this.flush(), window);
+    }
+  }
+
+  /**
+   * a drop-in `emit` implementation of the recorder
+   */
+  public emit = (event: eventWithTime | string, isCheckout?: boolean) => {
+    this.pending.push({ event, isCheckout });
+    if (this.pending.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushInterval);
+    }
+  };
+
+  /**
+   * write the pending events and upload them,
+   * resolves when the events are stored
+   */
+  public flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const events = this.pending;
+    this.pending = [];
+    if (events.length) {
+      this.writing = this.writing
+        .then(() => this.write(events))
+        .then(() => {
+          this.uploadStored();
+        });
+    }
+    return this.writing;
+  }
+
+  public stop(): Promise<void> {
+    this.pagehideHandler?.();
+    this.pagehideHandler = null;
+    return this.flush();
+  }
+
+  private async open(factory: IDBFactory | null, dbName: string) {
+    if (!factory) {
+      return;
+    }
+    try {
+      const db = await openDatabase(factory, dbName);
+      const seq = await requestToPromise<number | undefined>(
+        db.transaction(META_STORE).objectStore(META_STORE).get(SEQ_KEY),
+      );
+      this.db = db;
+      this.seq = Math.max(this.seq, seq || 0);
+    } catch (error) {
+      this.onError('Failed to open the IndexedDB of the event queue', error);
+    }
+  }
+
+  private toRecords(events: Array<Omit<queuedEvent, 'seq'>>): queuedEvent[] {
+    return events.map(({ event, isCheckout }) => ({
+      seq: ++this.seq,
+      event,
+      isCheckout,
+    }));
+  }
+
+  private async write(events: Array<Omit<queuedEvent, 'seq'>>) {
+    if (this.db) {
+      try {
+        const transaction = this.db.transaction(
+          [EVENT_STORE, META_STORE],
+          'readwrite',
+        );
+        const store = transaction.objectStore(EVENT_STORE);
+        const meta = transaction.objectStore(META_STORE);
+        // the sequence number is read in the transaction, since the other
+        // pages using the database may have written events
+        const request = meta.get(SEQ_KEY);
+        request.onsuccess = () => {
+          this.seq = Math.max(this.seq, request.result || 0);
+          this.toRecords(events).forEach((record) => store.put(record));
+          meta.put(this.seq, SEQ_KEY);
+        };
+        await transactionToPromise(transaction);
+        return;
+      } catch (error) {
+        // e.g. the quota is exceeded
+        this.onError('Failed to store the events, keep them in memory', error);
+      }
+    }
+    this.memory = this.memory.concat(this.toRecords(events));
+  }
+
+  private async read(): Promise<queuedEvent[]> {
+    let stored: queuedEvent[] = [];
+    if (this.db) {
+      stored = await requestToPromise<queuedEvent[]>(
+        this.db.transaction(EVENT_STORE).objectStore(EVENT_STORE).getAll(),
+      );
+    }
+    // drop the duplicate sequence numbers and the uploaded events
+    const records = new Map<number, queuedEvent>();
+    stored.concat(this.memory).forEach((record) => {
+      if (record.seq > this.uploadedSeq) {
+        records.set(record.seq, record);
+      }
+    });
+    return Array.from(records.values()).sort((a, b) => a.seq - b.seq);
+  }
+
+  private async remove(records: queuedEvent[]) {
+    this.memory = this.memory.filter(({ seq }) => seq > this.uploadedSeq);
+    if (this.db) {
+      const transaction = this.db.transaction(EVENT_STORE, 'readwrite');
+      const store = transaction.objectStore(EVENT_STORE);
+      records.forEach(({ seq }) => store.delete(seq));
+      await transactionToPromise(transaction);
+    }
+  }
+
+  /**
+   * take or renew the lock of the upload, resolves to false if another page
+   * using the database holds the lock
+   */
+  private async lock(): Promise<boolean> {
+    if (!this.db) {
+      return true;
+    }
+    let locked = false;
+    const transaction = this.db.transaction(META_STORE, 'readwrite');
+    const meta = transaction.objectStore(META_STORE);
+    const request = meta.get(LOCK_KEY);
+    request.onsuccess = () => {
+      const lock = request.result as uploadLock | undefined;
+      const now = Date.now();
+      if (!lock || lock.owner === this.id || lock.expires < now) {
+        meta.put({ owner: this.id, expires: now + LOCK_TIMEOUT }, LOCK_KEY);
+        locked = true;
+      }
+    };
+    await transactionToPromise(transaction);
+    return locked;
+  }
+
+  private async unlock() {
+    if (!this.db) {
+      return;
+    }
+    const transaction = this.db.transaction(META_STORE, 'readwrite');
+    const meta = transaction.objectStore(META_STORE);
+    const request = meta.get(LOCK_KEY);
+    request.onsuccess = () => {
+      const lock = request.result as uploadLock | undefined;
+      if (lock && lock.owner === this.id) {
+        meta.delete(LOCK_KEY);
+      }
+    };
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * upload the stored events with the lock held,
+   * resolves to false if the lock is held by another page
+   */
+  private async uploadLocked(): Promise<boolean> {
+    if (!(await this.lock())) {
+      // try again after the other page has uploaded
+      if (!this.retryTimer) {
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          this.uploadStored();
+        }, this.flushInterval);
+      }
+      return false;
+    }
+    try {
+      // read after taking the lock, the other pages may have uploaded
+      const records = await this.read();
+      for (let i = 0; i < records.length; i += this.batchSize) {
+        if (i && !(await this.lock())) {
+          // the lock has expired, the other page uploads the rest
+          return false;
+        }
+        const batch = records.slice(i, i + this.batchSize);
+        await this.upload(batch);
+        this.uploadedSeq = batch[batch.length - 1].seq;
+        await this.remove(batch);
+      }
+      return true;
+    } finally {
+      await this.unlock();
+    }
+  }
+
+  private async uploadStored() {
+    if (this.uploading) {
+      // upload again after the current upload
+      this.uploadRequested = true;
+      return;
+    }
+    this.uploading = true;
+    try {
+      do {
+        this.uploadRequested = false;
+      } while ((await this.uploadLocked()) && this.uploadRequested);
+    } catch (error) {
+      // the events stay in the queue, and are uploaded with the next batch
+      this.onError('Failed to upload the queued events', error);
+    } finally {
+      this.uploading = false;
+    }
+  }
+}
@@ -0,0 +1,768 @@
+import {
+  snapshot,
+  MaskInputOptions,
+  MaskMediaOptions,
+  SlimDOMOptions,
+  INode,
+  PrivacyRule,
+  validatePrivacyRules,
+  createPrivacyEngine,
+} from 'rrweb-snapshot';
+import { initObservers } from './observer';
+import {
+  on,
+  getWindowWidth,
+  getWindowHeight,
+  getVisualViewport,
+  isVisualViewportMoved,
+  polyfill,
+  isIframeINode,
+  isInCrossOriginIframe,
+  hasShadowRoot,
+  createMirror,
+} from '../utils';
+import {
+  EventType,
+  event,
+  eventWithTime,
+  recordOptions,
+  IncrementalSource,
+  listenerHandler,
+  mutationCallbackParam,
+  scrollCallback,
+  StyleSheetHost,
+  Mirror,
+  crossOriginIframeMessage,
+} from '../types';
+import MutationBuffer from './mutation';
+import { IframeManager } from './iframe-manager';
+import { ShadowDomManager } from './shadow-dom-manager';
+import { StylesheetManager } from './stylesheet-manager';
+import { CanvasFrameManager } from './canvas-frame-manager';
+import { getCurrentPage } from './session';
+import { WorkerTransport } from './worker-transport';
+import { BudgetManager, BUDGET_REPORT_TAG } from './budget-manager';
+import { BufferManager } from './buffer-manager';
+
+function wrapEvent(e: event): eventWithTime {
+  return {
+    ...e,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * A recording of the page. Each recorder has its own mirror, mutation buffers
+ * and emit pipeline, so several recorders can run on the same page without
+ * affecting each other.
+ */
+export class Recorder<T = eventWithTime> {
+  public mirror: Mirror;
+  private mutationBuffers: MutationBuffer[] = [];
+  private handlers: listenerHandler[] = [];
+  private transport: WorkerTransport | null = null;
+  private bufferManager: BufferManager | null = null;
+  private wrappedEmit!: (e: eventWithTime, isCheckout?: boolean) => void;
+  private takeSnapshot!: (isCheckout?: boolean) => void;
+
+  constructor(options: recordOptions<T> = {}, mirror: Mirror = createMirror()) {
+    this.mirror = mirror;
+    const {
+      emit,
+      checkoutEveryNms,
+      checkoutEveryNth,
+      blockClass = 'rr-block',
+      blockSelector = null,
+      ignoreClass = 'rr-ignore',
+      maskTextClass = 'rr-mask',
+      maskTextSelector = null,
+      inlineStylesheet = true,
+      maskAllInputs,
+      maskInputOptions: _maskInputOptions,
+      slimDOMOptions: _slimDOMOptions,
+      maskInputFn,
+      maskTextFn,
+      maskAttributeFn,
+      maskMedia = false,
+      privacyRules: _privacyRules = [],
+      hooks,
+      packFn,
+      sampling = {},
+      mousemoveWait,
+      recordCanvas = false,
+      dataURLOptions = {},
+      worker,
+      budget,
+      buffer,
+      userTriggeredOnInput = false,
+      collectFonts = false,
+      plugins,
+      keepIframeSrcFn = () => false,
+      dedupeSubtrees = false,
+      stitchSession = false,
+      recordCrossOriginIframes = false,
+      parentOrigin,
+      recordPointers = false,
+    } = options;
+    // the events are emitted by the recording of the parent page
+    const passEmitsToParent =
+      recordCrossOriginIframes && isInCrossOriginIframe();
+    // runtime checks for user options
+    if (!emit && !passEmitsToParent) {
+      throw new Error('emit function is required');
+    }
+    if (passEmitsToParent && !parentOrigin) {
+      throw new Error(
+        'parentOrigin is required to record in a cross-origin iframe',
+      );
+    }
+    if (buffer && !checkoutEveryNms && !checkoutEveryNth) {
+      throw new Error(
+        'checkoutEveryNms or checkoutEveryNth is required by the buffer',
+      );
+    }
+    validatePrivacyRules(_privacyRules, document);
+    // move departed options to new options
+    if (mousemoveWait !== undefined && sampling.mousemove === undefined) {
+      sampling.mousemove = mousemoveWait;
+    }
+
+    const maskInputOptions: MaskInputOptions =
+      maskAllInputs === true
+        ? {
+            color: true,
+            date: true,
+            'datetime-local': true,
+            email: true,
+            month: true,
+            number: true,
+            range: true,
+            search: true,
+            tel: true,
+            text: true,
+            time: true,
+            url: true,
+            week: true,
+            textarea: true,
+            select: true,
+            password: true,
+          }
+        : _maskInputOptions !== undefined
+        ? _maskInputOptions
+        : { password: true };
+
+    const slimDOMOptions: SlimDOMOptions =
+      _slimDOMOptions === true || _slimDOMOptions === 'all'
+        ? {
+            script: true,
+            comment: true,
+            headFavicon: true,
+            headWhitespace: true,
+            headMetaSocial: true,
+            headMetaRobots: true,
+            headMetaHttpEquiv: true,
+            headMetaVerification: true,
+            // the following are off for slimDOMOptions === true,
+            // as they destroy some (hidden) info:
+            headMetaAuthorship: _slimDOMOptions === 'all',
+            headMetaDescKeywords: _slimDOMOptions === 'all',
+          }
+        : _slimDOMOptions
+        ? _slimDOMOptions
+        : {};
+
+    const maskMediaOptions: MaskMediaOptions =
+      maskMedia === true
+        ? {
+            img: true,
+            video: true,
+            picture: true,
+            svg: true,
+            backgroundImage: true,
+          }
+        : maskMedia || {};
+    // the mutations in the masked svg elements are blocked as well
+    const privacyRules: PrivacyRule[] = maskMediaOptions.svg
+      ? _privacyRules.concat([{ selector: 'svg', action: 'block' }])
+      : _privacyRules;
+    // the observers share the policies until the DOM changes
+    const privacyEngine = createPrivacyEngine(privacyRules);
+
+    polyfill();
+
+    if (worker && !passEmitsToParent) {
+      this.transport = new WorkerTransport({
+        ...worker,
+        // packFn still packs the events which are not packed by the worker
+        emit: (e, isCheckout) =>
+          emit!(
+            ((typeof e === 'string' || !packFn
+              ? e
+              : packFn(e)) as unknown) as T,
+            isCheckout,
+          ),
+      });
+    }
+
+    const deliver = (e: eventWithTime, isCheckout?: boolean) => {
+      if (passEmitsToParent) {
+        const message: crossOriginIframeMessage = {
+          type: 'rrweb-iframe-event',
+          event: e,
+        };
+        window.parent.postMessage(message, parentOrigin!);
+      } else if (this.transport) {
+        this.transport.push(e, isCheckout);
+      } else {
+        emit!(((packFn ? packFn(e) : e) as unknown) as T, isCheckout);
+      }
+    };
+    if (buffer) {
+      const bufferManager = new BufferManager({ buffer, emit: deliver });
+      this.bufferManager = bufferManager;
+      this.handlers.push(() => bufferManager.stop());
+    }
+
+    const budgetManager =
+      budget &&
+      new BudgetManager({
+        budget,
+        emit: (e) => wrappedEmit(e),
+        checkout: () => takeFullSnapshot(true),
+        reportCb: (report) =>
+          wrappedEmit(
+            wrapEvent({
+              type: EventType.Custom,
+              data: {
+                tag: BUDGET_REPORT_TAG,
+                payload: report,
+              },
+            }),
+          ),
+      });
+    if (budgetManager) {
+      this.handlers.push(() => budgetManager.stop());
+    }
+
+    let lastFullSnapshotEvent: eventWithTime;
+    let incrementalSnapshotCount = 0;
+    const wrappedEmit = (e: eventWithTime, isCheckout?: boolean) => {
+      if (budgetManager && !budgetManager.admit(e)) {
+        return;
+      }
+      if (
+        this.mutationBuffers[0]?.isFrozen() &&
+        e.type !== EventType.FullSnapshot &&
+        !(
+          e.type === EventType.IncrementalSnapshot &&
+          e.data.source === IncrementalSource.Mutation
+        )
+      ) {
+        // we've got a user initiated event so first we need to apply
+        // all DOM changes that have been buffering during paused state
+        this.mutationBuffers.forEach((buf) => buf.unfreeze());
+      }
+
+      if (this.bufferManager) {
+        this.bufferManager.push(e, isCheckout);
+      } else {
+        deliver(e, isCheckout);
+      }
+      if (e.type === EventType.FullSnapshot) {
+        lastFullSnapshotEvent = e;
+        incrementalSnapshotCount = 0;
+      } else if (e.type === EventType.IncrementalSnapshot) {
+        // attach iframe should be considered as full snapshot
+        if (
+          e.data.source === IncrementalSource.Mutation &&
+          e.data.isAttachIframe
+        ) {
+          return;
+        }
+
+        incrementalSnapshotCount++;
+        const exceedCount =
+          checkoutEveryNth && incrementalSnapshotCount >= checkoutEveryNth;
+        const exceedTime =
+          checkoutEveryNms &&
+          e.timestamp - lastFullSnapshotEvent.timestamp > checkoutEveryNms;
+        if (exceedCount || exceedTime) {
+          takeFullSnapshot(true);
+        }
+      }
+    };
+
+    const wrappedMutationEmit = (m: mutationCallbackParam) => {
+      wrappedEmit(
+        wrapEvent({
+          type: EventType.IncrementalSnapshot,
+          data: {
+            source: IncrementalSource.Mutation,
+            ...m,
+          },
+        }),
+      );
+    };
+    const wrappedScrollEmit: scrollCallback = (p) =>
+      wrappedEmit(
+        wrapEvent({
+          type: EventType.IncrementalSnapshot,
+          data: {
+            source: IncrementalSource.Scroll,
+            ...p,
+          },
+        }),
+      );
+
+    const stylesheetManager = new StylesheetManager({
+      adoptedStyleSheetCb: (a) =>
+        wrappedEmit(
+          wrapEvent({
+            type: EventType.IncrementalSnapshot,
+            data: {
+              source: IncrementalSource.AdoptedStyleSheet,
+              ...a,
+            },
+          }),
+        ),
+    });
+
+    const iframeManager = new IframeManager({
+      mutationCb: wrappedMutationEmit,
+      emit: (e) => wrappedEmit(e),
+      stylesheetManager,
+      recordCrossOriginIframes,
+    });
+    this.handlers.push(() => iframeManager.stop());
+
+    const shadowDomManager = new ShadowDomManager({
+      mutationCb: wrappedMutationEmit,
+      scrollCb: wrappedScrollEmit,
+      bypassOptions: {
+        blockClass,
+        blockSelector,
+        maskTextClass,
+        maskTextSelector,
+        inlineStylesheet,
+        maskInputOptions,
+        maskTextFn,
+        maskInputFn,
+        maskAttributeFn,
+        maskMediaOptions,
+        privacyEngine,
+        recordCanvas,
+        sampling,
+        slimDOMOptions,
+        iframeManager,
+        stylesheetManager,
+        mutationBuffers: this.mutationBuffers,
+      },
+      mirror,
+    });
+
+    // checkouts in the same page load share the page info
+    const pageData = stitchSession ? { page: getCurrentPage() } : {};
+
+    const takeFullSnapshot = (isCheckout = false) => {
+      wrappedEmit(
+        wrapEvent({
+          type: EventType.Meta,
+          data: {
+            href: window.location.href,
+            width: getWindowWidth(),
+            height: getWindowHeight(),
+            ...pageData,
+          },
+        }),
+        isCheckout,
+      );
+
+      this.mutationBuffers.forEach((buf) => buf.lock()); // don't allow any mirror modifications during snapshotting
+      stylesheetManager.reset(); // the rules of adopted stylesheets are recorded again after the full snapshot
+      const [node, idNodeMap] = snapshot(document, {
+        blockClass,
+        blockSelector,
+        maskTextClass,
+        maskTextSelector,
+        inlineStylesheet,
+        maskAllInputs: maskInputOptions,
+        maskTextFn,
+        maskAttributeFn,
+        maskMedia: maskMediaOptions,
+        slimDOM: slimDOMOptions,
+        recordCanvas,
+        onSerialize: (n) => {
+          if (isIframeINode(n)) {
+            iframeManager.addIframe(n);
+          }
+          if (hasShadowRoot(n)) {
+            shadowDomManager.addShadowRoot(n.shadowRoot, document);
+          }
+        },
+        onIframeLoad: (iframe, childSn) => {
+          iframeManager.attachIframe(iframe, childSn);
+        },
+        keepIframeSrcFn,
+        dedupeSubtrees,
+        privacyRules,
+      });
+
+      if (!node) {
+        return console.warn('Failed to snapshot the document');
+      }
+
+      mirror.map = idNodeMap;
+      wrappedEmit(
+        wrapEvent({
+          type: EventType.FullSnapshot,
+          data: {
+            node,
+            initialOffset: {
+              left:
+                window.pageXOffset !== undefined
+                  ? window.pageXOffset
+                  : document?.documentElement.scrollLeft ||
+                    document?.body?.parentElement?.scrollLeft ||
+                    document?.body.scrollLeft ||
+                    0,
+              top:
+                window.pageYOffset !== undefined
+                  ? window.pageYOffset
+                  : document?.documentElement.scrollTop ||
+                    document?.body?.parentElement?.scrollTop ||
+                    document?.body.scrollTop ||
+                    0,
+            },
+            ...pageData,
+          },
+        }),
+      );
+      const adoptedStyleSheets = (document as StyleSheetHost)
+        .adoptedStyleSheets;
+      if (adoptedStyleSheets && adoptedStyleSheets.length) {
+        stylesheetManager.adoptStyleSheets(
+          adoptedStyleSheets,
+          mirror.getId((document as unknown) as INode),
+        );
+      }
+      // the replay starts from the full snapshot without the zoom
+      const visualViewport = getVisualViewport();
+      if (
+        sampling.visualViewport !== false &&
+        visualViewport &&
+        isVisualViewportMoved(visualViewport)
+      ) {
+        wrappedEmit(
+          wrapEvent({
+            type: EventType.IncrementalSnapshot,
+            data: {
+              source: IncrementalSource.VisualViewport,
+              ...visualViewport,
+            },
+          }),
+        );
+      }
+      this.mutationBuffers.forEach((buf) => buf.unlock()); // generate & emit any mutations that happened during snapshotting, as can now apply against the newly built mirror
+    };
+    this.wrappedEmit = wrappedEmit;
+    this.takeSnapshot = takeFullSnapshot;
+
+    try {
+      this.handlers.push(
+        on('DOMContentLoaded', () => {
+          wrappedEmit(
+            wrapEvent({
+              type: EventType.DomContentLoaded,
+              data: {},
+            }),
+          );
+        }),
+      );
+
+      const observe = (doc: Document) => {
+        return initObservers(
+          {
+            mutationCb: wrappedMutationEmit,
+            mousemoveCb: (positions, source) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source,
+                    positions,
+                  },
+                }),
+              ),
+            mouseInteractionCb: (d) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.MouseInteraction,
+                    ...d,
+                  },
+                }),
+              ),
+            scrollCb: wrappedScrollEmit,
+            viewportResizeCb: (d) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.ViewportResize,
+                    ...d,
+                  },
+                }),
+              ),
+            inputCb: (v) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.Input,
+                    ...v,
+                  },
+                }),
+              ),
+            mediaInteractionCb: (p) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.MediaInteraction,
+                    ...p,
+                  },
+                }),
+              ),
+            keyboardCb: (k) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.Keyboard,
+                    ...k,
+                  },
+                }),
+              ),
+            selectionCb: (s) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.Selection,
+                    ...s,
+                  },
+                }),
+              ),
+            pointerCb: (p) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.Pointer,
+                    ...p,
+                  },
+                }),
+              ),
+            visualViewportCb: (v) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.VisualViewport,
+                    ...v,
+                  },
+                }),
+              ),
+            styleSheetRuleCb: (r) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.StyleSheetRule,
+                    ...r,
+                  },
+                }),
+              ),
+            styleDeclarationCb: (r) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.StyleDeclaration,
+                    ...r,
+                  },
+                }),
+              ),
+            canvasMutationCb: (p) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.CanvasMutation,
+                    ...p,
+                  },
+                }),
+              ),
+            fontCb: (p) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.Font,
+                    ...p,
+                  },
+                }),
+              ),
+            blockClass,
+            ignoreClass,
+            maskTextClass,
+            maskTextSelector,
+            maskInputOptions,
+            inlineStylesheet,
+            sampling,
+            recordCanvas,
+            userTriggeredOnInput,
+            collectFonts,
+            recordPointers,
+            doc,
+            maskInputFn,
+            maskTextFn,
+            maskAttributeFn,
+            maskMediaOptions,
+            privacyEngine,
+            blockSelector,
+            slimDOMOptions,
+            mirror,
+            iframeManager,
+            shadowDomManager,
+            stylesheetManager,
+            mutationBuffers: this.mutationBuffers,
+            plugins:
+              plugins?.map((p) => ({
+                observer: p.observer,
+                options: p.options,
+                callback: (payload: object) =>
+                  wrappedEmit(
+                    wrapEvent({
+                      type: EventType.Plugin,
+                      data: {
+                        plugin: p.name,
+                        payload,
+                      },
+                    }),
+                  ),
+              })) || [],
+          },
+          hooks,
+        );
+      };
+
+      iframeManager.addLoadListener((iframeEl) => {
+        this.handlers.push(observe(iframeEl.contentDocument!));
+      });
+
+      const init = () => {
+        takeFullSnapshot();
+        this.handlers.push(observe(document));
+        if (passEmitsToParent) {
+          // the parent page takes a full snapshot
+          this.handlers.push(
+            on(
+              'message',
+              (e) => {
+                const { source, origin, data } = e as MessageEvent;
+                if (
+                  source === window.parent &&
+                  origin === parentOrigin &&
+                  (data as crossOriginIframeMessage | null)?.type ===
+                    'rrweb-iframe-snapshot'
+                ) {
+                  takeFullSnapshot();
+                }
+              },
+              window,
+            ),
+          );
+        }
+        if (recordCanvas && typeof sampling.canvas === 'number') {
+          const canvasFrameManager = new CanvasFrameManager({
+            canvasFrameCb: (p) =>
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.IncrementalSnapshot,
+                  data: {
+                    source: IncrementalSource.CanvasFrame,
+                    ...p,
+                  },
+                }),
+              ),
+            win: window,
+            mirror,
+            blockClass,
+            privacyEngine,
+            fps: sampling.canvas,
+            dataURLOptions,
+          });
+          this.handlers.push(() => canvasFrameManager.stop());
+        }
+      };
+      if (
+        document.readyState === 'interactive' ||
+        document.readyState === 'complete'
+      ) {
+        init();
+      } else {
+        this.handlers.push(
+          on(
+            'load',
+            () => {
+              wrappedEmit(
+                wrapEvent({
+                  type: EventType.Load,
+                  data: {},
+                }),
+              );
+              init();
+            },
+            window,
+          ),
+        );
+      }
+    } catch (error) {
+      // TODO: handle internal error
+      console.warn(error);
+    }
+  }
+
+  public addCustomEvent<P>(tag: string, payload: P) {
+    this.wrappedEmit(
+      wrapEvent({
+        type: EventType.Custom,
+        data: {
+          tag,
+          payload,
+        },
+      }),
+    );
+  }
+
+  public freezePage() {
+    this.mutationBuffers.forEach((buf) => buf.freeze());
+  }
+
+  public takeFullSnapshot(isCheckout?: boolean) {
+    this.takeSnapshot(isCheckout);
+  }
+
+  // emit the events kept by the buffer option
+  public flush() {
+    this.bufferManager?.flush();
+  }
+
+  public stop() {
+    this.handlers.forEach((h) => h());
+    this.handlers = [];
+    this.transport?.stop();
+  }
+}
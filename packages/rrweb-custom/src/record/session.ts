@@ -0,0 +1,76 @@
+import { pageInfo } from '../types';
+
+export const SESSION_STORAGE_KEY = 'rrweb-session';
+
+type storedSession = {
+  id: string;
+  sequence: number;
+};
+
+function createSessionId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+function readSession(storage: Storage, key: string): storedSession | null {
+  try {
+    const session = JSON.parse(storage.getItem(key) || 'null');
+    if (
+      session &&
+      typeof session.id === 'string' &&
+      typeof session.sequence === 'number'
+    ) {
+      return session;
+    }
+  } catch {
+    // the stored value is broken, start a new session
+  }
+  return null;
+}
+
+/**
+ * Get the identity of the current page load, and advance the sequence
+ * counter kept in the storage. A new session is started if the storage
+ * has no valid session. When the storage is not available, e.g. in a
+ * sandboxed iframe, every page load is treated as a new session.
+ */
+export function nextPage(
+  storage: Storage | null,
+  key = SESSION_STORAGE_KEY,
+): pageInfo {
+  let session: storedSession = { id: createSessionId(), sequence: 0 };
+  try {
+    if (storage) {
+      const stored = readSession(storage, key);
+      if (stored) {
+        session = { id: stored.id, sequence: stored.sequence + 1 };
+      }
+      storage.setItem(key, JSON.stringify(session));
+    }
+  } catch {
+    // accessing the storage may throw, e.g. when the quota is exceeded
+  }
+  return { sessionId: session.id, pageIndex: session.sequence };
+}
+
+function getSessionStorage(): Storage | null {
+  try {
+    return window.sessionStorage;
+  } catch {
+    // throws a SecurityError when the storage is disabled
+    return null;
+  }
+}
+
+// the page load of the current document, which is shared by the recorders
+let currentPage: pageInfo | null = null;
+
+/**
+ * Get the page in the session of the current tab, it's started when
+ * called for the first time in the page load.
+ */
+export function getCurrentPage(): pageInfo {
+  if (!currentPage) {
+    currentPage = nextPage(getSessionStorage());
+  }
+  return currentPage;
+}
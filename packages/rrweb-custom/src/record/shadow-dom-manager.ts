@@ -5,15 +5,22 @@ import {
   Mirror,
   scrollCallback,
   SamplingStrategy,
+  StyleSheetHost,
 } from '../types';
 import {
   MaskInputOptions,
+  MaskMediaOptions,
   SlimDOMOptions,
   MaskTextFn,
   MaskInputFn,
+  MaskAttributeFn,
+  INode,
+  PrivacyEngine,
 } from 'rrweb-snapshot';
 import { IframeManager } from './iframe-manager';
 import { initMutationObserver, initScrollObserver } from './observer';
+import { StylesheetManager } from './stylesheet-manager';
+import MutationBuffer from './mutation';
 
 type BypassOptions = {
   blockClass: blockClass;
@@ -24,10 +31,15 @@ type BypassOptions = {
   maskInputOptions: MaskInputOptions;
   maskTextFn: MaskTextFn | undefined;
   maskInputFn: MaskInputFn | undefined;
+  maskAttributeFn: MaskAttributeFn | undefined;
+  maskMediaOptions: MaskMediaOptions;
+  privacyEngine: PrivacyEngine;
   recordCanvas: boolean;
   sampling: SamplingStrategy;
   slimDOMOptions: SlimDOMOptions;
   iframeManager: IframeManager;
+  stylesheetManager: StylesheetManager;
+  mutationBuffers: MutationBuffer[];
 };
 
 export class ShadowDomManager {
@@ -60,11 +72,15 @@ export class ShadowDomManager {
       this.bypassOptions.maskInputOptions,
       this.bypassOptions.maskTextFn,
       this.bypassOptions.maskInputFn,
+      this.bypassOptions.maskAttributeFn,
+      this.bypassOptions.maskMediaOptions,
+      this.bypassOptions.privacyEngine,
       this.bypassOptions.recordCanvas,
       this.bypassOptions.slimDOMOptions,
       this.mirror,
       this.bypassOptions.iframeManager,
       this,
+      this.bypassOptions.mutationBuffers,
       shadowRoot,
     );
     initScrollObserver(
@@ -74,7 +90,18 @@ export class ShadowDomManager {
       (shadowRoot as unknown) as Document,
       this.mirror,
       this.bypassOptions.blockClass,
+      this.bypassOptions.privacyEngine,
       this.bypassOptions.sampling,
     );
+    // the host is emitted after the shadow root is added, e.g. in the full snapshot
+    Promise.resolve().then(() => {
+      const sheets = (shadowRoot as StyleSheetHost).adoptedStyleSheets;
+      if (sheets && sheets.length) {
+        this.bypassOptions.stylesheetManager.adoptStyleSheets(
+          sheets,
+          this.mirror.getId((shadowRoot.host as unknown) as INode),
+        );
+      }
+    });
   }
 }
@@ -0,0 +1,79 @@
+import {
+  adoptedStyleSheetCallback,
+  adoptedStyleSheetParam,
+  styleSheetAddRule,
+} from '../types';
+
+/**
+ * Assign ids to the constructed stylesheets which are adopted by documents
+ * and shadow roots, the rules of a stylesheet are recorded when it's
+ * adopted for the first time.
+ */
+export class StylesheetManager {
+  private styleIds: WeakMap<CSSStyleSheet, number> = new WeakMap();
+  private nextStyleId = 1;
+  private adoptedStyleSheetCb: adoptedStyleSheetCallback;
+
+  constructor(options: { adoptedStyleSheetCb: adoptedStyleSheetCallback }) {
+    this.adoptedStyleSheetCb = options.adoptedStyleSheetCb;
+  }
+
+  /**
+   * @returns -1 if the stylesheet has not been adopted
+   */
+  public getStyleId(sheet: CSSStyleSheet): number {
+    const styleId = this.styleIds.get(sheet);
+    return styleId === undefined ? -1 : styleId;
+  }
+
+  /**
+   * assign an id which is not used by the stylesheets of this recording,
+   * e.g. to a stylesheet recorded in a cross-origin iframe
+   */
+  public genStyleId(): number {
+    return this.nextStyleId++;
+  }
+
+  public adoptStyleSheets(sheets: CSSStyleSheet[], hostId: number) {
+    if (hostId === -1) {
+      return;
+    }
+    const styles: NonNullable<adoptedStyleSheetParam['styles']> = [];
+    const styleIds = sheets.map((sheet) => {
+      let styleId = this.styleIds.get(sheet);
+      if (styleId === undefined) {
+        styleId = this.nextStyleId++;
+        this.styleIds.set(sheet, styleId);
+        styles.push({ styleId, rules: getRules(sheet) });
+      }
+      return styleId;
+    });
+    this.adoptedStyleSheetCb({
+      id: hostId,
+      ...(styles.length ? { styles } : {}),
+      styleIds,
+    });
+  }
+
+  /**
+   * forget the recorded stylesheets when a new full snapshot is taken
+   */
+  public reset() {
+    this.styleIds = new WeakMap();
+  }
+}
+
+function getRules(sheet: CSSStyleSheet): styleSheetAddRule[] {
+  try {
+    return Array.from(sheet.cssRules).map((rule, index) => ({
+      rule: rule.cssText,
+      index,
+    }));
+  } catch {
+    /**
+     * accessing styleSheet rules may cause SecurityError
+     * for specific access control settings
+     */
+    return [];
+  }
+}
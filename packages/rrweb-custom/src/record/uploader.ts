@@ -0,0 +1,262 @@
+import { gzipSync, strToU8 } from 'fflate';
+import {
+  eventWithTime,
+  listenerHandler,
+  uploadBatch,
+  uploaderOptions,
+} from '../types';
+import { on } from '../utils';
+
+function createUploaderId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+// the other 4xx statuses mean the batch is rejected
+function isRetryable(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Upload the emitted events to an ingest endpoint in batches.
+ * A failed upload is retried with an exponential backoff, and the batches
+ * wait in the queue while the browser is offline. The queued batches are
+ * sent by `navigator.sendBeacon` or a keepalive fetch on `pagehide`.
+ * Every batch carries the id of the uploader and its sequence number, so
+ * the endpoint can drop the batches received twice.
+ */
+export class Uploader {
+  private url: string;
+  private batchSize: number;
+  private flushInterval: number;
+  private compress: boolean;
+  private maxRetries: number;
+  private retryDelay: number;
+  private maxQueueSize: number;
+  private headers: uploaderOptions['headers'];
+  private onCheckout: uploaderOptions['onCheckout'];
+  private onError: NonNullable<uploaderOptions['onError']>;
+  private id = createUploaderId();
+  private seq = 0;
+  private checkout = 0;
+  private inCheckout = false;
+  private pending: Array<eventWithTime | string> = [];
+  private queue: uploadBatch[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retries = 0;
+  private sending = false;
+  private draining: Promise<void> = Promise.resolve();
+  private handlers: listenerHandler[] = [];
+
+  constructor(options: uploaderOptions) {
+    const {
+      url,
+      batchSize = 50,
+      flushInterval = 5000,
+      compress = false,
+      maxRetries = 5,
+      retryDelay = 1000,
+      maxQueueSize = 100,
+      headers,
+      onCheckout,
+      onError = (...args) => console.warn(...args),
+    } = options;
+    this.url = url;
+    this.batchSize = Math.max(batchSize, 1);
+    this.flushInterval = flushInterval;
+    this.compress = compress;
+    this.maxRetries = maxRetries;
+    this.retryDelay = retryDelay;
+    this.maxQueueSize = Math.max(maxQueueSize, 1);
+    this.headers = headers;
+    this.onCheckout = onCheckout;
+    this.onError = onError;
+    if (typeof window !== 'undefined') {
+      this.handlers.push(
+        on('pagehide', () => this.beacon(), window),
+        on(
+          'online',
+          () => {
+            // skip the backoff when the network is back
+            this.clearRetry();
+            this.drain();
+          },
+          window,
+        ),
+      );
+    }
+  }
+
+  /**
+   * a drop-in `emit` implementation of the recorder
+   */
+  public emit = (event: eventWithTime | string, isCheckout?: boolean) => {
+    // the meta and full snapshot events of a checkout are emitted in a row
+    if (isCheckout && !this.inCheckout) {
+      // a batch never spans a checkout
+      this.enqueue();
+      this.checkout++;
+      this.onCheckout?.(this.checkout);
+    }
+    this.inCheckout = Boolean(isCheckout);
+    this.pending.push(event);
+    if (this.pending.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushInterval);
+    }
+  };
+
+  /**
+   * upload the pending events and the queued batches, resolves when the
+   * queue is empty or a failed upload waits for the retry
+   */
+  public flush(): Promise<void> {
+    this.enqueue();
+    return this.drain();
+  }
+
+  public stop(): Promise<void> {
+    this.handlers.forEach((h) => h());
+    this.handlers = [];
+    return this.flush();
+  }
+
+  private enqueue() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.pending.length) {
+      return;
+    }
+    this.queue.push({
+      id: this.id,
+      seq: this.seq++,
+      checkout: this.checkout,
+      events: this.pending,
+    });
+    this.pending = [];
+    if (this.queue.length > this.maxQueueSize) {
+      this.onError('The upload queue is full, drop the oldest batch');
+      this.queue.shift();
+    }
+  }
+
+  private drain(): Promise<void> {
+    // wait for the retry timer while backing off
+    if (this.retryTimer) {
+      return Promise.resolve();
+    }
+    // the batches queued while sending are sent by the current drain
+    if (!this.sending) {
+      this.sending = true;
+      this.draining = this.sendQueue();
+    }
+    return this.draining;
+  }
+
+  private async sendQueue() {
+    try {
+      while (this.queue.length && isOnline()) {
+        const batch = this.queue[0];
+        let status = 0;
+        try {
+          status = await this.send(batch);
+        } catch {
+          // network errors
+        }
+        if (isRetryable(status)) {
+          this.scheduleRetry();
+          break;
+        }
+        if (status >= 400) {
+          this.onError(`The batch is rejected with the status ${status}`);
+        }
+        this.retries = 0;
+        // the queue may be changed while sending
+        this.queue = this.queue.filter((b) => b !== batch);
+      }
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retries >= this.maxRetries) {
+      // retry on the next flush or when the browser is online again
+      this.retries = 0;
+      return;
+    }
+    const delay = this.retryDelay * Math.pow(2, this.retries++);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.drain();
+    }, delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retries = 0;
+  }
+
+  private encode(batch: uploadBatch): string | Uint8Array {
+    const json = JSON.stringify(batch);
+    return this.compress ? gzipSync(strToU8(json)) : json;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.compress ? { 'Content-Encoding': 'gzip' } : {}),
+      ...this.headers?.(),
+    };
+  }
+
+  private send(batch: uploadBatch, keepalive = false): Promise<number> {
+    return fetch(this.url, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: this.encode(batch),
+      keepalive,
+    }).then((response) => response.status);
+  }
+
+  /**
+   * send the queued batches while the page is being hidden, the requests
+   * may outlive the page
+   */
+  private beacon() {
+    this.enqueue();
+    this.clearRetry();
+    const batches = this.queue;
+    this.queue = [];
+    batches.forEach((batch) => {
+      // the beacon can not carry the headers, the endpoint detects the
+      // gzip payloads by their magic number
+      if (
+        !this.headers &&
+        typeof navigator !== 'undefined' &&
+        navigator.sendBeacon &&
+        navigator.sendBeacon(
+          this.url,
+          new Blob([this.encode(batch)], { type: 'application/json' }),
+        )
+      ) {
+        return;
+      }
+      if (typeof fetch === 'function') {
+        this.send(batch, true).catch(() => undefined);
+      } else {
+        this.queue.push(batch);
+      }
+    });
+  }
+}
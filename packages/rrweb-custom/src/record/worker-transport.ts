@@ -0,0 +1,125 @@
+import { eventWithTime, listenerHandler, workerOptions } from '../types';
+import { on } from '../utils';
+import type {
+  emittedEvent,
+  transportRequest,
+  transportResponse,
+} from './worker';
+
+type emitCallback = (
+  event: emittedEvent['event'],
+  isCheckout?: boolean,
+) => void;
+
+type pendingEvent = {
+  event: eventWithTime;
+  isCheckout?: boolean;
+};
+
+/**
+ * Hand the events to a worker which packs and batches them off the main
+ * thread. The events are emitted on the main thread as they are if the
+ * worker is not available. The events which are not emitted by the worker
+ * yet are kept, and emitted on the main thread when the page is hidden or
+ * the worker fails, as the responses of the worker would come too late.
+ */
+export class WorkerTransport {
+  private emit: emitCallback;
+  private worker: Worker | null = null;
+  private pagehideHandler: listenerHandler | null = null;
+  // the events posted to the worker which are not emitted yet
+  private pending: pendingEvent[] = [];
+  // the count of the events posted to the worker, or emitted instead of it
+  private posted = 0;
+  private emitted = 0;
+
+  constructor(options: workerOptions & { emit: emitCallback }) {
+    const {
+      url,
+      pack = false,
+      batchSize = 50,
+      flushInterval = 1000,
+      emit,
+    } = options;
+    this.emit = emit;
+    try {
+      this.worker = new Worker(url);
+    } catch (error) {
+      console.warn('Failed to start the record worker', error);
+      return;
+    }
+    this.worker.onmessage = (e: MessageEvent) =>
+      this.handleResponse(e.data as transportResponse);
+    this.worker.onerror = () => {
+      console.warn('The record worker is not available, emit on main thread');
+      this.stopWorker();
+      this.emitPending();
+    };
+    this.post({ type: 'init', pack, batchSize, flushInterval });
+    // the page may be unloaded before the next batch
+    this.pagehideHandler = on(
+      'pagehide',
+      () => {
+        this.emitPending();
+        this.post({ type: 'clear' });
+      },
+      window,
+    );
+  }
+
+  public push(event: eventWithTime, isCheckout?: boolean) {
+    if (!this.worker) {
+      this.emit(event, isCheckout);
+      return;
+    }
+    try {
+      this.post({ type: 'event', event, isCheckout });
+    } catch {
+      // e.g. the payload of a plugin can not be cloned
+      this.post({
+        type: 'event',
+        event: JSON.parse(JSON.stringify(event)),
+        isCheckout,
+      });
+    }
+    this.pending.push({ event, isCheckout });
+    this.posted++;
+  }
+
+  /**
+   * emit the buffered events, and terminate the worker after that
+   */
+  public stop() {
+    this.pagehideHandler?.();
+    this.pagehideHandler = null;
+    this.post({ type: 'flush', final: true });
+  }
+
+  private post(request: transportRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private handleResponse({ events, received, final }: transportResponse) {
+    // the batch is emitted by the main thread already
+    if (received > this.emitted) {
+      this.pending.splice(0, received - this.emitted);
+      this.emitted = received;
+      events.forEach(({ event, isCheckout }) => this.emit(event, isCheckout));
+    }
+    if (final) {
+      this.stopWorker();
+    }
+  }
+
+  private emitPending() {
+    const pending = this.pending;
+    this.pending = [];
+    this.emitted = this.posted;
+    pending.forEach(({ event, isCheckout }) => this.emit(event, isCheckout));
+  }
+
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
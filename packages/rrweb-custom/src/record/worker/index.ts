@@ -0,0 +1,137 @@
+import { pack } from '../../packer/pack';
+import { createStreamPacker } from '../../packer/stream-pack';
+import { StreamPacker } from '../../packer/base';
+import { eventWithTime, workerPackMode } from '../../types';
+
+export type transportRequest =
+  | {
+      type: 'init';
+      pack: workerPackMode;
+      batchSize: number;
+      flushInterval: number;
+    }
+  | {
+      type: 'event';
+      event: eventWithTime;
+      isCheckout?: boolean;
+    }
+  | {
+      type: 'flush';
+      // the worker is terminated after the response
+      final?: boolean;
+    }
+  | {
+      // drop the buffered events, which are emitted by the main thread
+      type: 'clear';
+    };
+
+export type emittedEvent = {
+  event: eventWithTime | string;
+  isCheckout?: boolean;
+};
+
+export type transportResponse = {
+  events: emittedEvent[];
+  // the count of the events received by the worker, the batch ends with the last one
+  received: number;
+  final?: boolean;
+};
+
+type transportWorkerScope = {
+  onmessage: ((e: { data: transportRequest }) => void) | null;
+  postMessage: (response: transportResponse) => void;
+};
+
+type bufferedEvent = {
+  event: eventWithTime;
+  isCheckout?: boolean;
+};
+
+/**
+ * Buffer the events of a recording and emit them back in batches, packed
+ * by the mode of the transport.
+ */
+export function initTransportWorker(scope: transportWorkerScope) {
+  let mode: workerPackMode = false;
+  let batchSize = 50;
+  let flushInterval = 1000;
+  let buffer: bufferedEvent[] = [];
+  let received = 0;
+  let streamPacker: StreamPacker | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const packStream = (events: bufferedEvent[]): emittedEvent[] => {
+    const chunks: emittedEvent[] = [];
+    let isCheckout: boolean | undefined;
+    const flushChunk = () => {
+      const chunk = streamPacker?.flush();
+      if (chunk) {
+        chunks.push({ event: chunk, isCheckout });
+      }
+      isCheckout = undefined;
+    };
+    for (const e of events) {
+      if (!streamPacker || e.isCheckout) {
+        // the events before a checkout may be dropped, so a new stream
+        // starts to not depend on them
+        flushChunk();
+        streamPacker = createStreamPacker({ chunkSize: Infinity });
+        isCheckout = e.isCheckout;
+      }
+      streamPacker.push(e.event);
+    }
+    flushChunk();
+    return chunks;
+  };
+
+  const flush = (final?: boolean) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const events = buffer;
+    buffer = [];
+    const emitted =
+      mode === 'stream'
+        ? packStream(events)
+        : events.map(({ event, isCheckout }) => ({
+            event: mode === 'event' ? pack(event) : event,
+            isCheckout,
+          }));
+    if (emitted.length || final) {
+      scope.postMessage({ events: emitted, received, final });
+    }
+  };
+
+  scope.onmessage = (e) => {
+    const request = e.data;
+    switch (request.type) {
+      case 'init':
+        mode = request.pack;
+        batchSize = request.batchSize;
+        flushInterval = request.flushInterval;
+        break;
+      case 'event':
+        received++;
+        buffer.push({ event: request.event, isCheckout: request.isCheckout });
+        if (buffer.length >= batchSize) {
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(() => flush(), flushInterval);
+        }
+        break;
+      case 'flush':
+        flush(request.final);
+        break;
+      case 'clear':
+        buffer = [];
+        break;
+      default:
+    }
+  };
+}
+
+// started when the script is loaded by a worker
+if (typeof window === 'undefined' && typeof self !== 'undefined') {
+  initTransportWorker((self as unknown) as transportWorkerScope);
+}
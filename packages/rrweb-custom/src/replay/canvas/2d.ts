@@ -0,0 +1,25 @@
+import { CanvasArg, canvasMutationData } from '../../types';
+import { deserializeArg, isOwnMethod } from './deserialize-args';
+
+export function canvasMutation2D(
+  mutation: canvasMutationData,
+  target: HTMLCanvasElement,
+  imageMap: Map<string, HTMLImageElement>,
+) {
+  const ctx = target.getContext('2d');
+  if (!ctx) {
+    throw new Error('The 2d context is not available');
+  }
+  if (!isOwnMethod(ctx, mutation.property)) {
+    return;
+  }
+  const args = (mutation.args as CanvasArg[]).map(
+    deserializeArg(imageMap, ctx),
+  );
+  const context = (ctx as unknown) as Record<string, unknown>;
+  if (mutation.setter) {
+    context[mutation.property] = args[0];
+    return;
+  }
+  (context[mutation.property] as Function).apply(ctx, args);
+}
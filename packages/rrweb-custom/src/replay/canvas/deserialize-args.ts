@@ -0,0 +1,141 @@
+import { CanvasArg, SerializedCanvasArg } from '../../types';
+import { variableListFor } from '../../utils';
+
+// the objects which can be rebuilt by their constructors
+const CONSTRUCTORS: Record<string, Function | undefined> = {
+  Int8Array: typeof Int8Array === 'undefined' ? undefined : Int8Array,
+  Uint8Array: typeof Uint8Array === 'undefined' ? undefined : Uint8Array,
+  Uint8ClampedArray:
+    typeof Uint8ClampedArray === 'undefined' ? undefined : Uint8ClampedArray,
+  Int16Array: typeof Int16Array === 'undefined' ? undefined : Int16Array,
+  Uint16Array: typeof Uint16Array === 'undefined' ? undefined : Uint16Array,
+  Int32Array: typeof Int32Array === 'undefined' ? undefined : Int32Array,
+  Uint32Array: typeof Uint32Array === 'undefined' ? undefined : Uint32Array,
+  Float32Array: typeof Float32Array === 'undefined' ? undefined : Float32Array,
+  Float64Array: typeof Float64Array === 'undefined' ? undefined : Float64Array,
+  DataView: typeof DataView === 'undefined' ? undefined : DataView,
+  ImageData: typeof ImageData === 'undefined' ? undefined : ImageData,
+  DOMMatrix: typeof DOMMatrix === 'undefined' ? undefined : DOMMatrix,
+  Path2D: typeof Path2D === 'undefined' ? undefined : Path2D,
+};
+
+// the context methods which create the objects
+const FACTORIES = [
+  'createLinearGradient',
+  'createRadialGradient',
+  'createConicGradient',
+  'createPattern',
+];
+
+/**
+ * only the methods and properties of the prototype can be replayed,
+ * the events may come from untrusted sources
+ */
+export function isOwnMethod(target: object, property: string): boolean {
+  return (
+    property !== 'constructor' &&
+    Object.prototype.hasOwnProperty.call(
+      Object.getPrototypeOf(target),
+      property,
+    )
+  );
+}
+
+export function decodeArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function isSerializedArg(arg: CanvasArg): arg is SerializedCanvasArg {
+  return (
+    typeof arg === 'object' &&
+    arg !== null &&
+    !Array.isArray(arg) &&
+    'rr_type' in arg
+  );
+}
+
+/**
+ * create the images in the args before they are drawn, so they can be
+ * loaded in advance
+ */
+export function preloadImages(
+  arg: CanvasArg,
+  imageMap: Map<string, HTMLImageElement>,
+) {
+  if (Array.isArray(arg)) {
+    arg.forEach((a) => preloadImages(a, imageMap));
+  } else if (isSerializedArg(arg)) {
+    if ('src' in arg && !imageMap.has(arg.src)) {
+      const image = document.createElement('img');
+      image.src = arg.src;
+      imageMap.set(arg.src, image);
+    } else if ('args' in arg) {
+      preloadImages(arg.args, imageMap);
+      arg.calls?.forEach((call) => preloadImages(call.args, imageMap));
+    }
+  }
+}
+
+/**
+ * Rebuild an argument serialized by the canvas observer, the webgl objects
+ * and the objects created by the context are looked up in the context.
+ */
+export function deserializeArg(
+  imageMap: Map<string, HTMLImageElement>,
+  ctx: object,
+): (arg: CanvasArg) => unknown {
+  const deserialize = (arg: CanvasArg): unknown => {
+    if (Array.isArray(arg)) {
+      return arg.map(deserialize);
+    }
+    if (!isSerializedArg(arg)) {
+      return arg;
+    }
+    if ('base64' in arg) {
+      return decodeArrayBuffer(arg.base64);
+    }
+    if ('src' in arg) {
+      let image = imageMap.get(arg.src);
+      if (!image) {
+        image = document.createElement('img');
+        image.src = arg.src;
+        imageMap.set(arg.src, image);
+      }
+      return image;
+    }
+    if ('index' in arg) {
+      return variableListFor(ctx, arg.rr_type)[arg.index];
+    }
+    const args = arg.args.map(deserialize);
+    let value: Record<string, Function>;
+    if (arg.property) {
+      if (!FACTORIES.includes(arg.property)) {
+        return null;
+      }
+      value = ((ctx as unknown) as Record<string, Function>)[arg.property](
+        ...args,
+      );
+    } else {
+      const ctor = CONSTRUCTORS[arg.rr_type];
+      if (!ctor) {
+        return null;
+      }
+      value = new (ctor as new (...args: Array<unknown>) => Record<
+        string,
+        Function
+      >)(...args);
+    }
+    arg.calls?.forEach(({ property, args: callArgs }) => {
+      if (isOwnMethod(value, property)) {
+        value[property](...callArgs.map(deserialize));
+      }
+    });
+    return value;
+  };
+  return deserialize;
+}
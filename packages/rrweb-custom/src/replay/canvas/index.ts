@@ -0,0 +1,19 @@
+import { CanvasContext, canvasMutationData } from '../../types';
+import { canvasMutation2D } from './2d';
+import { canvasMutationWebGL } from './webgl';
+
+/**
+ * Replay a serialized canvas mutation, the legacy mutations whose args
+ * are not serialized are not handled here.
+ */
+export function applyCanvasMutation(
+  mutation: canvasMutationData,
+  target: HTMLCanvasElement,
+  imageMap: Map<string, HTMLImageElement>,
+) {
+  if (mutation.type === CanvasContext['2D']) {
+    canvasMutation2D(mutation, target, imageMap);
+  } else {
+    canvasMutationWebGL(mutation, target, imageMap);
+  }
+}
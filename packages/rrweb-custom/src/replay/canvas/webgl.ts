@@ -0,0 +1,45 @@
+import { CanvasArg, CanvasContext, canvasMutationData } from '../../types';
+import {
+  getConstructorName,
+  isWebGLObject,
+  variableListFor,
+} from '../../utils';
+import { deserializeArg, isOwnMethod } from './deserialize-args';
+
+function getContext(
+  target: HTMLCanvasElement,
+  type: CanvasContext,
+): WebGLRenderingContext | WebGL2RenderingContext | null {
+  // the buffer is kept, as the calls of a frame may be replayed in several tasks
+  return target.getContext(type === CanvasContext.WebGL ? 'webgl' : 'webgl2', {
+    preserveDrawingBuffer: true,
+  }) as WebGLRenderingContext | WebGL2RenderingContext | null;
+}
+
+export function canvasMutationWebGL(
+  mutation: canvasMutationData,
+  target: HTMLCanvasElement,
+  imageMap: Map<string, HTMLImageElement>,
+) {
+  const ctx = getContext(target, mutation.type!);
+  if (!ctx) {
+    // e.g. the canvas already has a 2d context
+    throw new Error('The webgl context is not available');
+  }
+  if (!isOwnMethod(ctx, mutation.property)) {
+    return;
+  }
+  const args = (mutation.args as CanvasArg[]).map(
+    deserializeArg(imageMap, ctx),
+  );
+  const context = (ctx as unknown) as Record<string, unknown>;
+  if (mutation.setter) {
+    context[mutation.property] = args[0];
+    return;
+  }
+  const result = (context[mutation.property] as Function).apply(ctx, args);
+  // save the created objects in the same order as recording
+  if (isWebGLObject(result)) {
+    variableListFor(ctx, getConstructorName(result as object)).push(result);
+  }
+}
@@ -5,11 +5,15 @@ import {
   NodeType,
   BuildCache,
   createCache,
+  serializedNodeWithId,
+  expandTemplateInstance,
 } from 'rrweb-snapshot';
 import * as mittProxy from 'mitt';
 import { polyfill as smoothscrollPolyfill } from './smoothscroll';
 import { Timer } from './timer';
 import { createPlayerService, createSpeedService } from './machine';
+import { buildKeyframeIndex, isValidKeyframeIndex } from './keyframe';
+import { getPageBoundaries, isSamePage } from './pages';
 import {
   EventType,
   IncrementalSource,
@@ -32,11 +36,22 @@ import {
   mutationData,
   scrollData,
   inputData,
+  selectionData,
+  pointerData,
+  pointerPosition,
+  PointerInteractions,
+  visualViewportParam,
   canvasMutationData,
   Mirror,
   ElementState,
   styleAttributeValue,
   styleValueWithPriority,
+  keyframeIndex,
+  pageBoundary,
+  StyleSheetHost,
+  CanvasArg,
+  canvasFrameData,
+  adoptedStyleSheetData,
 } from '../types';
 import {
   createMirror,
@@ -46,18 +61,33 @@ import {
   iterateResolveTree,
   AppendedIframe,
   isIframeINode,
+  HTMLIFrameINode,
   getBaseDimension,
   hasShadowRoot,
+  isVisualViewportMoved,
 } from '../utils';
 import getInjectStyleRules from './styles/inject-style';
 import './styles/style.css';
 import {
   applyVirtualStyleRulesToNode,
+  applyVirtualStyleRulesToSheet,
+  ConstructedStyleSheets,
   storeCSSRules,
   StyleRuleType,
+  VirtualStyleRule,
   VirtualStyleRules,
   VirtualStyleRulesMap,
 } from './virtual-styles';
+import {
+  RRDocument,
+  RRNode,
+  RRElement,
+  RRCharacterData,
+  buildFromDom,
+} from '../rrdom/document';
+import { diff } from '../rrdom/diff';
+import { applyCanvasMutation } from './canvas';
+import { preloadImages } from './canvas/deserialize-args';
 
 const SKIP_TIME_THRESHOLD = 10 * 1000;
 const SKIP_TIME_INTERVAL = 5 * 1000;
@@ -68,6 +98,24 @@ const mitt = (mittProxy as any).default || mittProxy;
 
 const REPLAY_CONSOLE_PREFIX = '[replayer]';
 
+// sources which can be replayed while the virtual dom holds the latest state
+const VIRTUAL_DOM_SOURCES = [
+  IncrementalSource.Mutation,
+  IncrementalSource.StyleSheetRule,
+  IncrementalSource.StyleDeclaration,
+  IncrementalSource.CanvasFrame,
+  IncrementalSource.Scroll,
+  IncrementalSource.Input,
+  IncrementalSource.ViewportResize,
+  IncrementalSource.Font,
+  IncrementalSource.Log,
+  IncrementalSource.Keyboard,
+  IncrementalSource.Selection,
+  IncrementalSource.VisualViewport,
+  IncrementalSource.AdoptedStyleSheet,
+  IncrementalSource.Pointer,
+];
+
 const defaultMouseTailConfig = {
   duration: 500,
   lineCap: 'round',
@@ -90,6 +138,15 @@ export class Replayer {
   private mouse: HTMLDivElement;
   private mouseTail: HTMLCanvasElement | null = null;
   private tailPositions: Array<{ x: number; y: number }> = [];
+  // the touches and the pens by their pointer ids
+  private pointers: Map<number, HTMLDivElement> = new Map();
+  // null when the whole layout viewport is visible
+  private visualViewport: visualViewportParam | null = null;
+  // the positions of the cursor and the pointers in the layout viewport
+  private layoutPositions: Map<
+    HTMLElement,
+    { x: number; y: number }
+  > = new Map();
 
   private emitter: Emitter = mitt();
 
@@ -103,18 +160,42 @@ export class Replayer {
   private elementStateMap!: Map<INode, ElementState>;
   // Hold the list of CSSRules for in-memory state restoration
   private virtualStyleRulesMap!: VirtualStyleRulesMap;
+  // Hold the rules of the constructed stylesheets adopted by documents and shadow roots
+  private constructedStyleSheets = new ConstructedStyleSheets();
 
   // The replayer uses the cache to speed up replay and scrubbing.
   private cache: BuildCache = createCache();
 
+  // the templates of the last full snapshot, which the added nodes may refer to
+  private templates: serializedNodeWithId[] = [];
+
   private imageMap: Map<eventWithTime, HTMLImageElement> = new Map();
 
+  // images drawn by the canvas mutations, indexed by the source
+  private canvasImageMap: Map<string, HTMLImageElement> = new Map();
+
+  // the latest frame of each canvas, the earlier ones are not drawn after loaded
+  private canvasFrameMap: WeakMap<HTMLCanvasElement, string> = new WeakMap();
+
   private mirror: Mirror = createMirror();
 
   private firstFullSnapshot: eventWithTime | true | null = null;
 
   private newDocumentQueue: addedNodeMutation[] = [];
 
+  // The virtual dom which receives mutations in sync mode, it will be diffed into the iframe on flush.
+  private virtualDom: RRDocument | null = null;
+
+  // data of the last meta event which has been cast
+  private currentPage: metaEvent['data'] | null = null;
+
+  // the page loads found in the events, they are found again when the events change
+  private pages: {
+    events: eventWithTime[];
+    length: number;
+    boundaries: pageBoundary[];
+  } | null = null;
+
   constructor(
     events: Array<eventWithTime | string>,
     config?: Partial<playerConfig>,
@@ -136,6 +217,7 @@ export class Replayer {
       triggerFocus: true,
       UNSAFE_replayCanvas: false,
       pauseAnimation: true,
+      useVirtualDom: true,
       mouseTail: defaultMouseTailConfig,
     };
     this.config = Object.assign({}, defaultConfig, config);
@@ -152,7 +234,13 @@ export class Replayer {
     this.virtualStyleRulesMap = new Map();
 
     this.emitter.on(ReplayerEvents.Flush, () => {
-      const { scrollMap, inputMap } = this.treeIndex.flush();
+      this.flushVirtualDom();
+      const {
+        scrollMap,
+        inputMap,
+        selection,
+        pointerMap,
+      } = this.treeIndex.flush();
 
       this.fragmentParentMap.forEach((parent, frag) =>
         this.restoreRealParent(frag, parent),
@@ -171,27 +259,40 @@ export class Replayer {
       for (const d of inputMap.values()) {
         this.applyInput(d);
       }
+      // the selection is restored after the values of the inputs
+      if (selection) {
+        this.applySelection(selection);
+      }
+      for (const d of pointerMap.values()) {
+        this.applyPointer(d, d.positions[0]);
+      }
     });
     this.emitter.on(ReplayerEvents.PlayBack, () => {
       this.firstFullSnapshot = null;
+      this.virtualDom = null;
+      this.currentPage = null;
       this.mirror.reset();
     });
 
     const timer = new Timer([], config?.speed || defaultConfig.speed);
+    const sortedEvents = events
+      .map((e) => {
+        if (config && config.unpackFn) {
+          return config.unpackFn(e as string);
+        }
+        return e as eventWithTime;
+      })
+      .sort((a1, a2) => a1.timestamp - a2.timestamp);
     this.service = createPlayerService(
       {
-        events: events
-          .map((e) => {
-            if (config && config.unpackFn) {
-              return config.unpackFn(e as string);
-            }
-            return e as eventWithTime;
-          })
-          .sort((a1, a2) => a1.timestamp - a2.timestamp),
+        events: sortedEvents,
         timer,
         timeOffset: 0,
         baselineTime: 0,
         lastPlayedEvent: null,
+        // the index will be rebuilt before playing if it doesn't match the events
+        keyframeIndex:
+          this.config.keyframeIndex || buildKeyframeIndex(sortedEvents),
       },
       {
         getCastFn: this.getCastFn,
@@ -306,6 +407,37 @@ export class Replayer {
     };
   }
 
+  /**
+   * Get the seek index of the events, which can be persisted and passed
+   * to the keyframeIndex config to skip building it.
+   */
+  public getKeyframeIndex(): keyframeIndex {
+    const { keyframeIndex: index, events } = this.service.state.context;
+    return isValidKeyframeIndex(index, events)
+      ? index
+      : buildKeyframeIndex(events, index.interval);
+  }
+
+  /**
+   * Get the page loads in the replay, the events of a multi-page session
+   * can be concatenated into one replayer.
+   */
+  public getPages(): pageBoundary[] {
+    const { events } = this.service.state.context;
+    if (
+      !this.pages ||
+      this.pages.events !== events ||
+      this.pages.length !== events.length
+    ) {
+      this.pages = {
+        events,
+        length: events.length,
+        boundaries: getPageBoundaries(events),
+      };
+    }
+    return this.pages.boundaries.slice();
+  }
+
   public getCurrentTime(): number {
     return this.timer.timeOffset + this.getTimeOffset();
   }
@@ -458,11 +590,19 @@ export class Replayer {
         };
         break;
       case EventType.Meta:
-        castFn = () =>
+        castFn = () => {
           this.emitter.emit(ReplayerEvents.Resize, {
             width: event.data.width,
             height: event.data.height,
           });
+          if (!this.currentPage || !isSamePage(this.currentPage, event.data)) {
+            this.emitter.emit(
+              ReplayerEvents.PageChange,
+              this.getPages().find((p) => p.timestamp === event.timestamp),
+            );
+          }
+          this.currentPage = event.data;
+        };
         break;
       case EventType.FullSnapshot:
         castFn = () => {
@@ -549,10 +689,11 @@ export class Replayer {
         };
         if (
           event.type === EventType.IncrementalSnapshot &&
-          event.data.source === IncrementalSource.MouseMove &&
+          (event.data.source === IncrementalSource.MouseMove ||
+            event.data.source === IncrementalSource.Pointer) &&
           event.data.positions.length
         ) {
-          // defer finish event if the last event is a mouse move
+          // defer finish event if the last event is a mouse move or a pointer event
           setTimeout(() => {
             finish();
           }, Math.max(0, -event.data.positions[0].timeOffset + 50)); // Add 50 to make sure the timer would check the last mousemove event. Otherwise, the timer may be stopped by the service before checking the last event.
@@ -578,6 +719,14 @@ export class Replayer {
       );
     }
     this.legacy_missingNodeRetryMap = {};
+    this.clearPointers();
+    this.applyVisualViewport(null);
+    // the adopted stylesheets are recorded again after the full snapshot
+    this.constructedStyleSheets.reset();
+    // the full snapshot replaces everything in the virtual dom
+    this.virtualDom = null;
+    const { node } = event.data;
+    this.templates = (node.type === NodeType.Document && node.templates) || [];
     const collected: AppendedIframe[] = [];
     this.mirror.map = rebuild(event.data.node, {
       doc: this.iframe.contentDocument,
@@ -607,6 +756,7 @@ export class Replayer {
     if (!isSync) {
       this.waitForStylesheetLoad();
     }
+    this.preloadCanvasImages();
     if (this.config.UNSAFE_replayCanvas) {
       this.preloadAllImages();
     }
@@ -745,6 +895,18 @@ export class Replayer {
   /**
    * pause when there are some canvas drawImage args need to be loaded
    */
+  private preloadCanvasImages() {
+    for (const event of this.service.state.context.events) {
+      if (
+        event.type === EventType.IncrementalSnapshot &&
+        event.data.source === IncrementalSource.CanvasMutation &&
+        event.data.type !== undefined
+      ) {
+        preloadImages(event.data.args as CanvasArg[], this.canvasImageMap);
+      }
+    }
+  }
+
   private preloadAllImages() {
     let beforeLoadState = this.service.state;
     const stateHandler = () => {
@@ -781,6 +943,11 @@ export class Replayer {
     isSync: boolean,
   ) {
     const { data: d } = e;
+    if (this.virtualDom && !VIRTUAL_DOM_SOURCES.includes(d.source)) {
+      // the other sources are applied to the real dom, which is brought up
+      // to date first to keep the order of the events
+      this.flushVirtualDom();
+    }
     switch (d.source) {
       case IncrementalSource.Mutation: {
         if (isSync) {
@@ -790,6 +957,13 @@ export class Replayer {
           d.removes.forEach((m) => this.treeIndex.remove(m, this.mirror));
         }
         try {
+          if (
+            isSync &&
+            this.config.useVirtualDom &&
+            this.applyMutationToVirtualDom(d)
+          ) {
+            break;
+          }
           this.applyMutation(d, isSync);
         } catch (error) {
           this.warn(`Exception in mutation ${error.message || error}`, d);
@@ -822,6 +996,31 @@ export class Replayer {
           });
         }
         break;
+      case IncrementalSource.Pointer:
+        if (isSync) {
+          this.treeIndex.pointer(d);
+        } else {
+          d.positions.forEach((p) => {
+            this.timer.addAction({
+              doAction: () => {
+                this.applyPointer(d, p);
+              },
+              delay:
+                p.timeOffset +
+                e.timestamp -
+                this.service.state.context.baselineTime,
+            });
+          });
+          // add a dummy action to keep timer alive
+          this.timer.addAction({
+            doAction() {},
+            delay: e.delay! - d.positions[0]?.timeOffset,
+          });
+        }
+        break;
+      case IncrementalSource.VisualViewport:
+        this.applyVisualViewport(d);
+        break;
       case IncrementalSource.MouseInteraction: {
         /**
          * Same as the situation of missing input target.
@@ -941,10 +1140,69 @@ export class Replayer {
         }
         break;
       }
+      case IncrementalSource.Keyboard:
+        // the keystrokes have no visual impact, they are shown by the player
+        if (!isSync) {
+          this.emitter.emit(ReplayerEvents.Keyboard, {
+            ...d,
+            target: this.mirror.getNode(d.id),
+          });
+        }
+        break;
+      case IncrementalSource.Selection:
+        if (isSync) {
+          this.treeIndex.selection(d);
+          break;
+        }
+        this.applySelection(d);
+        break;
       case IncrementalSource.StyleSheetRule: {
-        const target = this.mirror.getNode(d.id);
+        if (d.styleId !== undefined) {
+          // a rule change of a constructed stylesheet
+          const { styleId } = d;
+          d.adds?.forEach(({ rule, index }) =>
+            this.constructedStyleSheets.apply(styleId, {
+              cssText: rule,
+              index,
+              type: StyleRuleType.Insert,
+            }),
+          );
+          d.removes?.forEach(({ index }) =>
+            this.constructedStyleSheets.apply(styleId, {
+              index,
+              type: StyleRuleType.Remove,
+            }),
+          );
+          if (d.replace !== undefined) {
+            this.constructedStyleSheets.apply(styleId, {
+              cssText: d.replace,
+              type: StyleRuleType.Replace,
+            });
+          }
+          break;
+        }
+        const virtualTarget = this.virtualDom?.getNode(d.id!);
+        if (virtualTarget instanceof RRElement && virtualTarget.isNew) {
+          // the style element has not been mounted yet
+          d.adds?.forEach(({ rule, index }) =>
+            virtualTarget.rules.push({
+              cssText: rule,
+              index,
+              type: StyleRuleType.Insert,
+            }),
+          );
+          d.removes?.forEach(({ index }) =>
+            virtualTarget.rules.push({ index, type: StyleRuleType.Remove }),
+          );
+          break;
+        }
+        if (virtualTarget) {
+          // the text of the style element may be changed in the virtual dom
+          this.flushVirtualDom();
+        }
+        const target = this.mirror.getNode(d.id!);
         if (!target) {
-          return this.debugNodeNotFound(d, d.id);
+          return this.debugNodeNotFound(d, d.id!);
         }
 
         const styleEl = (target as Node) as HTMLStyleElement;
@@ -1019,14 +1277,75 @@ export class Replayer {
         }
         break;
       }
+      case IncrementalSource.StyleDeclaration: {
+        const rule: VirtualStyleRule = d.set
+          ? {
+              type: StyleRuleType.SetProperty,
+              index: d.index,
+              ...d.set,
+            }
+          : {
+              type: StyleRuleType.RemoveProperty,
+              index: d.index,
+              property: d.remove!.property,
+            };
+        if (d.styleId !== undefined) {
+          // a declaration of a constructed stylesheet
+          this.constructedStyleSheets.apply(d.styleId, rule);
+          break;
+        }
+        const virtualTarget = this.virtualDom?.getNode(d.id!);
+        if (virtualTarget instanceof RRElement && virtualTarget.isNew) {
+          // the style element has not been mounted yet
+          virtualTarget.rules.push(rule);
+          break;
+        }
+        if (virtualTarget) {
+          this.flushVirtualDom();
+        }
+        const target = this.mirror.getNode(d.id!);
+        if (!target) {
+          return this.debugNodeNotFound(d, d.id!);
+        }
+        const styleSheet = this.fragmentParentMap.has(
+          (target.parentNode as unknown) as INode,
+        )
+          ? null
+          : ((target as Node) as HTMLStyleElement).sheet;
+        if (styleSheet) {
+          applyVirtualStyleRulesToSheet([rule], styleSheet);
+        } else {
+          // same as the rules of StyleSheetRule
+          let rules = this.virtualStyleRulesMap.get(target);
+          if (!rules) {
+            rules = [];
+            this.virtualStyleRulesMap.set(target, rules);
+          }
+          rules.push(rule);
+        }
+        break;
+      }
       case IncrementalSource.CanvasMutation: {
-        if (!this.config.UNSAFE_replayCanvas) {
+        // the args of the legacy mutations are not serialized
+        if (d.type === undefined && !this.config.UNSAFE_replayCanvas) {
           return;
         }
         const target = this.mirror.getNode(d.id);
         if (!target) {
           return this.debugNodeNotFound(d, d.id);
         }
+        if (d.type !== undefined) {
+          try {
+            applyCanvasMutation(
+              d,
+              (target as unknown) as HTMLCanvasElement,
+              this.canvasImageMap,
+            );
+          } catch (error) {
+            this.warnCanvasMutationFailed(d, d.id, error);
+          }
+          break;
+        }
         try {
           const ctx = ((target as unknown) as HTMLCanvasElement).getContext(
             '2d',
@@ -1057,6 +1376,20 @@ export class Replayer {
         }
         break;
       }
+      case IncrementalSource.CanvasFrame: {
+        const virtualTarget = this.virtualDom?.getNode(d.id);
+        if (virtualTarget instanceof RRElement && virtualTarget.isNew) {
+          // the canvas has not been mounted yet, the frame is drawn when it's built
+          virtualTarget.attributes.rr_dataURL = d.dataURL;
+          break;
+        }
+        const target = this.mirror.getNode(d.id);
+        if (!target) {
+          return this.debugNodeNotFound(d, d.id);
+        }
+        this.drawCanvasFrame((target as unknown) as HTMLCanvasElement, d);
+        break;
+      }
       case IncrementalSource.Font: {
         try {
           const fontFace = new FontFace(
@@ -1072,10 +1405,307 @@ export class Replayer {
         }
         break;
       }
+      case IncrementalSource.AdoptedStyleSheet: {
+        // the rules are stored at once, so the later rule changes apply to them
+        d.styles?.forEach(({ styleId, rules }) =>
+          this.constructedStyleSheets.add(styleId, rules),
+        );
+        // the target may not be mounted yet
+        this.flushVirtualDom();
+        this.adoptStyleSheets(d);
+        break;
+      }
       default:
     }
   }
 
+  private adoptStyleSheets(d: adoptedStyleSheetData) {
+    const target = this.mirror.getNode(d.id);
+    if (!target) {
+      return this.debugNodeNotFound(d, d.id);
+    }
+    // the target is a document or the host of a shadow root
+    const isDocument = target.nodeType === Node.DOCUMENT_NODE;
+    const doc = isDocument
+      ? ((target as unknown) as Document)
+      : target.ownerDocument;
+    const host = isDocument ? doc : ((target as unknown) as Element).shadowRoot;
+    if (!host || !doc?.defaultView) {
+      return;
+    }
+    this.constructedStyleSheets.adopt(
+      host as StyleSheetHost,
+      d.styleIds,
+      doc.defaultView,
+    );
+  }
+
+  private drawCanvasFrame(canvas: HTMLCanvasElement, d: canvasFrameData) {
+    this.canvasFrameMap.set(canvas, d.dataURL);
+    // the image is created in this document, as scripts may not run in the sandbox
+    const image = document.createElement('img');
+    image.onload = () => {
+      if (this.canvasFrameMap.get(canvas) !== d.dataURL) {
+        return;
+      }
+      try {
+        const ctx = canvas.getContext('2d');
+        ctx?.clearRect(0, 0, canvas.width, canvas.height);
+        ctx?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      } catch (error) {
+        this.warn(`Has error on drawing canvas frame '${d.id}'`, d, error);
+      }
+    };
+    image.src = d.dataURL;
+  }
+
+  private attachQueuedDocument(iframeEl: HTMLIFrameINode) {
+    const mutationInQueue = this.newDocumentQueue.find(
+      (m) => m.parentId === iframeEl.__sn.id,
+    );
+    if (mutationInQueue) {
+      this.attachDocumentToIframe(mutationInQueue, iframeEl);
+      this.newDocumentQueue = this.newDocumentQueue.filter(
+        (m) => m !== mutationInQueue,
+      );
+    }
+    if (iframeEl.contentDocument) {
+      const { documentElement, head } = iframeEl.contentDocument;
+      this.insertStyleRules(documentElement, head);
+    }
+  }
+
+  /**
+   * Apply the mutation to the virtual dom instead of the iframe.
+   * Returns false if the mutation can not be applied virtually, e.g. it
+   * touches the documents of iframes, then the virtual dom is flushed
+   * and the mutation should be applied to the real dom.
+   */
+  private applyMutationToVirtualDom(d: mutationData): boolean {
+    if (!this.iframe.contentDocument) {
+      return false;
+    }
+    if (!this.virtualDom) {
+      this.virtualDom = buildFromDom(this.iframe.contentDocument);
+    }
+    const virtualDom = this.virtualDom;
+    // nodes in the real mirror but not in the virtual dom live in iframes
+    const isOutOfVirtualDom = (id: number) =>
+      !virtualDom.has(id) && this.mirror.has(id);
+    const canApply =
+      !d.isAttachIframe &&
+      d.adds.every(
+        (m) =>
+          m.node.type !== NodeType.Document &&
+          !m.node.rootId &&
+          !m.previousId &&
+          m.nextId !== -1 &&
+          !isOutOfVirtualDom(m.parentId) &&
+          (virtualDom.getNode(m.parentId) as RRElement | null)?.tagName !==
+            'iframe',
+      ) &&
+      d.removes.every((m) => !isOutOfVirtualDom(m.id)) &&
+      d.texts.every(
+        (m) =>
+          !isOutOfVirtualDom(m.id) &&
+          !(virtualDom.getNode(m.id) instanceof RRElement),
+      ) &&
+      d.attributes.every((m) => !isOutOfVirtualDom(m.id));
+    if (!canApply) {
+      this.flushVirtualDom();
+      return false;
+    }
+
+    d.removes.forEach((mutation) => {
+      const target = virtualDom.getNode(mutation.id);
+      if (!target) {
+        if (d.removes.find((r) => r.id === mutation.parentId)) {
+          // no need to warn, parent was already removed
+          return;
+        }
+        return this.warnNodeNotFound(d, mutation.id);
+      }
+      const parent = virtualDom.getNode(mutation.parentId);
+      if (!parent) {
+        return this.warnNodeNotFound(d, mutation.parentId);
+      }
+      virtualDom.removeNodeFromMap(target);
+      if (target.parentNode) {
+        target.parentNode.removeChild(target);
+      }
+    });
+
+    const queue: addedNodeMutation[] = [];
+    const appendNode = (mutation: addedNodeMutation) => {
+      let parent = virtualDom.getNode(mutation.parentId);
+      if (!parent) {
+        return queue.push(mutation);
+      }
+      const next = mutation.nextId ? virtualDom.getNode(mutation.nextId) : null;
+      if (mutation.nextId !== null && mutation.nextId !== undefined && !next) {
+        return queue.push(mutation);
+      }
+      if (mutation.node.isShadow && parent instanceof RRElement) {
+        parent = parent.attachShadow();
+      }
+      const target = this.createVirtualNode(virtualDom, mutation.node);
+      if (next && next.parentNode === parent) {
+        parent.insertBefore(target, next);
+      } else {
+        if (parent === virtualDom) {
+          // same as the real dom, replace the old html element
+          virtualDom.childNodes.forEach((child) => {
+            virtualDom.removeNodeFromMap(child);
+            virtualDom.removeChild(child);
+          });
+        }
+        parent.appendChild(target);
+      }
+    };
+
+    d.adds.forEach((mutation) => {
+      appendNode(mutation);
+    });
+
+    const startTime = Date.now();
+    while (queue.length) {
+      const resolveTrees = queueToResolveTrees(queue);
+      queue.length = 0;
+      if (Date.now() - startTime > 500) {
+        this.warn(
+          'Timeout in the loop, please check the resolve tree data:',
+          resolveTrees,
+        );
+        break;
+      }
+      for (const tree of resolveTrees) {
+        if (!virtualDom.getNode(tree.value.parentId)) {
+          this.debug(
+            'Drop resolve tree since there is no parent for the root node.',
+            tree,
+          );
+        } else {
+          iterateResolveTree(tree, (mutation) => {
+            appendNode(mutation);
+          });
+        }
+      }
+    }
+
+    d.texts.forEach((mutation) => {
+      const target = virtualDom.getNode(mutation.id);
+      if (!target) {
+        if (d.removes.find((r) => r.id === mutation.id)) {
+          // no need to warn, element was already removed
+          return;
+        }
+        return this.warnNodeNotFound(d, mutation.id);
+      }
+      if (target instanceof RRCharacterData) {
+        target.textContent = mutation.value || '';
+      }
+    });
+    d.attributes.forEach((mutation) => {
+      const target = virtualDom.getNode(mutation.id);
+      if (!target) {
+        if (d.removes.find((r) => r.id === mutation.id)) {
+          // no need to warn, element was already removed
+          return;
+        }
+        return this.warnNodeNotFound(d, mutation.id);
+      }
+      if (!(target instanceof RRElement)) {
+        return;
+      }
+      for (const attributeName in mutation.attributes) {
+        if (typeof attributeName === 'string') {
+          const value = mutation.attributes[attributeName];
+          if (value === null) {
+            target.removeAttribute(attributeName);
+          } else if (typeof value === 'string') {
+            target.setAttribute(attributeName, value);
+          } else if (attributeName === 'style') {
+            const styleValues = value as styleAttributeValue;
+            for (const s in styleValues) {
+              if (styleValues[s] === false) {
+                target.removeStyleProperty(s);
+              } else if (styleValues[s] instanceof Array) {
+                const svp = styleValues[s] as styleValueWithPriority;
+                target.setStyleProperty(s, svp[0], svp[1]);
+              } else {
+                target.setStyleProperty(s, styleValues[s] as string);
+              }
+            }
+          }
+        }
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Create the virtual node of an added node, a template instance is expanded
+   * to its whole subtree like in the real dom.
+   */
+  private createVirtualNode(
+    virtualDom: RRDocument,
+    sn: serializedNodeWithId,
+  ): RRNode {
+    if (sn.type !== NodeType.TemplateInstance) {
+      return virtualDom.createNode(sn, true);
+    }
+    const build = (n: serializedNodeWithId): RRNode => {
+      const node = virtualDom.createNode(n, true);
+      if (n.type === NodeType.Element && node instanceof RRElement) {
+        n.childNodes.forEach((child) => {
+          const parent = child.isShadow ? node.attachShadow() : node;
+          parent.appendChild(build(child));
+        });
+      }
+      return node;
+    };
+    return build(expandTemplateInstance(sn, this.templates));
+  }
+
+  /**
+   * Diff the virtual dom into the iframe in one pass.
+   */
+  private flushVirtualDom() {
+    const virtualDom = this.virtualDom;
+    this.virtualDom = null;
+    if (!virtualDom || !this.iframe.contentDocument) {
+      return;
+    }
+    const doc = this.iframe.contentDocument;
+    diff(doc, virtualDom, {
+      mirror: this.mirror,
+      createNode: (node) =>
+        buildNodeWithSN(
+          {
+            ...node.__sn,
+            ...(node instanceof RRElement
+              ? { attributes: node.attributes, childNodes: [] }
+              : {}),
+            ...(node instanceof RRCharacterData
+              ? { textContent: node.textContent }
+              : {}),
+          } as serializedNodeWithId,
+          {
+            doc,
+            map: this.mirror.map,
+            skipChild: true,
+            hackCss: true,
+            cache: this.cache,
+          },
+        ) as INode,
+      afterAppend: (node) => {
+        if (isIframeINode(node)) {
+          this.attachQueuedDocument(node);
+        }
+      },
+    });
+  }
+
   private applyMutation(d: mutationData, useVirtualParent: boolean) {
     d.removes.forEach((mutation) => {
       let target = this.mirror.getNode(mutation.id);
@@ -1238,6 +1868,7 @@ export class Replayer {
         skipChild: true,
         hackCss: true,
         cache: this.cache,
+        templates: this.templates,
       }) as INode;
 
       // legacy data, we should not have -1 siblings any more
@@ -1271,19 +1902,7 @@ export class Replayer {
       }
 
       if (isIframeINode(target)) {
-        const mutationInQueue = this.newDocumentQueue.find(
-          (m) => m.parentId === target.__sn.id,
-        );
-        if (mutationInQueue) {
-          this.attachDocumentToIframe(mutationInQueue, target);
-          this.newDocumentQueue = this.newDocumentQueue.filter(
-            (m) => m !== mutationInQueue,
-          );
-        }
-        if (target.contentDocument) {
-          const { documentElement, head } = target.contentDocument;
-          this.insertStyleRules(documentElement, head);
-        }
+        this.attachQueuedDocument(target);
       }
 
       if (mutation.previousId || mutation.nextId) {
@@ -1433,6 +2052,47 @@ export class Replayer {
     }
   }
 
+  private applySelection(d: selectionData) {
+    if ('id' in d) {
+      const target = this.mirror.getNode(d.id);
+      if (!target) {
+        return this.debugNodeNotFound(d, d.id);
+      }
+      try {
+        ((target as Node) as HTMLInputElement).setSelectionRange(
+          d.start,
+          d.end,
+          d.backward ? 'backward' : 'forward',
+        );
+      } catch (error) {
+        // the type of the input may not support the selection
+      }
+      return;
+    }
+    if (!d.range) {
+      this.iframe.contentDocument?.getSelection()?.removeAllRanges();
+      return;
+    }
+    const { anchor, anchorOffset, focus, focusOffset } = d.range;
+    const anchorNode = this.mirror.getNode(anchor);
+    const focusNode = this.mirror.getNode(focus);
+    if (!anchorNode || !focusNode) {
+      return this.debugNodeNotFound(d, anchorNode ? focus : anchor);
+    }
+    try {
+      (anchorNode as Node).ownerDocument
+        ?.getSelection()
+        ?.setBaseAndExtent(
+          anchorNode as Node,
+          anchorOffset,
+          focusNode as Node,
+          focusOffset,
+        );
+    } catch (error) {
+      // the offsets may be out of the nodes changed by the masking
+    }
+  }
+
   private legacy_resolveMissingNode(
     map: missingNodeMap,
     parent: Node,
@@ -1472,12 +2132,97 @@ export class Replayer {
     const _x = x * base.absoluteScale + base.x;
     const _y = y * base.absoluteScale + base.y;
 
-    this.mouse.style.left = `${_x}px`;
-    this.mouse.style.top = `${_y}px`;
+    this.placeInViewport(this.mouse, _x, _y);
     this.drawMouseTail({ x: _x, y: _y });
     this.hoverElements((target as Node) as Element);
   }
 
+  private applyPointer(d: pointerData, p: pointerPosition) {
+    const isDown =
+      p.type === PointerInteractions.Down ||
+      p.type === PointerInteractions.Move;
+    // the mouse is shown by the cursor
+    if (p.pointerType === 'mouse') {
+      if (isDown) {
+        this.moveAndHover(d, p.x, p.y, p.id);
+      }
+      return;
+    }
+    let el = this.pointers.get(p.pointerId);
+    if (!isDown) {
+      if (el) {
+        el.remove();
+        this.layoutPositions.delete(el);
+      }
+      this.pointers.delete(p.pointerId);
+      return;
+    }
+    const target = this.mirror.getNode(p.id);
+    if (!target) {
+      return this.debugNodeNotFound(d, p.id);
+    }
+    if (!el) {
+      el = document.createElement('div');
+      el.classList.add('replayer-pointer', `replayer-pointer-${p.pointerType}`);
+      this.wrapper.appendChild(el);
+      this.pointers.set(p.pointerId, el);
+    }
+    const base = getBaseDimension(target, this.iframe);
+    this.placeInViewport(
+      el,
+      p.x * base.absoluteScale + base.x,
+      p.y * base.absoluteScale + base.y,
+    );
+    // a harder press is shown larger
+    el.style.transform = `translate(-50%, -50%) scale(${
+      0.5 + (p.pressure ?? 0.5)
+    })`;
+  }
+
+  private clearPointers() {
+    this.pointers.forEach((el) => {
+      el.remove();
+      this.layoutPositions.delete(el);
+    });
+    this.pointers.clear();
+  }
+
+  /**
+   * show the part of the layout viewport seen by the user, the iframe and the
+   * mouse tail are transformed while the cursor and the pointers are moved,
+   * so they keep their sizes
+   */
+  private applyVisualViewport(d: visualViewportParam | null) {
+    const v = d && isVisualViewportMoved(d) ? d : null;
+    this.visualViewport = v;
+    const transform = v
+      ? `scale(${v.scale}) translate(${-v.offsetLeft}px, ${-v.offsetTop}px)`
+      : '';
+    for (const el of [this.iframe, this.mouseTail]) {
+      if (el) {
+        el.style.transformOrigin = transform ? '0 0' : '';
+        el.style.transform = transform;
+      }
+    }
+    if (this.visualViewport) {
+      this.wrapper.classList.add('replayer-zoomed');
+    } else {
+      this.wrapper.classList.remove('replayer-zoomed');
+    }
+    this.layoutPositions.forEach(({ x, y }, el) =>
+      this.placeInViewport(el, x, y),
+    );
+    this.emitter.emit(ReplayerEvents.VisualViewport, this.visualViewport);
+  }
+
+  private placeInViewport(el: HTMLElement, x: number, y: number) {
+    this.layoutPositions.set(el, { x, y });
+    const { scale = 1, offsetLeft = 0, offsetTop = 0 } =
+      this.visualViewport || {};
+    el.style.left = `${(x - offsetLeft) * scale}px`;
+    el.style.top = `${(y - offsetTop) * scale}px`;
+  }
+
   private drawMouseTail(position: { x: number; y: number }) {
     if (!this.mouseTail) {
       return;
@@ -1534,8 +2279,10 @@ export class Replayer {
       return false;
     }
     return (
-      event.data.source > IncrementalSource.Mutation &&
-      event.data.source <= IncrementalSource.Input
+      (event.data.source > IncrementalSource.Mutation &&
+        event.data.source <= IncrementalSource.Input) ||
+      event.data.source === IncrementalSource.Pointer ||
+      event.data.source === IncrementalSource.VisualViewport
     );
   }
 
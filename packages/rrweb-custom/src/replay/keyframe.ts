@@ -0,0 +1,242 @@
+import { NodeType, serializedNodeWithId } from 'rrweb-snapshot';
+import {
+  EventType,
+  IncrementalSource,
+  eventWithTime,
+  keyframe,
+  keyframeIndex,
+} from '../types';
+
+const KEYFRAME_INTERVAL = 10 * 1000;
+
+/**
+ * Build the seek index of the events, which should be sorted by timestamp.
+ * A keyframe is placed at each meta event, and then every `interval` ms
+ * after the full snapshot.
+ * A seek still applies the mutations since the snapshot, but skips the scan
+ * for the snapshot, the input and scroll events which are replaced by later
+ * ones, and the style sheet events which are undone by later mutations.
+ */
+export function buildKeyframeIndex(
+  events: eventWithTime[],
+  interval = KEYFRAME_INTERVAL,
+): keyframeIndex {
+  const startTime = events.length ? events[0].timestamp : 0;
+  const keyframes: keyframe[] = [];
+  let last: keyframe | null = null;
+  let inputs = new Map<number, number>();
+  let scrolls = new Map<number, number>();
+  // the style sheet events of each style element and constructed stylesheet
+  let nodeStyleSheets = new Map<number, number[]>();
+  let constructedStyleSheets = new Map<number, number[]>();
+  // the parents of the text nodes, whose changes reset the style elements
+  let textParents = new Map<number, number>();
+
+  const collectTextParents = (node: serializedNodeWithId) => {
+    if (node.type !== NodeType.Document && node.type !== NodeType.Element) {
+      return;
+    }
+    node.childNodes.forEach((child) => {
+      if (child.type === NodeType.Text) {
+        textParents.set(child.id, node.id);
+      }
+      collectTextParents(child);
+    });
+  };
+
+  const addKeyframe = (index: number, metaIndex: number) => {
+    const { timestamp } = events[index];
+    last = {
+      index,
+      timestamp,
+      delay: timestamp - startTime,
+      metaIndex,
+      fullSnapshotIndex:
+        last?.metaIndex === metaIndex ? last.fullSnapshotIndex : -1,
+      inputs: Array.from(inputs.values()).sort((a, b) => a - b),
+      scrolls: Array.from(scrolls.values()).sort((a, b) => a - b),
+      styleSheets: ([] as number[])
+        .concat(
+          ...Array.from(nodeStyleSheets.values()),
+          ...Array.from(constructedStyleSheets.values()),
+        )
+        .sort((a, b) => a - b),
+    };
+    keyframes.push(last);
+  };
+
+  events.forEach((event, index) => {
+    if (event.type === EventType.Meta) {
+      inputs = new Map();
+      scrolls = new Map();
+      nodeStyleSheets = new Map();
+      constructedStyleSheets = new Map();
+      textParents = new Map();
+      addKeyframe(index, index);
+      return;
+    }
+    if (!last) {
+      addKeyframe(index, -1);
+    }
+    const current = last!;
+    if (event.type === EventType.FullSnapshot) {
+      if (current.fullSnapshotIndex === -1) {
+        current.fullSnapshotIndex = index;
+      }
+      collectTextParents(event.data.node);
+      return;
+    }
+    if (
+      current.fullSnapshotIndex !== -1 &&
+      event.timestamp - current.timestamp >= interval
+    ) {
+      addKeyframe(index, current.metaIndex);
+    }
+    if (event.type !== EventType.IncrementalSnapshot) {
+      return;
+    }
+    const { data } = event;
+    const addStyleSheetEvent = (
+      styleSheets: Map<number, number[]>,
+      id: number,
+    ) => {
+      const indexes = styleSheets.get(id);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        styleSheets.set(id, [index]);
+      }
+    };
+    switch (data.source) {
+      case IncrementalSource.Mutation:
+        // the rules of a style element are reset when its text is changed
+        data.texts.forEach(({ id }) => {
+          const parentId = textParents.get(id);
+          if (parentId !== undefined) {
+            nodeStyleSheets.delete(parentId);
+          }
+        });
+        data.removes.forEach(({ id, parentId }) => {
+          nodeStyleSheets.delete(id);
+          nodeStyleSheets.delete(parentId);
+        });
+        data.adds.forEach(({ parentId, node }) => {
+          nodeStyleSheets.delete(parentId);
+          if (node.type === NodeType.Text) {
+            textParents.set(node.id, parentId);
+          }
+          collectTextParents(node);
+        });
+        data.attributes.forEach(({ id, attributes }) => {
+          // the stylesheet of a link element is loaded again
+          if ('href' in attributes) {
+            nodeStyleSheets.delete(id);
+          }
+        });
+        break;
+      case IncrementalSource.StyleSheetRule:
+      case IncrementalSource.StyleDeclaration:
+        if (data.styleId !== undefined) {
+          if (
+            data.source === IncrementalSource.StyleSheetRule &&
+            data.replace !== undefined
+          ) {
+            // the rules before are replaced
+            constructedStyleSheets.delete(data.styleId);
+          }
+          addStyleSheetEvent(constructedStyleSheets, data.styleId);
+        } else if (data.id !== undefined) {
+          addStyleSheetEvent(nodeStyleSheets, data.id);
+        }
+        break;
+      case IncrementalSource.AdoptedStyleSheet:
+        // the rules are stored again when the stylesheet is adopted
+        data.styles?.forEach(({ styleId }) => {
+          constructedStyleSheets.delete(styleId);
+        });
+        break;
+      case IncrementalSource.Input:
+        if (data.id !== -1) {
+          inputs.set(data.id, index);
+        }
+        break;
+      case IncrementalSource.Scroll:
+        if (data.id !== -1) {
+          scrolls.set(data.id, index);
+        }
+        break;
+      default:
+    }
+  });
+
+  return {
+    version: 2,
+    startTime,
+    eventCount: events.length,
+    interval,
+    keyframes,
+  };
+}
+
+/**
+ * Whether the index was built from the events.
+ */
+export function isValidKeyframeIndex(
+  index: keyframeIndex,
+  events: eventWithTime[],
+): boolean {
+  return (
+    index.version === 2 &&
+    index.eventCount === events.length &&
+    index.startTime === (events.length ? events[0].timestamp : 0)
+  );
+}
+
+/**
+ * Find the position of the last keyframe at or before the baseline time,
+ * -1 if there is none.
+ */
+export function findKeyframe(
+  index: keyframeIndex,
+  baselineTime: number,
+): number {
+  const { keyframes } = index;
+  let start = 0;
+  let end = keyframes.length - 1;
+  while (start <= end) {
+    const mid = Math.floor((start + end) / 2);
+    if (keyframes[mid].timestamp <= baselineTime) {
+      start = mid + 1;
+    } else {
+      end = mid - 1;
+    }
+  }
+  return end;
+}
+
+/**
+ * Whether the event is replaced by the state stored in keyframes.
+ */
+export function isKeyframeState(event: eventWithTime): boolean {
+  return (
+    event.type === EventType.IncrementalSnapshot &&
+    [
+      IncrementalSource.Input,
+      IncrementalSource.Scroll,
+      IncrementalSource.StyleSheetRule,
+      IncrementalSource.StyleDeclaration,
+    ].includes(event.data.source)
+  );
+}
+
+/**
+ * Get the sorted indexes of the events which restore the state at the
+ * keyframe, from the snapshot where the keyframe belongs to.
+ */
+export function getKeyframeState(
+  index: keyframeIndex,
+  position: number,
+): number[] {
+  const { inputs, scrolls, styleSheets } = index.keyframes[position];
+  return inputs.concat(scrolls, styleSheets).sort((a, b) => a - b);
+}
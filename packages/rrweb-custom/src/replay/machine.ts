@@ -7,9 +7,17 @@ import {
   EventType,
   Emitter,
   IncrementalSource,
+  keyframeIndex,
 } from '../types';
 import { Timer, addDelay } from './timer';
 import { needCastInSyncMode } from '../utils';
+import {
+  buildKeyframeIndex,
+  findKeyframe,
+  getKeyframeState,
+  isKeyframeState,
+  isValidKeyframeIndex,
+} from './keyframe';
 
 export type PlayerContext = {
   events: eventWithTime[];
@@ -17,6 +25,7 @@ export type PlayerContext = {
   timeOffset: number;
   baselineTime: number;
   lastPlayedEvent: eventWithTime | null;
+  keyframeIndex: keyframeIndex;
 };
 export type PlayerEvent =
   | {
@@ -56,25 +65,6 @@ export type PlayerState =
       context: PlayerContext;
     };
 
-/**
- * If the array have multiple meta and fullsnapshot events,
- * return the events from last meta to the end.
- */
-export function discardPriorSnapshots(
-  events: eventWithTime[],
-  baselineTime: number,
-): eventWithTime[] {
-  for (let idx = events.length - 1; idx >= 0; idx--) {
-    const event = events[idx];
-    if (event.type === EventType.Meta) {
-      if (event.timestamp <= baselineTime) {
-        return events.slice(idx);
-      }
-    }
-  }
-  return events;
-}
-
 type PlayerAssets = {
   emitter: Emitter;
   getCastFn(event: eventWithTime, isSync: boolean): () => void;
@@ -113,7 +103,7 @@ export function createPlayerService(
           on: {
             PLAY: {
               target: 'playing',
-              actions: ['recordTimeOffset', 'play'],
+              actions: ['recordTimeOffset', 'updateKeyframeIndex', 'play'],
             },
             CAST_EVENT: {
               target: 'paused',
@@ -164,19 +154,45 @@ export function createPlayerService(
             baselineTime: ctx.events[0].timestamp + timeOffset,
           };
         }),
+        updateKeyframeIndex: assign((ctx) => {
+          if (isValidKeyframeIndex(ctx.keyframeIndex, ctx.events)) {
+            return ctx;
+          }
+          return {
+            ...ctx,
+            keyframeIndex: buildKeyframeIndex(
+              ctx.events,
+              ctx.keyframeIndex.interval,
+            ),
+          };
+        }),
         play(ctx) {
-          const { timer, events, baselineTime, lastPlayedEvent } = ctx;
+          const {
+            timer,
+            events,
+            baselineTime,
+            lastPlayedEvent,
+            keyframeIndex,
+          } = ctx;
           timer.clear();
-          for (const event of events) {
+          const position = findKeyframe(keyframeIndex, baselineTime);
+          const keyframe = keyframeIndex.keyframes[position];
+          // the events before the last snapshot will not be cast
+          const start = keyframe ? Math.max(keyframe.metaIndex, 0) : 0;
+          // the delays are only used by the events after the baseline time
+          for (let i = keyframe ? keyframe.index : 0; i < events.length; i++) {
             // TODO: improve this API
-            addDelay(event, baselineTime);
+            addDelay(events[i], baselineTime);
           }
-          const neededEvents = discardPriorSnapshots(events, baselineTime);
+          const keyframeState = keyframe
+            ? getKeyframeState(keyframeIndex, position)
+            : [];
 
           let lastPlayedTimestamp = lastPlayedEvent?.timestamp;
           if (
             lastPlayedEvent?.type === EventType.IncrementalSnapshot &&
-            lastPlayedEvent.data.source === IncrementalSource.MouseMove
+            (lastPlayedEvent.data.source === IncrementalSource.MouseMove ||
+              lastPlayedEvent.data.source === IncrementalSource.Pointer)
           ) {
             lastPlayedTimestamp =
               lastPlayedEvent.timestamp +
@@ -187,18 +203,18 @@ export function createPlayerService(
           }
 
           const actions = new Array<actionWithDelay>();
-          for (const event of neededEvents) {
+          const castEvent = (event: eventWithTime) => {
             if (
               lastPlayedTimestamp &&
               lastPlayedTimestamp < baselineTime &&
               (event.timestamp <= lastPlayedTimestamp ||
                 event === lastPlayedEvent)
             ) {
-              continue;
+              return;
             }
             const isSync = event.timestamp < baselineTime;
             if (isSync && !needCastInSyncMode(event)) {
-              continue;
+              return;
             }
             const castFn = getCastFn(event, isSync);
             if (isSync) {
@@ -212,6 +228,16 @@ export function createPlayerService(
                 delay: event.delay!,
               });
             }
+          };
+          for (let i = start; i < events.length; i++) {
+            if (keyframe && i < keyframe.index && isKeyframeState(events[i])) {
+              // replaced by the state stored in the keyframe
+              continue;
+            }
+            if (keyframe && i === keyframe.index) {
+              keyframeState.forEach((idx) => castEvent(events[idx]));
+            }
+            castEvent(events[i]);
           }
           emitter.emit(ReplayerEvents.Flush);
           timer.addActions(actions);
@@ -267,6 +293,7 @@ export function createPlayerService(
             const castFn = getCastFn(event, isSync);
             if (isSync) {
               castFn();
+              emitter.emit(ReplayerEvents.Flush);
             } else if (timer.isActive()) {
               timer.addAction({
                 doAction: () => {
@@ -0,0 +1,45 @@
+import { EventType, eventWithTime, metaEvent, pageBoundary } from '../types';
+
+/**
+ * Whether two meta events belong to the same page load. Without the page
+ * info, a meta event with the same href is treated as a checkout.
+ */
+export function isSamePage(
+  a: metaEvent['data'],
+  b: metaEvent['data'],
+): boolean {
+  if (a.page && b.page) {
+    return (
+      a.page.sessionId === b.page.sessionId &&
+      a.page.pageIndex === b.page.pageIndex
+    );
+  }
+  return !a.page && !b.page && a.href === b.href;
+}
+
+/**
+ * Find the page loads in the events, which should be sorted by timestamp.
+ * Events of several pages can be concatenated into one replay.
+ */
+export function getPageBoundaries(events: eventWithTime[]): pageBoundary[] {
+  const startTime = events.length ? events[0].timestamp : 0;
+  const boundaries: pageBoundary[] = [];
+  let last: metaEvent['data'] | null = null;
+  for (const event of events) {
+    if (event.type !== EventType.Meta) {
+      continue;
+    }
+    if (!last || !isSamePage(last, event.data)) {
+      const { href, page } = event.data;
+      boundaries.push({
+        sessionId: page?.sessionId,
+        pageIndex: page ? page.pageIndex : boundaries.length,
+        href,
+        timestamp: event.timestamp,
+        delay: event.timestamp - startTime,
+      });
+    }
+    last = event.data;
+  }
+  return boundaries;
+}
@@ -97,11 +97,12 @@ export class Timer {
 
 // TODO: add speed to mouse move timestamp calculation
 export function addDelay(event: eventWithTime, baselineTime: number): number {
-  // Mouse move events was recorded in a throttle function,
+  // Mouse move and pointer events was recorded in a throttle function,
   // so we need to find the real timestamp by traverse the time offsets.
   if (
     event.type === EventType.IncrementalSnapshot &&
-    event.data.source === IncrementalSource.MouseMove
+    (event.data.source === IncrementalSource.MouseMove ||
+      event.data.source === IncrementalSource.Pointer)
   ) {
     const firstOffset = event.data.positions[0].timeOffset;
     // timeOffset is a negative offset to event.timestamp
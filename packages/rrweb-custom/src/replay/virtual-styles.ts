@@ -1,9 +1,17 @@
 import { INode } from 'rrweb-snapshot';
+import {
+  ConstructableStyleSheet,
+  StyleSheetHost,
+  styleSheetAddRule,
+} from '../types';
 
 export enum StyleRuleType {
   Insert,
   Remove,
   Snapshot,
+  Replace,
+  SetProperty,
+  RemoveProperty,
 }
 
 type InsertRule = {
@@ -19,18 +27,53 @@ type SnapshotRule = {
   type: StyleRuleType.Snapshot;
   cssTexts: string[];
 };
+// only constructed stylesheets can be replaced
+type ReplaceRule = {
+  type: StyleRuleType.Replace;
+  cssText: string;
+};
 
-export type VirtualStyleRules = Array<InsertRule | RemoveRule | SnapshotRule>;
+// index is the path of the style rule, from the outermost rule in the stylesheet
+type SetPropertyRule = {
+  type: StyleRuleType.SetProperty;
+  index: number[];
+  property: string;
+  value: string | null;
+  priority?: string;
+};
+type RemovePropertyRule = {
+  type: StyleRuleType.RemoveProperty;
+  index: number[];
+  property: string;
+};
+
+export type VirtualStyleRule =
+  | InsertRule
+  | RemoveRule
+  | SnapshotRule
+  | ReplaceRule
+  | SetPropertyRule
+  | RemovePropertyRule;
+export type VirtualStyleRules = VirtualStyleRule[];
 export type VirtualStyleRulesMap = Map<INode, VirtualStyleRules>;
 
 export function applyVirtualStyleRulesToNode(
   storedRules: VirtualStyleRules,
   styleNode: HTMLStyleElement,
+) {
+  if (styleNode.sheet) {
+    applyVirtualStyleRulesToSheet(storedRules, styleNode.sheet);
+  }
+}
+
+export function applyVirtualStyleRulesToSheet(
+  storedRules: VirtualStyleRules,
+  sheet: CSSStyleSheet,
 ) {
   storedRules.forEach((rule) => {
     if (rule.type === StyleRuleType.Insert) {
       try {
-        styleNode.sheet?.insertRule(rule.cssText, rule.index);
+        sheet.insertRule(rule.cssText, rule.index);
       } catch (e) {
         /**
          * sometimes we may capture rules with browser prefix
@@ -39,7 +82,7 @@ export function applyVirtualStyleRulesToNode(
       }
     } else if (rule.type === StyleRuleType.Remove) {
       try {
-        styleNode.sheet?.deleteRule(rule.index);
+        sheet.deleteRule(rule.index);
       } catch (e) {
         /**
          * accessing styleSheet rules may cause SecurityError
@@ -47,17 +90,65 @@ export function applyVirtualStyleRulesToNode(
          */
       }
     } else if (rule.type === StyleRuleType.Snapshot) {
-      restoreSnapshotOfStyleRulesToNode(rule.cssTexts, styleNode);
+      restoreSnapshotOfStyleRulesToSheet(rule.cssTexts, sheet);
+    } else if (rule.type === StyleRuleType.Replace) {
+      try {
+        (sheet as ConstructableStyleSheet).replaceSync?.(rule.cssText);
+      } catch (e) {
+        // the stylesheet is not a constructed one
+      }
+    } else if (rule.type === StyleRuleType.SetProperty) {
+      try {
+        getNestedRule(sheet.cssRules, rule.index)?.style.setProperty(
+          rule.property,
+          rule.value,
+          rule.priority,
+        );
+      } catch (e) {
+        /**
+         * accessing styleSheet rules may cause SecurityError
+         * for specific access control settings
+         */
+      }
+    } else if (rule.type === StyleRuleType.RemoveProperty) {
+      try {
+        getNestedRule(sheet.cssRules, rule.index)?.style.removeProperty(
+          rule.property,
+        );
+      } catch (e) {
+        /**
+         * same as setProperty
+         */
+      }
     }
   });
 }
 
-function restoreSnapshotOfStyleRulesToNode(
+/**
+ * find the style rule by its index path, the rules before the last index
+ * are grouping rules, e.g. media rules and supports rules
+ */
+export function getNestedRule(
+  rules: CSSRuleList,
+  index: number[],
+): CSSStyleRule | null {
+  const rule = rules[index[0]];
+  if (!rule) {
+    return null;
+  }
+  if (index.length === 1) {
+    return rule as CSSStyleRule;
+  }
+  const { cssRules } = rule as CSSGroupingRule;
+  return cssRules ? getNestedRule(cssRules, index.slice(1)) : null;
+}
+
+function restoreSnapshotOfStyleRulesToSheet(
   cssTexts: string[],
-  styleNode: HTMLStyleElement,
+  sheet: CSSStyleSheet,
 ) {
   try {
-    const existingRules = Array.from(styleNode.sheet?.cssRules || []).map(
+    const existingRules = Array.from(sheet.cssRules || []).map(
       (rule) => rule.cssText,
     );
     const existingRulesReversed = Object.entries(existingRules).reverse();
@@ -66,7 +157,7 @@ function restoreSnapshotOfStyleRulesToNode(
       const indexOf = cssTexts.indexOf(rule);
       if (indexOf === -1 || indexOf > lastMatch) {
         try {
-          styleNode.sheet?.deleteRule(Number(index));
+          sheet.deleteRule(Number(index));
         } catch (e) {
           /**
            * accessing styleSheet rules may cause SecurityError
@@ -78,8 +169,8 @@ function restoreSnapshotOfStyleRulesToNode(
     });
     cssTexts.forEach((cssText, index) => {
       try {
-        if (styleNode.sheet?.cssRules[index]?.cssText !== cssText) {
-          styleNode.sheet?.insertRule(cssText, index);
+        if (sheet.cssRules[index]?.cssText !== cssText) {
+          sheet.insertRule(cssText, index);
         }
       } catch (e) {
         /**
@@ -117,3 +208,85 @@ export function storeCSSRules(
      */
   }
 }
+
+/**
+ * Replays the constructed stylesheets which are adopted by documents and
+ * shadow roots. A constructed stylesheet can only be adopted by documents of
+ * the window where it is constructed, so a stylesheet is built for each
+ * window from the rules recorded for it.
+ */
+export class ConstructedStyleSheets {
+  private rules: Map<number, VirtualStyleRules> = new Map();
+  private sheets: Map<number, Map<Window, CSSStyleSheet>> = new Map();
+
+  public add(styleId: number, rules: styleSheetAddRule[]) {
+    this.rules.set(
+      styleId,
+      rules.map(({ rule, index }) => ({
+        cssText: rule,
+        index,
+        type: StyleRuleType.Insert,
+      })),
+    );
+    this.sheets.delete(styleId);
+  }
+
+  public apply(styleId: number, rule: VirtualStyleRule) {
+    const rules = this.rules.get(styleId);
+    if (!rules) {
+      return;
+    }
+    if (rule.type === StyleRuleType.Replace) {
+      // the former rules are dropped by the replacement
+      rules.length = 0;
+    }
+    rules.push(rule);
+    this.sheets
+      .get(styleId)
+      ?.forEach((sheet) => applyVirtualStyleRulesToSheet([rule], sheet));
+  }
+
+  public adopt(host: StyleSheetHost, styleIds: number[], win: Window) {
+    if (!('adoptedStyleSheets' in host)) {
+      // adoptedStyleSheets is not supported
+      return;
+    }
+    const sheets: CSSStyleSheet[] = [];
+    for (const styleId of styleIds) {
+      const sheet = this.getSheet(styleId, win);
+      if (sheet) {
+        sheets.push(sheet);
+      }
+    }
+    host.adoptedStyleSheets = sheets;
+  }
+
+  public reset() {
+    this.rules.clear();
+    this.sheets.clear();
+  }
+
+  private getSheet(styleId: number, win: Window): CSSStyleSheet | null {
+    const rules = this.rules.get(styleId);
+    if (!rules) {
+      return null;
+    }
+    let sheets = this.sheets.get(styleId);
+    if (!sheets) {
+      sheets = new Map();
+      this.sheets.set(styleId, sheets);
+    }
+    let sheet = sheets.get(win);
+    if (!sheet) {
+      try {
+        sheet = new (win as Window & typeof globalThis).CSSStyleSheet();
+      } catch (e) {
+        // constructing stylesheets is not supported
+        return null;
+      }
+      applyVirtualStyleRulesToSheet(rules, sheet);
+      sheets.set(win, sheet);
+    }
+    return sheet;
+  }
+}
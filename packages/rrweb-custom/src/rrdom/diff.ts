@@ -0,0 +1,148 @@
+import { INode } from 'rrweb-snapshot';
+import { RRNode, RRElement, RRCharacterData, RRDocument } from './document';
+import { Mirror } from '../types';
+import {
+  applyVirtualStyleRulesToNode,
+  storeCSSRules,
+  VirtualStyleRulesMap,
+} from '../replay/virtual-styles';
+
+export type DiffOptions = {
+  mirror: Mirror;
+  /**
+   * build a real node without children for a new virtual node
+   */
+  createNode: (node: RRNode) => INode;
+  /**
+   * called after a newly built node is mounted to the real dom
+   */
+  afterAppend?: (node: INode) => void;
+};
+
+/**
+ * Patch the real document to make it consistent with the virtual document.
+ * Real nodes are reused as long as their virtual counterparts are not new,
+ * so only the changed parts of the real dom are touched.
+ */
+export function diff(
+  doc: Document,
+  rrdoc: RRDocument,
+  options: DiffOptions,
+): void {
+  const movedStyleRules: VirtualStyleRulesMap = new Map();
+  diffChildren((doc as unknown) as INode, rrdoc.childNodes, options, {
+    movedStyleRules,
+  });
+  for (const [node, rules] of movedStyleRules.entries()) {
+    // restore css rules of style elements after they are moved
+    applyVirtualStyleRulesToNode(rules, (node as Node) as HTMLStyleElement);
+  }
+  for (const id of rrdoc.getRemovedIds()) {
+    delete options.mirror.map[id];
+  }
+}
+
+type DiffContext = {
+  movedStyleRules: VirtualStyleRulesMap;
+};
+
+function diffChildren(
+  parent: Node,
+  rrchildren: RRNode[],
+  options: DiffOptions,
+  context: DiffContext,
+) {
+  const pairs = rrchildren.map((rrnode) => {
+    const existing = rrnode.isNew
+      ? null
+      : options.mirror.getNode(rrnode.__sn.id);
+    return {
+      rrnode,
+      node: (existing || options.createNode(rrnode)) as Node,
+      isNew: !existing,
+    };
+  });
+  const expected = new Set<Node>(pairs.map(({ node }) => node));
+  Array.from(parent.childNodes).forEach((child) => {
+    // keep the nodes which are not serialized, e.g. the injected style element
+    if ('__sn' in child && !expected.has(child)) {
+      parent.removeChild(child);
+    }
+  });
+
+  let cursor = parent.firstChild;
+  for (const { node, isNew } of pairs) {
+    while (cursor && cursor !== node && !('__sn' in cursor)) {
+      cursor = cursor.nextSibling;
+    }
+    if (cursor === node) {
+      cursor = cursor.nextSibling;
+      continue;
+    }
+    if (
+      !isNew &&
+      node.parentNode &&
+      node.nodeName === 'STYLE' &&
+      !context.movedStyleRules.has(node as INode)
+    ) {
+      storeCSSRules(node as HTMLStyleElement, context.movedStyleRules);
+    }
+    parent.insertBefore(node, cursor);
+    if (isNew && options.afterAppend) {
+      options.afterAppend(node as INode);
+    }
+  }
+
+  for (const { rrnode, node, isNew } of pairs) {
+    diffNode(node, rrnode, isNew, options, context);
+  }
+}
+
+function diffNode(
+  node: Node,
+  rrnode: RRNode,
+  isNew: boolean,
+  options: DiffOptions,
+  context: DiffContext,
+) {
+  if (rrnode instanceof RRElement) {
+    const el = node as Element;
+    if (isNew) {
+      if (rrnode.rules.length) {
+        applyVirtualStyleRulesToNode(
+          rrnode.rules,
+          (el as Node) as HTMLStyleElement,
+        );
+      }
+    } else {
+      diffAttributes(el, rrnode);
+    }
+    if (rrnode.shadowRoot) {
+      const shadowRoot = el.shadowRoot || el.attachShadow({ mode: 'open' });
+      diffChildren(shadowRoot, rrnode.shadowRoot.childNodes, options, context);
+    }
+    diffChildren(el, rrnode.childNodes, options, context);
+  } else if (rrnode instanceof RRCharacterData) {
+    if (node.textContent !== rrnode.textContent) {
+      node.textContent = rrnode.textContent;
+    }
+  }
+}
+
+function diffAttributes(el: Element, rrnode: RRElement) {
+  for (const name of Object.keys(rrnode.attributes)) {
+    const value = String(rrnode.attributes[name]);
+    if (el.getAttribute(name) !== value) {
+      try {
+        el.setAttribute(name, value);
+      } catch (error) {
+        // skip invalid attribute names
+      }
+    }
+  }
+  Array.from(el.attributes).forEach(({ name }) => {
+    if (!(name in rrnode.attributes)) {
+      el.removeAttribute(name);
+    }
+  });
+}
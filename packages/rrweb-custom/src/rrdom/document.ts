@@ -0,0 +1,326 @@
+import {
+  NodeType,
+  INode,
+  attributes,
+  serializedNodeWithId,
+} from 'rrweb-snapshot';
+import { RRdomTree } from './index';
+import { VirtualStyleRules } from '../replay/virtual-styles';
+
+/**
+ * A light weight virtual node which keeps the serialized data of the node.
+ * The structure of the virtual tree is stored by RRdomTree.
+ */
+export abstract class RRNode {
+  // tslint:disable-next-line: variable-name
+  public readonly __sn: serializedNodeWithId;
+  /**
+   * whether the node has been built from a mutation and has no counterpart
+   * in the real dom yet
+   */
+  public readonly isNew: boolean;
+  protected readonly tree: RRdomTree;
+
+  constructor(tree: RRdomTree, sn: serializedNodeWithId, isNew: boolean) {
+    this.tree = tree;
+    this.__sn = sn;
+    this.isNew = isNew;
+    tree.initialize(this);
+  }
+
+  public get parentNode(): RRNode | null {
+    return this.tree.parent(this) as RRNode | null;
+  }
+
+  public get firstChild(): RRNode | null {
+    return this.tree.firstChild(this) as RRNode | null;
+  }
+
+  public get nextSibling(): RRNode | null {
+    return this.tree.nextSibling(this) as RRNode | null;
+  }
+
+  public get childNodes(): RRNode[] {
+    const children: RRNode[] = [];
+    let child = this.firstChild;
+    while (child) {
+      children.push(child);
+      child = child.nextSibling;
+    }
+    return children;
+  }
+
+  public appendChild(child: RRNode): RRNode {
+    child.detach();
+    return this.tree.appendChild(this, child) as RRNode;
+  }
+
+  public insertBefore(child: RRNode, reference: RRNode | null): RRNode {
+    if (!reference) {
+      return this.appendChild(child);
+    }
+    if (reference.parentNode !== this) {
+      throw new Error('The reference node is not a child of this node.');
+    }
+    child.detach();
+    return this.tree.insertBefore(reference, child) as RRNode;
+  }
+
+  public removeChild(child: RRNode): RRNode {
+    if (child.parentNode !== this) {
+      throw new Error('The node to be removed is not a child of this node.');
+    }
+    return this.tree.remove(child) as RRNode;
+  }
+
+  public contains(node: RRNode): boolean {
+    let current: RRNode | null = node;
+    while (current) {
+      if (current === this) {
+        return true;
+      }
+      current = current.parentNode;
+    }
+    return false;
+  }
+
+  private detach() {
+    if (this.parentNode) {
+      this.tree.remove(this);
+    }
+  }
+}
+
+export class RRDocumentType extends RRNode {}
+
+export class RRElement extends RRNode {
+  public readonly tagName: string;
+  public attributes: attributes;
+  public shadowRoot: RRShadowRoot | null = null;
+  /**
+   * css rules inserted into a new style element, they will be
+   * applied after the element is mounted to the real dom
+   */
+  public rules: VirtualStyleRules = [];
+
+  constructor(
+    tree: RRdomTree,
+    sn: serializedNodeWithId,
+    isNew: boolean,
+    attrs: attributes,
+  ) {
+    super(tree, sn, isNew);
+    this.tagName = sn.type === NodeType.Element ? sn.tagName : '';
+    this.attributes = { ...attrs };
+  }
+
+  public getAttribute(name: string): string | null {
+    const value = this.attributes[name];
+    return value === undefined ? null : String(value);
+  }
+
+  public setAttribute(name: string, value: string) {
+    this.attributes[name] = value;
+  }
+
+  public removeAttribute(name: string) {
+    delete this.attributes[name];
+  }
+
+  public setStyleProperty(name: string, value: string, priority?: string) {
+    const declarations = parseStyle(this.getAttribute('style') || '');
+    declarations[name] = priority ? `${value} !${priority}` : value;
+    this.setAttribute('style', stringifyStyle(declarations));
+  }
+
+  public removeStyleProperty(name: string) {
+    const declarations = parseStyle(this.getAttribute('style') || '');
+    delete declarations[name];
+    this.setAttribute('style', stringifyStyle(declarations));
+  }
+
+  public attachShadow(): RRShadowRoot {
+    if (!this.shadowRoot) {
+      this.shadowRoot = new RRShadowRoot(this.tree, this.__sn, this.isNew);
+    }
+    return this.shadowRoot;
+  }
+}
+
+/**
+ * The shadow root shares the serialized data of its host element.
+ */
+export class RRShadowRoot extends RRNode {}
+
+export class RRCharacterData extends RRNode {
+  public textContent: string;
+
+  constructor(
+    tree: RRdomTree,
+    sn: serializedNodeWithId,
+    isNew: boolean,
+    textContent: string,
+  ) {
+    super(tree, sn, isNew);
+    this.textContent = textContent;
+  }
+}
+
+export class RRDocument extends RRNode {
+  private idNodeMap: Map<number, RRNode> = new Map();
+  private removedIds: Set<number> = new Set();
+
+  constructor(sn: serializedNodeWithId) {
+    super(new RRdomTree(), sn, false);
+    this.idNodeMap.set(sn.id, this);
+  }
+
+  public getNode(id: number): RRNode | null {
+    return this.idNodeMap.get(id) || null;
+  }
+
+  public has(id: number): boolean {
+    return this.idNodeMap.has(id);
+  }
+
+  /**
+   * Create a virtual node from its serialized data.
+   * @param isNew - false if the node is a copy of a real dom node
+   */
+  public createNode(
+    sn: serializedNodeWithId,
+    isNew: boolean,
+    attrs?: attributes,
+  ): RRNode {
+    let node: RRNode;
+    switch (sn.type) {
+      case NodeType.Document:
+        throw new Error('A virtual document can not contain documents.');
+      case NodeType.DocumentType:
+        node = new RRDocumentType(this.tree, sn, isNew);
+        break;
+      case NodeType.Element:
+        node = new RRElement(this.tree, sn, isNew, attrs || sn.attributes);
+        break;
+      case NodeType.Text:
+      case NodeType.CDATA:
+      case NodeType.Comment:
+        node = new RRCharacterData(this.tree, sn, isNew, sn.textContent);
+        break;
+      default:
+        throw new Error('Unknown node type.');
+    }
+    this.idNodeMap.set(sn.id, node);
+    this.removedIds.delete(sn.id);
+    return node;
+  }
+
+  /**
+   * Remove the node and its descendants from the id map.
+   */
+  public removeNodeFromMap(node: RRNode) {
+    const id = node.__sn.id;
+    if (this.idNodeMap.get(id) === node) {
+      this.idNodeMap.delete(id);
+      this.removedIds.add(id);
+    }
+    if (node instanceof RRElement && node.shadowRoot) {
+      node.shadowRoot.childNodes.forEach((child) =>
+        this.removeNodeFromMap(child),
+      );
+    }
+    node.childNodes.forEach((child) => this.removeNodeFromMap(child));
+  }
+
+  /**
+   * ids of nodes which are removed from the virtual dom and have
+   * not been added back
+   */
+  public getRemovedIds(): number[] {
+    return Array.from(this.removedIds);
+  }
+}
+
+/**
+ * Build a virtual document from the real dom which has been rebuilt by
+ * the replayer. Nodes without serialized data, e.g. the injected style
+ * element, are skipped. The contents of iframes are not included.
+ */
+export function buildFromDom(doc: Document): RRDocument {
+  const rrdoc = new RRDocument(((doc as unknown) as INode).__sn);
+  const walk = (node: Node, parent: RRNode) => {
+    const sn = (node as INode).__sn;
+    if (!sn) {
+      return;
+    }
+    let attrs: attributes | undefined;
+    if (sn.type === NodeType.Element) {
+      attrs = {};
+      const el = node as Element;
+      for (const { name, value } of Array.from(el.attributes)) {
+        attrs[name] = value;
+      }
+    }
+    const rrnode = rrdoc.createNode(sn, false, attrs);
+    if (rrnode instanceof RRCharacterData) {
+      rrnode.textContent = node.textContent || '';
+    }
+    parent.appendChild(rrnode);
+    if (rrnode instanceof RRElement) {
+      const { shadowRoot } = node as Element;
+      if (shadowRoot) {
+        const rrShadowRoot = rrnode.attachShadow();
+        shadowRoot.childNodes.forEach((child) => walk(child, rrShadowRoot));
+      }
+    }
+    node.childNodes.forEach((child) => walk(child, rrnode));
+  };
+  doc.childNodes.forEach((child) => walk(child, rrdoc));
+  return rrdoc;
+}
+
+type styleDeclarations = Record<string, string>;
+
+/**
+ * split the cssText of a style attribute by semicolons which are not
+ * in parentheses or quotes, e.g. `background: url(data:...;base64,...)`
+ */
+function parseStyle(cssText: string): styleDeclarations {
+  const declarations: styleDeclarations = {};
+  const add = (declaration: string) => {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) {
+      declarations[declaration.slice(0, colon).trim()] = declaration
+        .slice(colon + 1)
+        .trim();
+    }
+  };
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < cssText.length; i++) {
+    const char = cssText[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (/["']/.test(char)) {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && depth === 0) {
+      add(cssText.slice(start, i));
+      start = i + 1;
+    }
+  }
+  add(cssText.slice(start));
+  return declarations;
+}
+
+function stringifyStyle(declarations: styleDeclarations): string {
+  return Object.keys(declarations)
+    .map((name) => `${name}: ${declarations[name]};`)
+    .join(' ');
+}
@@ -1,6 +1,6 @@
 import { RRdomTreeNode, AnyObject } from './tree-node';
 
-class RRdomTree {
+export class RRdomTree {
   private readonly symbol = '__rrdom__';
 
   public initialize(object: AnyObject) {
@@ -35,9 +35,9 @@ class RRdomTree {
 
   public insertAfter(referenceObject: AnyObject, newObject: AnyObject) {
     const referenceNode = this._node(referenceObject);
-    const nextNode = this._node(referenceNode.nextSibling);
+    const nextNode = this._nodeOrNull(referenceNode.nextSibling);
     const newNode = this._node(newObject);
-    const parentNode = this._node(referenceNode.parent);
+    const parentNode = this._nodeOrNull(referenceNode.parent);
 
     if (newNode.isAttached) {
       throw new Error('Node already attached');
@@ -68,9 +68,9 @@ class RRdomTree {
 
   public insertBefore(referenceObject: AnyObject, newObject: AnyObject) {
     const referenceNode = this._node(referenceObject);
-    const prevNode = this._node(referenceNode.previousSibling);
+    const prevNode = this._nodeOrNull(referenceNode.previousSibling);
     const newNode = this._node(newObject);
-    const parentNode = this._node(referenceNode.parent);
+    const parentNode = this._nodeOrNull(referenceNode.parent);
 
     if (newNode.isAttached) {
       throw new Error('Node already attached');
@@ -124,9 +124,9 @@ class RRdomTree {
 
   public remove(removeObject: AnyObject) {
     const removeNode = this._node(removeObject);
-    const parentNode = this._node(removeNode.parent);
-    const prevNode = this._node(removeNode.previousSibling);
-    const nextNode = this._node(removeNode.nextSibling);
+    const parentNode = this._nodeOrNull(removeNode.parent);
+    const prevNode = this._nodeOrNull(removeNode.previousSibling);
+    const nextNode = this._nodeOrNull(removeNode.nextSibling);
 
     if (parentNode) {
       if (parentNode.firstChild === removeObject) {
@@ -159,6 +159,10 @@ class RRdomTree {
     return removeObject;
   }
 
+  private _nodeOrNull(object: AnyObject | null): RRdomTreeNode | null {
+    return object ? this._node(object) : null;
+  }
+
   private _node(object: AnyObject | null): RRdomTreeNode {
     if (!object) {
       throw new Error('Object is falsy');
@@ -3,14 +3,20 @@ import {
   idNodeMap,
   INode,
   MaskInputOptions,
+  MaskMediaOptions,
   SlimDOMOptions,
   MaskInputFn,
   MaskTextFn,
+  MaskAttributeFn,
+  PrivacyRule,
+  PrivacyEngine,
 } from 'rrweb-snapshot';
 import { PackFn, UnpackFn } from './packer/base';
 import { FontFaceDescriptors } from 'css-font-loading-module';
 import { IframeManager } from './record/iframe-manager';
 import { ShadowDomManager } from './record/shadow-dom-manager';
+import { StylesheetManager } from './record/stylesheet-manager';
+import MutationBuffer from './record/mutation';
 import type { Replayer } from './replay';
 
 export enum EventType {
@@ -41,6 +47,7 @@ export type fullSnapshotEvent = {
       top: number;
       left: number;
     };
+    page?: pageInfo;
   };
 };
 
@@ -55,9 +62,20 @@ export type metaEvent = {
     href: string;
     width: number;
     height: number;
+    page?: pageInfo;
   };
 };
 
+/**
+ * Identity of a page load in a multi-page session, which is kept in
+ * sessionStorage by the recorder.
+ */
+export type pageInfo = {
+  sessionId: string;
+  // starts from 0 and increases on every page load in the session
+  pageIndex: number;
+};
+
 export type customEvent<T = unknown> = {
   type: EventType.Custom;
   data: {
@@ -90,6 +108,13 @@ export enum IncrementalSource {
   Font,
   Log,
   Drag,
+  AdoptedStyleSheet,
+  StyleDeclaration,
+  CanvasFrame,
+  Keyboard,
+  Selection,
+  Pointer,
+  VisualViewport,
 }
 
 export type mutationData = {
@@ -116,6 +141,10 @@ export type viewportResizeData = {
   source: IncrementalSource.ViewportResize;
 } & viewportResizeDimension;
 
+export type visualViewportData = {
+  source: IncrementalSource.VisualViewport;
+} & visualViewportParam;
+
 export type inputData = {
   source: IncrementalSource.Input;
   id: number;
@@ -129,14 +158,38 @@ export type styleSheetRuleData = {
   source: IncrementalSource.StyleSheetRule;
 } & styleSheetRuleParam;
 
+export type adoptedStyleSheetData = {
+  source: IncrementalSource.AdoptedStyleSheet;
+} & adoptedStyleSheetParam;
+
+export type styleDeclarationData = {
+  source: IncrementalSource.StyleDeclaration;
+} & styleDeclarationParam;
+
 export type canvasMutationData = {
   source: IncrementalSource.CanvasMutation;
 } & canvasMutationParam;
 
+export type canvasFrameData = {
+  source: IncrementalSource.CanvasFrame;
+} & canvasFrameParam;
+
 export type fontData = {
   source: IncrementalSource.Font;
 } & fontParam;
 
+export type keyboardData = {
+  source: IncrementalSource.Keyboard;
+} & keyboardParam;
+
+export type selectionData = {
+  source: IncrementalSource.Selection;
+} & selectionParam;
+
+export type pointerData = {
+  source: IncrementalSource.Pointer;
+} & pointerParam;
+
 export type incrementalData =
   | mutationData
   | mousemoveData
@@ -147,7 +200,14 @@ export type incrementalData =
   | mediaInteractionData
   | styleSheetRuleData
   | canvasMutationData
-  | fontData;
+  | fontData
+  | adoptedStyleSheetData
+  | styleDeclarationData
+  | canvasFrameData
+  | keyboardData
+  | selectionData
+  | pointerData
+  | visualViewportData;
 
 export type event =
   | domContentLoadedEvent
@@ -191,8 +251,177 @@ export type SamplingStrategy = Partial<{
    * 'last' will only record the last input value while input a sequence of chars
    */
   input: 'all' | 'last';
+  /**
+   * false means not to record keyboard events
+   */
+  keyboard: boolean;
+  /**
+   * false means not to record the text selection and the caret position
+   */
+  selection: boolean;
+  /**
+   * false means not to record pointer events
+   * number is the throttle threshold of the moves of each pointer
+   */
+  pointer: boolean | number;
+  /**
+   * false means not to record the pinch-zoom and the pan of the visual viewport
+   */
+  visualViewport: boolean;
+  /**
+   * 'all' will record all the canvas mutations
+   * number is the frames per second of recording the bitmaps of the canvases
+   */
+  canvas: 'all' | number;
 }>;
 
+export type dataURLOptions = Partial<{
+  // the image format, e.g. 'image/webp'
+  type: string;
+  // the image quality between 0 and 1, for the lossy formats
+  quality: number;
+}>;
+
+/**
+ * false emits the plain events
+ * 'event' packs each event like `pack`
+ * 'stream' packs each batch into a chunk like the stream packer
+ */
+export type workerPackMode = false | 'event' | 'stream';
+
+export type workerOptions = {
+  // url of the rrweb-record-worker.js script
+  url: string;
+  pack?: workerPackMode;
+  // emit the buffered events when the count reaches batchSize
+  batchSize?: number;
+  // or when the first buffered event has waited for flushInterval ms
+  flushInterval?: number;
+};
+
+/**
+ * an event emitted by the recorder, with its sequence number in the queue
+ */
+export type queuedEvent = {
+  seq: number;
+  // a plain event, or the output of packFn
+  event: eventWithTime | string;
+  isCheckout?: boolean;
+};
+
+export type persistentQueueOptions = {
+  // upload a batch of the stored events, the batch is removed from the
+  // queue when the returned promise resolves
+  upload: (events: queuedEvent[]) => Promise<void>;
+  // name of the IndexedDB database
+  dbName?: string;
+  // write the pending events when the count reaches batchSize,
+  // also the max count of the events in an upload
+  batchSize?: number;
+  // or when the first pending event has waited for flushInterval ms
+  flushInterval?: number;
+  // defaults to window.indexedDB
+  indexedDB?: IDBFactory;
+  // called with the failures, e.g. a failed upload,
+  // logged by console.warn by default
+  onError?: (message: string, error?: unknown) => void;
+};
+
+/**
+ * the payload of an upload request
+ */
+export type uploadBatch = {
+  // id of the uploader, which is created on every page load
+  id: string;
+  // sequence of the batch in the uploader, starts from 0
+  seq: number;
+  // increased at the checkouts, starts from 0
+  checkout: number;
+  // plain events, or the outputs of packFn
+  events: Array<eventWithTime | string>;
+};
+
+export type uploaderOptions = {
+  // url of the ingest endpoint
+  url: string;
+  // upload the pending events when the count reaches batchSize
+  batchSize?: number;
+  // or when the first pending event has waited for flushInterval ms
+  flushInterval?: number;
+  // gzip the payloads
+  compress?: boolean;
+  // retry a failed upload at most maxRetries times,
+  // the delay starts from retryDelay ms and doubles on every retry
+  maxRetries?: number;
+  retryDelay?: number;
+  // drop the oldest batches when more batches are waiting
+  maxQueueSize?: number;
+  // extra headers of the requests, e.g. the authorization header
+  headers?: () => Record<string, string>;
+  // called with the new checkout number when a checkout starts
+  onCheckout?: (checkout: number) => void;
+  // called with the failures, e.g. a batch rejected by the endpoint,
+  // logged by console.warn by default
+  onError?: (message: string, error?: unknown) => void;
+};
+
+export type budgetLimit = Partial<{
+  eventsPerSecond: number;
+  // measured by the length of the serialized events
+  bytesPerSecond: number;
+}>;
+
+/**
+ * what to do with the events over the budget
+ * 'drop' drops them
+ * 'coalesce' keeps the last event of each target and emits it when the budget
+ * is available again
+ * 'checkout' pauses the incremental snapshots and takes a checkout full
+ * snapshot when the budget is available again
+ */
+export type budgetOverflowPolicy = 'drop' | 'coalesce' | 'checkout';
+
+export type budgetOptions = Partial<{
+  // the limit of all the incremental snapshots
+  total: budgetLimit;
+  sources: Partial<Record<IncrementalSource, budgetLimit>>;
+  // the max count of the adds, removes, texts and attributes in a mutation
+  maxMutationBatchSize: number;
+  overflow: budgetOverflowPolicy;
+  // interval of the budget report events in ms
+  reportInterval: number;
+}>;
+
+export type budgetReport = {
+  dropped: Partial<Record<IncrementalSource, number>>;
+  coalesced: Partial<Record<IncrementalSource, number>>;
+  checkouts: number;
+};
+
+export type bufferOptions = Partial<{
+  // the number of the last checkout segments kept in memory
+  segments: number;
+  // flush on the uncaught errors and the unhandled rejections
+  flushOnError: boolean;
+  // flush on the custom events with these tags
+  flushOnCustomEvents: string[];
+}>;
+
+/**
+ * the messages between the recordings of a cross-origin iframe and its parent
+ * 'rrweb-iframe-event' carries an event recorded in the iframe
+ * 'rrweb-iframe-snapshot' asks the iframe to take a full snapshot, when the
+ * parent takes one
+ */
+export type crossOriginIframeMessage =
+  | {
+      type: 'rrweb-iframe-event';
+      event: eventWithTime;
+    }
+  | {
+      type: 'rrweb-iframe-snapshot';
+    };
+
 export type RecordPlugin<TOptions = unknown> = {
   name: string;
   observer: (cb: Function, options: TOptions) => listenerHandler;
@@ -212,18 +441,31 @@ export type recordOptions<T> = {
   maskInputOptions?: MaskInputOptions;
   maskInputFn?: MaskInputFn;
   maskTextFn?: MaskTextFn;
+  maskAttributeFn?: MaskAttributeFn;
+  maskMedia?: boolean | MaskMediaOptions;
+  privacyRules?: PrivacyRule[];
   slimDOMOptions?: SlimDOMOptions | 'all' | true;
   inlineStylesheet?: boolean;
   hooks?: hooksParam;
   packFn?: PackFn;
   sampling?: SamplingStrategy;
   recordCanvas?: boolean;
+  dataURLOptions?: dataURLOptions;
+  worker?: workerOptions;
+  budget?: budgetOptions;
+  buffer?: bufferOptions;
   userTriggeredOnInput?: boolean;
   collectFonts?: boolean;
   plugins?: RecordPlugin[];
   // departed, please use sampling options
   mousemoveWait?: number;
   keepIframeSrcFn?: KeepIframeSrcFn;
+  dedupeSubtrees?: boolean;
+  stitchSession?: boolean;
+  recordCrossOriginIframes?: boolean;
+  // the origin of the parent page, required in a cross-origin iframe
+  parentOrigin?: string;
+  recordPointers?: boolean;
 };
 
 export type observerParam = {
@@ -242,19 +484,30 @@ export type observerParam = {
   maskInputOptions: MaskInputOptions;
   maskInputFn?: MaskInputFn;
   maskTextFn?: MaskTextFn;
+  maskAttributeFn?: MaskAttributeFn;
+  maskMediaOptions: MaskMediaOptions;
+  privacyEngine: PrivacyEngine;
   inlineStylesheet: boolean;
   styleSheetRuleCb: styleSheetRuleCallback;
+  styleDeclarationCb: styleDeclarationCallback;
   canvasMutationCb: canvasMutationCallback;
   fontCb: fontCallback;
+  keyboardCb: keyboardCallback;
+  selectionCb: selectionCallback;
+  pointerCb: pointerCallback;
+  visualViewportCb: visualViewportCallback;
   sampling: SamplingStrategy;
   recordCanvas: boolean;
   userTriggeredOnInput: boolean;
   collectFonts: boolean;
+  recordPointers: boolean;
   slimDOMOptions: SlimDOMOptions;
   doc: Document;
   mirror: Mirror;
   iframeManager: IframeManager;
   shadowDomManager: ShadowDomManager;
+  stylesheetManager: StylesheetManager;
+  mutationBuffers: MutationBuffer[];
   plugins: Array<{
     observer: Function;
     callback: Function;
@@ -262,6 +515,8 @@ export type observerParam = {
   }>;
 };
 
+export type IWindow = Window & typeof globalThis;
+
 export type hooksParam = {
   mutation?: mutationCallBack;
   mousemove?: mousemoveCallBack;
@@ -271,8 +526,13 @@ export type hooksParam = {
   input?: inputCallback;
   mediaInteaction?: mediaInteractionCallback;
   styleSheetRule?: styleSheetRuleCallback;
+  styleDeclaration?: styleDeclarationCallback;
   canvasMutation?: canvasMutationCallback;
   font?: fontCallback;
+  keyboard?: keyboardCallback;
+  selection?: selectionCallback;
+  pointer?: pointerCallback;
+  visualViewport?: visualViewportCallback;
 };
 
 // https://dom.spec.whatwg.org/#interface-mutationrecord
@@ -295,7 +555,7 @@ export type textMutation = {
 };
 
 export type styleAttributeValue = {
-  [key:string]: styleValueWithPriority | string | false;
+  [key: string]: styleValueWithPriority | string | false;
 };
 
 export type styleValueWithPriority = [string, string];
@@ -352,6 +612,39 @@ export type mousePosition = {
   timeOffset: number;
 };
 
+export enum PointerInteractions {
+  Down,
+  Move,
+  Up,
+  Cancel,
+}
+
+export type pointerPosition = {
+  type: PointerInteractions;
+  // the concurrent pointers, e.g. the fingers of a pinch, have their own ids
+  pointerId: number;
+  // 'mouse', 'pen' or 'touch'
+  pointerType: string;
+  x: number;
+  y: number;
+  id: number;
+  timeOffset: number;
+  // not recorded for the mouse
+  pressure?: number;
+  // only recorded when the pen is tilted
+  tiltX?: number;
+  tiltY?: number;
+  // only recorded for the contacts larger than a point
+  width?: number;
+  height?: number;
+};
+
+export type pointerParam = {
+  positions: pointerPosition[];
+};
+
+export type pointerCallback = (p: pointerParam) => void;
+
 export enum MouseInteractions {
   MouseUp,
   MouseDown,
@@ -374,6 +667,62 @@ type mouseInteractionParam = {
 
 export type mouseInteractionCallBack = (d: mouseInteractionParam) => void;
 
+export enum KeyboardInteractions {
+  KeyDown,
+  KeyUp,
+}
+
+/**
+ * 'navigation' keys move the focus or the caret, e.g. Tab and the arrows
+ * 'shortcut' keys are pressed with Ctrl, Alt or Meta
+ * 'editing' keys change the text, e.g. the printable characters and Backspace
+ * 'other' keys are the rest, e.g. Escape and the modifiers
+ */
+export type keyCategory = 'navigation' | 'shortcut' | 'editing' | 'other';
+
+export type keyboardParam = {
+  type: KeyboardInteractions;
+  // id of the focused node
+  id: number;
+  // not recorded for the printable characters typed into the masked inputs
+  key?: string;
+  category: keyCategory;
+  // the modifiers are only recorded when they are pressed
+  altKey?: true;
+  ctrlKey?: true;
+  metaKey?: true;
+  shiftKey?: true;
+  repeat?: true;
+};
+
+export type keyboardCallback = (p: keyboardParam) => void;
+
+/**
+ * the selection of a document, the anchor is where the selection starts and
+ * the focus is where it ends, a collapsed selection is the caret
+ */
+export type selectionRange = {
+  anchor: number;
+  anchorOffset: number;
+  focus: number;
+  focusOffset: number;
+};
+
+export type selectionParam =
+  | {
+      // null when the selection is removed
+      range: selectionRange | null;
+    }
+  | {
+      // the selection inside an input or a textarea
+      id: number;
+      start: number;
+      end: number;
+      backward?: true;
+    };
+
+export type selectionCallback = (p: selectionParam) => void;
+
 export type scrollPosition = {
   id: number;
   x: number;
@@ -392,22 +741,133 @@ export type styleSheetDeleteRule = {
 };
 
 export type styleSheetRuleParam = {
-  id: number;
+  // id of the owner node, not defined for constructed stylesheets
+  id?: number;
+  // id of a constructed stylesheet, assigned when it's adopted
+  styleId?: number;
   removes?: styleSheetDeleteRule[];
   adds?: styleSheetAddRule[];
+  // css text passed to replace or replaceSync of a constructed stylesheet
+  replace?: string;
 };
 
 export type styleSheetRuleCallback = (s: styleSheetRuleParam) => void;
 
+export type adoptedStyleSheetParam = {
+  // id of the document or the host element of the shadow root
+  id: number;
+  // rules of the stylesheets which are adopted for the first time
+  styles?: Array<{
+    styleId: number;
+    rules: styleSheetAddRule[];
+  }>;
+  // ids of all the adopted stylesheets in order
+  styleIds: number[];
+};
+
+export type adoptedStyleSheetCallback = (a: adoptedStyleSheetParam) => void;
+
+export type styleDeclarationParam = {
+  // id of the owner node, not defined for constructed stylesheets
+  id?: number;
+  // id of a constructed stylesheet, assigned when it's adopted
+  styleId?: number;
+  /**
+   * indexes of the style rule and its parent rules, from the outermost
+   * one in the stylesheet, e.g. [2, 0] is the first rule of a media rule
+   */
+  index: number[];
+  set?: {
+    property: string;
+    value: string | null;
+    priority?: string;
+  };
+  remove?: {
+    property: string;
+  };
+};
+
+export type styleDeclarationCallback = (s: styleDeclarationParam) => void;
+
+// constructable stylesheets are not included in the dom typings yet
+export type ConstructableStyleSheet = CSSStyleSheet & {
+  replace?: (text: string) => Promise<CSSStyleSheet>;
+  replaceSync?: (text: string) => void;
+};
+
+export type StyleSheetHost = (Document | ShadowRoot) & {
+  adoptedStyleSheets?: ConstructableStyleSheet[];
+};
+
 export type canvasMutationCallback = (p: canvasMutationParam) => void;
 
+// records a mutation of the canvas, the id is looked up when it's emitted
+export type canvasMutationRecorder = (
+  canvas: HTMLCanvasElement,
+  p: Omit<canvasMutationParam, 'id'>,
+) => void;
+
+export enum CanvasContext {
+  '2D',
+  WebGL,
+  WebGL2,
+}
+
+export type canvasObjectCall = {
+  property: string;
+  args: CanvasArg[];
+};
+
+export type SerializedCanvasArg =
+  | {
+      rr_type: 'ArrayBuffer';
+      base64: string;
+    }
+  | {
+      // images and canvases are encoded as data urls
+      rr_type: 'HTMLImageElement';
+      src: string;
+    }
+  | {
+      // webgl objects are referred by the index of the creation in the context
+      rr_type: string;
+      index: number;
+    }
+  | {
+      // objects which are rebuilt by the constructor or the context method
+      rr_type: string;
+      args: CanvasArg[];
+      // the context method which creates the object, e.g. createLinearGradient
+      property?: string;
+      // calls to the methods of the object, e.g. addColorStop
+      calls?: canvasObjectCall[];
+    };
+
+export type CanvasArg =
+  | SerializedCanvasArg
+  | string
+  | number
+  | boolean
+  | null
+  | CanvasArg[];
+
 export type canvasMutationParam = {
   id: number;
+  // not defined in the legacy events, whose args are not serialized
+  type?: CanvasContext;
   property: string;
   args: Array<unknown>;
   setter?: true;
 };
 
+export type canvasFrameParam = {
+  id: number;
+  // the bitmap of the canvas encoded as a data url
+  dataURL: string;
+};
+
+export type canvasFrameCallback = (p: canvasFrameParam) => void;
+
 export type fontParam = {
   family: string;
   fontSource: string;
@@ -424,6 +884,26 @@ export type viewportResizeDimension = {
 
 export type viewportResizeCallback = (d: viewportResizeDimension) => void;
 
+/**
+ * the part of the layout viewport seen by the user, which is changed by the
+ * pinch-zoom and the on-screen keyboard
+ */
+export type visualViewportParam = {
+  scale: number;
+  // relative to the layout viewport, in CSS pixels
+  offsetLeft: number;
+  offsetTop: number;
+  width: number;
+  height: number;
+};
+
+export type visualViewportCallback = (p: visualViewportParam) => void;
+
+// the visual viewport is not included in the dom typings yet
+export type VisualViewportHost = Window & {
+  visualViewport?: EventTarget & visualViewportParam;
+};
+
 export type inputValue = {
   text: string;
   isChecked: boolean;
@@ -498,6 +978,7 @@ export type playerConfig = {
   triggerFocus: boolean;
   UNSAFE_replayCanvas: boolean;
   pauseAnimation?: boolean;
+  useVirtualDom: boolean;
   mouseTail:
     | boolean
     | {
@@ -506,8 +987,13 @@ export type playerConfig = {
         lineWidth?: number;
         strokeStyle?: string;
       };
+  /**
+   * unpack an event from each string, the chunks of the stream packer
+   * should be unpacked by unpackStream before they are passed
+   */
   unpackFn?: UnpackFn;
   plugins?: ReplayPlugin[];
+  keyframeIndex?: keyframeIndex;
 };
 
 export type playerMetaData = {
@@ -516,6 +1002,45 @@ export type playerMetaData = {
   totalTime: number;
 };
 
+export type pageBoundary = {
+  // not defined if the events are recorded without stitchSession
+  sessionId?: string;
+  pageIndex: number;
+  href: string;
+  // timestamp of the meta event which starts the page
+  timestamp: number;
+  // time offset from the start of the replay
+  delay: number;
+};
+
+export type keyframe = {
+  // index of the first event at or after the keyframe
+  index: number;
+  timestamp: number;
+  // time offset from the first event
+  delay: number;
+  // index of the meta event which starts the snapshot, -1 if there is none
+  metaIndex: number;
+  fullSnapshotIndex: number;
+  // indexes of the last input and scroll event of each node since the snapshot
+  inputs: number[];
+  scrolls: number[];
+  /**
+   * indexes of the style sheet rule and declaration events since the rules
+   * of each stylesheet were last reset, e.g. by changing the text of a
+   * style element
+   */
+  styleSheets: number[];
+};
+
+export type keyframeIndex = {
+  version: 2;
+  startTime: number;
+  eventCount: number;
+  interval: number;
+  keyframes: keyframe[];
+};
+
 export type missingNode = {
   node: Node;
   mutation: addedNodeMutation;
@@ -558,6 +1083,9 @@ export enum ReplayerEvents {
   Flush = 'flush',
   StateChange = 'state-change',
   PlayBack = 'play-back',
+  PageChange = 'page-change',
+  Keyboard = 'keyboard',
+  VisualViewport = 'visual-viewport',
 }
 
 // store the state that would be changed during the process(unmount from dom and mount again)
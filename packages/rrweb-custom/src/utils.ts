@@ -14,7 +14,11 @@ import {
   mutationData,
   scrollData,
   inputData,
+  selectionData,
+  pointerData,
   DocumentDimension,
+  visualViewportParam,
+  VisualViewportHost,
 } from './types';
 import {
   INode,
@@ -22,12 +26,13 @@ import {
   serializedNodeWithId,
   NodeType,
   isShadowRoot,
+  PrivacyEngine,
 } from 'rrweb-snapshot';
 
 export function on(
   type: string,
   fn: EventListenerOrEventListenerObject,
-  target: Document | Window = document,
+  target: Document | Window | EventTarget = document,
 ): listenerHandler {
   const options = { capture: true, passive: true };
   target.addEventListener(type, fn, options);
@@ -224,10 +229,34 @@ export function getWindowWidth(): number {
   );
 }
 
-export function isBlocked(node: Node | null, blockClass: blockClass): boolean {
+export function getVisualViewport(
+  win: Window = window,
+): visualViewportParam | null {
+  const viewport = (win as VisualViewportHost).visualViewport;
+  if (!viewport) {
+    return null;
+  }
+  const { scale, offsetLeft, offsetTop, width, height } = viewport;
+  return { scale, offsetLeft, offsetTop, width, height };
+}
+
+// whether the visual viewport shows a different part of the layout viewport
+export function isVisualViewportMoved(v: visualViewportParam): boolean {
+  return v.scale !== 1 || v.offsetLeft !== 0 || v.offsetTop !== 0;
+}
+
+export function isBlocked(
+  node: Node | null,
+  blockClass: blockClass,
+  privacyEngine?: PrivacyEngine,
+): boolean {
   if (!node) {
     return false;
   }
+  // the policy already includes the rules of the ancestors
+  if (privacyEngine?.getPolicy(node).block) {
+    return true;
+  }
   if (node.nodeType === node.ELEMENT_NODE) {
     let needBlock = false;
     if (typeof blockClass === 'string') {
@@ -364,6 +393,10 @@ export class TreeIndex {
   private removeIdSet!: Set<number>;
   private scrollMap!: Map<number, scrollData>;
   private inputMap!: Map<number, inputData>;
+  // only the last selection is visible
+  private lastSelection!: selectionData | null;
+  // only the last position of each pointer is visible
+  private pointerMap!: Map<number, pointerData>;
 
   constructor() {
     this.reset();
@@ -455,10 +488,22 @@ export class TreeIndex {
     this.inputMap.set(d.id, d);
   }
 
+  public selection(d: selectionData) {
+    this.lastSelection = d;
+  }
+
+  public pointer(d: pointerData) {
+    d.positions.forEach((p) =>
+      this.pointerMap.set(p.pointerId, { ...d, positions: [p] }),
+    );
+  }
+
   public flush(): {
     mutationData: mutationData;
     scrollMap: TreeIndex['scrollMap'];
     inputMap: TreeIndex['inputMap'];
+    selection: selectionData | null;
+    pointerMap: TreeIndex['pointerMap'];
   } {
     const {
       tree,
@@ -514,6 +559,18 @@ export class TreeIndex {
 
     const scrollMap = new Map(this.scrollMap);
     const inputMap = new Map(this.inputMap);
+    const pointerMap = new Map(this.pointerMap);
+    let selection = this.lastSelection;
+    if (
+      selection &&
+      ('id' in selection
+        ? this.removeIdSet.has(selection.id)
+        : selection.range &&
+          (this.removeIdSet.has(selection.range.anchor) ||
+            this.removeIdSet.has(selection.range.focus)))
+    ) {
+      selection = null;
+    }
 
     this.reset();
 
@@ -521,6 +578,8 @@ export class TreeIndex {
       mutationData: batchMutationData,
       scrollMap,
       inputMap,
+      selection,
+      pointerMap,
     };
   }
 
@@ -533,6 +592,8 @@ export class TreeIndex {
     this.removeIdSet = new Set();
     this.scrollMap = new Map();
     this.inputMap = new Map();
+    this.lastSelection = null;
+    this.pointerMap = new Map();
   }
 
   public idRemoved(id: number): boolean {
@@ -605,7 +666,7 @@ export function iterateResolveTree(
   }
 }
 
-type HTMLIFrameINode = HTMLIFrameElement & {
+export type HTMLIFrameINode = HTMLIFrameElement & {
   __sn: serializedNodeWithId;
 };
 export type AppendedIframe = {
@@ -625,6 +686,21 @@ export function isIframeINode(
   return false;
 }
 
+/**
+ * whether the page is embedded by a page of another origin
+ */
+export function isInCrossOriginIframe(): boolean {
+  if (window.parent === window) {
+    return false;
+  }
+  try {
+    // throws a SecurityError if the parent is cross-origin
+    return !window.parent.document;
+  } catch {
+    return true;
+  }
+}
+
 export function getBaseDimension(
   node: Node,
   rootIframe: Node,
@@ -660,3 +736,54 @@ export function hasShadowRoot<T extends Node>(
 ): n is T & { shadowRoot: ShadowRoot } {
   return Boolean(((n as unknown) as Element)?.shadowRoot);
 }
+
+// the constructors of webgl objects which are referred by index
+const WEBGL_OBJECT_TYPES = [
+  'WebGLActiveInfo',
+  'WebGLBuffer',
+  'WebGLFramebuffer',
+  'WebGLProgram',
+  'WebGLQuery',
+  'WebGLRenderbuffer',
+  'WebGLSampler',
+  'WebGLShader',
+  'WebGLSync',
+  'WebGLTexture',
+  'WebGLTransformFeedback',
+  'WebGLUniformLocation',
+  'WebGLVertexArrayObject',
+  // vertex array objects of WebGL1 are created by an extension
+  'WebGLVertexArrayObjectOES',
+];
+
+// webgl objects of each context, indexed by the constructor name
+const webGLVariables: WeakMap<
+  object,
+  Map<string, Array<unknown>>
+> = new WeakMap();
+
+export function variableListFor(ctx: object, ctor: string): Array<unknown> {
+  let variables = webGLVariables.get(ctx);
+  if (!variables) {
+    variables = new Map();
+    webGLVariables.set(ctx, variables);
+  }
+  let list = variables.get(ctor);
+  if (!list) {
+    list = [];
+    variables.set(ctor, list);
+  }
+  return list;
+}
+
+export function getConstructorName(value: object): string {
+  return value.constructor ? value.constructor.name : '';
+}
+
+export function isWebGLObject(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    WEBGL_OBJECT_TYPES.includes(getConstructorName(value!))
+  );
+}
@@ -1,7 +1,7 @@
 import { expect } from 'chai';
-import { discardPriorSnapshots } from '../src/replay/machine';
+import { buildKeyframeIndex, findKeyframe } from '../src/replay/keyframe';
 import { sampleEvents } from './utils';
-import { EventType } from '../src/types';
+import { EventType, eventWithTime } from '../src/types';
 
 const events = sampleEvents.filter(
   (e) => ![EventType.DomContentLoaded, EventType.Load].includes(e.type),
@@ -15,15 +15,25 @@ const nextNextEvents = nextEvents.map((e) => ({
   timestamp: e.timestamp + 1000,
 }));
 
+// the events cast by the player, from the meta event of the keyframe
+const getLastSession = (
+  allEvents: eventWithTime[],
+  baselineTime: number,
+): eventWithTime[] => {
+  const index = buildKeyframeIndex(allEvents);
+  const keyframe = index.keyframes[findKeyframe(index, baselineTime)];
+  return allEvents.slice(keyframe ? Math.max(keyframe.metaIndex, 0) : 0);
+};
+
 describe('get last session', () => {
   it('will return all the events when there is only one session', () => {
-    expect(discardPriorSnapshots(events, events[0].timestamp)).to.deep.equal(events);
+    expect(getLastSession(events, events[0].timestamp)).to.deep.equal(events);
   });
 
   it('will return last session when there is more than one in the events', () => {
     const multiple = events.concat(nextEvents).concat(nextNextEvents);
     expect(
-      discardPriorSnapshots(
+      getLastSession(
         multiple,
         nextNextEvents[nextNextEvents.length - 1].timestamp,
       ),
@@ -33,7 +43,7 @@ describe('get last session', () => {
   it('will return last session when baseline time is future time', () => {
     const multiple = events.concat(nextEvents).concat(nextNextEvents);
     expect(
-      discardPriorSnapshots(
+      getLastSession(
         multiple,
         nextNextEvents[nextNextEvents.length - 1].timestamp + 1000,
       ),
@@ -41,7 +51,7 @@ describe('get last session', () => {
   });
 
   it('will return all sessions when baseline time is prior time', () => {
-    expect(discardPriorSnapshots(events, events[0].timestamp - 1000)).to.deep.equal(
+    expect(getLastSession(events, events[0].timestamp - 1000)).to.deep.equal(
       events,
     );
   });
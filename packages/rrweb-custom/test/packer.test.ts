@@ -1,7 +1,13 @@
 import { expect } from 'chai';
 import { matchSnapshot } from './utils';
-import { pack, unpack } from '../src/packer';
-import { eventWithTime, EventType } from '../src/types';
+import {
+  pack,
+  unpack,
+  createStreamPacker,
+  createStreamUnpacker,
+  unpackStream,
+} from '../src/packer';
+import { eventWithTime, EventType, IncrementalSource } from '../src/types';
 import { MARK } from '../src/packer/base';
 
 const event: eventWithTime = {
@@ -42,3 +48,69 @@ describe('unpack', () => {
     });
   });
 });
+
+describe('stream packer', () => {
+  const events: eventWithTime[] = Array.from({ length: 120 }, (_, i) => ({
+    type: EventType.IncrementalSnapshot,
+    data: {
+      source: IncrementalSource.MouseMove,
+      positions: [{ x: i, y: i * 2, id: 12, timeOffset: -10 }],
+    },
+    timestamp: event.timestamp + i * 50,
+  }));
+
+  it('can pack events in chunks', () => {
+    const packer = createStreamPacker({ chunkSize: 50 });
+    const chunks = events
+      .map((e) => packer.push(e))
+      .filter((chunk): chunk is string => Boolean(chunk));
+    expect(chunks.length).to.equal(2);
+    chunks.push(packer.flush()!);
+    expect(packer.flush()).to.equal(null);
+    expect(unpackStream(chunks)).to.deep.equal(events);
+  });
+
+  it('shares the dictionary across chunks', () => {
+    const packer = createStreamPacker({ chunkSize: 1 });
+    const custom = (tag: string): eventWithTime => ({
+      type: EventType.Custom,
+      data: { tag, payload: { '~key': '~value' } },
+      timestamp: event.timestamp,
+    });
+    const chunks = [
+      packer.push(custom('repeated-tag'))!,
+      packer.push(custom('repeated-tag'))!,
+      packer.push(custom('repeated-tag'))!,
+    ];
+    const unpacker = createStreamUnpacker();
+    expect(chunks.map((chunk) => unpacker.unpack(chunk))).to.deep.equal([
+      [custom('repeated-tag')],
+      [custom('repeated-tag')],
+      [custom('repeated-tag')],
+    ]);
+    expect(chunks[2].length).to.be.lessThan(chunks[0].length);
+  });
+
+  it('is smaller than packing every event', () => {
+    const packer = createStreamPacker({ chunkSize: Infinity });
+    events.forEach((e) => packer.push(e));
+    const size = packer.flush()!.length;
+    const v1Size = events.reduce((sum, e) => sum + pack(e).length, 0);
+    expect(size * 4).to.be.lessThan(v1Size);
+  });
+
+  it('is compatible with v1 and plain data', () => {
+    const unpacker = createStreamUnpacker();
+    expect(unpacker.unpack(JSON.stringify(event))).to.deep.equal([event]);
+    expect(unpacker.unpack(pack(event))).to.deep.equal([{ ...event, v: MARK }]);
+  });
+
+  it('stops on chunks out of order', () => {
+    const packer = createStreamPacker({ chunkSize: 1 });
+    packer.push(event);
+    const chunk = packer.push(event)!;
+    expect(() => createStreamUnpacker().unpack(chunk)).to.throw(
+      'Expect chunk 0 of the stream but got chunk 1.',
+    );
+  });
+});
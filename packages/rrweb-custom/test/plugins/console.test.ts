@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import {
+  getRecordConsolePlugin,
+  LogData,
+} from '../../src/plugins/console/record';
+
+function observe() {
+  const logs: LogData[] = [];
+  const plugin = getRecordConsolePlugin({ level: ['error'], logger: {} });
+  const stop = plugin.observer(
+    (data: LogData) => logs.push(data),
+    plugin.options,
+  );
+  return { logs, stop };
+}
+
+describe('console plugin', () => {
+  it('should record thrown errors with structured data', () => {
+    const { logs, stop } = observe();
+    const error = new TypeError('a is undefined');
+    window.onerror!('Uncaught TypeError', 'http://localhost', 1, 1, error);
+    stop();
+    expect(logs).to.have.length(1);
+    expect(logs[0].kind).to.equal('error');
+    expect(logs[0].error).to.deep.include({
+      name: 'TypeError',
+      message: 'a is undefined',
+    });
+    expect(logs[0].error!.stack.length).to.equal(logs[0].trace.length);
+    expect(logs[0].error!.stack[0]).to.have.keys(
+      'fileName',
+      'functionName',
+      'lineNumber',
+      'columnNumber',
+    );
+  });
+
+  it('should record unhandled rejections', () => {
+    const { logs, stop } = observe();
+    const reject = (reason: unknown) => {
+      const event = new Event('unhandledrejection');
+      Object.assign(event, { reason });
+      window.dispatchEvent(event);
+    };
+    reject(new RangeError('out of range'));
+    reject('not an error');
+    stop();
+    reject('stopped');
+    expect(logs.map(({ kind, error }) => [kind, error])).to.deep.equal([
+      [
+        'unhandledrejection',
+        {
+          name: 'RangeError',
+          message: 'out of range',
+          stack: logs[0].error!.stack,
+        },
+      ],
+      [
+        'unhandledrejection',
+        { name: 'Error', message: '"not an error"', stack: [] },
+      ],
+    ]);
+    expect(logs[0].error!.stack).to.not.be.empty;
+  });
+
+  it('should record resource errors with the id of the element', () => {
+    const { logs, stop } = observe();
+    const img = document.createElement('img');
+    img.setAttribute('src', 'http://localhost/broken.png');
+    Object.assign(img, { __sn: { id: 10 } });
+    document.body.appendChild(img);
+    img.dispatchEvent(new Event('error'));
+    stop();
+    img.remove();
+    expect(logs).to.have.length(1);
+    expect(logs[0]).to.deep.include({
+      kind: 'resource',
+      payload: ['"Failed to load resource: http://localhost/broken.png"'],
+      resource: {
+        id: 10,
+        tagName: 'img',
+        url: 'http://localhost/broken.png',
+      },
+    });
+  });
+});
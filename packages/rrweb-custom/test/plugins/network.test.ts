@@ -0,0 +1,223 @@
+import { expect } from 'chai';
+import {
+  getRecordNetworkPlugin,
+  NetworkRequest,
+  PLUGIN_NAME,
+} from '../../src/plugins/network/record';
+import { getReplayNetworkPlugin } from '../../src/plugins/network/replay';
+import { EventType, eventWithTime } from '../../src/types';
+import { Replayer } from '../../src/replay';
+
+function createWindow(response: () => Promise<Response>) {
+  return ({
+    location: { href: 'http://localhost/page' },
+    fetch: response,
+  } as unknown) as Window;
+}
+
+function observe(
+  win: Window,
+  options: Parameters<typeof getRecordNetworkPlugin>[0] = {},
+) {
+  const requests: NetworkRequest[] = [];
+  const plugin = getRecordNetworkPlugin({
+    ...options,
+    win,
+    initiatorTypes: ['fetch'],
+  });
+  const stop = plugin.observer(
+    (request: NetworkRequest) => requests.push(request),
+    plugin.options,
+  );
+  return { requests, stop };
+}
+
+// wait for the response body to be read
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('network plugin', () => {
+  it('should record fetch requests', async () => {
+    const win = createWindow(() =>
+      Promise.resolve(
+        new Response('{"ok":true}', {
+          status: 201,
+          headers: { 'content-type': 'application/json' },
+        }),
+      ),
+    );
+    const { requests, stop } = observe(win, {
+      recordHeaders: true,
+      recordBody: true,
+    });
+    const response = await win.fetch('/api', {
+      method: 'post',
+      body: 'a=1',
+      headers: { Authorization: 'token', 'X-Id': '1' },
+    });
+    expect(await response.text()).to.equal('{"ok":true}');
+    await flush();
+    stop();
+    expect(requests).to.have.length(1);
+    const [request] = requests;
+    expect(request).to.deep.include({
+      initiatorType: 'fetch',
+      method: 'POST',
+      url: 'http://localhost/api',
+      status: 201,
+      requestSize: 3,
+      responseSize: 11,
+      requestBody: 'a=1',
+      responseBody: '{"ok":true}',
+    });
+    expect(request.requestHeaders).to.deep.equal({
+      authorization: '*****',
+      'x-id': '1',
+    });
+    expect(request.responseHeaders).to.deep.include({
+      'content-type': 'application/json',
+    });
+    expect(request.endTime).to.be.at.least(request.startTime);
+  });
+
+  it('should read the bodies only up to the limit', async () => {
+    let pulls = 0;
+    // an endless body
+    const stream = new ReadableStream({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode('abcd'));
+      },
+    });
+    const win = createWindow(() => Promise.resolve(new Response(stream)));
+    const { requests, stop } = observe(win, {
+      recordBody: true,
+      bodyLengthLimit: 6,
+    });
+    await win.fetch('/stream');
+    await flush();
+    stop();
+    expect(requests[0].responseBody).to.equal('abcdab');
+    expect(requests[0].responseSize).to.equal(undefined);
+    expect(pulls).to.be.below(5);
+  });
+
+  it('should record the types of the bodies which are not text', async () => {
+    const win = createWindow(() =>
+      Promise.resolve(
+        new Response(new Uint8Array([1, 2, 3]), {
+          headers: { 'content-type': 'image/png' },
+        }),
+      ),
+    );
+    const { requests, stop } = observe(win, { recordBody: true });
+    await win.fetch('/image.png');
+    await flush();
+    stop();
+    expect(requests[0].responseBody).to.equal('[image/png]');
+  });
+
+  it('should record the bodies of the requests passed to fetch', async () => {
+    const win = createWindow(() => Promise.resolve(new Response('a')));
+    const { requests, stop } = observe(win, { recordBody: true });
+    await win.fetch(
+      new Request('http://localhost/api', { method: 'POST', body: 'a=1' }),
+    );
+    await flush();
+    stop();
+    expect(requests[0]).to.deep.include({
+      method: 'POST',
+      requestSize: 3,
+      requestBody: 'a=1',
+      responseBody: 'a',
+    });
+  });
+
+  it('should not record headers and bodies by default', async () => {
+    const win = createWindow(() => Promise.resolve(new Response('a')));
+    const { requests, stop } = observe(win);
+    await win.fetch('http://localhost/a');
+    stop();
+    expect(requests[0]).to.not.have.any.keys(
+      'requestHeaders',
+      'responseHeaders',
+      'requestBody',
+      'responseBody',
+    );
+  });
+
+  it('should record failed requests', async () => {
+    const win = createWindow(() => Promise.reject(new TypeError('offline')));
+    const { requests, stop } = observe(win);
+    let error: Error | null = null;
+    try {
+      await win.fetch('/a');
+    } catch (e) {
+      error = e;
+    }
+    stop();
+    expect(error).to.be.instanceOf(TypeError);
+    expect(requests[0]).to.deep.include({
+      status: 0,
+      error: 'TypeError: offline',
+    });
+  });
+
+  it('should apply the redaction hooks', async () => {
+    const win = createWindow(() => Promise.resolve(new Response('a')));
+    const { requests, stop } = observe(win, {
+      ignoreRequestFn: (url) => url.endsWith('/upload'),
+      maskRequestFn: (request) =>
+        request.url.includes('secret')
+          ? null
+          : { ...request, url: request.url.replace(/\?.*$/, '') },
+    });
+    await win.fetch('/upload');
+    await win.fetch('/secret');
+    await win.fetch('/search?q=name');
+    stop();
+    expect(requests.map((r) => r.url)).to.deep.equal([
+      'http://localhost/search',
+    ]);
+  });
+
+  it('should restore fetch when stopped', () => {
+    const original = () => Promise.resolve(new Response('a'));
+    const win = createWindow(original);
+    const { stop } = observe(win);
+    expect(win.fetch).to.not.equal(original);
+    stop();
+    expect(win.fetch).to.equal(original);
+  });
+
+  it('should surface the requests until the replay time', () => {
+    const request = (url: string) => (({ url } as unknown) as NetworkRequest);
+    const events: eventWithTime[] = [
+      { type: EventType.Load, data: {}, timestamp: 0 },
+      {
+        type: EventType.Plugin,
+        data: { plugin: PLUGIN_NAME, payload: request('/a') },
+        timestamp: 100,
+      },
+      {
+        type: EventType.Plugin,
+        data: { plugin: PLUGIN_NAME, payload: request('/b') },
+        timestamp: 200,
+      },
+    ];
+    const replayer = ({
+      service: { state: { context: { events } } },
+    } as unknown) as Replayer;
+    const changes: string[][] = [];
+    const replayed: string[] = [];
+    const { handler } = getReplayNetworkPlugin({
+      onChange: (requests) => changes.push(requests.map((r) => r.url)),
+      onRequest: (r) => replayed.push(r.url),
+    });
+    handler(events[1], true, { replayer });
+    handler(events[2], false, { replayer });
+    // seek back
+    handler(events[0], true, { replayer });
+    expect(changes).to.deep.equal([['/a'], ['/a', '/b'], []]);
+    expect(replayed).to.deep.equal(['/b']);
+  });
+});
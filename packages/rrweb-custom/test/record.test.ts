@@ -11,7 +11,9 @@ import {
   EventType,
   IncrementalSource,
   styleSheetRuleData,
+  styleDeclarationData,
 } from '../src/types';
+import { Recorder } from '../src/record/recorder';
 import { assertSnapshot, launchPuppeteer } from './utils';
 import { Suite } from 'mocha';
 
@@ -27,6 +29,7 @@ interface IWindow extends Window {
     record: (
       options: recordOptions<eventWithTime>,
     ) => listenerHandler | undefined;
+    Recorder: typeof Recorder;
     addCustomEvent<T>(tag: string, payload: T): void;
   };
   emit: (e: eventWithTime) => undefined;
@@ -208,6 +211,204 @@ describe('record', function (this: ISuite) {
     assertSnapshot(this.events, __filename, 'custom-event');
   });
 
+  it('keeps the recorders on the same page apart', async () => {
+    const otherEvents = await this.page.evaluate(async () => {
+      const { Recorder } = ((window as unknown) as IWindow).rrweb;
+      const events: eventWithTime[] = [];
+      const recorder = new Recorder({
+        emit: ((window as unknown) as IWindow).emit,
+      });
+      const other = new Recorder({
+        emit: (e) => events.push(e),
+      });
+      recorder.addCustomEvent('tag', 1);
+      other.freezePage();
+      document.body.appendChild(document.createElement('p'));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      other.stop();
+      recorder.stop();
+      return events;
+    });
+    await this.page.waitForTimeout(50);
+    const types = (events: eventWithTime[]) =>
+      events.map((e) =>
+        e.type === EventType.IncrementalSnapshot ? e.data.source : e.type,
+      );
+    expect(types(this.events)).to.eql([
+      EventType.Meta,
+      EventType.FullSnapshot,
+      EventType.Custom,
+      IncrementalSource.Mutation,
+    ]);
+    // the frozen mutations are not emitted to the other recording
+    expect(types(otherEvents)).to.eql([EventType.Meta, EventType.FullSnapshot]);
+  });
+
+  it('applies the privacy rules', async () => {
+    await this.page.evaluate(() => {
+      const { record } = ((window as unknown) as IWindow).rrweb;
+      document.body.innerHTML = `
+        <div class="account"><p>Jane</p><p class="public">Hi</p></div>
+        <input class="card" value="4242" />
+        <a href="/users/jane">profile</a>
+      `;
+      record({
+        emit: ((window as unknown) as IWindow).emit,
+        privacyRules: [
+          { selector: '.account', action: 'maskText' },
+          { selector: '.public', action: 'allow' },
+          { selector: '.card', action: 'block' },
+          { selector: 'a', action: 'maskAttributes', attributes: ['href'] },
+        ],
+      });
+      document.querySelector('p')!.innerText = 'Jane Doe';
+      document.querySelector('a')!.setAttribute('href', '/users/jane-doe');
+    });
+    await this.page.waitForTimeout(50);
+    const recorded = JSON.stringify(this.events);
+    expect(recorded).not.to.contain('Jane');
+    expect(recorded).not.to.contain('4242');
+    expect(recorded).not.to.contain('/users/jane');
+    expect(recorded).to.contain('"Hi"');
+    expect(recorded).to.contain('"********"');
+  });
+
+  it('masks the attributes with maskAttributeFn', async () => {
+    await this.page.evaluate(() => {
+      const { record } = ((window as unknown) as IWindow).rrweb;
+      document.body.innerHTML = `
+        <img alt="Jane" src="/users/jane.png" />
+        <div style="color: red"></div>
+      `;
+      record({
+        emit: ((window as unknown) as IWindow).emit,
+        maskAttributeFn: (name, value, element) => {
+          if (name === 'alt' || name === 'src') {
+            return '';
+          }
+          if (name === 'style' && element.tagName === 'DIV') {
+            return value.replace(/url\([^)]*\)/g, 'none');
+          }
+          return value;
+        },
+      });
+      document.querySelector('img')!.setAttribute('alt', 'Jane Doe');
+      document.querySelector('div')!.style.background = 'url(/users/jane.png)';
+    });
+    await this.page.waitForTimeout(50);
+    const recorded = JSON.stringify(this.events);
+    expect(recorded).not.to.contain('Jane');
+    expect(recorded).not.to.contain('jane.png');
+    expect(recorded).to.contain('color: red');
+  });
+
+  it('masks the media with placeholders of the same size', async () => {
+    await this.page.evaluate(() => {
+      const { record } = ((window as unknown) as IWindow).rrweb;
+      document.body.innerHTML = `
+        <img src="/id-card.png" style="width: 40px; height: 30px" />
+        <svg width="20" height="20"><text>Jane</text></svg>
+        <div style="background: url(/avatar.png)"></div>
+      `;
+      record({
+        emit: ((window as unknown) as IWindow).emit,
+        maskMedia: true,
+      });
+      document.querySelector('img')!.src = '/passport.png';
+      document
+        .querySelector('svg')!
+        .appendChild(
+          document.createElementNS('http://www.w3.org/2000/svg', 'image'),
+        );
+    });
+    await this.page.waitForTimeout(50);
+    const recorded = JSON.stringify(this.events);
+    expect(recorded).not.to.contain('.png');
+    expect(recorded).not.to.contain('Jane');
+    expect(recorded).to.contain('"rr_width":"40px","rr_height":"30px"');
+    expect(recorded).to.contain('"rr_width":"20px","rr_height":"20px"');
+    // the mutations are masked as well
+    expect(
+      this.events.filter(
+        (e) =>
+          e.type === EventType.IncrementalSnapshot &&
+          e.data.source === IncrementalSource.Mutation,
+      ),
+    ).to.have.length(0);
+  });
+
+  it('rejects the privacy rules with invalid selectors', async () => {
+    const message = await this.page.evaluate(() => {
+      const { Recorder } = ((window as unknown) as IWindow).rrweb;
+      try {
+        const recorder = new Recorder({
+          emit: ((window as unknown) as IWindow).emit,
+          privacyRules: [{ selector: '.card[', action: 'block' }],
+        });
+        recorder.stop();
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+    expect(message).to.equal('Invalid selector of the privacy rule: .card[');
+  });
+
+  it('applies the helpers of record to every recording', async () => {
+    const otherEvents = await this.page.evaluate(async () => {
+      const { record, addCustomEvent } = ((window as unknown) as IWindow).rrweb;
+      const events: eventWithTime[] = [];
+      const stop = record({
+        emit: ((window as unknown) as IWindow).emit,
+      });
+      const stopOther = record({
+        emit: (e) => events.push(e),
+      });
+      addCustomEvent('tag', 1);
+      stopOther!();
+      // the stopped recording is not affected
+      addCustomEvent('tag', 2);
+      stop!();
+      return events;
+    });
+    await this.page.waitForTimeout(50);
+    const customEvents = (events: eventWithTime[]) =>
+      events
+        .filter((e) => e.type === EventType.Custom)
+        .map((e) => (e.data as { payload: number }).payload);
+    expect(customEvents(this.events)).to.eql([1, 2]);
+    expect(customEvents(otherEvents)).to.eql([1]);
+  });
+
+  it('keeps recording the stylesheet rules after another recording stops', async () => {
+    await this.page.evaluate(() => {
+      const { record } = ((window as unknown) as IWindow).rrweb;
+      const stopOther = record({
+        emit: () => undefined,
+      });
+      record({
+        emit: ((window as unknown) as IWindow).emit,
+      });
+      stopOther!();
+
+      const styleElement = document.createElement('style');
+      document.head.appendChild(styleElement);
+      setTimeout(() => {
+        (styleElement.sheet as CSSStyleSheet).insertRule(
+          'body { color: #fff; }',
+        );
+      }, 0);
+    });
+    await this.page.waitForTimeout(50);
+    const adds = this.events
+      .filter(
+        (e) =>
+          e.type === EventType.IncrementalSnapshot &&
+          e.data.source === IncrementalSource.StyleSheetRule,
+      )
+      .map((e) => (e.data as styleSheetRuleData).adds);
+    expect(adds).to.eql([[{ rule: 'body { color: #fff; }' }]]);
+  });
+
   it('captures stylesheet rules', async () => {
     await this.page.evaluate(() => {
       const { record } = ((window as unknown) as IWindow).rrweb;
@@ -250,6 +451,44 @@ describe('record', function (this: ISuite) {
     expect(removeRuleCount).to.equal(1);
     assertSnapshot(this.events, __filename, 'stylesheet-rules');
   });
+
+  it('captures style declarations of nested rules', async () => {
+    await this.page.evaluate(() => {
+      const { record } = ((window as unknown) as IWindow).rrweb;
+
+      const styleElement = document.createElement('style');
+      styleElement.textContent =
+        'a { color: red; } @media screen { body { color: #000; } }';
+      document.head.appendChild(styleElement);
+
+      record({
+        emit: ((window as unknown) as IWindow).emit,
+      });
+
+      const styleSheet = styleElement.sheet as CSSStyleSheet;
+      const mediaRule = styleSheet.cssRules[1] as CSSMediaRule;
+      const bodyRule = mediaRule.cssRules[0] as CSSStyleRule;
+      bodyRule.style.setProperty('color', '#fff', 'important');
+      (styleSheet.cssRules[0] as CSSStyleRule).style.removeProperty('color');
+    });
+    await this.page.waitForTimeout(50);
+    const styleDeclarations = this.events
+      .filter(
+        (e) =>
+          e.type === EventType.IncrementalSnapshot &&
+          e.data.source === IncrementalSource.StyleDeclaration,
+      )
+      .map((e) => e.data as styleDeclarationData);
+    expect(styleDeclarations).to.have.length(2);
+    expect(styleDeclarations[0]).to.deep.include({
+      index: [1, 0],
+      set: { property: 'color', value: '#fff', priority: 'important' },
+    });
+    expect(styleDeclarations[1]).to.deep.include({
+      index: [0],
+      remove: { property: 'color' },
+    });
+  });
 });
 
 describe('record iframes', function (this: ISuite) {
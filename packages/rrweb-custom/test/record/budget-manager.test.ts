@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { BudgetManager } from '../../src/record/budget-manager';
+import {
+  budgetOptions,
+  budgetReport,
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+} from '../../src/types';
+
+const scroll = (id: number, y: number): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data: { source: IncrementalSource.Scroll, id, x: 0, y },
+  timestamp: Date.now(),
+});
+
+const mutation = (adds: number): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data: {
+    source: IncrementalSource.Mutation,
+    texts: [],
+    attributes: [],
+    removes: [],
+    adds: Array.from({ length: adds }, (_, i) => ({
+      parentId: 1,
+      nextId: null,
+      node: { type: 3, textContent: '', id: i + 2 },
+    })),
+  },
+  timestamp: Date.now(),
+});
+
+const endOfWindow = () => new Promise((resolve) => setTimeout(resolve, 1050));
+
+describe('budget manager', function () {
+  this.timeout(5000);
+
+  let manager: BudgetManager;
+  let emitted: eventWithTime[];
+  let checkouts: number;
+  let reports: budgetReport[];
+
+  const createManager = (budget: budgetOptions) => {
+    emitted = [];
+    checkouts = 0;
+    reports = [];
+    manager = new BudgetManager({
+      budget: { reportInterval: 1500, ...budget },
+      emit: (e) => emitted.push(e),
+      checkout: () => checkouts++,
+      reportCb: (report) => reports.push(report),
+    });
+  };
+
+  afterEach(() => manager.stop());
+
+  it('should drop the events over the budget', () => {
+    createManager({
+      sources: { [IncrementalSource.Scroll]: { eventsPerSecond: 2 } },
+    });
+    const admitted = [1, 2, 3].map((y) => manager.admit(scroll(1, y)));
+    expect(admitted).to.eql([true, true, false]);
+    // the other events are not limited
+    expect(
+      manager.admit({ type: EventType.Load, data: {}, timestamp: 0 }),
+    ).to.equal(true);
+  });
+
+  it('should emit the last coalesced event of each target', async () => {
+    createManager({ total: { eventsPerSecond: 1 }, overflow: 'coalesce' });
+    manager.admit(scroll(1, 1));
+    expect(manager.admit(scroll(1, 2))).to.equal(false);
+    manager.admit(scroll(2, 1));
+    manager.admit(scroll(1, 3));
+    await endOfWindow();
+    expect(emitted.map((e) => e.data)).to.eql([
+      { source: IncrementalSource.Scroll, id: 2, x: 0, y: 1 },
+      { source: IncrementalSource.Scroll, id: 1, x: 0, y: 3 },
+    ]);
+  });
+
+  it('should take a checkout instead of dropping mutations', async () => {
+    createManager({ maxMutationBatchSize: 2, overflow: 'drop' });
+    expect(manager.admit(mutation(2))).to.equal(true);
+    expect(manager.admit(mutation(3))).to.equal(false);
+    // paused until the checkout
+    expect(manager.admit(scroll(1, 1))).to.equal(false);
+    await endOfWindow();
+    expect(checkouts).to.equal(1);
+    expect(manager.admit(scroll(1, 2))).to.equal(true);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(reports).to.eql([
+      {
+        dropped: {
+          [IncrementalSource.Mutation]: 1,
+          [IncrementalSource.Scroll]: 1,
+        },
+        coalesced: {},
+        checkouts: 1,
+      },
+    ]);
+  });
+
+  it('should limit the bytes', () => {
+    const size = JSON.stringify(scroll(1, 1)).length;
+    createManager({ total: { bytesPerSecond: size * 1.5 } });
+    expect(manager.admit(scroll(1, 1))).to.equal(true);
+    expect(manager.admit(scroll(1, 2))).to.equal(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { BufferManager } from '../../src/record/buffer-manager';
+import { bufferOptions, EventType, eventWithTime } from '../../src/types';
+
+const meta = (timestamp: number): eventWithTime => ({
+  type: EventType.Meta,
+  data: { href: 'http://localhost', width: 0, height: 0 },
+  timestamp,
+});
+
+const custom = (tag: string, timestamp: number): eventWithTime => ({
+  type: EventType.Custom,
+  data: { tag, payload: null },
+  timestamp,
+});
+
+describe('buffer manager', () => {
+  let manager: BufferManager;
+  let emitted: Array<[number, boolean | undefined]>;
+
+  const createManager = (buffer: bufferOptions) => {
+    emitted = [];
+    manager = new BufferManager({
+      buffer,
+      emit: (e, isCheckout) => emitted.push([e.timestamp, isCheckout]),
+    });
+  };
+
+  afterEach(() => manager.stop());
+
+  it('should keep the last segments until the flush', () => {
+    createManager({ segments: 2 });
+    manager.push(meta(1));
+    manager.push(custom('a', 2));
+    manager.push(meta(3), true);
+    manager.push(custom('a', 4));
+    manager.push(meta(5), true);
+    manager.push(custom('a', 6));
+    expect(emitted).to.eql([]);
+    manager.flush();
+    // starts at the checkout
+    expect(emitted).to.eql([
+      [3, true],
+      [4, undefined],
+      [5, true],
+      [6, undefined],
+    ]);
+    // continues the flushed events
+    manager.push(custom('a', 7));
+    manager.flush();
+    expect(emitted.slice(4)).to.eql([[7, undefined]]);
+  });
+
+  it('should flush on the custom events of the tags', () => {
+    createManager({ flushOnCustomEvents: ['checkout-failed'] });
+    manager.push(meta(1));
+    manager.push(custom('a', 2));
+    expect(emitted).to.have.length(0);
+    manager.push(custom('checkout-failed', 3));
+    expect(emitted.map(([timestamp]) => timestamp)).to.eql([1, 2, 3]);
+  });
+
+  it('should flush after the uncaught errors', async () => {
+    createManager({});
+    manager.push(meta(1));
+    window.dispatchEvent(new Event('error'));
+    manager.push(custom('error', 2));
+    expect(emitted).to.have.length(0);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(emitted.map(([timestamp]) => timestamp)).to.eql([1, 2]);
+  });
+
+  it('should not flush after the load errors of the resources', async () => {
+    createManager({});
+    manager.push(meta(1));
+    const image = document.createElement('img');
+    document.body.appendChild(image);
+    image.dispatchEvent(new Event('error'));
+    image.remove();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(emitted).to.have.length(0);
+  });
+
+  it('should not listen to the errors if disabled', async () => {
+    createManager({ flushOnError: false });
+    manager.push(meta(1));
+    window.dispatchEvent(new Event('error'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(emitted).to.have.length(0);
+  });
+});
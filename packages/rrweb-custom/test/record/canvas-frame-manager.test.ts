@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { JSDOM } from 'jsdom';
+import { createPrivacyEngine } from 'rrweb-snapshot';
+import { CanvasFrameManager } from '../../src/record/canvas-frame-manager';
+import { canvasFrameParam } from '../../src/types';
+import { createMirror } from '../../src/utils';
+
+describe('canvas frame manager', () => {
+  let frameCallback: FrameRequestCallback | null = null;
+  const { document } = new JSDOM(`
+    <canvas width="10" height="10"></canvas>
+    <canvas width="10" height="10" class="rr-block"></canvas>
+    <canvas width="0" height="10"></canvas>
+  `).window;
+  const win = {
+    document,
+    requestAnimationFrame: (cb: FrameRequestCallback) => {
+      frameCallback = cb;
+      return 1;
+    },
+    cancelAnimationFrame: () => {
+      frameCallback = null;
+    },
+  };
+  const frame = (timestamp: number) => frameCallback!(timestamp);
+
+  let dataURL = 'data:image/png;base64,a';
+  Array.from(document.querySelectorAll('canvas')).forEach((canvas, index) => {
+    Object.assign(canvas, {
+      __sn: { id: index + 1 },
+      toDataURL: () => dataURL,
+    });
+  });
+
+  it('should record the changed frames at the rate', () => {
+    const frames: canvasFrameParam[] = [];
+    const manager = new CanvasFrameManager({
+      canvasFrameCb: (p) => frames.push(p),
+      win,
+      mirror: createMirror(),
+      blockClass: 'rr-block',
+      privacyEngine: createPrivacyEngine([]),
+      fps: 10,
+      dataURLOptions: {},
+    });
+    frame(1000);
+    expect(frames).to.eql([{ id: 1, dataURL: 'data:image/png;base64,a' }]);
+    // throttled
+    dataURL = 'data:image/png;base64,b';
+    frame(1050);
+    expect(frames).to.have.length(1);
+    frame(1100);
+    // not changed
+    frame(1200);
+    expect(frames).to.eql([
+      { id: 1, dataURL: 'data:image/png;base64,a' },
+      { id: 1, dataURL: 'data:image/png;base64,b' },
+    ]);
+    manager.stop();
+    expect(frameCallback).to.equal(null);
+  });
+});
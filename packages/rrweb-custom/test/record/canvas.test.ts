@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import {
+  serializeArg,
+  serializeArgs,
+  setObjectRecipe,
+  addObjectCall,
+  invalidateImageSource,
+} from '../../src/record/canvas/serialize-args';
+import { IWindow } from '../../src/types';
+
+// webgl objects are recognized by the constructor name
+class WebGLBuffer {}
+
+describe('canvas args serializer', () => {
+  const win = (window as unknown) as IWindow;
+
+  it('should keep the primitive values', () => {
+    expect(serializeArgs([1, 'red', true, null, undefined], win, {})).to.eql([
+      1,
+      'red',
+      true,
+      null,
+      null,
+    ]);
+  });
+
+  it('should encode binary data by value', () => {
+    const buffer = new Float32Array([0, 1, 2, 3]);
+    expect(serializeArg(buffer.subarray(2), win, {})).to.eql({
+      rr_type: 'Float32Array',
+      args: [{ rr_type: 'ArrayBuffer', base64: 'AAAAQAAAQEA=' }],
+    });
+    expect(serializeArg(new Uint8Array([1, 2, 3]).buffer, win, {})).to.eql({
+      rr_type: 'ArrayBuffer',
+      base64: 'AQID',
+    });
+  });
+
+  it('should refer webgl objects by the index in the context', () => {
+    const ctx = {};
+    const first = new WebGLBuffer();
+    const second = new WebGLBuffer();
+    expect(serializeArgs([first, second, first], win, ctx)).to.eql([
+      { rr_type: 'WebGLBuffer', index: 0 },
+      { rr_type: 'WebGLBuffer', index: 1 },
+      { rr_type: 'WebGLBuffer', index: 0 },
+    ]);
+    // the index is kept for each context
+    expect(serializeArg(second, win, {})).to.eql({
+      rr_type: 'WebGLBuffer',
+      index: 0,
+    });
+  });
+
+  it('should encode the objects with recipes by the calls to them', () => {
+    const gradient = {};
+    setObjectRecipe(gradient, {
+      rr_type: 'CanvasGradient',
+      property: 'createLinearGradient',
+      args: [0, 0, 10, 10],
+    });
+    addObjectCall(gradient, { property: 'addColorStop', args: [0, 'red'] });
+    const serialized = serializeArg(gradient, win, {});
+    addObjectCall(gradient, { property: 'addColorStop', args: [1, 'blue'] });
+    expect(serialized).to.eql({
+      rr_type: 'CanvasGradient',
+      property: 'createLinearGradient',
+      args: [0, 0, 10, 10],
+      calls: [{ property: 'addColorStop', args: [0, 'red'] }],
+    });
+  });
+
+  it('should encode a canvas again only after it is drawn on', () => {
+    const canvas = document.createElement('canvas');
+    let encodings = 0;
+    canvas.toDataURL = () => `data:image/png;base64,${encodings++}`;
+    const first = serializeArg(canvas, win, {});
+    expect(serializeArg(canvas, win, {})).to.equal(first);
+    expect(encodings).to.equal(1);
+    invalidateImageSource(canvas);
+    expect(serializeArg(canvas, win, {})).to.eql({
+      rr_type: 'HTMLImageElement',
+      src: 'data:image/png;base64,1',
+    });
+    // the canvas is cleared when it's resized
+    canvas.width = 10;
+    serializeArg(canvas, win, {});
+    expect(encodings).to.equal(3);
+  });
+
+  it('should skip the objects which cannot be serialized', () => {
+    expect(serializeArg(new Map(), win, {})).to.equal(null);
+    expect(serializeArg({ colorSpace: 'srgb' }, win, {})).to.eql({
+      colorSpace: 'srgb',
+    });
+  });
+});
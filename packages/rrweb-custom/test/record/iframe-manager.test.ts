@@ -0,0 +1,197 @@
+import { expect } from 'chai';
+import { INode, NodeType, serializedNodeWithId } from 'rrweb-snapshot';
+import { IframeManager } from '../../src/record/iframe-manager';
+import { StylesheetManager } from '../../src/record/stylesheet-manager';
+import {
+  crossOriginIframeMessage,
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+  mutationCallbackParam,
+} from '../../src/types';
+
+const childSnapshot: serializedNodeWithId = {
+  type: NodeType.Document,
+  id: 1,
+  childNodes: [
+    {
+      type: NodeType.Element,
+      tagName: 'html',
+      attributes: {},
+      id: 2,
+      childNodes: [
+        { type: NodeType.TemplateInstance, templateId: 0, id: 3 },
+        { type: NodeType.TemplateInstance, templateId: 0, id: 5 },
+      ],
+    },
+  ],
+  templates: [
+    {
+      type: NodeType.Element,
+      tagName: 'p',
+      attributes: {},
+      id: 0,
+      childNodes: [{ type: NodeType.Text, textContent: 'a', id: 1 }],
+    },
+  ],
+};
+
+const collectIds = (node: serializedNodeWithId): number[] =>
+  [node.id].concat(
+    ...('childNodes' in node ? node.childNodes.map(collectIds) : []),
+  );
+
+const iframeOrigin = 'https://pay.example.com';
+
+describe('iframe manager', () => {
+  let iframe: HTMLIFrameElement;
+  let manager: IframeManager;
+  let mutations: mutationCallbackParam[];
+  let events: eventWithTime[];
+
+  const postFromIframe = (event: eventWithTime, origin = iframeOrigin) => {
+    const data: crossOriginIframeMessage = {
+      type: 'rrweb-iframe-event',
+      event,
+    };
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data,
+        origin,
+        source: iframe.contentWindow,
+      }),
+    );
+  };
+
+  beforeEach(() => {
+    iframe = document.createElement('iframe');
+    iframe.src = `${iframeOrigin}/widget.html`;
+    document.body.appendChild(iframe);
+    ((iframe as unknown) as INode).__sn = {
+      type: NodeType.Element,
+      tagName: 'iframe',
+      attributes: {},
+      childNodes: [],
+      id: 100,
+    };
+    mutations = [];
+    events = [];
+    manager = new IframeManager({
+      mutationCb: (m) => mutations.push(m),
+      emit: (e) => events.push(e),
+      stylesheetManager: new StylesheetManager({
+        adoptedStyleSheetCb: () => undefined,
+      }),
+      recordCrossOriginIframes: true,
+    });
+    manager.addIframe(iframe);
+  });
+
+  afterEach(() => {
+    manager.stop();
+    iframe.remove();
+  });
+
+  it('should attach the full snapshot of a cross-origin iframe', () => {
+    postFromIframe({
+      type: EventType.FullSnapshot,
+      data: { node: childSnapshot, initialOffset: { left: 0, top: 10 } },
+      timestamp: 1,
+    });
+    expect(mutations).to.have.length(1);
+    const [{ adds, isAttachIframe }] = mutations;
+    expect(isAttachIframe).to.equal(true);
+    expect(adds[0].parentId).to.equal(100);
+    const { node } = adds[0];
+    expect(node).not.to.have.property('templates');
+    // the ids of the iframe are mapped to unused ids in order
+    const ids = collectIds(node);
+    expect(ids).to.have.length(6);
+    expect(new Set(ids).size).to.equal(6);
+    expect(ids).not.to.include(100);
+    // the initial offset of the iframe
+    expect(events).to.have.length(1);
+    expect(events[0].data).to.eql({
+      source: IncrementalSource.Scroll,
+      id: node.id,
+      x: 0,
+      y: 10,
+    });
+  });
+
+  it('should map the ids of the incremental snapshots', () => {
+    postFromIframe({
+      type: EventType.FullSnapshot,
+      data: { node: childSnapshot, initialOffset: { left: 0, top: 0 } },
+      timestamp: 1,
+    });
+    const ids = collectIds(mutations[0].adds[0].node);
+    postFromIframe({
+      type: EventType.IncrementalSnapshot,
+      data: {
+        source: IncrementalSource.Mutation,
+        adds: [
+          {
+            parentId: 2,
+            nextId: null,
+            node: { type: NodeType.Text, textContent: 'b', id: 8 },
+          },
+        ],
+        removes: [{ parentId: 3, id: 4 }],
+        texts: [],
+        attributes: [{ id: 2, attributes: { class: 'a' } }],
+      },
+      timestamp: 2,
+    });
+    postFromIframe({
+      type: EventType.IncrementalSnapshot,
+      data: { source: IncrementalSource.ViewportResize, width: 1, height: 1 },
+      timestamp: 3,
+    });
+    postFromIframe({
+      type: EventType.Meta,
+      data: { href: 'http://localhost', width: 1, height: 1 },
+      timestamp: 4,
+    });
+    expect(events).to.have.length(1);
+    const { data } = events[0];
+    if (!('source' in data) || data.source !== IncrementalSource.Mutation) {
+      throw new Error('a mutation is expected');
+    }
+    expect(data.adds[0].parentId).to.equal(ids[1]);
+    expect(ids).not.to.include(data.adds[0].node.id);
+    expect(data.removes).to.eql([{ parentId: ids[2], id: ids[3] }]);
+    expect(data.attributes[0].id).to.equal(ids[1]);
+  });
+
+  it('should ignore the messages of the other windows', () => {
+    const data: crossOriginIframeMessage = {
+      type: 'rrweb-iframe-event',
+      event: {
+        type: EventType.FullSnapshot,
+        data: { node: childSnapshot, initialOffset: { left: 0, top: 0 } },
+        timestamp: 1,
+      },
+    };
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data,
+        origin: iframeOrigin,
+        source: window,
+      }),
+    );
+    expect(mutations).to.have.length(0);
+  });
+
+  it('should ignore the messages of the other origins', () => {
+    postFromIframe(
+      {
+        type: EventType.FullSnapshot,
+        data: { node: childSnapshot, initialOffset: { left: 0, top: 0 } },
+        timestamp: 1,
+      },
+      'https://evil.example.com',
+    );
+    expect(mutations).to.have.length(0);
+  });
+});
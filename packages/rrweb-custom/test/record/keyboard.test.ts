@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import { INode, NodeType, createPrivacyEngine } from 'rrweb-snapshot';
+import {
+  getKeyCategory,
+  initKeyboardObserver,
+} from '../../src/record/observer';
+import { createMirror } from '../../src/utils';
+import {
+  KeyboardInteractions,
+  keyboardParam,
+  listenerHandler,
+  SamplingStrategy,
+} from '../../src/types';
+
+const press = (target: Element, key: string, init: KeyboardEventInit = {}) =>
+  target.dispatchEvent(
+    new KeyboardEvent('keydown', { key, bubbles: true, ...init }),
+  );
+
+describe('keyboard observer', () => {
+  let records: keyboardParam[];
+  let handler: listenerHandler;
+  let input: HTMLInputElement;
+  let password: HTMLInputElement;
+
+  const observe = (sampling: SamplingStrategy = {}) => {
+    handler = initKeyboardObserver(
+      (k) => records.push(k),
+      document,
+      createMirror(),
+      'rr-block',
+      'rr-ignore',
+      'rr-mask',
+      null,
+      { password: true },
+      createPrivacyEngine([]),
+      sampling,
+    );
+  };
+
+  const createInput = (type: string, id: number) => {
+    const el = document.createElement('input');
+    el.type = type;
+    ((el as unknown) as INode).__sn = {
+      type: NodeType.Element,
+      tagName: 'input',
+      attributes: { type },
+      childNodes: [],
+      id,
+    };
+    document.body.appendChild(el);
+    return el;
+  };
+
+  beforeEach(() => {
+    records = [];
+    handler = () => undefined;
+    input = createInput('text', 1);
+    password = createInput('password', 2);
+  });
+
+  afterEach(() => {
+    handler();
+    input.remove();
+    password.remove();
+  });
+
+  it('should classify the keys', () => {
+    const category = (key: string, init: KeyboardEventInit = {}) =>
+      getKeyCategory(new KeyboardEvent('keydown', { key, ...init }));
+    expect(category('ArrowLeft')).to.equal('navigation');
+    expect(category('Tab', { shiftKey: true })).to.equal('navigation');
+    expect(category('a')).to.equal('editing');
+    expect(category('A', { shiftKey: true })).to.equal('editing');
+    expect(category('Backspace')).to.equal('editing');
+    expect(category('c', { ctrlKey: true })).to.equal('shortcut');
+    expect(category('ArrowLeft', { metaKey: true })).to.equal('shortcut');
+    expect(category('Shift', { shiftKey: true })).to.equal('other');
+    expect(category('F5')).to.equal('other');
+  });
+
+  it('should record the keys with the modifiers', () => {
+    observe();
+    press(input, 'a');
+    press(input, 'K', { ctrlKey: true, shiftKey: true, repeat: true });
+    input.dispatchEvent(
+      new KeyboardEvent('keyup', { key: 'a', bubbles: true }),
+    );
+    expect(records).to.eql([
+      {
+        type: KeyboardInteractions.KeyDown,
+        id: 1,
+        key: 'a',
+        category: 'editing',
+      },
+      {
+        type: KeyboardInteractions.KeyDown,
+        id: 1,
+        key: 'K',
+        category: 'shortcut',
+        ctrlKey: true,
+        shiftKey: true,
+        repeat: true,
+      },
+      {
+        type: KeyboardInteractions.KeyUp,
+        id: 1,
+        key: 'a',
+        category: 'editing',
+      },
+    ]);
+  });
+
+  it('should not record the characters typed into the masked inputs', () => {
+    observe();
+    press(password, 's');
+    press(password, 'Enter');
+    press(password, 'v', { metaKey: true });
+    expect(records.map(({ key, category }) => [key, category])).to.eql([
+      [undefined, 'editing'],
+      ['Enter', 'editing'],
+      ['v', 'shortcut'],
+    ]);
+    expect(records[0]).not.to.have.property('key');
+  });
+
+  it('should not record the blocked elements', () => {
+    observe();
+    input.classList.add('rr-block');
+    press(input, 'a');
+    expect(records).to.have.length(0);
+  });
+
+  it('should be disabled by the sampling strategy', () => {
+    observe({ keyboard: false });
+    press(input, 'a');
+    expect(records).to.have.length(0);
+  });
+});
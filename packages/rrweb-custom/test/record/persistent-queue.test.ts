@@ -0,0 +1,214 @@
+import { expect } from 'chai';
+import { PersistentQueue } from '../../src/record/persistent-queue';
+import {
+  EventType,
+  eventWithTime,
+  persistentQueueOptions,
+  queuedEvent,
+} from '../../src/types';
+
+type fakeRequest = {
+  result?: unknown;
+  error: null;
+  onsuccess?: () => void;
+  onupgradeneeded?: () => void;
+};
+
+/**
+ * a minimal in-memory IndexedDB, which supports the operations used by the
+ * queue. The databases are kept by the factory to simulate the page loads.
+ */
+function createFakeIndexedDB() {
+  const databases = new Map<string, Map<string, Map<unknown, unknown>>>();
+  const later = (fn: () => void) => setTimeout(fn, 0);
+
+  const createDatabase = (stores: Map<string, Map<unknown, unknown>>) => ({
+    createObjectStore(name: string) {
+      stores.set(name, new Map());
+    },
+    transaction() {
+      const operations: Array<() => void> = [];
+      const transaction = {
+        error: null,
+        oncomplete: null as (() => void) | null,
+        objectStore(name: string) {
+          const store = stores.get(name)!;
+          const request = (operation: () => unknown) => {
+            const req: fakeRequest = { error: null };
+            operations.push(() => {
+              req.result = operation();
+              req.onsuccess?.();
+            });
+            return req;
+          };
+          return {
+            get: (key: unknown) => request(() => store.get(key)),
+            getAll: () => request(() => Array.from(store.values())),
+            put: (value: { seq: number }, key?: unknown) =>
+              request(() => store.set(key ?? value.seq, value)),
+            delete: (key: unknown) => request(() => store.delete(key)),
+          };
+        },
+      };
+      later(() => {
+        // the requests made by the callbacks of the requests are run as well
+        for (const operation of operations) {
+          operation();
+        }
+        transaction.oncomplete?.();
+      });
+      return transaction;
+    },
+  });
+
+  const factory = {
+    open(name: string) {
+      const request: fakeRequest = { error: null };
+      later(() => {
+        let stores = databases.get(name);
+        if (!stores) {
+          stores = new Map();
+          databases.set(name, stores);
+          request.result = createDatabase(stores);
+          request.onupgradeneeded?.();
+        }
+        request.result = request.result || createDatabase(stores);
+        request.onsuccess?.();
+      });
+      return request;
+    },
+  };
+  return {
+    indexedDB: (factory as unknown) as IDBFactory,
+    stored: (name = 'rrweb-queue') =>
+      Array.from(databases.get(name)?.get('events')?.keys() || []),
+  };
+}
+
+const createEvent = (tag: string): eventWithTime => ({
+  type: EventType.Custom,
+  data: { tag, payload: null },
+  timestamp: 1,
+});
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+describe('persistent queue', () => {
+  let fake: ReturnType<typeof createFakeIndexedDB>;
+  let uploaded: queuedEvent[][];
+  let errors: string[];
+  const queues: PersistentQueue[] = [];
+
+  const createQueue = (options: Partial<persistentQueueOptions> = {}) => {
+    const queue = new PersistentQueue({
+      upload: async (events) => {
+        uploaded.push(events);
+      },
+      indexedDB: fake.indexedDB,
+      onError: (message) => errors.push(message),
+      batchSize: 2,
+      flushInterval: 10,
+      ...options,
+    });
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(() => {
+    fake = createFakeIndexedDB();
+    uploaded = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(queues.splice(0).map((queue) => queue.stop()));
+  });
+
+  it('should store and upload the events in batches', async () => {
+    const queue = createQueue();
+    queue.emit(createEvent('a'));
+    queue.emit(createEvent('b'), true);
+    queue.emit(createEvent('c'));
+    await wait();
+    expect(uploaded).to.eql([
+      [
+        { seq: 1, event: createEvent('a'), isCheckout: undefined },
+        { seq: 2, event: createEvent('b'), isCheckout: true },
+      ],
+      [{ seq: 3, event: createEvent('c'), isCheckout: undefined }],
+    ]);
+    expect(fake.stored()).to.eql([]);
+  });
+
+  it('should resume the upload on the next page load', async () => {
+    const queue = createQueue({
+      upload: () => Promise.reject(new Error('offline')),
+    });
+    queue.emit('packed-a');
+    queue.emit('packed-b');
+    await wait();
+    expect(fake.stored()).to.eql([1, 2]);
+    expect(errors).to.eql(['Failed to upload the queued events']);
+
+    const next = createQueue();
+    await wait();
+    expect(uploaded).to.eql([
+      [
+        { seq: 1, event: 'packed-a', isCheckout: undefined },
+        { seq: 2, event: 'packed-b', isCheckout: undefined },
+      ],
+    ]);
+    expect(fake.stored()).to.eql([]);
+    // the sequence continues on the next page
+    next.emit('packed-c');
+    await next.flush();
+    await wait();
+    expect(uploaded[1]).to.eql([
+      { seq: 3, event: 'packed-c', isCheckout: undefined },
+    ]);
+  });
+
+  it('should not reuse the sequence numbers of the uploaded events', async () => {
+    const queue = createQueue();
+    queue.emit('a');
+    await queue.stop();
+    await wait();
+    expect(fake.stored()).to.eql([]);
+    const next = createQueue();
+    next.emit('b');
+    await next.stop();
+    await wait();
+    expect(uploaded.map((events) => events[0].seq)).to.eql([1, 2]);
+  });
+
+  it('should share the sequence numbers with the other pages', async () => {
+    const first = createQueue();
+    const second = createQueue();
+    first.emit('a');
+    second.emit('b');
+    first.emit('c');
+    second.emit('d');
+    await Promise.all([first.flush(), second.flush()]);
+    await wait();
+    await wait();
+    // each event is uploaded once by one of the pages
+    const records = uploaded.reduce((all, events) => all.concat(events), []);
+    expect(records.map(({ seq }) => seq).sort()).to.eql([1, 2, 3, 4]);
+    expect(records.map(({ event }) => event).sort()).to.eql([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+    expect(fake.stored()).to.eql([]);
+  });
+
+  it('should keep the events in memory without IndexedDB', async () => {
+    const queue = createQueue({ indexedDB: undefined, batchSize: 1 });
+    queue.emit(createEvent('a'));
+    await wait();
+    expect(uploaded).to.eql([
+      [{ seq: 1, event: createEvent('a'), isCheckout: undefined }],
+    ]);
+  });
+});
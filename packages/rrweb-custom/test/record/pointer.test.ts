@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+import { INode, NodeType } from 'rrweb-snapshot';
+import { initPointerObserver } from '../../src/record/observer';
+import { createMirror } from '../../src/utils';
+import {
+  listenerHandler,
+  PointerInteractions,
+  pointerPosition,
+  SamplingStrategy,
+} from '../../src/types';
+
+type pointerInit = Partial<
+  Pick<
+    PointerEvent,
+    | 'pointerId'
+    | 'pointerType'
+    | 'pressure'
+    | 'tiltX'
+    | 'tiltY'
+    | 'width'
+    | 'height'
+  >
+> & { x?: number; y?: number };
+
+// jsdom does not implement PointerEvent
+const dispatchPointer = (
+  target: Element,
+  type: string,
+  { x = 0, y = 0, ...init }: pointerInit = {},
+) => {
+  const event = new MouseEvent(type, {
+    clientX: x,
+    clientY: y,
+    bubbles: true,
+  });
+  Object.assign(event, {
+    pointerId: 1,
+    pointerType: 'touch',
+    pressure: 0.5,
+    tiltX: 0,
+    tiltY: 0,
+    width: 1,
+    height: 1,
+    ...init,
+  });
+  target.dispatchEvent(event);
+};
+
+describe('pointer observer', () => {
+  let positions: pointerPosition[];
+  let handler: listenerHandler;
+  let canvas: HTMLCanvasElement;
+
+  const observe = (sampling: SamplingStrategy = {}) => {
+    handler = initPointerObserver(
+      (p) => positions.push(...p.positions),
+      // emit every position at once
+      { mousemoveCallback: 0, ...sampling },
+      document,
+      createMirror(),
+    );
+  };
+
+  beforeEach(() => {
+    positions = [];
+    handler = () => undefined;
+    canvas = document.createElement('canvas');
+    ((canvas as unknown) as INode).__sn = {
+      type: NodeType.Element,
+      tagName: 'canvas',
+      attributes: {},
+      childNodes: [],
+      id: 1,
+    };
+    document.body.appendChild(canvas);
+  });
+
+  afterEach(() => {
+    handler();
+    canvas.remove();
+  });
+
+  it('should record all the concurrent touches', () => {
+    observe();
+    dispatchPointer(canvas, 'pointerdown', { pointerId: 1, x: 10 });
+    dispatchPointer(canvas, 'pointerdown', { pointerId: 2, x: 20 });
+    // a pinch
+    dispatchPointer(canvas, 'pointermove', { pointerId: 1, x: 5 });
+    dispatchPointer(canvas, 'pointermove', { pointerId: 2, x: 25 });
+    dispatchPointer(canvas, 'pointerup', { pointerId: 1, x: 5 });
+    dispatchPointer(canvas, 'pointercancel', { pointerId: 2, x: 25 });
+    expect(
+      positions.map(({ type, pointerId, x, id }) => [type, pointerId, x, id]),
+    ).to.eql([
+      [PointerInteractions.Down, 1, 10, 1],
+      [PointerInteractions.Down, 2, 20, 1],
+      [PointerInteractions.Move, 1, 5, 1],
+      [PointerInteractions.Move, 2, 25, 1],
+      [PointerInteractions.Up, 1, 5, 1],
+      [PointerInteractions.Cancel, 2, 25, 1],
+    ]);
+  });
+
+  it('should throttle the moves of each pointer', () => {
+    observe({ pointer: 1000 });
+    dispatchPointer(canvas, 'pointermove', { pointerId: 1 });
+    dispatchPointer(canvas, 'pointermove', { pointerId: 2 });
+    dispatchPointer(canvas, 'pointermove', { pointerId: 1 });
+    dispatchPointer(canvas, 'pointerup', { pointerId: 1 });
+    expect(positions.map(({ type, pointerId }) => [type, pointerId])).to.eql([
+      [PointerInteractions.Move, 1],
+      [PointerInteractions.Move, 2],
+      [PointerInteractions.Up, 1],
+    ]);
+  });
+
+  it('should record the pressure and the tilt of the pen', () => {
+    observe();
+    dispatchPointer(canvas, 'pointerdown', {
+      pointerType: 'pen',
+      pressure: 0.8,
+      tiltX: 30,
+      tiltY: -15,
+    });
+    dispatchPointer(canvas, 'pointerdown', {
+      pointerType: 'touch',
+      pointerId: 2,
+      width: 20,
+      height: 24,
+    });
+    dispatchPointer(canvas, 'pointermove', {
+      pointerType: 'mouse',
+      pointerId: 3,
+    });
+    const [pen, touch, mouse] = positions;
+    expect(pen).to.include({ pressure: 0.8, tiltX: 30, tiltY: -15 });
+    expect(pen).not.to.have.property('width');
+    expect(touch).to.include({ pressure: 0.5, width: 20, height: 24 });
+    expect(touch).not.to.have.property('tiltX');
+    expect(mouse).not.to.have.any.keys('pressure', 'tiltX', 'width');
+  });
+
+  it('should be disabled by the sampling strategy', () => {
+    observe({ pointer: false });
+    dispatchPointer(canvas, 'pointerdown');
+    expect(positions).to.have.length(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import { INode, NodeType, createPrivacyEngine } from 'rrweb-snapshot';
+import { initSelectionObserver } from '../../src/record/observer';
+import { createMirror } from '../../src/utils';
+import {
+  listenerHandler,
+  SamplingStrategy,
+  selectionParam,
+} from '../../src/types';
+
+const setId = (node: Node, id: number) => {
+  ((node as unknown) as INode).__sn = {
+    type: NodeType.Text,
+    textContent: '',
+    id,
+  };
+};
+
+const fireSelectionChange = () =>
+  document.dispatchEvent(new Event('selectionchange'));
+
+describe('selection observer', () => {
+  let records: selectionParam[];
+  let handler: listenerHandler;
+  let p: HTMLParagraphElement;
+  let input: HTMLInputElement;
+
+  const observe = (sampling: SamplingStrategy = {}) => {
+    handler = initSelectionObserver(
+      (s) => records.push(s),
+      document,
+      createMirror(),
+      'rr-block',
+      createPrivacyEngine([]),
+      sampling,
+    );
+  };
+
+  beforeEach(() => {
+    records = [];
+    p = document.createElement('p');
+    p.innerHTML = 'hello <b>world</b>';
+    input = document.createElement('input');
+    input.value = 'some text';
+    document.body.append(p, input);
+    setId(p, 1);
+    setId(p.firstChild!, 2);
+    setId(p.querySelector('b')!.firstChild!, 3);
+    setId(input, 4);
+    observe();
+  });
+
+  afterEach(() => {
+    handler();
+    document.getSelection()!.removeAllRanges();
+    p.remove();
+    input.remove();
+  });
+
+  it('should record the anchor and the focus of the selection', () => {
+    const world = p.querySelector('b')!.firstChild!;
+    document.getSelection()!.setBaseAndExtent(world, 3, p.firstChild!, 1);
+    fireSelectionChange();
+    // the same selection is recorded once
+    fireSelectionChange();
+    document.getSelection()!.removeAllRanges();
+    fireSelectionChange();
+    expect(records).to.eql([
+      { range: { anchor: 3, anchorOffset: 3, focus: 2, focusOffset: 1 } },
+      { range: null },
+    ]);
+  });
+
+  it('should record the selection inside an input', () => {
+    input.focus();
+    input.setSelectionRange(2, 6, 'backward');
+    input.dispatchEvent(new Event('select', { bubbles: true }));
+    input.setSelectionRange(4, 4);
+    fireSelectionChange();
+    expect(records).to.eql([
+      { id: 4, start: 2, end: 6, backward: true },
+      { id: 4, start: 4, end: 4 },
+    ]);
+  });
+
+  it('should not record the selection in the blocked elements', () => {
+    p.classList.add('rr-block');
+    document.getSelection()!.setBaseAndExtent(p.firstChild!, 0, p, 1);
+    fireSelectionChange();
+    expect(records).to.have.length(0);
+  });
+
+  it('should be disabled by the sampling strategy', () => {
+    handler();
+    observe({ selection: false });
+    document.getSelection()!.setBaseAndExtent(p.firstChild!, 0, p, 1);
+    fireSelectionChange();
+    expect(records).to.have.length(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import {
+  getCurrentPage,
+  nextPage,
+  SESSION_STORAGE_KEY,
+} from '../../src/record/session';
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => (items.has(key) ? items.get(key)! : null),
+    key: (index) => Array.from(items.keys())[index] || null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, String(value)),
+  };
+}
+
+describe('session', () => {
+  it('should keep the session id and advance the page index', () => {
+    const storage = createStorage();
+    const first = nextPage(storage);
+    const second = nextPage(storage);
+    expect(first.pageIndex).to.equal(0);
+    expect(second).to.deep.equal({
+      sessionId: first.sessionId,
+      pageIndex: 1,
+    });
+  });
+
+  it('should start a new session if the stored one is broken', () => {
+    const storage = createStorage();
+    storage.setItem(SESSION_STORAGE_KEY, '{');
+    const page = nextPage(storage);
+    expect(page.pageIndex).to.equal(0);
+    expect(JSON.parse(storage.getItem(SESSION_STORAGE_KEY)!)).to.deep.equal({
+      id: page.sessionId,
+      sequence: 0,
+    });
+  });
+
+  it('should work without the storage', () => {
+    const storage = createStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    expect(nextPage(storage).pageIndex).to.equal(0);
+    expect(nextPage(null).sessionId).to.be.a('string');
+  });
+
+  it('should start the current page once in a page load', () => {
+    // the recorders of the page share the page info
+    const page = getCurrentPage();
+    expect(getCurrentPage()).to.equal(page);
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { INode, NodeType } from 'rrweb-snapshot';
+import { initStyleDeclarationObserver } from '../../src/record/observer';
+import { StylesheetManager } from '../../src/record/stylesheet-manager';
+import { IWindow, styleDeclarationParam } from '../../src/types';
+import { createMirror } from '../../src/utils';
+
+// a declaration whose properties are set by setProperty, like jsdom
+class FakeDeclaration {
+  public values: Record<string, string> = {};
+  constructor(public parentRule: CSSRule | null) {}
+
+  public setProperty(property: string, value: string) {
+    if (property === 'background-color') {
+      ((this as unknown) as {
+        backgroundColor: string;
+      }).backgroundColor = value;
+    } else {
+      this.values[property] = value;
+    }
+  }
+
+  public removeProperty(property: string) {
+    delete this.values[property];
+    return '';
+  }
+}
+
+Object.defineProperty(FakeDeclaration.prototype, 'backgroundColor', {
+  configurable: true,
+  get(this: FakeDeclaration) {
+    return this.values['background-color'];
+  },
+  set(this: FakeDeclaration, value: string) {
+    this.values['background-color'] = value;
+  },
+});
+
+describe('style declaration observer', () => {
+  const ownerNode = ({
+    __sn: {
+      type: NodeType.Element,
+      tagName: 'style',
+      attributes: {},
+      childNodes: [],
+      id: 3,
+    },
+  } as unknown) as INode;
+  const sheet = ({ ownerNode, cssRules: [] } as unknown) as CSSStyleSheet;
+  const rule = ({
+    parentStyleSheet: sheet,
+    parentRule: null,
+  } as unknown) as CSSRule;
+  ((sheet.cssRules as unknown) as CSSRule[]).push(rule);
+
+  it('should record the properties set on the declarations', () => {
+    const params: styleDeclarationParam[] = [];
+    const stop = initStyleDeclarationObserver(
+      (p) => params.push(p),
+      ({ CSSStyleDeclaration: FakeDeclaration } as unknown) as IWindow,
+      createMirror(),
+      new StylesheetManager({ adoptedStyleSheetCb: () => undefined }),
+    );
+    const style = (new FakeDeclaration(rule) as unknown) as CSSStyleDeclaration;
+    const inline = (new FakeDeclaration(
+      null,
+    ) as unknown) as CSSStyleDeclaration;
+    style.backgroundColor = 'red';
+    // the setter called by setProperty is not recorded again
+    style.setProperty('background-color', 'blue');
+    style.removeProperty('background-color');
+    // the inline styles are recorded by the mutation observer
+    inline.backgroundColor = 'red';
+    stop();
+    style.backgroundColor = 'green';
+    expect(params).to.deep.equal([
+      {
+        id: 3,
+        index: [0],
+        set: { property: 'background-color', value: 'red' },
+      },
+      {
+        id: 3,
+        index: [0],
+        set: {
+          property: 'background-color',
+          value: 'blue',
+          priority: undefined,
+        },
+      },
+      { id: 3, index: [0], remove: { property: 'background-color' } },
+    ]);
+    expect(style.backgroundColor).to.equal('green');
+  });
+
+  it('should keep recording after another observer stops', () => {
+    const params: styleDeclarationParam[] = [];
+    const win = ({
+      CSSStyleDeclaration: FakeDeclaration,
+    } as unknown) as IWindow;
+    const observe = (cb: (p: styleDeclarationParam) => void) =>
+      initStyleDeclarationObserver(
+        cb,
+        win,
+        createMirror(),
+        new StylesheetManager({ adoptedStyleSheetCb: () => undefined }),
+      );
+    const stopOther = observe(() => undefined);
+    const stop = observe((p) => params.push(p));
+    stopOther();
+    const style = (new FakeDeclaration(rule) as unknown) as CSSStyleDeclaration;
+    style.backgroundColor = 'red';
+    stop();
+    style.backgroundColor = 'green';
+    expect(params).to.deep.equal([
+      {
+        id: 3,
+        index: [0],
+        set: { property: 'background-color', value: 'red' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from 'chai';
+import { JSDOM } from 'jsdom';
+import { INode, NodeType } from 'rrweb-snapshot';
+import { initAdoptedStyleSheetObserver } from '../../src/record/observer';
+import { StylesheetManager } from '../../src/record/stylesheet-manager';
+import { adoptedStyleSheetParam, IWindow } from '../../src/types';
+import { createMirror } from '../../src/utils';
+
+describe('stylesheet manager', () => {
+  const { document } = new JSDOM(`
+    <style>a {color: blue;}</style>
+    <style>div {color: black;}</style>
+  `).window;
+  const [first, second] = Array.from(document.styleSheets) as CSSStyleSheet[];
+
+  it('should record the rules of a stylesheet when it is adopted first', () => {
+    const params: adoptedStyleSheetParam[] = [];
+    const manager = new StylesheetManager({
+      adoptedStyleSheetCb: (p) => params.push(p),
+    });
+    manager.adoptStyleSheets([first], 1);
+    manager.adoptStyleSheets([second, first], 2);
+    expect(params).to.deep.equal([
+      {
+        id: 1,
+        styles: [
+          { styleId: 1, rules: [{ rule: 'a {color: blue;}', index: 0 }] },
+        ],
+        styleIds: [1],
+      },
+      {
+        id: 2,
+        styles: [
+          { styleId: 2, rules: [{ rule: 'div {color: black;}', index: 0 }] },
+        ],
+        styleIds: [2, 1],
+      },
+    ]);
+    expect(manager.getStyleId(second)).to.equal(2);
+  });
+
+  it('should record the rules again after reset', () => {
+    const params: adoptedStyleSheetParam[] = [];
+    const manager = new StylesheetManager({
+      adoptedStyleSheetCb: (p) => params.push(p),
+    });
+    manager.adoptStyleSheets([first], 1);
+    manager.adoptStyleSheets([first], 1);
+    manager.reset();
+    expect(manager.getStyleId(first)).to.equal(-1);
+    manager.adoptStyleSheets([first], 1);
+    expect(params.map((p) => p.styles?.length)).to.deep.equal([
+      1,
+      undefined,
+      1,
+    ]);
+  });
+
+  it('should skip the hosts which are not recorded', () => {
+    const params: adoptedStyleSheetParam[] = [];
+    const manager = new StylesheetManager({
+      adoptedStyleSheetCb: (p) => params.push(p),
+    });
+    manager.adoptStyleSheets([first], -1);
+    expect(params).to.have.length(0);
+  });
+});
+
+describe('adopted stylesheet observer', () => {
+  const { window: win } = new JSDOM(`
+    <style>a {color: blue;}</style>
+    <style>div {color: black;}</style>
+  `);
+  const { document } = win;
+  const [first, second] = Array.from(document.styleSheets) as CSSStyleSheet[];
+  ((document as unknown) as INode).__sn = {
+    type: NodeType.Document,
+    childNodes: [],
+    id: 1,
+  };
+
+  // the array of each document is kept, like the ObservableArray of browsers
+  const arrays: WeakMap<Document, CSSStyleSheet[]> = new WeakMap();
+  const sheetsOf = (doc: Document) => {
+    if (!arrays.has(doc)) {
+      arrays.set(doc, []);
+    }
+    return arrays.get(doc)!;
+  };
+  Object.defineProperty(win.Document.prototype, 'adoptedStyleSheets', {
+    configurable: true,
+    get(this: Document) {
+      return sheetsOf(this);
+    },
+    set(this: Document, sheets: CSSStyleSheet[]) {
+      const array = sheetsOf(this);
+      Array.prototype.splice.call(array, 0, array.length, ...sheets);
+    },
+  });
+
+  it('should record the changes made by the array methods', async () => {
+    const params: adoptedStyleSheetParam[] = [];
+    const stop = initAdoptedStyleSheetObserver(
+      (win as unknown) as IWindow,
+      createMirror(),
+      new StylesheetManager({ adoptedStyleSheetCb: (p) => params.push(p) }),
+    );
+    const host = (document as unknown) as {
+      adoptedStyleSheets: Array<unknown>;
+    };
+    host.adoptedStyleSheets = [first];
+    host.adoptedStyleSheets.push(second);
+    host.adoptedStyleSheets.shift();
+    // the setter is recorded in the next task
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    stop();
+    host.adoptedStyleSheets.push(first);
+    expect(params.map((p) => p.styleIds)).to.deep.equal([[1, 2], [2], [2]]);
+  });
+});
@@ -0,0 +1,187 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { expect } from 'chai';
+import { Uploader } from '../../src/record/uploader';
+import { createIngestServer } from '../../scripts/ingest-server';
+import {
+  EventType,
+  eventWithTime,
+  uploadBatch,
+  uploaderOptions,
+} from '../../src/types';
+
+const createEvent = (tag: string): eventWithTime => ({
+  type: EventType.Custom,
+  data: { tag, payload: null },
+  timestamp: 1,
+});
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const globalScope = (global as unknown) as { fetch: typeof fetch };
+
+describe('uploader', () => {
+  let server: http.Server;
+  let uploads: Map<string, Map<number, uploadBatch>>;
+  let url: string;
+  let uploader: Uploader;
+  let errors: string[] = [];
+
+  const createUploader = (options: Partial<uploaderOptions> = {}) => {
+    uploader = new Uploader({
+      url,
+      batchSize: 2,
+      headers: () => ({ Authorization: 'Bearer secret' }),
+      onError: (message) => errors.push(message),
+      ...options,
+    });
+    return uploader;
+  };
+
+  const receivedBatches = () =>
+    Array.from(uploads.values()).reduce<uploadBatch[]>(
+      (batches, m) => batches.concat(Array.from(m.values())),
+      [],
+    );
+
+  before(async () => {
+    const ingest = createIngestServer({ token: 'secret' });
+    server = ingest.server;
+    uploads = ingest.uploads;
+    await new Promise((resolve) => server.listen(0, () => resolve(null)));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/events`;
+  });
+
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  afterEach(async () => {
+    await uploader.stop();
+    uploads.clear();
+    errors = [];
+  });
+
+  describe('with the ingest server', () => {
+    it('should upload the gzip batches with the auth header', async () => {
+      createUploader({ compress: true });
+      uploader.emit(createEvent('a'));
+      uploader.emit(createEvent('b'));
+      uploader.emit('packed-c');
+      await uploader.flush();
+      await wait();
+      const batches = receivedBatches();
+      expect(batches.map(({ seq, events }) => [seq, events.length])).to.eql([
+        [0, 2],
+        [1, 1],
+      ]);
+      expect(batches[1].events).to.eql(['packed-c']);
+    });
+
+    it('should start a new batch at the checkout', async () => {
+      const checkouts: number[] = [];
+      createUploader({
+        batchSize: 10,
+        onCheckout: (checkout) => checkouts.push(checkout),
+      });
+      uploader.emit(createEvent('a'));
+      uploader.emit(createEvent('meta'), true);
+      uploader.emit(createEvent('full-snapshot'), true);
+      uploader.emit(createEvent('b'));
+      await uploader.flush();
+      await wait();
+      expect(checkouts).to.eql([1]);
+      expect(
+        receivedBatches().map(({ checkout, events }) => [
+          checkout,
+          events.length,
+        ]),
+      ).to.eql([
+        [0, 1],
+        [1, 3],
+      ]);
+    });
+
+    it('should not upload the batches rejected by the server', async () => {
+      createUploader({ headers: () => ({ Authorization: 'Bearer wrong' }) });
+      uploader.emit(createEvent('a'));
+      await uploader.flush();
+      await wait();
+      expect(receivedBatches()).to.eql([]);
+      expect(errors).to.eql(['The batch is rejected with the status 401']);
+    });
+  });
+
+  describe('with a fake fetch', () => {
+    const originalFetch = globalScope.fetch;
+    let statuses: number[];
+    let requests: RequestInit[];
+
+    beforeEach(() => {
+      statuses = [];
+      requests = [];
+      globalScope.fetch = ((_: string, init: RequestInit) => {
+        requests.push(init);
+        return Promise.resolve({ status: statuses.shift() || 204 });
+      }) as typeof fetch;
+    });
+
+    afterEach(() => {
+      globalScope.fetch = originalFetch;
+    });
+
+    it('should retry the failed uploads with a backoff', async () => {
+      statuses = [503, 429];
+      createUploader({ retryDelay: 10 });
+      uploader.emit(createEvent('a'));
+      await uploader.flush();
+      expect(requests).to.have.length(1);
+      await wait(15);
+      expect(requests).to.have.length(2);
+      // the delay is doubled
+      await wait(35);
+      expect(requests).to.have.length(3);
+    });
+
+    it('should wait in the queue while offline', async () => {
+      let online = false;
+      Object.defineProperty(navigator, 'onLine', {
+        get: () => online,
+        configurable: true,
+      });
+      try {
+        createUploader();
+        uploader.emit(createEvent('a'));
+        await uploader.flush();
+        expect(requests).to.have.length(0);
+        online = true;
+        window.dispatchEvent(new Event('online'));
+        await wait();
+        expect(requests).to.have.length(1);
+      } finally {
+        delete (navigator as { onLine?: boolean }).onLine;
+      }
+    });
+
+    it('should send the queued batches on pagehide', async () => {
+      const beacons: string[] = [];
+      const scope = navigator as { sendBeacon?: Navigator['sendBeacon'] };
+      scope.sendBeacon = (beaconUrl: string) => beacons.push(beaconUrl) > 0;
+      try {
+        // the beacon can not carry the headers
+        createUploader({ headers: undefined });
+        uploader.emit(createEvent('a'));
+        window.dispatchEvent(new Event('pagehide'));
+        expect(beacons).to.eql([url]);
+        expect(requests).to.have.length(0);
+        uploader.stop();
+
+        createUploader();
+        uploader.emit(createEvent('a'));
+        window.dispatchEvent(new Event('pagehide'));
+        expect(beacons).to.have.length(1);
+        expect(requests.map(({ keepalive }) => keepalive)).to.eql([true]);
+      } finally {
+        delete scope.sendBeacon;
+      }
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { initVisualViewportObserver } from '../../src/record/observer';
+import {
+  listenerHandler,
+  SamplingStrategy,
+  visualViewportParam,
+} from '../../src/types';
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type fakeVisualViewport = EventTarget & visualViewportParam;
+
+describe('visual viewport observer', () => {
+  let records: visualViewportParam[];
+  let handler: listenerHandler;
+  let viewport: fakeVisualViewport;
+
+  const observe = (sampling: SamplingStrategy = {}) => {
+    handler = initVisualViewportObserver(
+      (v) => records.push(v),
+      ({ visualViewport: viewport } as unknown) as Window,
+      { scroll: 1, ...sampling },
+    );
+  };
+
+  beforeEach(() => {
+    records = [];
+    handler = () => undefined;
+    viewport = Object.assign(new EventTarget(), {
+      scale: 1,
+      offsetLeft: 0,
+      offsetTop: 0,
+      width: 400,
+      height: 800,
+    });
+  });
+
+  afterEach(() => {
+    handler();
+  });
+
+  it('should record the pinch-zoom and the pan', async () => {
+    observe();
+    // a pinch-zoom
+    Object.assign(viewport, { scale: 2, width: 200, height: 400 });
+    viewport.dispatchEvent(new Event('resize'));
+    await wait();
+    Object.assign(viewport, { offsetLeft: 50, offsetTop: 120 });
+    viewport.dispatchEvent(new Event('scroll'));
+    await wait();
+    expect(records).to.eql([
+      { scale: 2, offsetLeft: 0, offsetTop: 0, width: 200, height: 400 },
+      { scale: 2, offsetLeft: 50, offsetTop: 120, width: 200, height: 400 },
+    ]);
+  });
+
+  it('should not record the unchanged viewport', async () => {
+    observe();
+    viewport.dispatchEvent(new Event('resize'));
+    viewport.dispatchEvent(new Event('scroll'));
+    await wait();
+    expect(records).to.have.length(0);
+  });
+
+  it('should be disabled by the sampling strategy', async () => {
+    observe({ visualViewport: false });
+    viewport.scale = 2;
+    viewport.dispatchEvent(new Event('resize'));
+    await wait();
+    expect(records).to.have.length(0);
+  });
+});
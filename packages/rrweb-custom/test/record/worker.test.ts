@@ -0,0 +1,180 @@
+import { expect } from 'chai';
+import {
+  initTransportWorker,
+  transportRequest,
+  transportResponse,
+} from '../../src/record/worker';
+import { WorkerTransport } from '../../src/record/worker-transport';
+import { unpack } from '../../src/packer/unpack';
+import { unpackStream } from '../../src/packer/stream-unpack';
+import { EventType, eventWithTime, workerPackMode } from '../../src/types';
+
+const createEvent = (tag: string): eventWithTime => ({
+  type: EventType.Custom,
+  data: { tag, payload: null },
+  timestamp: 1,
+});
+
+function createWorker(pack: workerPackMode, batchSize = 2) {
+  const responses: transportResponse[] = [];
+  const scope = {
+    onmessage: null as ((e: { data: transportRequest }) => void) | null,
+    postMessage: (response: transportResponse) => responses.push(response),
+  };
+  initTransportWorker(scope);
+  const post = (request: transportRequest) =>
+    scope.onmessage!({ data: request });
+  post({ type: 'init', pack, batchSize, flushInterval: 10 });
+  return { responses, post };
+}
+
+describe('record worker', () => {
+  it('should emit the events in batches', async () => {
+    const { responses, post } = createWorker(false);
+    post({ type: 'event', event: createEvent('a') });
+    expect(responses).to.have.length(0);
+    post({ type: 'event', event: createEvent('b'), isCheckout: true });
+    expect(responses).to.eql([
+      {
+        events: [
+          { event: createEvent('a'), isCheckout: undefined },
+          { event: createEvent('b'), isCheckout: true },
+        ],
+        received: 2,
+        final: undefined,
+      },
+    ]);
+    // flushed after the interval
+    post({ type: 'event', event: createEvent('c') });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(responses).to.have.length(2);
+  });
+
+  it('should pack each event', () => {
+    const { responses, post } = createWorker('event', 1);
+    post({ type: 'event', event: createEvent('a') });
+    const packed = responses[0].events[0].event as string;
+    expect(unpack(packed)).to.deep.include(createEvent('a'));
+  });
+
+  it('should start a new stream at the checkout', () => {
+    const { responses, post } = createWorker('stream', 3);
+    post({ type: 'event', event: createEvent('a') });
+    post({ type: 'event', event: createEvent('b'), isCheckout: true });
+    post({ type: 'flush', final: true });
+    const [{ events, final }] = responses;
+    expect(final).to.equal(true);
+    expect(events.map((e) => e.isCheckout)).to.eql([undefined, true]);
+    // the chunk of the checkout does not depend on the previous one
+    expect(unpackStream([events[1].event as string])).to.eql([
+      createEvent('b'),
+    ]);
+    expect(unpackStream(events.map((e) => e.event as string))).to.eql([
+      createEvent('a'),
+      createEvent('b'),
+    ]);
+  });
+});
+
+describe('worker transport', () => {
+  it('should emit on main thread if the worker is not available', () => {
+    const emitted: Array<unknown> = [];
+    const warn = console.warn;
+    console.warn = () => {};
+    const transport = new WorkerTransport({
+      url: 'rrweb-record-worker.js',
+      emit: (e) => emitted.push(e),
+    });
+    console.warn = warn;
+    transport.push(createEvent('a'));
+    transport.stop();
+    expect(emitted).to.eql([createEvent('a')]);
+  });
+
+  describe('with a worker', () => {
+    let worker: FakeWorker;
+    let emitted: Array<eventWithTime | string>;
+    let transport: WorkerTransport;
+
+    // the messages are delivered when the test asks for them
+    class FakeWorker {
+      public onmessage:
+        | ((e: { data: transportResponse }) => void)
+        | null = null;
+      public onerror: (() => void) | null = null;
+      public requests: transportRequest[] = [];
+      public responses: transportResponse[] = [];
+      private scope = {
+        onmessage: null as ((e: { data: transportRequest }) => void) | null,
+        postMessage: (response: transportResponse) =>
+          this.responses.push(response),
+      };
+
+      constructor() {
+        initTransportWorker(this.scope);
+        worker = this;
+      }
+
+      public postMessage(request: transportRequest) {
+        this.requests.push(request);
+      }
+
+      public terminate() {}
+
+      public receive() {
+        this.requests
+          .splice(0)
+          .forEach((data) => this.scope.onmessage!({ data }));
+      }
+
+      public respond() {
+        this.responses.splice(0).forEach((data) => this.onmessage!({ data }));
+      }
+    }
+
+    beforeEach(() => {
+      Object.assign(global, { Worker: FakeWorker });
+      emitted = [];
+      transport = new WorkerTransport({
+        url: 'rrweb-record-worker.js',
+        batchSize: 2,
+        emit: (e) => emitted.push(e),
+      });
+    });
+
+    afterEach(() => {
+      transport.stop();
+      delete (global as { Worker?: unknown }).Worker;
+    });
+
+    it('should emit the pending events when the page is hidden', () => {
+      transport.push(createEvent('a'));
+      transport.push(createEvent('b'));
+      transport.push(createEvent('c'));
+      // the batch of a and b is on the way
+      worker.receive();
+      window.dispatchEvent(new Event('pagehide'));
+      expect(emitted).to.eql(['a', 'b', 'c'].map(createEvent));
+      transport.push(createEvent('d'));
+      transport.push(createEvent('e'));
+      worker.receive();
+      worker.respond();
+      expect(emitted).to.eql(['a', 'b', 'c', 'd', 'e'].map(createEvent));
+    });
+
+    it('should emit the pending events when the worker fails', () => {
+      transport.push(createEvent('a'));
+      transport.push(createEvent('b'));
+      transport.push(createEvent('c'));
+      worker.receive();
+      worker.respond();
+      expect(emitted).to.eql(['a', 'b'].map(createEvent));
+      const warn = console.warn;
+      console.warn = () => {};
+      worker.onerror!();
+      console.warn = warn;
+      transport.push(createEvent('d'));
+      expect(emitted).to.eql(['a', 'b', 'c', 'd'].map(createEvent));
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { deserializeArg } from '../../src/replay/canvas/deserialize-args';
+import { canvasMutation2D } from '../../src/replay/canvas/2d';
+import {
+  CanvasArg,
+  CanvasContext,
+  canvasMutationData,
+  IncrementalSource,
+} from '../../src/types';
+import { variableListFor } from '../../src/utils';
+
+class FakeContext2D {
+  public calls: Array<[string, Array<unknown>]> = [];
+  private style: unknown = '#000';
+
+  // the properties of the context are accessors of the prototype
+  get fillStyle() {
+    return this.style;
+  }
+
+  set fillStyle(value: unknown) {
+    this.style = value;
+  }
+
+  public fillRect(...args: Array<unknown>) {
+    this.calls.push(['fillRect', args]);
+  }
+
+  public createLinearGradient(...args: Array<unknown>) {
+    this.calls.push(['createLinearGradient', args]);
+    return new FakeGradient();
+  }
+}
+
+class FakeGradient {
+  public stops: Array<unknown> = [];
+
+  public addColorStop(offset: number, color: string) {
+    this.stops.push([offset, color]);
+  }
+}
+
+describe('canvas args deserializer', () => {
+  const imageMap = new Map<string, HTMLImageElement>();
+
+  it('should decode binary data', () => {
+    const value = deserializeArg(
+      imageMap,
+      {},
+    )({
+      rr_type: 'Float32Array',
+      args: [{ rr_type: 'ArrayBuffer', base64: 'AAAAQAAAQEA=' }],
+    }) as Float32Array;
+    expect(Array.from(value)).to.eql([2, 3]);
+  });
+
+  it('should look up webgl objects in the context', () => {
+    const ctx = {};
+    const buffer = {};
+    variableListFor(ctx, 'WebGLBuffer').push(buffer);
+    expect(
+      deserializeArg(imageMap, ctx)([{ rr_type: 'WebGLBuffer', index: 0 }]),
+    ).to.eql([buffer]);
+  });
+
+  it('should load images from the sources', () => {
+    const src = 'data:image/png;base64,';
+    const image = deserializeArg(
+      imageMap,
+      {},
+    )({ rr_type: 'HTMLImageElement', src });
+    expect(image).to.be.instanceOf(HTMLImageElement);
+    expect(imageMap.get(src)).to.equal(image);
+  });
+
+  it('should rebuild objects by the context and the calls', () => {
+    const ctx = new FakeContext2D();
+    const gradient = deserializeArg(
+      imageMap,
+      ctx,
+    )({
+      rr_type: 'CanvasGradient',
+      property: 'createLinearGradient',
+      args: [0, 0, 10, 10],
+      calls: [
+        { property: 'addColorStop', args: [0, 'red'] },
+        { property: 'constructor', args: [] },
+      ],
+    }) as FakeGradient;
+    expect(gradient.stops).to.eql([[0, 'red']]);
+  });
+
+  it('should not create the objects which are not allowed', () => {
+    const deserialize = deserializeArg(imageMap, new FakeContext2D());
+    expect(deserialize({ rr_type: 'Function', args: ['return 1'] })).to.equal(
+      null,
+    );
+    expect(
+      deserialize({ rr_type: 'Object', property: 'fillRect', args: [] }),
+    ).to.equal(null);
+  });
+});
+
+describe('canvas 2d replay', () => {
+  const ctx = new FakeContext2D();
+  const target = ({
+    getContext: () => ctx,
+  } as unknown) as HTMLCanvasElement;
+  const mutation = (
+    property: string,
+    args: CanvasArg[],
+    setter?: true,
+  ): canvasMutationData => ({
+    source: IncrementalSource.CanvasMutation,
+    id: 1,
+    type: CanvasContext['2D'],
+    property,
+    args,
+    setter,
+  });
+
+  it('should call the methods and set the properties', () => {
+    canvasMutation2D(mutation('fillRect', [0, 0, 5, 5]), target, new Map());
+    canvasMutation2D(
+      mutation(
+        'fillStyle',
+        [
+          {
+            rr_type: 'CanvasGradient',
+            property: 'createLinearGradient',
+            args: [0, 0, 1, 1],
+          },
+        ],
+        true,
+      ),
+      target,
+      new Map(),
+    );
+    expect(ctx.calls).to.eql([
+      ['fillRect', [0, 0, 5, 5]],
+      ['createLinearGradient', [0, 0, 1, 1]],
+    ]);
+    expect(ctx.fillStyle).to.be.instanceOf(FakeGradient);
+  });
+
+  it('should skip the properties which are not in the context', () => {
+    canvasMutation2D(mutation('toString', []), target, new Map());
+    expect(ctx.calls).to.have.length(2);
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import { NodeType } from 'rrweb-snapshot';
+import {
+  buildKeyframeIndex,
+  findKeyframe,
+  getKeyframeState,
+  isKeyframeState,
+  isValidKeyframeIndex,
+} from '../../src/replay/keyframe';
+import {
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+  incrementalData,
+  mutationData,
+} from '../../src/types';
+
+const meta = (timestamp: number): eventWithTime => ({
+  type: EventType.Meta,
+  data: { href: 'http://localhost', width: 1000, height: 800 },
+  timestamp,
+});
+
+const fullSnapshot = (timestamp: number): eventWithTime => ({
+  type: EventType.FullSnapshot,
+  data: {
+    node: { type: 0, childNodes: [], id: 1 },
+    initialOffset: { top: 0, left: 0 },
+  },
+  timestamp,
+});
+
+const incremental = (
+  timestamp: number,
+  data: incrementalData,
+): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data,
+  timestamp,
+});
+
+const input = (timestamp: number, id: number, text: string) =>
+  incremental(timestamp, {
+    source: IncrementalSource.Input,
+    id,
+    text,
+    isChecked: false,
+  });
+
+const scroll = (timestamp: number, id: number, y: number) =>
+  incremental(timestamp, { source: IncrementalSource.Scroll, id, x: 0, y });
+
+const styleSheetRule = (timestamp: number, id: number) =>
+  incremental(timestamp, {
+    source: IncrementalSource.StyleSheetRule,
+    id,
+    adds: [{ rule: 'div { color: red; }' }],
+  });
+
+const events: eventWithTime[] = [
+  meta(0),
+  fullSnapshot(0),
+  input(100, 5, 'a'),
+  styleSheetRule(200, 3),
+  input(300, 5, 'ab'),
+  scroll(400, 1, 10),
+  input(1100, 6, 'c'),
+  styleSheetRule(1200, 3),
+  scroll(1300, 1, 20),
+  meta(2000),
+  fullSnapshot(2000),
+  input(2100, 5, 'd'),
+];
+
+describe('keyframe index', () => {
+  const index = buildKeyframeIndex(events, 1000);
+
+  it('should place keyframes at meta events and intervals', () => {
+    expect(
+      index.keyframes.map(({ index: i, delay, metaIndex }) => [
+        i,
+        delay,
+        metaIndex,
+      ]),
+    ).to.deep.equal([
+      [0, 0, 0],
+      [6, 1100, 0],
+      [9, 2000, 9],
+    ]);
+    expect(index.keyframes.map((k) => k.fullSnapshotIndex)).to.deep.equal([
+      1,
+      1,
+      10,
+    ]);
+  });
+
+  it('should store the last known state of each node', () => {
+    const keyframe = index.keyframes[1];
+    expect(keyframe.inputs).to.deep.equal([4]);
+    expect(keyframe.scrolls).to.deep.equal([5]);
+    expect(keyframe.styleSheets).to.deep.equal([3]);
+    expect(index.keyframes[2].inputs).to.deep.equal([]);
+    expect(index.keyframes[2].styleSheets).to.deep.equal([]);
+  });
+
+  it('should drop the style sheet events undone by the mutations', () => {
+    const mutation = (timestamp: number, data: Partial<mutationData>) =>
+      incremental(timestamp, {
+        source: IncrementalSource.Mutation,
+        texts: [],
+        attributes: [],
+        removes: [],
+        adds: [],
+        ...data,
+      });
+    const styleEvents: eventWithTime[] = [
+      meta(0),
+      {
+        type: EventType.FullSnapshot,
+        data: {
+          node: {
+            type: NodeType.Document,
+            id: 1,
+            childNodes: [
+              {
+                type: NodeType.Element,
+                tagName: 'style',
+                attributes: {},
+                childNodes: [{ type: NodeType.Text, textContent: '', id: 3 }],
+                id: 2,
+              },
+            ],
+          },
+          initialOffset: { top: 0, left: 0 },
+        },
+        timestamp: 0,
+      },
+      styleSheetRule(100, 2),
+      incremental(150, {
+        source: IncrementalSource.StyleSheetRule,
+        styleId: 1,
+        adds: [{ rule: 'p { color: red; }' }],
+      }),
+      // the rules are parsed from the text again
+      mutation(200, { texts: [{ id: 3, value: 'p {}' }] }),
+      styleSheetRule(300, 2),
+      incremental(350, {
+        source: IncrementalSource.StyleSheetRule,
+        styleId: 1,
+        replace: 'p { color: blue; }',
+      }),
+      styleSheetRule(400, 5),
+      mutation(500, { removes: [{ parentId: 1, id: 5 }] }),
+      input(1100, 6, 'c'),
+    ];
+    const { keyframes } = buildKeyframeIndex(styleEvents, 1000);
+    expect(keyframes[1].styleSheets).to.deep.equal([5, 6]);
+  });
+
+  it('should find the last keyframe before the baseline time', () => {
+    expect(findKeyframe(index, -1)).to.equal(-1);
+    expect(findKeyframe(index, 0)).to.equal(0);
+    expect(findKeyframe(index, 1500)).to.equal(1);
+    expect(findKeyframe(index, 2050)).to.equal(2);
+    expect(findKeyframe(index, 5000)).to.equal(2);
+  });
+
+  it('should collect the state events of the keyframe', () => {
+    expect(getKeyframeState(index, 1)).to.deep.equal([3, 4, 5]);
+    expect(getKeyframeState(index, 2)).to.deep.equal([]);
+    expect(isKeyframeState(events[3])).to.equal(true);
+  });
+
+  it('should validate the index against the events', () => {
+    expect(isValidKeyframeIndex(index, events)).to.equal(true);
+    expect(isValidKeyframeIndex(index, events.slice(1))).to.equal(false);
+    expect(
+      isValidKeyframeIndex(JSON.parse(JSON.stringify(index)), events),
+    ).to.equal(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { getPageBoundaries } from '../../src/replay/pages';
+import { EventType, eventWithTime, pageInfo } from '../../src/types';
+
+const meta = (
+  timestamp: number,
+  href: string,
+  page?: pageInfo,
+): eventWithTime => ({
+  type: EventType.Meta,
+  data: { href, width: 1000, height: 800, ...(page && { page }) },
+  timestamp,
+});
+
+const load = (timestamp: number): eventWithTime => ({
+  type: EventType.Load,
+  data: {},
+  timestamp,
+});
+
+describe('page boundaries', () => {
+  it('should split the events by page info', () => {
+    const events = [
+      meta(100, 'http://localhost/a', { sessionId: 's', pageIndex: 0 }),
+      load(200),
+      // checkout
+      meta(300, 'http://localhost/a', { sessionId: 's', pageIndex: 0 }),
+      // reload
+      meta(400, 'http://localhost/a', { sessionId: 's', pageIndex: 1 }),
+      meta(500, 'http://localhost/b', { sessionId: 's', pageIndex: 2 }),
+    ];
+    expect(getPageBoundaries(events)).to.deep.equal([
+      {
+        sessionId: 's',
+        pageIndex: 0,
+        href: 'http://localhost/a',
+        timestamp: 100,
+        delay: 0,
+      },
+      {
+        sessionId: 's',
+        pageIndex: 1,
+        href: 'http://localhost/a',
+        timestamp: 400,
+        delay: 300,
+      },
+      {
+        sessionId: 's',
+        pageIndex: 2,
+        href: 'http://localhost/b',
+        timestamp: 500,
+        delay: 400,
+      },
+    ]);
+  });
+
+  it('should split the events without page info by href', () => {
+    const events = [
+      load(0),
+      meta(100, 'http://localhost/a'),
+      meta(300, 'http://localhost/a'),
+      meta(400, 'http://localhost/b'),
+    ];
+    expect(
+      getPageBoundaries(events).map(({ pageIndex, delay }) => [
+        pageIndex,
+        delay,
+      ]),
+    ).to.deep.equal([
+      [0, 100],
+      [1, 400],
+    ]);
+  });
+});
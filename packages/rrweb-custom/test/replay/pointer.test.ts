@@ -0,0 +1,156 @@
+/* tslint:disable no-string-literal */
+
+import { expect } from 'chai';
+import { NodeType } from 'rrweb-snapshot';
+import { Replayer } from '../../src/replay';
+import {
+  actionWithDelay,
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+  PointerInteractions,
+  pointerPosition,
+} from '../../src/types';
+
+const touch = (
+  type: PointerInteractions,
+  pointerId: number,
+  x: number,
+  timeOffset = 0,
+): pointerPosition => ({
+  type,
+  pointerId,
+  pointerType: 'touch',
+  x,
+  y: x,
+  id: 3,
+  timeOffset,
+});
+
+const pointer = (
+  timestamp: number,
+  positions: pointerPosition[],
+): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data: { source: IncrementalSource.Pointer, positions },
+  timestamp,
+});
+
+const events: eventWithTime[] = [
+  {
+    type: EventType.Meta,
+    data: { href: 'http://localhost', width: 1000, height: 800 },
+    timestamp: 0,
+  },
+  {
+    type: EventType.FullSnapshot,
+    data: {
+      node: {
+        type: NodeType.Document,
+        id: 1,
+        childNodes: [
+          {
+            type: NodeType.Element,
+            tagName: 'html',
+            attributes: {},
+            id: 2,
+            childNodes: [
+              {
+                type: NodeType.Element,
+                tagName: 'body',
+                attributes: {},
+                id: 3,
+                childNodes: [],
+              },
+            ],
+          },
+        ],
+      },
+      initialOffset: { left: 0, top: 0 },
+    },
+    timestamp: 0,
+  },
+  pointer(10, [
+    touch(PointerInteractions.Down, 1, 10),
+    touch(PointerInteractions.Down, 2, 10),
+    touch(PointerInteractions.Move, 1, 20),
+  ]),
+  pointer(20, [
+    touch(PointerInteractions.Up, 2, 10),
+    touch(PointerInteractions.Move, 1, 30),
+  ]),
+];
+
+describe('pointers in replay', () => {
+  let replayer: Replayer;
+
+  before(() => {
+    Object.assign(global, {
+      requestAnimationFrame: () => 0,
+      cancelAnimationFrame: () => undefined,
+    });
+  });
+
+  after(() => {
+    const g = global as Partial<typeof globalThis>;
+    delete g.requestAnimationFrame;
+    delete g.cancelAnimationFrame;
+  });
+
+  beforeEach(() => {
+    replayer = new Replayer(events, {
+      root: document.body,
+      mouseTail: false,
+    });
+    replayer.iframe.contentWindow!.scrollTo = () => undefined;
+  });
+
+  afterEach(() => {
+    replayer.pause();
+    replayer.wrapper.remove();
+  });
+
+  it('should schedule the positions of a batch by their time offsets', () => {
+    const batch = pointer(1000, [
+      touch(PointerInteractions.Down, 1, 10, -500),
+      touch(PointerInteractions.Move, 1, 20, -250),
+      touch(PointerInteractions.Up, 1, 30),
+    ]);
+    replayer.pause();
+    replayer.wrapper.remove();
+    replayer = new Replayer(events.slice(0, 2).concat(batch), {
+      root: document.body,
+      mouseTail: false,
+    });
+    replayer.iframe.contentWindow!.scrollTo = () => undefined;
+    const applied: number[] = [];
+    replayer['applyPointer'] = (d, p) => {
+      applied.push(p.x);
+    };
+    replayer.play();
+    const actions: actionWithDelay[] = replayer['timer']['actions'];
+    // the batch is cast when its first position happens
+    expect(actions.map((a) => a.delay)).to.eql([0, 0, 500]);
+    actions.splice(0).forEach((a) => a.doAction());
+    expect(actions.map((a) => a.delay)).to.eql([500, 750, 1000, 1000]);
+    actions.forEach((a) => a.doAction());
+    expect(applied).to.eql([10, 20, 30]);
+  });
+
+  it('should apply the last state of each pointer when the seek ends', () => {
+    const applied: pointerPosition[] = [];
+    const applyPointer = replayer['applyPointer'].bind(replayer);
+    replayer['applyPointer'] = (d, p) => {
+      applied.push(p);
+      applyPointer(d, p);
+    };
+    replayer.pause(30);
+    expect(applied.map((p) => [p.pointerId, p.type])).to.eql([
+      [1, PointerInteractions.Move],
+      [2, PointerInteractions.Up],
+    ]);
+    const els = replayer.wrapper.querySelectorAll('.replayer-pointer');
+    expect(els).to.have.length(1);
+    expect((els[0] as HTMLElement).style.left).to.equal('30px');
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { NodeType } from 'rrweb-snapshot';
+import { Replayer } from '../../src/replay';
+import { EventType, eventWithTime, IncrementalSource } from '../../src/types';
+
+const events: eventWithTime[] = [
+  {
+    type: EventType.Meta,
+    data: { href: 'http://localhost', width: 1000, height: 800 },
+    timestamp: 0,
+  },
+  {
+    type: EventType.FullSnapshot,
+    data: {
+      node: {
+        type: NodeType.Document,
+        id: 1,
+        childNodes: [
+          {
+            type: NodeType.Element,
+            tagName: 'html',
+            attributes: {},
+            id: 2,
+            childNodes: [
+              {
+                type: NodeType.Element,
+                tagName: 'body',
+                attributes: {},
+                id: 3,
+                childNodes: [
+                  { type: NodeType.TemplateInstance, templateId: 0, id: 4 },
+                ],
+              },
+            ],
+          },
+        ],
+        templates: [
+          {
+            type: NodeType.Element,
+            tagName: 'p',
+            attributes: { class: 'item' },
+            id: 0,
+            childNodes: [{ type: NodeType.Text, textContent: 'a', id: 1 }],
+          },
+        ],
+      },
+      initialOffset: { left: 0, top: 0 },
+    },
+    timestamp: 0,
+  },
+  {
+    type: EventType.IncrementalSnapshot,
+    data: {
+      source: IncrementalSource.Mutation,
+      adds: [
+        {
+          parentId: 3,
+          nextId: null,
+          node: {
+            type: NodeType.TemplateInstance,
+            templateId: 0,
+            id: 6,
+            texts: { 1: 'b' },
+          },
+        },
+      ],
+      removes: [],
+      texts: [],
+      attributes: [],
+    },
+    timestamp: 20,
+  },
+];
+
+describe('template instances in replay', () => {
+  let frames: FrameRequestCallback[] = [];
+  let replayer: Replayer;
+
+  before(() => {
+    // the frames of the timer are run by the tests
+    Object.assign(global, {
+      requestAnimationFrame: (cb: FrameRequestCallback) => frames.push(cb),
+      cancelAnimationFrame: () => undefined,
+    });
+  });
+
+  after(() => {
+    const g = global as Partial<typeof globalThis>;
+    delete g.requestAnimationFrame;
+    delete g.cancelAnimationFrame;
+  });
+
+  beforeEach(() => {
+    frames = [];
+    replayer = new Replayer(events, { root: document.body });
+    replayer.iframe.contentWindow!.scrollTo = () => undefined;
+  });
+
+  afterEach(() => {
+    replayer.pause();
+    replayer.wrapper.remove();
+  });
+
+  const body = () => replayer.iframe.contentDocument!.body.innerHTML;
+
+  it('should add the template instances in sync mode', () => {
+    replayer.pause(30);
+    expect(body()).to.equal('<p class="item">a</p><p class="item">b</p>');
+    expect(replayer.getMirror().getNode(7)!.textContent).to.equal('b');
+  });
+
+  it('should add the template instances when playing', () => {
+    replayer.play(20);
+    expect(body()).to.equal('<p class="item">a</p>');
+    frames.splice(0).forEach((cb) => cb(0));
+    expect(body()).to.equal('<p class="item">a</p><p class="item">b</p>');
+    expect(replayer.getMirror().getNode(7)!.textContent).to.equal('b');
+  });
+});
@@ -0,0 +1,257 @@
+/* tslint:disable no-string-literal */
+
+import { expect } from 'chai';
+import { NodeType, serializedNodeWithId } from 'rrweb-snapshot';
+import { Replayer } from '../../src/replay';
+import { buildKeyframeIndex } from '../../src/replay/keyframe';
+import {
+  CanvasContext,
+  EventType,
+  eventWithTime,
+  IncrementalSource,
+  mutationData,
+} from '../../src/types';
+
+const addParagraph = (id: number, timestamp: number): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data: {
+    source: IncrementalSource.Mutation,
+    adds: [
+      {
+        parentId: 3,
+        nextId: null,
+        node: {
+          type: NodeType.Element,
+          tagName: 'p',
+          attributes: { id: `p${id}` },
+          childNodes: [],
+          id,
+        },
+      },
+    ],
+    removes: [],
+    texts: [],
+    attributes: [],
+  },
+  timestamp,
+});
+
+const mutation = (
+  timestamp: number,
+  data: Partial<mutationData>,
+): eventWithTime => ({
+  type: EventType.IncrementalSnapshot,
+  data: {
+    source: IncrementalSource.Mutation,
+    adds: [],
+    removes: [],
+    texts: [],
+    attributes: [],
+    ...data,
+  },
+  timestamp,
+});
+
+// the meta event and the full snapshot of a page with the children of body
+const snapshot = (bodyChildren: serializedNodeWithId[]): eventWithTime[] => [
+  {
+    type: EventType.Meta,
+    data: { href: 'http://localhost', width: 1000, height: 800 },
+    timestamp: 0,
+  },
+  {
+    type: EventType.FullSnapshot,
+    data: {
+      node: {
+        type: NodeType.Document,
+        id: 1,
+        childNodes: [
+          {
+            type: NodeType.Element,
+            tagName: 'html',
+            attributes: {},
+            id: 2,
+            childNodes: [
+              {
+                type: NodeType.Element,
+                tagName: 'body',
+                attributes: {},
+                id: 3,
+                childNodes: bodyChildren,
+              },
+            ],
+          },
+        ],
+      },
+      initialOffset: { left: 0, top: 0 },
+    },
+    timestamp: 0,
+  },
+];
+
+const canvas = (id: number): serializedNodeWithId => ({
+  type: NodeType.Element,
+  tagName: 'canvas',
+  attributes: {},
+  childNodes: [],
+  id,
+});
+
+const events: eventWithTime[] = [
+  ...snapshot([]),
+  addParagraph(4, 10),
+  {
+    type: EventType.IncrementalSnapshot,
+    data: {
+      source: IncrementalSource.Drag,
+      positions: [{ x: 1, y: 1, id: 4, timeOffset: 0 }],
+    },
+    timestamp: 20,
+  },
+  addParagraph(5, 30),
+];
+
+describe('virtual dom in replay', () => {
+  let replayer: Replayer;
+
+  before(() => {
+    Object.assign(global, {
+      requestAnimationFrame: () => 0,
+      cancelAnimationFrame: () => undefined,
+    });
+  });
+
+  after(() => {
+    const g = global as Partial<typeof globalThis>;
+    delete g.requestAnimationFrame;
+    delete g.cancelAnimationFrame;
+  });
+
+  const createReplayer = (
+    replayEvents: eventWithTime[],
+    keyframeInterval?: number,
+  ) => {
+    replayer = new Replayer(replayEvents, {
+      root: document.body,
+      mouseTail: false,
+      keyframeIndex: buildKeyframeIndex(replayEvents, keyframeInterval),
+    });
+    replayer.iframe.contentWindow!.scrollTo = () => undefined;
+  };
+
+  beforeEach(() => {
+    createReplayer(events);
+  });
+
+  afterEach(() => {
+    replayer.pause();
+    replayer.wrapper.remove();
+  });
+
+  it('should flush the virtual dom before the other sources', () => {
+    let flushes = 0;
+    const flush = replayer['flushVirtualDom'].bind(replayer);
+    replayer['flushVirtualDom'] = () => {
+      if (replayer['virtualDom']) {
+        flushes++;
+      }
+      flush();
+    };
+    replayer.pause(40);
+    // the drag is applied to the real dom after the paragraph is added
+    expect(flushes).to.equal(2);
+    const doc = replayer.iframe.contentDocument!;
+    const [p4, p5] = Array.from(doc.body.children);
+    expect([p4.id, p5.id]).to.eql(['p4', 'p5']);
+    // hovered by the drag
+    expect(p4.classList.contains(':hover')).to.equal(true);
+  });
+
+  it('should apply the canvas mutations before the canvas is re-created', () => {
+    replayer.pause();
+    replayer.wrapper.remove();
+    createReplayer([
+      ...snapshot([canvas(4)]),
+      // the virtual dom is created by the mutations
+      addParagraph(5, 5),
+      {
+        type: EventType.IncrementalSnapshot,
+        data: {
+          source: IncrementalSource.CanvasMutation,
+          id: 4,
+          type: CanvasContext['2D'],
+          property: 'fillRect',
+          args: [0, 0, 5, 5],
+        },
+        timestamp: 10,
+      },
+      mutation(20, {
+        removes: [{ parentId: 3, id: 4 }],
+        adds: [{ parentId: 3, nextId: null, node: canvas(4) }],
+      }),
+    ]);
+    const drawn: HTMLCanvasElement[] = [];
+    const win = replayer.iframe.contentWindow as Window & typeof globalThis;
+    win.HTMLCanvasElement.prototype.getContext = (function (
+      this: HTMLCanvasElement,
+    ) {
+      drawn.push(this);
+      return { fillRect: () => undefined };
+    } as unknown) as typeof HTMLCanvasElement.prototype.getContext;
+    replayer.pause(30);
+    const current = replayer.iframe.contentDocument!.querySelector('canvas');
+    expect(drawn).to.have.length(1);
+    // the drawing is on the removed canvas
+    expect(drawn[0]).not.to.equal(current);
+    expect(drawn[0].isConnected).to.equal(false);
+  });
+
+  it('should apply the style sheet rules after the text of the style', () => {
+    replayer.pause();
+    replayer.wrapper.remove();
+    const rule = (timestamp: number, text: string, index: number) => ({
+      type: EventType.IncrementalSnapshot as const,
+      data: {
+        source: IncrementalSource.StyleSheetRule as const,
+        id: 4,
+        adds: [{ rule: text, index }],
+      },
+      timestamp,
+    });
+    createReplayer(
+      [
+        ...snapshot([
+          {
+            type: NodeType.Element,
+            tagName: 'style',
+            attributes: {},
+            childNodes: [
+              { type: NodeType.Text, textContent: 'a { color: red; }', id: 5 },
+            ],
+            id: 4,
+          },
+        ]),
+        rule(100, 'b { color: red; }', 1),
+        // the rules are parsed from the text again
+        mutation(200, { texts: [{ id: 5, value: 'p { color: red; }' }] }),
+        rule(300, 'div { color: red; }', 1),
+        rule(1200, 'i { color: red; }', 0),
+      ],
+      1000,
+    );
+    const getRules = () =>
+      Array.from(
+        ((replayer.getMirror().getNode(4) as unknown) as HTMLStyleElement)
+          .sheet!.cssRules,
+      ).map((r) => r.cssText);
+    // seek from the keyframe, the rules before it are applied at once
+    replayer.pause(1500);
+    expect(getRules()).to.eql([
+      'i {color: red;}',
+      'p {color: red;}',
+      'div {color: red;}',
+    ]);
+    replayer.pause(150);
+    expect(getRules()).to.eql(['a {color: red;}', 'b {color: red;}']);
+  });
+});
@@ -2,9 +2,11 @@ import { expect } from 'chai';
 import { JSDOM } from 'jsdom';
 import {
   applyVirtualStyleRulesToNode,
+  ConstructedStyleSheets,
   StyleRuleType,
   VirtualStyleRules,
 } from '../../src/replay/virtual-styles';
+import { StyleSheetHost } from '../../src/types';
 
 describe('virtual styles', () => {
   describe('applyVirtualStyleRulesToNode', () => {
@@ -110,4 +112,91 @@ describe('virtual styles', () => {
       ).to.have.ordered.members(cssTexts);
     });
   });
+
+  describe('style declarations', () => {
+    it('should set properties of nested rules', () => {
+      const dom = new JSDOM(`
+        <style>
+          a {color: blue;}
+          @media screen { div {color: black;} }
+        </style>
+      `);
+      const styleEl = dom.window.document.getElementsByTagName('style')[0];
+
+      applyVirtualStyleRulesToNode(
+        [
+          {
+            type: StyleRuleType.SetProperty,
+            index: [1, 0],
+            property: 'color',
+            value: 'red',
+            priority: 'important',
+          },
+          { type: StyleRuleType.RemoveProperty, index: [0], property: 'color' },
+          // the rule does not exist
+          { type: StyleRuleType.RemoveProperty, index: [1, 3], property: 'a' },
+        ],
+        styleEl,
+      );
+
+      const [aRule, mediaRule] = Array.from(styleEl.sheet!.cssRules);
+      expect((aRule as CSSStyleRule).style.length).to.equal(0);
+      const divRule = (mediaRule as CSSMediaRule).cssRules[0] as CSSStyleRule;
+      expect(divRule.style.getPropertyValue('color')).to.equal('red');
+      expect(divRule.style.getPropertyPriority('color')).to.equal('important');
+    });
+  });
+
+  describe('ConstructedStyleSheets', () => {
+    const { window } = (new JSDOM() as unknown) as { window: Window };
+    const createHost = () =>
+      (({ adoptedStyleSheets: [] } as unknown) as StyleSheetHost);
+    const cssTexts = (host: StyleSheetHost) =>
+      host.adoptedStyleSheets!.map((sheet) =>
+        Array.from(sheet.cssRules).map((rule) => rule.cssText),
+      );
+
+    it('should adopt stylesheets built from the recorded rules', () => {
+      const sheets = new ConstructedStyleSheets();
+      const host = createHost();
+      sheets.add(1, [
+        { rule: 'a {color: blue;}', index: 0 },
+        { rule: 'div {color: black;}', index: 1 },
+      ]);
+      sheets.add(2, []);
+      sheets.adopt(host, [2, 1, 3], window);
+      expect(cssTexts(host)).to.deep.equal([
+        [],
+        ['a {color: blue;}', 'div {color: black;}'],
+      ]);
+    });
+
+    it('should apply rule changes to the adopted stylesheets', () => {
+      const sheets = new ConstructedStyleSheets();
+      const host = createHost();
+      const other = createHost();
+      sheets.add(1, [{ rule: 'a {color: blue;}', index: 0 }]);
+      sheets.adopt(host, [1], window);
+      sheets.apply(1, { type: StyleRuleType.Remove, index: 0 });
+      sheets.apply(1, {
+        type: StyleRuleType.Insert,
+        cssText: 'div {color: black;}',
+        index: 0,
+      });
+      // the stylesheet is shared by the hosts in the same window
+      sheets.adopt(other, [1], window);
+      expect(other.adoptedStyleSheets![0]).to.equal(
+        host.adoptedStyleSheets![0],
+      );
+      expect(cssTexts(host)).to.deep.equal([['div {color: black;}']]);
+    });
+
+    it('should skip the hosts which do not support adoptedStyleSheets', () => {
+      const sheets = new ConstructedStyleSheets();
+      const host = ({} as unknown) as StyleSheetHost;
+      sheets.add(1, []);
+      sheets.adopt(host, [1], window);
+      expect(host).to.not.have.property('adoptedStyleSheets');
+    });
+  });
 });
@@ -0,0 +1,163 @@
+import { expect } from 'chai';
+import { JSDOM } from 'jsdom';
+import {
+  rebuild,
+  buildNodeWithSN,
+  createCache,
+  NodeType,
+  serializedNodeWithId,
+  INode,
+} from 'rrweb-snapshot';
+import {
+  buildFromDom,
+  RRCharacterData,
+  RRDocument,
+  RRElement,
+} from '../src/rrdom/document';
+import { diff } from '../src/rrdom/diff';
+import { createMirror } from '../src/utils';
+import { Mirror } from '../src/types';
+
+const snapshot: serializedNodeWithId = {
+  type: NodeType.Document,
+  id: 1,
+  childNodes: [
+    {
+      type: NodeType.Element,
+      id: 2,
+      tagName: 'html',
+      attributes: {},
+      childNodes: [
+        {
+          type: NodeType.Element,
+          id: 3,
+          tagName: 'head',
+          attributes: {},
+          childNodes: [],
+        },
+        {
+          type: NodeType.Element,
+          id: 4,
+          tagName: 'body',
+          attributes: {},
+          childNodes: [
+            {
+              type: NodeType.Element,
+              id: 5,
+              tagName: 'div',
+              attributes: { class: 'a', style: 'color: red;' },
+              childNodes: [{ type: NodeType.Text, id: 6, textContent: 'a' }],
+            },
+            {
+              type: NodeType.Element,
+              id: 7,
+              tagName: 'p',
+              attributes: {},
+              childNodes: [{ type: NodeType.Text, id: 8, textContent: 'b' }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+function setup() {
+  const { document: doc } = new JSDOM().window;
+  const mirror: Mirror = createMirror();
+  mirror.map = rebuild(snapshot, { doc, cache: createCache() })[1];
+  const rrdoc = buildFromDom(doc);
+  const patch = (virtualDom: RRDocument) =>
+    diff(doc, virtualDom, {
+      mirror,
+      createNode: (node) =>
+        buildNodeWithSN(
+          {
+            ...node.__sn,
+            ...(node instanceof RRElement
+              ? { attributes: node.attributes, childNodes: [] }
+              : {}),
+          } as serializedNodeWithId,
+          {
+            doc,
+            map: mirror.map,
+            skipChild: true,
+            hackCss: true,
+            cache: createCache(),
+          },
+        ) as INode,
+    });
+  return { doc, mirror, rrdoc, patch };
+}
+
+describe('rrdom', () => {
+  it('should build the virtual dom from the real dom', () => {
+    const { rrdoc } = setup();
+    const div = rrdoc.getNode(5) as RRElement;
+    expect(div.tagName).to.equal('div');
+    expect(div.attributes).to.deep.equal({ class: 'a', style: 'color: red;' });
+    expect(div.parentNode).to.equal(rrdoc.getNode(4));
+    expect(div.nextSibling).to.equal(rrdoc.getNode(7));
+    expect((rrdoc.getNode(6) as RRCharacterData).textContent).to.equal('a');
+  });
+
+  it('should keep the real dom untouched before diff', () => {
+    const { doc, rrdoc } = setup();
+    const body = rrdoc.getNode(4)!;
+    body.removeChild(rrdoc.getNode(7)!);
+    expect(doc.body.innerHTML).to.equal(
+      '<div class="a" style="color: red;">a</div><p>b</p>',
+    );
+  });
+
+  it('should diff the virtual dom into the real dom', () => {
+    const { doc, mirror, rrdoc, patch } = setup();
+    const realDiv = doc.querySelector('div');
+    const body = rrdoc.getNode(4)!;
+    const p = rrdoc.getNode(7)!;
+    rrdoc.removeNodeFromMap(p);
+    body.removeChild(p);
+    const span = rrdoc.createNode(
+      {
+        type: NodeType.Element,
+        id: 9,
+        tagName: 'span',
+        attributes: { title: 'c' },
+        childNodes: [],
+      },
+      true,
+    );
+    body.insertBefore(span, rrdoc.getNode(5));
+    span.appendChild(
+      rrdoc.createNode({ type: NodeType.Text, id: 10, textContent: 'c' }, true),
+    );
+    const div = rrdoc.getNode(5) as RRElement;
+    div.setAttribute('class', 'b');
+    div.setStyleProperty('width', '10px', 'important');
+    div.removeStyleProperty('color');
+    (rrdoc.getNode(6) as RRCharacterData).textContent = 'd';
+
+    patch(rrdoc);
+    expect(doc.body.innerHTML).to.equal(
+      '<span title="c">c</span><div class="b" style="width: 10px !important;">d</div>',
+    );
+    expect(doc.querySelector('div')).to.equal(realDiv);
+    expect(mirror.has(7)).to.equal(false);
+    expect(mirror.has(8)).to.equal(false);
+    expect(mirror.getNode(9)).to.equal(doc.querySelector('span'));
+  });
+
+  it('should keep the nodes which are not serialized', () => {
+    const { doc, rrdoc, patch } = setup();
+    const injected = doc.createElement('style');
+    doc.documentElement.insertBefore(injected, doc.head);
+    const body = rrdoc.getNode(4)!;
+    body.appendChild(rrdoc.getNode(5)!);
+
+    patch(rrdoc);
+    expect(doc.documentElement.firstChild).to.equal(injected);
+    expect(doc.body.innerHTML).to.equal(
+      '<p>b</p><div class="a" style="color: red;">a</div>',
+    );
+  });
+});
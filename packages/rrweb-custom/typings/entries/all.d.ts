@@ -2,3 +2,5 @@ export * from '../index';
 export * from '../packer';
 export * from '../plugins/console/record';
 export * from '../plugins/console/replay';
+export { getRecordNetworkPlugin } from '../plugins/network/record';
+export * from '../plugins/network/replay';
@@ -1,8 +1,13 @@
 import record from './record';
+import { Recorder } from './record/recorder';
+import { BUDGET_REPORT_TAG } from './record/budget-manager';
+import { PersistentQueue } from './record/persistent-queue';
+import { Uploader } from './record/uploader';
 import { Replayer } from './replay';
+import { buildKeyframeIndex } from './replay/keyframe';
 import { _mirror } from './utils';
 import * as utils from './utils';
-export { EventType, IncrementalSource, MouseInteractions, ReplayerEvents, } from './types';
+export { EventType, IncrementalSource, MouseInteractions, KeyboardInteractions, ReplayerEvents, CanvasContext, } from './types';
 declare const addCustomEvent: <T>(tag: string, payload: T) => void;
 declare const freezePage: () => void;
-export { record, addCustomEvent, freezePage, Replayer, _mirror as mirror, utils, };
+export { record, Recorder, BUDGET_REPORT_TAG, PersistentQueue, Uploader, addCustomEvent, freezePage, Replayer, buildKeyframeIndex, _mirror as mirror, utils, };
@@ -5,3 +5,20 @@ export declare type eventWithTimeAndPacker = eventWithTime & {
     v: string;
 };
 export declare const MARK = "v1";
+export declare const STREAM_MARK = "v2";
+export declare type packedChunk = {
+    v: string;
+    i: number;
+    d: string[];
+    e: Array<unknown>;
+};
+export declare type StreamPackerOptions = {
+    chunkSize?: number;
+};
+export declare type StreamPacker = {
+    push(event: eventWithTime): string | null;
+    flush(): string | null;
+};
+export declare type StreamUnpacker = {
+    unpack(raw: string): eventWithTime[];
+};
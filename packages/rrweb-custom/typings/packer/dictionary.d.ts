@@ -0,0 +1,15 @@
+export declare class DictionaryEncoder {
+    private entries;
+    private candidates;
+    private newEntries;
+    constructor();
+    encode(value: unknown): unknown;
+    takeNewEntries(): string[];
+    private encodeString;
+}
+export declare class DictionaryDecoder {
+    private entries;
+    addEntries(entries: string[]): void;
+    decode(value: unknown): unknown;
+    private decodeString;
+}
@@ -0,0 +1,2 @@
+import { StreamPacker, StreamPackerOptions } from './base';
+export declare function createStreamPacker(options?: StreamPackerOptions): StreamPacker;
@@ -0,0 +1,4 @@
+import { StreamUnpacker } from './base';
+import { eventWithTime } from '../types';
+export declare function createStreamUnpacker(): StreamUnpacker;
+export declare function unpackStream(raws: string[]): eventWithTime[];
@@ -1,8 +1,8 @@
 export declare class StackFrame {
-    private fileName;
-    private functionName;
-    private lineNumber?;
-    private columnNumber?;
+    fileName: string;
+    functionName: string;
+    lineNumber?: number;
+    columnNumber?: number;
     constructor(obj: {
         fileName?: string;
         functionName?: string;
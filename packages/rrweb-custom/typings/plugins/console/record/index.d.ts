@@ -9,10 +9,30 @@ declare type LogRecordOptions = {
     stringifyOptions?: StringifyOptions;
     logger?: Logger;
 };
+export declare type LogKind = 'error' | 'unhandledrejection' | 'resource';
+export declare type StackFrameData = {
+    fileName: string;
+    functionName: string;
+    lineNumber?: number;
+    columnNumber?: number;
+};
+export declare type ErrorData = {
+    name: string;
+    message: string;
+    stack: StackFrameData[];
+};
+export declare type ResourceData = {
+    id: number;
+    tagName: string;
+    url: string;
+};
 export declare type LogData = {
     level: LogLevel;
     trace: string[];
     payload: string[];
+    kind?: LogKind;
+    error?: ErrorData;
+    resource?: ResourceData;
 };
 export declare type LogLevel = 'assert' | 'clear' | 'count' | 'countReset' | 'debug' | 'dir' | 'dirxml' | 'error' | 'group' | 'groupCollapsed' | 'groupEnd' | 'info' | 'log' | 'table' | 'time' | 'timeEnd' | 'timeLog' | 'trace' | 'warn';
 export declare type Logger = {
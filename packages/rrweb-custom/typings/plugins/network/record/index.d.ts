@@ -0,0 +1,31 @@
+import { RecordPlugin } from '../../../types';
+export declare type InitiatorType = 'fetch' | 'xmlhttprequest';
+export declare type NetworkHeaders = Record<string, string>;
+export declare type NetworkRequest = {
+    initiatorType: InitiatorType;
+    method: string;
+    url: string;
+    status: number;
+    startTime: number;
+    endTime: number;
+    requestSize?: number;
+    responseSize?: number;
+    requestHeaders?: NetworkHeaders;
+    responseHeaders?: NetworkHeaders;
+    requestBody?: string;
+    responseBody?: string;
+    error?: string;
+};
+declare type NetworkRecordOptions = {
+    initiatorTypes?: InitiatorType[];
+    recordHeaders?: boolean;
+    recordBody?: boolean;
+    bodyLengthLimit?: number;
+    maskHeaders?: string[];
+    ignoreRequestFn?: (url: string) => boolean;
+    maskRequestFn?: (request: NetworkRequest) => NetworkRequest | null;
+    win?: Window;
+};
+export declare const PLUGIN_NAME = "rrweb/network@1";
+export declare const getRecordNetworkPlugin: (options?: NetworkRecordOptions) => RecordPlugin;
+export {};
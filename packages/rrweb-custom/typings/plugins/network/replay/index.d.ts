@@ -0,0 +1,8 @@
+import { NetworkRequest } from '../record';
+import { ReplayPlugin } from '../../../types';
+declare type NetworkReplayConfig = {
+    onChange?: (requests: NetworkRequest[]) => void;
+    onRequest?: (request: NetworkRequest) => void;
+};
+export declare const getReplayNetworkPlugin: (options?: NetworkReplayConfig) => ReplayPlugin;
+export {};
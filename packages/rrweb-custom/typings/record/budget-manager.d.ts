@@ -0,0 +1,27 @@
+import { budgetOptions, budgetReport, eventWithTime } from '../types';
+export declare const BUDGET_REPORT_TAG = "rrweb/budget";
+export declare class BudgetManager {
+    private options;
+    private emit;
+    private checkout;
+    private windowStart;
+    private total;
+    private sources;
+    private coalescedEvents;
+    private checkoutPending;
+    private releasing;
+    private report;
+    private windowTimer;
+    private reportTimer;
+    constructor(options: {
+        budget: budgetOptions;
+        emit: (e: eventWithTime) => void;
+        checkout: () => void;
+        reportCb: (report: budgetReport) => void;
+    });
+    admit(e: eventWithTime): boolean;
+    stop(): void;
+    private overflow;
+    private endWindow;
+    private resetWindow;
+}
@@ -0,0 +1,16 @@
+import { bufferOptions, eventWithTime } from '../types';
+export declare class BufferManager {
+    private emit;
+    private segments;
+    private maxSegments;
+    private triggerTags;
+    private handlers;
+    private flushTimer;
+    constructor(options: {
+        buffer: bufferOptions;
+        emit: (e: eventWithTime, isCheckout?: boolean) => void;
+    });
+    push(e: eventWithTime, isCheckout?: boolean): void;
+    flush(): void;
+    stop(): void;
+}
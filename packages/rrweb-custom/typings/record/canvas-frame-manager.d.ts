@@ -0,0 +1,34 @@
+import { PrivacyEngine } from 'rrweb-snapshot';
+import { blockClass, canvasFrameCallback, dataURLOptions, Mirror } from '../types';
+declare type frameWindow = Pick<Window, 'document' | 'requestAnimationFrame' | 'cancelAnimationFrame'>;
+export declare class CanvasFrameManager {
+    private canvasFrameCb;
+    private win;
+    private mirror;
+    private blockClass;
+    private privacyEngine;
+    private fps;
+    private dataURLOptions;
+    private worker;
+    private pendingIds;
+    private lastDataURLs;
+    private lastFrameTime;
+    private rafId;
+    constructor(options: {
+        canvasFrameCb: canvasFrameCallback;
+        win: frameWindow;
+        mirror: Mirror;
+        blockClass: blockClass;
+        privacyEngine: PrivacyEngine;
+        fps: number;
+        dataURLOptions: dataURLOptions;
+    });
+    stop(): void;
+    private onFrame;
+    private takeFrames;
+    private takeFrameInWorker;
+    private takeFrame;
+    private handleResponse;
+    private stopWorker;
+}
+export {};
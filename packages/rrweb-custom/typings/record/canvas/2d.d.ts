@@ -0,0 +1,2 @@
+import { canvasMutationRecorder, IWindow, listenerHandler } from '../../types';
+export declare function initCanvas2DMutationObserver(record: canvasMutationRecorder, win: IWindow): listenerHandler;
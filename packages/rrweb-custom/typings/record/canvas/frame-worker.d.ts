@@ -0,0 +1,13 @@
+import { dataURLOptions } from '../../types';
+export declare type frameRequest = {
+    id: number;
+    bitmap: ImageBitmap;
+    width: number;
+    height: number;
+    dataURLOptions: dataURLOptions;
+};
+export declare type frameResponse = {
+    id: number;
+    dataURL?: string;
+};
+export declare function createFrameWorker(): Worker | null;
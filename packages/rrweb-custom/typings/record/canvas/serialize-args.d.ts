@@ -0,0 +1,15 @@
+import { CanvasArg, canvasObjectCall, IWindow } from '../../types';
+declare type canvasObjectRecipe = {
+    rr_type: string;
+    args: CanvasArg[];
+    property?: string;
+    calls: canvasObjectCall[];
+};
+export declare function saveWebGLVar(value: object, ctx: object): number;
+export declare function setObjectRecipe(value: object, recipe: Omit<canvasObjectRecipe, 'calls'>): void;
+export declare function addObjectCall(value: object, call: canvasObjectCall): void;
+export declare function encodeArrayBuffer(buffer: ArrayBuffer): string;
+export declare function invalidateImageSource(canvas: object): void;
+export declare function serializeArg(value: unknown, win: IWindow, ctx: object): CanvasArg;
+export declare function serializeArgs(args: Array<unknown>, win: IWindow, ctx: object): CanvasArg[];
+export {};
@@ -0,0 +1,2 @@
+import { canvasMutationRecorder, IWindow, listenerHandler } from '../../types';
+export declare function initCanvasWebGLMutationObserver(record: canvasMutationRecorder, win: IWindow): listenerHandler;
@@ -1,13 +1,27 @@
 import { serializedNodeWithId, INode } from 'rrweb-snapshot';
-import { mutationCallBack } from '../types';
+import { eventWithTime, mutationCallBack } from '../types';
+import { StylesheetManager } from './stylesheet-manager';
 export declare class IframeManager {
     private iframes;
+    private crossOriginIframes;
+    private crossOriginIdMaps;
     private mutationCb;
+    private emit;
+    private stylesheetManager;
+    private recordCrossOriginIframes;
+    private messageHandler;
     private loadListener?;
     constructor(options: {
         mutationCb: mutationCallBack;
+        emit: (e: eventWithTime) => void;
+        stylesheetManager: StylesheetManager;
+        recordCrossOriginIframes: boolean;
     });
     addIframe(iframeEl: HTMLIFrameElement): void;
     addLoadListener(cb: (iframeEl: HTMLIFrameElement) => unknown): void;
     attachIframe(iframeEl: INode, childSn: serializedNodeWithId): void;
+    stop(): void;
+    private handleMessage;
+    private emitCrossOriginEvent;
+    private remapIncrementalData;
 }
@@ -4,6 +4,7 @@ declare namespace record {
     var addCustomEvent: <T>(tag: string, payload: T) => void;
     var freezePage: () => void;
     var takeFullSnapshot: (isCheckout?: boolean | undefined) => void;
+    var flush: () => void;
     var mirror: import("../types").Mirror;
 }
 export default record;
@@ -1,10 +1,17 @@
-import { MaskInputOptions, SlimDOMOptions, MaskInputFn, MaskTextFn } from 'rrweb-snapshot';
-import { mutationCallBack, observerParam, listenerHandler, scrollCallback, blockClass, maskTextClass, hooksParam, SamplingStrategy, Mirror } from '../types';
+import { MaskInputOptions, MaskMediaOptions, SlimDOMOptions, MaskInputFn, MaskTextFn, MaskAttributeFn, PrivacyEngine } from 'rrweb-snapshot';
+import { mutationCallBack, observerParam, listenerHandler, scrollCallback, styleDeclarationCallback, IWindow, blockClass, maskTextClass, hooksParam, SamplingStrategy, keyboardCallback, keyCategory, selectionCallback, pointerCallback, visualViewportCallback, Mirror } from '../types';
 import MutationBuffer from './mutation';
 import { IframeManager } from './iframe-manager';
 import { ShadowDomManager } from './shadow-dom-manager';
-export declare const mutationBuffers: MutationBuffer[];
-export declare function initMutationObserver(cb: mutationCallBack, doc: Document, blockClass: blockClass, blockSelector: string | null, maskTextClass: maskTextClass, maskTextSelector: string | null, inlineStylesheet: boolean, maskInputOptions: MaskInputOptions, maskTextFn: MaskTextFn | undefined, maskInputFn: MaskInputFn | undefined, recordCanvas: boolean, slimDOMOptions: SlimDOMOptions, mirror: Mirror, iframeManager: IframeManager, shadowDomManager: ShadowDomManager, rootEl: Node): MutationObserver;
-export declare function initScrollObserver(cb: scrollCallback, doc: Document, mirror: Mirror, blockClass: blockClass, sampling: SamplingStrategy): listenerHandler;
+import { StylesheetManager } from './stylesheet-manager';
+export declare function initMutationObserver(cb: mutationCallBack, doc: Document, blockClass: blockClass, blockSelector: string | null, maskTextClass: maskTextClass, maskTextSelector: string | null, inlineStylesheet: boolean, maskInputOptions: MaskInputOptions, maskTextFn: MaskTextFn | undefined, maskInputFn: MaskInputFn | undefined, maskAttributeFn: MaskAttributeFn | undefined, maskMediaOptions: MaskMediaOptions, privacyEngine: PrivacyEngine, recordCanvas: boolean, slimDOMOptions: SlimDOMOptions, mirror: Mirror, iframeManager: IframeManager, shadowDomManager: ShadowDomManager, mutationBuffers: MutationBuffer[], rootEl: Node): MutationObserver;
+export declare function initPointerObserver(cb: pointerCallback, sampling: SamplingStrategy, doc: Document, mirror: Mirror): listenerHandler;
+export declare function initScrollObserver(cb: scrollCallback, doc: Document, mirror: Mirror, blockClass: blockClass, privacyEngine: PrivacyEngine, sampling: SamplingStrategy): listenerHandler;
+export declare function initVisualViewportObserver(cb: visualViewportCallback, win: Window, sampling: SamplingStrategy): listenerHandler;
 export declare const INPUT_TAGS: string[];
+export declare function getKeyCategory(event: KeyboardEvent): keyCategory;
+export declare function initKeyboardObserver(cb: keyboardCallback, doc: Document, mirror: Mirror, blockClass: blockClass, ignoreClass: string, maskTextClass: maskTextClass, maskTextSelector: string | null, maskInputOptions: MaskInputOptions, privacyEngine: PrivacyEngine, sampling: SamplingStrategy): listenerHandler;
+export declare function initSelectionObserver(cb: selectionCallback, doc: Document, mirror: Mirror, blockClass: blockClass, privacyEngine: PrivacyEngine, sampling: SamplingStrategy): listenerHandler;
+export declare function initStyleDeclarationObserver(cb: styleDeclarationCallback, win: IWindow, mirror: Mirror, stylesheetManager: StylesheetManager): listenerHandler;
+export declare function initAdoptedStyleSheetObserver(win: IWindow, mirror: Mirror, stylesheetManager: StylesheetManager): listenerHandler;
 export declare function initObservers(o: observerParam, hooks?: hooksParam): listenerHandler;
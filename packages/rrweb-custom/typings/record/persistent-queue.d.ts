@@ -0,0 +1,33 @@
+import { eventWithTime, persistentQueueOptions } from '../types';
+export declare class PersistentQueue {
+    private upload;
+    private onError;
+    private batchSize;
+    private flushInterval;
+    private id;
+    private pending;
+    private timer;
+    private retryTimer;
+    private seq;
+    private db;
+    private memory;
+    private ready;
+    private writing;
+    private uploading;
+    private uploadRequested;
+    private uploadedSeq;
+    private pagehideHandler;
+    constructor(options: persistentQueueOptions);
+    emit: (event: eventWithTime | string, isCheckout?: boolean | undefined) => void;
+    flush(): Promise<void>;
+    stop(): Promise<void>;
+    private open;
+    private toRecords;
+    private write;
+    private read;
+    private remove;
+    private lock;
+    private unlock;
+    private uploadLocked;
+    private uploadStored;
+}
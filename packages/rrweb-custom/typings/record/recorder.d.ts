@@ -0,0 +1,16 @@
+import { eventWithTime, recordOptions, Mirror } from '../types';
+export declare class Recorder<T = eventWithTime> {
+    mirror: Mirror;
+    private mutationBuffers;
+    private handlers;
+    private transport;
+    private bufferManager;
+    private wrappedEmit;
+    private takeSnapshot;
+    constructor(options?: recordOptions<T>, mirror?: Mirror);
+    addCustomEvent<P>(tag: string, payload: P): void;
+    freezePage(): void;
+    takeFullSnapshot(isCheckout?: boolean): void;
+    flush(): void;
+    stop(): void;
+}
@@ -0,0 +1,4 @@
+import { pageInfo } from '../types';
+export declare const SESSION_STORAGE_KEY = "rrweb-session";
+export declare function nextPage(storage: Storage | null, key?: string): pageInfo;
+export declare function getCurrentPage(): pageInfo;
@@ -1,6 +1,8 @@
 import { mutationCallBack, blockClass, maskTextClass, Mirror, scrollCallback, SamplingStrategy } from '../types';
-import { MaskInputOptions, SlimDOMOptions, MaskTextFn, MaskInputFn } from 'rrweb-snapshot';
+import { MaskInputOptions, MaskMediaOptions, SlimDOMOptions, MaskTextFn, MaskInputFn, MaskAttributeFn, PrivacyEngine } from 'rrweb-snapshot';
 import { IframeManager } from './iframe-manager';
+import { StylesheetManager } from './stylesheet-manager';
+import MutationBuffer from './mutation';
 declare type BypassOptions = {
     blockClass: blockClass;
     blockSelector: string | null;
@@ -10,10 +12,15 @@ declare type BypassOptions = {
     maskInputOptions: MaskInputOptions;
     maskTextFn: MaskTextFn | undefined;
     maskInputFn: MaskInputFn | undefined;
+    maskAttributeFn: MaskAttributeFn | undefined;
+    maskMediaOptions: MaskMediaOptions;
+    privacyEngine: PrivacyEngine;
     recordCanvas: boolean;
     sampling: SamplingStrategy;
     slimDOMOptions: SlimDOMOptions;
     iframeManager: IframeManager;
+    stylesheetManager: StylesheetManager;
+    mutationBuffers: MutationBuffer[];
 };
 export declare class ShadowDomManager {
     private mutationCb;
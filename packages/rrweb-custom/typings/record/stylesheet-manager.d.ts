@@ -0,0 +1,13 @@
+import { adoptedStyleSheetCallback } from '../types';
+export declare class StylesheetManager {
+    private styleIds;
+    private nextStyleId;
+    private adoptedStyleSheetCb;
+    constructor(options: {
+        adoptedStyleSheetCb: adoptedStyleSheetCallback;
+    });
+    getStyleId(sheet: CSSStyleSheet): number;
+    genStyleId(): number;
+    adoptStyleSheets(sheets: CSSStyleSheet[], hostId: number): void;
+    reset(): void;
+}
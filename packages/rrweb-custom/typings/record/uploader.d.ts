@@ -0,0 +1,38 @@
+import { eventWithTime, uploaderOptions } from '../types';
+export declare class Uploader {
+    private url;
+    private batchSize;
+    private flushInterval;
+    private compress;
+    private maxRetries;
+    private retryDelay;
+    private maxQueueSize;
+    private headers;
+    private onCheckout;
+    private onError;
+    private id;
+    private seq;
+    private checkout;
+    private inCheckout;
+    private pending;
+    private queue;
+    private timer;
+    private retryTimer;
+    private retries;
+    private sending;
+    private draining;
+    private handlers;
+    constructor(options: uploaderOptions);
+    emit: (event: eventWithTime | string, isCheckout?: boolean | undefined) => void;
+    flush(): Promise<void>;
+    stop(): Promise<void>;
+    private enqueue;
+    private drain;
+    private sendQueue;
+    private scheduleRetry;
+    private clearRetry;
+    private encode;
+    private getHeaders;
+    private send;
+    private beacon;
+}
@@ -0,0 +1,21 @@
+import { eventWithTime, workerOptions } from '../types';
+import type { emittedEvent } from './worker';
+declare type emitCallback = (event: emittedEvent['event'], isCheckout?: boolean) => void;
+export declare class WorkerTransport {
+    private emit;
+    private worker;
+    private pagehideHandler;
+    private pending;
+    private posted;
+    private emitted;
+    constructor(options: workerOptions & {
+        emit: emitCallback;
+    });
+    push(event: eventWithTime, isCheckout?: boolean): void;
+    stop(): void;
+    private post;
+    private handleResponse;
+    private emitPending;
+    private stopWorker;
+}
+export {};
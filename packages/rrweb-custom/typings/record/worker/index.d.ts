@@ -0,0 +1,33 @@
+import { eventWithTime, workerPackMode } from '../../types';
+export declare type transportRequest = {
+    type: 'init';
+    pack: workerPackMode;
+    batchSize: number;
+    flushInterval: number;
+} | {
+    type: 'event';
+    event: eventWithTime;
+    isCheckout?: boolean;
+} | {
+    type: 'flush';
+    final?: boolean;
+} | {
+    type: 'clear';
+};
+export declare type emittedEvent = {
+    event: eventWithTime | string;
+    isCheckout?: boolean;
+};
+export declare type transportResponse = {
+    events: emittedEvent[];
+    received: number;
+    final?: boolean;
+};
+declare type transportWorkerScope = {
+    onmessage: ((e: {
+        data: transportRequest;
+    }) => void) | null;
+    postMessage: (response: transportResponse) => void;
+};
+export declare function initTransportWorker(scope: transportWorkerScope): void;
+export {};
@@ -0,0 +1,2 @@
+import { canvasMutationData } from '../../types';
+export declare function canvasMutation2D(mutation: canvasMutationData, target: HTMLCanvasElement, imageMap: Map<string, HTMLImageElement>): void;
@@ -0,0 +1,5 @@
+import { CanvasArg } from '../../types';
+export declare function isOwnMethod(target: object, property: string): boolean;
+export declare function decodeArrayBuffer(base64: string): ArrayBuffer;
+export declare function preloadImages(arg: CanvasArg, imageMap: Map<string, HTMLImageElement>): void;
+export declare function deserializeArg(imageMap: Map<string, HTMLImageElement>, ctx: object): (arg: CanvasArg) => unknown;
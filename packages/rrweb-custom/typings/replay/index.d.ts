@@ -1,6 +1,6 @@
 import { Timer } from './timer';
 import { createPlayerService, createSpeedService } from './machine';
-import { eventWithTime, playerConfig, playerMetaData, Handler, Mirror } from '../types';
+import { eventWithTime, playerConfig, playerMetaData, Handler, Mirror, keyframeIndex, pageBoundary } from '../types';
 import './styles/style.css';
 export declare class Replayer {
     wrapper: HTMLDivElement;
@@ -12,6 +12,9 @@ export declare class Replayer {
     private mouse;
     private mouseTail;
     private tailPositions;
+    private pointers;
+    private visualViewport;
+    private layoutPositions;
     private emitter;
     private nextUserInteractionEvent;
     private legacy_missingNodeRetryMap;
@@ -19,16 +22,25 @@ export declare class Replayer {
     private fragmentParentMap;
     private elementStateMap;
     private virtualStyleRulesMap;
+    private constructedStyleSheets;
     private cache;
+    private templates;
     private imageMap;
+    private canvasImageMap;
+    private canvasFrameMap;
     private mirror;
     private firstFullSnapshot;
     private newDocumentQueue;
+    private virtualDom;
+    private currentPage;
+    private pages;
     constructor(events: Array<eventWithTime | string>, config?: Partial<playerConfig>);
     on(event: string, handler: Handler): this;
     off(event: string, handler: Handler): this;
     setConfig(config: Partial<playerConfig>): void;
     getMetaData(): playerMetaData;
+    getKeyframeIndex(): keyframeIndex;
+    getPages(): pageBoundary[];
     getCurrentTime(): number;
     getTimeOffset(): number;
     getMirror(): Mirror;
@@ -48,13 +60,25 @@ export declare class Replayer {
     private attachDocumentToIframe;
     private collectIframeAndAttachDocument;
     private waitForStylesheetLoad;
+    private preloadCanvasImages;
     private preloadAllImages;
     private applyIncremental;
+    private adoptStyleSheets;
+    private drawCanvasFrame;
+    private attachQueuedDocument;
+    private applyMutationToVirtualDom;
+    private createVirtualNode;
+    private flushVirtualDom;
     private applyMutation;
     private applyScroll;
     private applyInput;
+    private applySelection;
     private legacy_resolveMissingNode;
     private moveAndHover;
+    private applyPointer;
+    private clearPointers;
+    private applyVisualViewport;
+    private placeInViewport;
     private drawMouseTail;
     private hoverElements;
     private isUserInteraction;
@@ -0,0 +1,6 @@
+import { eventWithTime, keyframeIndex } from '../types';
+export declare function buildKeyframeIndex(events: eventWithTime[], interval?: number): keyframeIndex;
+export declare function isValidKeyframeIndex(index: keyframeIndex, events: eventWithTime[]): boolean;
+export declare function findKeyframe(index: keyframeIndex, baselineTime: number): number;
+export declare function isKeyframeState(event: eventWithTime): boolean;
+export declare function getKeyframeState(index: keyframeIndex, position: number): number[];
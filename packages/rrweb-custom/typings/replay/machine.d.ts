@@ -1,5 +1,5 @@
 import { StateMachine } from '@xstate/fsm';
-import { playerConfig, eventWithTime, Emitter } from '../types';
+import { playerConfig, eventWithTime, Emitter, keyframeIndex } from '../types';
 import { Timer } from './timer';
 export declare type PlayerContext = {
     events: eventWithTime[];
@@ -7,6 +7,7 @@ export declare type PlayerContext = {
     timeOffset: number;
     baselineTime: number;
     lastPlayedEvent: eventWithTime | null;
+    keyframeIndex: keyframeIndex;
 };
 export declare type PlayerEvent = {
     type: 'PLAY';
@@ -43,7 +44,6 @@ export declare type PlayerState = {
     value: 'live';
     context: PlayerContext;
 };
-export declare function discardPriorSnapshots(events: eventWithTime[], baselineTime: number): eventWithTime[];
 declare type PlayerAssets = {
     emitter: Emitter;
     getCastFn(event: eventWithTime, isSync: boolean): () => void;
@@ -0,0 +1,3 @@
+import { eventWithTime, metaEvent, pageBoundary } from '../types';
+export declare function isSamePage(a: metaEvent['data'], b: metaEvent['data']): boolean;
+export declare function getPageBoundaries(events: eventWithTime[]): pageBoundary[];
@@ -1,8 +1,12 @@
 import { INode } from 'rrweb-snapshot';
+import { StyleSheetHost, styleSheetAddRule } from '../types';
 export declare enum StyleRuleType {
     Insert = 0,
     Remove = 1,
-    Snapshot = 2
+    Snapshot = 2,
+    Replace = 3,
+    SetProperty = 4,
+    RemoveProperty = 5
 }
 declare type InsertRule = {
     cssText: string;
@@ -17,8 +21,36 @@ declare type SnapshotRule = {
     type: StyleRuleType.Snapshot;
     cssTexts: string[];
 };
-export declare type VirtualStyleRules = Array<InsertRule | RemoveRule | SnapshotRule>;
+declare type ReplaceRule = {
+    type: StyleRuleType.Replace;
+    cssText: string;
+};
+declare type SetPropertyRule = {
+    type: StyleRuleType.SetProperty;
+    index: number[];
+    property: string;
+    value: string | null;
+    priority?: string;
+};
+declare type RemovePropertyRule = {
+    type: StyleRuleType.RemoveProperty;
+    index: number[];
+    property: string;
+};
+export declare type VirtualStyleRule = InsertRule | RemoveRule | SnapshotRule | ReplaceRule | SetPropertyRule | RemovePropertyRule;
+export declare type VirtualStyleRules = VirtualStyleRule[];
 export declare type VirtualStyleRulesMap = Map<INode, VirtualStyleRules>;
 export declare function applyVirtualStyleRulesToNode(storedRules: VirtualStyleRules, styleNode: HTMLStyleElement): void;
+export declare function applyVirtualStyleRulesToSheet(storedRules: VirtualStyleRules, sheet: CSSStyleSheet): void;
+export declare function getNestedRule(rules: CSSRuleList, index: number[]): CSSStyleRule | null;
 export declare function storeCSSRules(parentElement: HTMLStyleElement, virtualStyleRulesMap: VirtualStyleRulesMap): void;
+export declare class ConstructedStyleSheets {
+    private rules;
+    private sheets;
+    add(styleId: number, rules: styleSheetAddRule[]): void;
+    apply(styleId: number, rule: VirtualStyleRule): void;
+    adopt(host: StyleSheetHost, styleIds: number[], win: Window): void;
+    reset(): void;
+    private getSheet;
+}
 export {};
@@ -0,0 +1,9 @@
+import { INode } from 'rrweb-snapshot';
+import { RRNode, RRDocument } from './document';
+import { Mirror } from '../types';
+export declare type DiffOptions = {
+    mirror: Mirror;
+    createNode: (node: RRNode) => INode;
+    afterAppend?: (node: INode) => void;
+};
+export declare function diff(doc: Document, rrdoc: RRDocument, options: DiffOptions): void;
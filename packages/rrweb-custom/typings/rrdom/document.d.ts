@@ -0,0 +1,50 @@
+import { attributes, serializedNodeWithId } from 'rrweb-snapshot';
+import { RRdomTree } from './index';
+import { VirtualStyleRules } from '../replay/virtual-styles';
+export declare abstract class RRNode {
+    readonly __sn: serializedNodeWithId;
+    readonly isNew: boolean;
+    protected readonly tree: RRdomTree;
+    constructor(tree: RRdomTree, sn: serializedNodeWithId, isNew: boolean);
+    get parentNode(): RRNode | null;
+    get firstChild(): RRNode | null;
+    get nextSibling(): RRNode | null;
+    get childNodes(): RRNode[];
+    appendChild(child: RRNode): RRNode;
+    insertBefore(child: RRNode, reference: RRNode | null): RRNode;
+    removeChild(child: RRNode): RRNode;
+    contains(node: RRNode): boolean;
+    private detach;
+}
+export declare class RRDocumentType extends RRNode {
+}
+export declare class RRElement extends RRNode {
+    readonly tagName: string;
+    attributes: attributes;
+    shadowRoot: RRShadowRoot | null;
+    rules: VirtualStyleRules;
+    constructor(tree: RRdomTree, sn: serializedNodeWithId, isNew: boolean, attrs: attributes);
+    getAttribute(name: string): string | null;
+    setAttribute(name: string, value: string): void;
+    removeAttribute(name: string): void;
+    setStyleProperty(name: string, value: string, priority?: string): void;
+    removeStyleProperty(name: string): void;
+    attachShadow(): RRShadowRoot;
+}
+export declare class RRShadowRoot extends RRNode {
+}
+export declare class RRCharacterData extends RRNode {
+    textContent: string;
+    constructor(tree: RRdomTree, sn: serializedNodeWithId, isNew: boolean, textContent: string);
+}
+export declare class RRDocument extends RRNode {
+    private idNodeMap;
+    private removedIds;
+    constructor(sn: serializedNodeWithId);
+    getNode(id: number): RRNode | null;
+    has(id: number): boolean;
+    createNode(sn: serializedNodeWithId, isNew: boolean, attrs?: attributes): RRNode;
+    removeNodeFromMap(node: RRNode): void;
+    getRemovedIds(): number[];
+}
+export declare function buildFromDom(doc: Document): RRDocument;
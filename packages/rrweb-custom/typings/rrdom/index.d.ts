@@ -1 +1,17 @@
-export {};
+import { AnyObject } from './tree-node';
+export declare class RRdomTree {
+    private readonly symbol;
+    initialize(object: AnyObject): AnyObject;
+    hasChildren(object: AnyObject): boolean;
+    firstChild(object: AnyObject): AnyObject | null;
+    lastChild(object: AnyObject): AnyObject | null;
+    previousSibling(object: AnyObject): AnyObject | null;
+    nextSibling(object: AnyObject): AnyObject | null;
+    parent(object: AnyObject): AnyObject | null;
+    insertAfter(referenceObject: AnyObject, newObject: AnyObject): AnyObject;
+    insertBefore(referenceObject: AnyObject, newObject: AnyObject): AnyObject;
+    appendChild(referenceObject: AnyObject, newObject: AnyObject): AnyObject;
+    remove(removeObject: AnyObject): AnyObject;
+    private _nodeOrNull;
+    private _node;
+}
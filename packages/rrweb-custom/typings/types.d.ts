@@ -1,8 +1,10 @@
-import { serializedNodeWithId, idNodeMap, INode, MaskInputOptions, SlimDOMOptions, MaskInputFn, MaskTextFn } from 'rrweb-snapshot';
+import { serializedNodeWithId, idNodeMap, INode, MaskInputOptions, MaskMediaOptions, SlimDOMOptions, MaskInputFn, MaskTextFn, MaskAttributeFn, PrivacyRule, PrivacyEngine } from 'rrweb-snapshot';
 import { PackFn, UnpackFn } from './packer/base';
 import { FontFaceDescriptors } from 'css-font-loading-module';
 import { IframeManager } from './record/iframe-manager';
 import { ShadowDomManager } from './record/shadow-dom-manager';
+import { StylesheetManager } from './record/stylesheet-manager';
+import MutationBuffer from './record/mutation';
 import type { Replayer } from './replay';
 export declare enum EventType {
     DomContentLoaded = 0,
@@ -29,6 +31,7 @@ export declare type fullSnapshotEvent = {
             top: number;
             left: number;
         };
+        page?: pageInfo;
     };
 };
 export declare type incrementalSnapshotEvent = {
@@ -41,8 +44,13 @@ export declare type metaEvent = {
         href: string;
         width: number;
         height: number;
+        page?: pageInfo;
     };
 };
+export declare type pageInfo = {
+    sessionId: string;
+    pageIndex: number;
+};
 export declare type customEvent<T = unknown> = {
     type: EventType.Custom;
     data: {
@@ -71,7 +79,14 @@ export declare enum IncrementalSource {
     CanvasMutation = 9,
     Font = 10,
     Log = 11,
-    Drag = 12
+    Drag = 12,
+    AdoptedStyleSheet = 13,
+    StyleDeclaration = 14,
+    CanvasFrame = 15,
+    Keyboard = 16,
+    Selection = 17,
+    Pointer = 18,
+    VisualViewport = 19
 }
 export declare type mutationData = {
     source: IncrementalSource.Mutation;
@@ -89,6 +104,9 @@ export declare type scrollData = {
 export declare type viewportResizeData = {
     source: IncrementalSource.ViewportResize;
 } & viewportResizeDimension;
+export declare type visualViewportData = {
+    source: IncrementalSource.VisualViewport;
+} & visualViewportParam;
 export declare type inputData = {
     source: IncrementalSource.Input;
     id: number;
@@ -99,13 +117,31 @@ export declare type mediaInteractionData = {
 export declare type styleSheetRuleData = {
     source: IncrementalSource.StyleSheetRule;
 } & styleSheetRuleParam;
+export declare type adoptedStyleSheetData = {
+    source: IncrementalSource.AdoptedStyleSheet;
+} & adoptedStyleSheetParam;
+export declare type styleDeclarationData = {
+    source: IncrementalSource.StyleDeclaration;
+} & styleDeclarationParam;
 export declare type canvasMutationData = {
     source: IncrementalSource.CanvasMutation;
 } & canvasMutationParam;
+export declare type canvasFrameData = {
+    source: IncrementalSource.CanvasFrame;
+} & canvasFrameParam;
 export declare type fontData = {
     source: IncrementalSource.Font;
 } & fontParam;
-export declare type incrementalData = mutationData | mousemoveData | mouseInteractionData | scrollData | viewportResizeData | inputData | mediaInteractionData | styleSheetRuleData | canvasMutationData | fontData;
+export declare type keyboardData = {
+    source: IncrementalSource.Keyboard;
+} & keyboardParam;
+export declare type selectionData = {
+    source: IncrementalSource.Selection;
+} & selectionParam;
+export declare type pointerData = {
+    source: IncrementalSource.Pointer;
+} & pointerParam;
+export declare type incrementalData = mutationData | mousemoveData | mouseInteractionData | scrollData | viewportResizeData | inputData | mediaInteractionData | styleSheetRuleData | canvasMutationData | fontData | adoptedStyleSheetData | styleDeclarationData | canvasFrameData | keyboardData | selectionData | pointerData | visualViewportData;
 export declare type event = domContentLoadedEvent | loadedEvent | fullSnapshotEvent | incrementalSnapshotEvent | metaEvent | customEvent | pluginEvent;
 export declare type eventWithTime = event & {
     timestamp: number;
@@ -119,7 +155,82 @@ export declare type SamplingStrategy = Partial<{
     mouseInteraction: boolean | Record<string, boolean | undefined>;
     scroll: number;
     input: 'all' | 'last';
+    keyboard: boolean;
+    selection: boolean;
+    pointer: boolean | number;
+    visualViewport: boolean;
+    canvas: 'all' | number;
+}>;
+export declare type dataURLOptions = Partial<{
+    type: string;
+    quality: number;
+}>;
+export declare type workerPackMode = false | 'event' | 'stream';
+export declare type workerOptions = {
+    url: string;
+    pack?: workerPackMode;
+    batchSize?: number;
+    flushInterval?: number;
+};
+export declare type queuedEvent = {
+    seq: number;
+    event: eventWithTime | string;
+    isCheckout?: boolean;
+};
+export declare type persistentQueueOptions = {
+    upload: (events: queuedEvent[]) => Promise<void>;
+    dbName?: string;
+    batchSize?: number;
+    flushInterval?: number;
+    indexedDB?: IDBFactory;
+    onError?: (message: string, error?: unknown) => void;
+};
+export declare type uploadBatch = {
+    id: string;
+    seq: number;
+    checkout: number;
+    events: Array<eventWithTime | string>;
+};
+export declare type uploaderOptions = {
+    url: string;
+    batchSize?: number;
+    flushInterval?: number;
+    compress?: boolean;
+    maxRetries?: number;
+    retryDelay?: number;
+    maxQueueSize?: number;
+    headers?: () => Record<string, string>;
+    onCheckout?: (checkout: number) => void;
+    onError?: (message: string, error?: unknown) => void;
+};
+export declare type budgetLimit = Partial<{
+    eventsPerSecond: number;
+    bytesPerSecond: number;
+}>;
+export declare type budgetOverflowPolicy = 'drop' | 'coalesce' | 'checkout';
+export declare type budgetOptions = Partial<{
+    total: budgetLimit;
+    sources: Partial<Record<IncrementalSource, budgetLimit>>;
+    maxMutationBatchSize: number;
+    overflow: budgetOverflowPolicy;
+    reportInterval: number;
+}>;
+export declare type budgetReport = {
+    dropped: Partial<Record<IncrementalSource, number>>;
+    coalesced: Partial<Record<IncrementalSource, number>>;
+    checkouts: number;
+};
+export declare type bufferOptions = Partial<{
+    segments: number;
+    flushOnError: boolean;
+    flushOnCustomEvents: string[];
 }>;
+export declare type crossOriginIframeMessage = {
+    type: 'rrweb-iframe-event';
+    event: eventWithTime;
+} | {
+    type: 'rrweb-iframe-snapshot';
+};
 export declare type RecordPlugin<TOptions = unknown> = {
     name: string;
     observer: (cb: Function, options: TOptions) => listenerHandler;
@@ -138,17 +249,29 @@ export declare type recordOptions<T> = {
     maskInputOptions?: MaskInputOptions;
     maskInputFn?: MaskInputFn;
     maskTextFn?: MaskTextFn;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMedia?: boolean | MaskMediaOptions;
+    privacyRules?: PrivacyRule[];
     slimDOMOptions?: SlimDOMOptions | 'all' | true;
     inlineStylesheet?: boolean;
     hooks?: hooksParam;
     packFn?: PackFn;
     sampling?: SamplingStrategy;
     recordCanvas?: boolean;
+    dataURLOptions?: dataURLOptions;
+    worker?: workerOptions;
+    budget?: budgetOptions;
+    buffer?: bufferOptions;
     userTriggeredOnInput?: boolean;
     collectFonts?: boolean;
     plugins?: RecordPlugin[];
     mousemoveWait?: number;
     keepIframeSrcFn?: KeepIframeSrcFn;
+    dedupeSubtrees?: boolean;
+    stitchSession?: boolean;
+    recordCrossOriginIframes?: boolean;
+    parentOrigin?: string;
+    recordPointers?: boolean;
 };
 export declare type observerParam = {
     mutationCb: mutationCallBack;
@@ -166,25 +289,37 @@ export declare type observerParam = {
     maskInputOptions: MaskInputOptions;
     maskInputFn?: MaskInputFn;
     maskTextFn?: MaskTextFn;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMediaOptions: MaskMediaOptions;
+    privacyEngine: PrivacyEngine;
     inlineStylesheet: boolean;
     styleSheetRuleCb: styleSheetRuleCallback;
+    styleDeclarationCb: styleDeclarationCallback;
     canvasMutationCb: canvasMutationCallback;
     fontCb: fontCallback;
+    keyboardCb: keyboardCallback;
+    selectionCb: selectionCallback;
+    pointerCb: pointerCallback;
+    visualViewportCb: visualViewportCallback;
     sampling: SamplingStrategy;
     recordCanvas: boolean;
     userTriggeredOnInput: boolean;
     collectFonts: boolean;
+    recordPointers: boolean;
     slimDOMOptions: SlimDOMOptions;
     doc: Document;
     mirror: Mirror;
     iframeManager: IframeManager;
     shadowDomManager: ShadowDomManager;
+    stylesheetManager: StylesheetManager;
+    mutationBuffers: MutationBuffer[];
     plugins: Array<{
         observer: Function;
         callback: Function;
         options: unknown;
     }>;
 };
+export declare type IWindow = Window & typeof globalThis;
 export declare type hooksParam = {
     mutation?: mutationCallBack;
     mousemove?: mousemoveCallBack;
@@ -194,8 +329,13 @@ export declare type hooksParam = {
     input?: inputCallback;
     mediaInteaction?: mediaInteractionCallback;
     styleSheetRule?: styleSheetRuleCallback;
+    styleDeclaration?: styleDeclarationCallback;
     canvasMutation?: canvasMutationCallback;
     font?: fontCallback;
+    keyboard?: keyboardCallback;
+    selection?: selectionCallback;
+    pointer?: pointerCallback;
+    visualViewport?: visualViewportCallback;
 };
 export declare type mutationRecord = {
     type: string;
@@ -255,6 +395,30 @@ export declare type mousePosition = {
     id: number;
     timeOffset: number;
 };
+export declare enum PointerInteractions {
+    Down = 0,
+    Move = 1,
+    Up = 2,
+    Cancel = 3
+}
+export declare type pointerPosition = {
+    type: PointerInteractions;
+    pointerId: number;
+    pointerType: string;
+    x: number;
+    y: number;
+    id: number;
+    timeOffset: number;
+    pressure?: number;
+    tiltX?: number;
+    tiltY?: number;
+    width?: number;
+    height?: number;
+};
+export declare type pointerParam = {
+    positions: pointerPosition[];
+};
+export declare type pointerCallback = (p: pointerParam) => void;
 export declare enum MouseInteractions {
     MouseUp = 0,
     MouseDown = 1,
@@ -274,6 +438,38 @@ declare type mouseInteractionParam = {
     y: number;
 };
 export declare type mouseInteractionCallBack = (d: mouseInteractionParam) => void;
+export declare enum KeyboardInteractions {
+    KeyDown = 0,
+    KeyUp = 1
+}
+export declare type keyCategory = 'navigation' | 'shortcut' | 'editing' | 'other';
+export declare type keyboardParam = {
+    type: KeyboardInteractions;
+    id: number;
+    key?: string;
+    category: keyCategory;
+    altKey?: true;
+    ctrlKey?: true;
+    metaKey?: true;
+    shiftKey?: true;
+    repeat?: true;
+};
+export declare type keyboardCallback = (p: keyboardParam) => void;
+export declare type selectionRange = {
+    anchor: number;
+    anchorOffset: number;
+    focus: number;
+    focusOffset: number;
+};
+export declare type selectionParam = {
+    range: selectionRange | null;
+} | {
+    id: number;
+    start: number;
+    end: number;
+    backward?: true;
+};
+export declare type selectionCallback = (p: selectionParam) => void;
 export declare type scrollPosition = {
     id: number;
     x: number;
@@ -288,18 +484,82 @@ export declare type styleSheetDeleteRule = {
     index: number;
 };
 export declare type styleSheetRuleParam = {
-    id: number;
+    id?: number;
+    styleId?: number;
     removes?: styleSheetDeleteRule[];
     adds?: styleSheetAddRule[];
+    replace?: string;
 };
 export declare type styleSheetRuleCallback = (s: styleSheetRuleParam) => void;
+export declare type adoptedStyleSheetParam = {
+    id: number;
+    styles?: Array<{
+        styleId: number;
+        rules: styleSheetAddRule[];
+    }>;
+    styleIds: number[];
+};
+export declare type adoptedStyleSheetCallback = (a: adoptedStyleSheetParam) => void;
+export declare type styleDeclarationParam = {
+    id?: number;
+    styleId?: number;
+    index: number[];
+    set?: {
+        property: string;
+        value: string | null;
+        priority?: string;
+    };
+    remove?: {
+        property: string;
+    };
+};
+export declare type styleDeclarationCallback = (s: styleDeclarationParam) => void;
+export declare type ConstructableStyleSheet = CSSStyleSheet & {
+    replace?: (text: string) => Promise<CSSStyleSheet>;
+    replaceSync?: (text: string) => void;
+};
+export declare type StyleSheetHost = (Document | ShadowRoot) & {
+    adoptedStyleSheets?: ConstructableStyleSheet[];
+};
 export declare type canvasMutationCallback = (p: canvasMutationParam) => void;
+export declare type canvasMutationRecorder = (canvas: HTMLCanvasElement, p: Omit<canvasMutationParam, 'id'>) => void;
+export declare enum CanvasContext {
+    '2D' = 0,
+    WebGL = 1,
+    WebGL2 = 2
+}
+export declare type canvasObjectCall = {
+    property: string;
+    args: CanvasArg[];
+};
+export declare type SerializedCanvasArg = {
+    rr_type: 'ArrayBuffer';
+    base64: string;
+} | {
+    rr_type: 'HTMLImageElement';
+    src: string;
+} | {
+    rr_type: string;
+    index: number;
+} | {
+    rr_type: string;
+    args: CanvasArg[];
+    property?: string;
+    calls?: canvasObjectCall[];
+};
+export declare type CanvasArg = SerializedCanvasArg | string | number | boolean | null | CanvasArg[];
 export declare type canvasMutationParam = {
     id: number;
+    type?: CanvasContext;
     property: string;
     args: Array<unknown>;
     setter?: true;
 };
+export declare type canvasFrameParam = {
+    id: number;
+    dataURL: string;
+};
+export declare type canvasFrameCallback = (p: canvasFrameParam) => void;
 export declare type fontParam = {
     family: string;
     fontSource: string;
@@ -312,6 +572,17 @@ export declare type viewportResizeDimension = {
     height: number;
 };
 export declare type viewportResizeCallback = (d: viewportResizeDimension) => void;
+export declare type visualViewportParam = {
+    scale: number;
+    offsetLeft: number;
+    offsetTop: number;
+    width: number;
+    height: number;
+};
+export declare type visualViewportCallback = (p: visualViewportParam) => void;
+export declare type VisualViewportHost = Window & {
+    visualViewport?: EventTarget & visualViewportParam;
+};
 export declare type inputValue = {
     text: string;
     isChecked: boolean;
@@ -370,6 +641,7 @@ export declare type playerConfig = {
     triggerFocus: boolean;
     UNSAFE_replayCanvas: boolean;
     pauseAnimation?: boolean;
+    useVirtualDom: boolean;
     mouseTail: boolean | {
         duration?: number;
         lineCap?: string;
@@ -378,12 +650,37 @@ export declare type playerConfig = {
     };
     unpackFn?: UnpackFn;
     plugins?: ReplayPlugin[];
+    keyframeIndex?: keyframeIndex;
 };
 export declare type playerMetaData = {
     startTime: number;
     endTime: number;
     totalTime: number;
 };
+export declare type pageBoundary = {
+    sessionId?: string;
+    pageIndex: number;
+    href: string;
+    timestamp: number;
+    delay: number;
+};
+export declare type keyframe = {
+    index: number;
+    timestamp: number;
+    delay: number;
+    metaIndex: number;
+    fullSnapshotIndex: number;
+    inputs: number[];
+    scrolls: number[];
+    styleSheets: number[];
+};
+export declare type keyframeIndex = {
+    version: 2;
+    startTime: number;
+    eventCount: number;
+    interval: number;
+    keyframes: keyframe[];
+};
 export declare type missingNode = {
     node: Node;
     mutation: addedNodeMutation;
@@ -418,7 +715,10 @@ export declare enum ReplayerEvents {
     CustomEvent = "custom-event",
     Flush = "flush",
     StateChange = "state-change",
-    PlayBack = "play-back"
+    PlayBack = "play-back",
+    PageChange = "page-change",
+    Keyboard = "keyboard",
+    VisualViewport = "visual-viewport"
 }
 export declare type ElementState = {
     scroll?: [number, number];
@@ -1,6 +1,6 @@
-import { Mirror, throttleOptions, listenerHandler, hookResetter, blockClass, eventWithTime, addedNodeMutation, removedNodeMutation, textMutation, attributeMutation, mutationData, scrollData, inputData, DocumentDimension } from './types';
-import { INode, serializedNodeWithId } from 'rrweb-snapshot';
-export declare function on(type: string, fn: EventListenerOrEventListenerObject, target?: Document | Window): listenerHandler;
+import { Mirror, throttleOptions, listenerHandler, hookResetter, blockClass, eventWithTime, addedNodeMutation, removedNodeMutation, textMutation, attributeMutation, mutationData, scrollData, inputData, selectionData, pointerData, DocumentDimension, visualViewportParam } from './types';
+import { INode, serializedNodeWithId, PrivacyEngine } from 'rrweb-snapshot';
+export declare function on(type: string, fn: EventListenerOrEventListenerObject, target?: Document | Window | EventTarget): listenerHandler;
 export declare function createMirror(): Mirror;
 export declare let _mirror: Mirror;
 export declare function throttle<T>(func: (arg: T) => void, wait: number, options?: throttleOptions): (arg: T) => void;
@@ -10,7 +10,9 @@ export declare function patch(source: {
 }, name: string, replacement: (...args: any[]) => any): () => void;
 export declare function getWindowHeight(): number;
 export declare function getWindowWidth(): number;
-export declare function isBlocked(node: Node | null, blockClass: blockClass): boolean;
+export declare function getVisualViewport(win?: Window): visualViewportParam | null;
+export declare function isVisualViewportMoved(v: visualViewportParam): boolean;
+export declare function isBlocked(node: Node | null, blockClass: blockClass, privacyEngine?: PrivacyEngine): boolean;
 export declare function isIgnored(n: Node | INode): boolean;
 export declare function isAncestorRemoved(target: INode, mirror: Mirror): boolean;
 export declare function isTouchEvent(event: MouseEvent | TouchEvent): event is TouchEvent;
@@ -33,6 +35,8 @@ export declare class TreeIndex {
     private removeIdSet;
     private scrollMap;
     private inputMap;
+    private lastSelection;
+    private pointerMap;
     constructor();
     add(mutation: addedNodeMutation): void;
     remove(mutation: removedNodeMutation, mirror: Mirror): void;
@@ -40,10 +44,14 @@ export declare class TreeIndex {
     attribute(mutation: attributeMutation): void;
     scroll(d: scrollData): void;
     input(d: inputData): void;
+    selection(d: selectionData): void;
+    pointer(d: pointerData): void;
     flush(): {
         mutationData: mutationData;
         scrollMap: TreeIndex['scrollMap'];
         inputMap: TreeIndex['inputMap'];
+        selection: selectionData | null;
+        pointerMap: TreeIndex['pointerMap'];
     };
     private reset;
     idRemoved(id: number): boolean;
@@ -55,7 +63,7 @@ declare type ResolveTree = {
 };
 export declare function queueToResolveTrees(queue: addedNodeMutation[]): ResolveTree[];
 export declare function iterateResolveTree(tree: ResolveTree, cb: (mutation: addedNodeMutation) => unknown): void;
-declare type HTMLIFrameINode = HTMLIFrameElement & {
+export declare type HTMLIFrameINode = HTMLIFrameElement & {
     __sn: serializedNodeWithId;
 };
 export declare type AppendedIframe = {
@@ -63,8 +71,12 @@ export declare type AppendedIframe = {
     builtNode: HTMLIFrameINode;
 };
 export declare function isIframeINode(node: INode | ShadowRoot): node is HTMLIFrameINode;
+export declare function isInCrossOriginIframe(): boolean;
 export declare function getBaseDimension(node: Node, rootIframe: Node): DocumentDimension;
 export declare function hasShadowRoot<T extends Node>(n: T): n is T & {
     shadowRoot: ShadowRoot;
 };
+export declare function variableListFor(ctx: object, ctor: string): Array<unknown>;
+export declare function getConstructorName(value: object): string;
+export declare function isWebGLObject(value: unknown): boolean;
 export {};
@@ -133,3 +133,46 @@ export function typeOf(
   };
   return map[toString.call(obj)];
 }
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+/**
+ * the label of a recorded keystroke, e.g. "Ctrl+Shift+K", the keys typed
+ * into the masked inputs are not recorded and shown as "•"
+ */
+export function formatKeystroke(k: {
+  key?: string;
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  shiftKey?: boolean;
+}): string {
+  const keys: string[] = [];
+  if (k.ctrlKey && k.key !== 'Control') {
+    keys.push('Ctrl');
+  }
+  if (k.metaKey && k.key !== 'Meta') {
+    keys.push('Meta');
+  }
+  if (k.altKey && k.key !== 'Alt') {
+    keys.push('Alt');
+  }
+  // the shift of a printable key is a part of the character
+  if (k.shiftKey && k.key !== 'Shift' && (!k.key || k.key.length > 1)) {
+    keys.push('Shift');
+  }
+  if (k.key === undefined) {
+    keys.push('•');
+  } else {
+    const label = KEY_LABELS[k.key] || k.key;
+    keys.push(label.length === 1 ? label.toUpperCase() : label);
+  }
+  return keys.join('+');
+}
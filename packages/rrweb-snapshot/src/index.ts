@@ -5,12 +5,15 @@ import snapshot, {
   cleanupSnapshot,
   needMaskingText,
   IGNORED_NODE,
+  genId,
 } from './snapshot';
 import rebuild, {
   buildNodeWithSN,
   addHoverClass,
   createCache,
 } from './rebuild';
+import { dedupeSubtrees, expandTemplateInstance } from './template';
+import { createPrivacyEngine, validatePrivacyRules } from './privacy';
 export * from './types';
 export * from './utils';
 
@@ -26,4 +29,9 @@ export {
   cleanupSnapshot,
   needMaskingText,
   IGNORED_NODE,
+  genId,
+  dedupeSubtrees,
+  expandTemplateInstance,
+  createPrivacyEngine,
+  validatePrivacyRules,
 };
@@ -0,0 +1,133 @@
+import { PrivacyEngine, PrivacyPolicy, PrivacyRule } from './types';
+import { isElement, isShadowRoot } from './utils';
+
+const EMPTY_POLICY: PrivacyPolicy = {
+  block: false,
+  maskAttributes: [],
+  hash: false,
+};
+
+type resolvedPolicy = {
+  // applies to the node and its text
+  own: PrivacyPolicy;
+  // applies to the descendants
+  inherited: PrivacyPolicy;
+};
+
+function applyRule(policy: PrivacyPolicy, rule: PrivacyRule): PrivacyPolicy {
+  switch (rule.action) {
+    case 'block':
+      return { ...policy, block: true };
+    case 'ignore':
+      return { ...policy, ignore: true };
+    case 'maskText':
+      return { ...policy, maskText: true };
+    case 'maskInput':
+      return { ...policy, maskInput: true };
+    case 'maskAttributes':
+      return {
+        ...policy,
+        maskAttributes: policy.maskAttributes.concat(rule.attributes || []),
+      };
+    case 'hash':
+      return {
+        ...policy,
+        maskText: true,
+        maskInput: true,
+        hash: true,
+        hashSalt: rule.salt,
+      };
+    case 'allow':
+      return {
+        block: policy.block,
+        ignore: false,
+        maskText: false,
+        maskInput: false,
+        maskAttributes: [],
+        hash: false,
+      };
+    default:
+      return policy;
+  }
+}
+
+function getParent(node: Node): Node | null {
+  if (isShadowRoot(node)) {
+    return node.host;
+  }
+  if (node.nodeType === node.DOCUMENT_NODE) {
+    // the rules of the iframe element apply to its document
+    try {
+      return (node as Document).defaultView?.frameElement || null;
+    } catch {
+      return null;
+    }
+  }
+  return node.parentNode;
+}
+
+/**
+ * Throws if the selector of a rule is invalid, a rule that never matches
+ * would leak what it should protect.
+ */
+export function validatePrivacyRules(rules: PrivacyRule[], doc: Document) {
+  const fragment = doc.createDocumentFragment();
+  for (const rule of rules) {
+    try {
+      fragment.querySelector(rule.selector);
+    } catch {
+      throw new Error(`Invalid selector of the privacy rule: ${rule.selector}`);
+    }
+  }
+}
+
+/**
+ * Create an engine which applies the ordered privacy rules to the nodes.
+ * The rules matching an element apply in order after the ones inherited
+ * from its ancestors, so the rules of the descendants and the later rules
+ * take precedence.
+ * The policies are cached until the engine is reset, so an engine should be
+ * reset when the DOM changes, e.g. before a batch of mutations.
+ */
+export function createPrivacyEngine(rules: PrivacyRule[]): PrivacyEngine {
+  let cache = new WeakMap<Node, resolvedPolicy>();
+
+  const resolve = (node: Node | null): resolvedPolicy => {
+    if (!node || !rules.length) {
+      return { own: EMPTY_POLICY, inherited: EMPTY_POLICY };
+    }
+    const cached = cache.get(node);
+    if (cached) {
+      return cached;
+    }
+    const parent = resolve(getParent(node));
+    let resolved: resolvedPolicy;
+    if (isElement(node)) {
+      let own = parent.inherited;
+      let inherited = parent.inherited;
+      for (const rule of rules) {
+        if (node.matches(rule.selector)) {
+          own = applyRule(own, rule);
+          if (rule.inherit !== false) {
+            inherited = applyRule(inherited, rule);
+          }
+        }
+      }
+      resolved = { own, inherited };
+    } else if (isShadowRoot(node) || node.nodeType === node.DOCUMENT_NODE) {
+      resolved = { own: parent.inherited, inherited: parent.inherited };
+    } else {
+      // the text of an element is its own content
+      resolved = parent;
+    }
+    cache.set(node, resolved);
+    return resolved;
+  };
+
+  return {
+    getPolicy: (node) => resolve(node).own,
+    reset: () => {
+      cache = new WeakMap();
+    },
+  };
+}
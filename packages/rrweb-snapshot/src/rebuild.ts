@@ -9,6 +9,12 @@ import {
   BuildCache,
 } from './types';
 import { isElement } from './utils';
+import { expandTemplateInstance } from './template';
+
+// a neutral image which fills the size of the masked media
+const MEDIA_PLACEHOLDER =
+  'data:image/svg+xml,%3Csvg xmlns=%22http://www.w3.org/2000/svg%22%3E' +
+  '%3Crect width=%22100%25%22 height=%22100%25%22 fill=%22%23e0e0e0%22/%3E%3C/svg%3E';
 
 const tagMap: tagMap = {
   script: 'noscript',
@@ -229,6 +235,13 @@ function buildNode(
           if (name === 'rr_height') {
             (node as HTMLElement).style.height = value;
           }
+          if (name === 'rr_mediaMasked') {
+            if (tagName === 'img') {
+              (node as HTMLImageElement).src = MEDIA_PLACEHOLDER;
+            } else if (tagName === 'video') {
+              (node as HTMLVideoElement).poster = MEDIA_PLACEHOLDER;
+            }
+          }
           if (name === 'rr_mediaCurrentTime') {
             (node as HTMLMediaElement).currentTime = n.attributes
               .rr_mediaCurrentTime as number;
@@ -292,16 +305,19 @@ export function buildNodeWithSN(
     hackCss: boolean;
     afterAppend?: (n: INode) => unknown;
     cache: BuildCache;
+    templates?: serializedNodeWithId[];
   },
 ): INode | null {
-  const {
-    doc,
-    map,
-    skipChild = false,
-    hackCss = true,
-    afterAppend,
-    cache,
-  } = options;
+  const { doc, map, hackCss = true, afterAppend, cache } = options;
+  let { skipChild = false, templates = [] } = options;
+  if (n.type === NodeType.Document && n.templates) {
+    templates = n.templates;
+  }
+  if (n.type === NodeType.TemplateInstance) {
+    n = expandTemplateInstance(n, templates);
+    // an instance is a whole subtree, its children will not be added separately
+    skipChild = false;
+  }
   let node = buildNode(n, { doc, hackCss, cache });
   if (!node) {
     return null;
@@ -335,6 +351,7 @@ export function buildNodeWithSN(
         hackCss,
         afterAppend,
         cache,
+        templates,
       });
       if (!childNode) {
         console.warn('Failed to rebuild', childN);
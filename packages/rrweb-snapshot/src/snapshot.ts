@@ -6,19 +6,35 @@ import {
   INode,
   idNodeMap,
   MaskInputOptions,
+  MaskMediaOptions,
   SlimDOMOptions,
   MaskTextFn,
+  MaskAttributeFn,
   MaskInputFn,
   KeepIframeSrcFn,
+  PrivacyEngine,
+  PrivacyRule,
 } from './types';
-import { isElement, isShadowRoot, maskInputValue } from './utils';
+import {
+  isElement,
+  isShadowRoot,
+  maskAttributeValue,
+  maskBackgroundImage,
+  MEDIA_SOURCE_ATTRIBUTES,
+  needMaskingMedia,
+  maskInputValue,
+  maskText,
+} from './utils';
+import { dedupeSubtrees } from './template';
+import { createPrivacyEngine, validatePrivacyRules } from './privacy';
 
 let _id = 1;
 const tagNameRegex = RegExp('[^a-z0-9-_:]');
 
 export const IGNORED_NODE = -2;
 
-function genId(): number {
+// also used to assign the ids of the nodes recorded in the other frames
+export function genId(): number {
   return _id++;
 }
 
@@ -214,7 +230,7 @@ export function transformAttribute(
 ): string {
   // relative path in attribute
   // if (name === 'src' || ((name === 'href' || name === 'xlink:href') && value)) {
-  if (name === 'src' || ((name === 'href') && value)) {
+  if (name === 'src' || (name === 'href' && value)) {
     return absoluteToDoc(doc, value);
   } else if (
     name === 'background' &&
@@ -351,8 +367,11 @@ function serializeNode(
     maskInputOptions: MaskInputOptions;
     maskTextFn: MaskTextFn | undefined;
     maskInputFn: MaskInputFn | undefined;
+    maskAttributeFn: MaskAttributeFn | undefined;
+    maskMediaOptions: MaskMediaOptions;
     recordCanvas: boolean;
     keepIframeSrcFn: KeepIframeSrcFn;
+    privacyEngine: PrivacyEngine;
   },
 ): serializedNode | false {
   const {
@@ -365,9 +384,13 @@ function serializeNode(
     maskInputOptions = {},
     maskTextFn,
     maskInputFn,
+    maskAttributeFn,
+    maskMediaOptions,
     recordCanvas,
     keepIframeSrcFn,
+    privacyEngine,
   } = options;
+  const privacy = privacyEngine.getPolicy(n);
   // Only record root id when document object is not the base document
   let rootId: number | undefined;
   if (((doc as unknown) as INode).__sn) {
@@ -390,16 +413,23 @@ function serializeNode(
         rootId,
       };
     case n.ELEMENT_NODE:
-      const needBlock = _isBlockedElement(
-        n as HTMLElement,
-        blockClass,
-        blockSelector,
-      );
       const tagName = getValidTagName(n as HTMLElement);
+      const needBlock =
+        privacy.block ||
+        // the drawings of svg are recorded as placeholders
+        (tagName === 'svg' && Boolean(maskMediaOptions.svg)) ||
+        _isBlockedElement(n as HTMLElement, blockClass, blockSelector);
+      const needMaskMedia = needMaskingMedia(n as Element, maskMediaOptions);
       let attributes: attributes = {};
       for (const { name, value } of Array.from((n as HTMLElement).attributes)) {
+        if (needMaskMedia && MEDIA_SOURCE_ATTRIBUTES.indexOf(name) !== -1) {
+          continue;
+        }
         attributes[name] = transformAttribute(doc, tagName, name, value);
       }
+      if (maskMediaOptions.backgroundImage && attributes.style) {
+        attributes.style = maskBackgroundImage(attributes.style as string);
+      }
       // remote css
       if (tagName === 'link' && inlineStylesheet) {
         const stylesheet = Array.from(doc.styleSheets).find((s) => {
@@ -453,6 +483,7 @@ function serializeNode(
             value,
             maskInputOptions,
             maskInputFn,
+            privacy,
           });
         } else if ((n as HTMLInputElement).checked) {
           attributes.checked = (n as HTMLInputElement).checked;
@@ -464,9 +495,32 @@ function serializeNode(
           attributes.selected = (n as HTMLOptionElement).selected;
         }
       }
+      for (const name of Object.keys(attributes)) {
+        const value = attributes[name];
+        if (typeof value === 'string' && name !== '_cssText') {
+          attributes[name] = maskAttributeValue(
+            n as HTMLElement,
+            name,
+            value,
+            maskAttributeFn,
+            privacy,
+          );
+        }
+      }
       // canvas image data
       if (tagName === 'canvas' && recordCanvas) {
-        attributes.rr_dataURL = (n as HTMLCanvasElement).toDataURL();
+        const canvas = n as HTMLCanvasElement;
+        const dataURL = canvas.toDataURL();
+        /**
+         * blank canvases are not recorded, because drawing the image in replay
+         * creates a 2d context, which prevents creating a webgl context later
+         */
+        const blankCanvas = doc.createElement('canvas');
+        blankCanvas.width = canvas.width;
+        blankCanvas.height = canvas.height;
+        if (dataURL !== blankCanvas.toDataURL()) {
+          attributes.rr_dataURL = dataURL;
+        }
       }
       // media elements
       if (tagName === 'audio' || tagName === 'video') {
@@ -475,6 +529,13 @@ function serializeNode(
           : 'played';
         attributes.rr_mediaCurrentTime = (n as HTMLMediaElement).currentTime;
       }
+      // masked media are replayed as placeholders of the same size
+      if (needMaskMedia && tagName !== 'source') {
+        const { width, height } = (n as HTMLElement).getBoundingClientRect();
+        attributes.rr_width = `${width}px`;
+        attributes.rr_height = `${height}px`;
+        attributes.rr_mediaMasked = true;
+      }
       // scroll
       if ((n as HTMLElement).scrollLeft) {
         attributes.rr_scrollLeft = (n as HTMLElement).scrollLeft;
@@ -521,12 +582,16 @@ function serializeNode(
       if (
         !isStyle &&
         !isScript &&
-        needMaskingText(n, maskTextClass, maskTextSelector) &&
+        (privacy.maskText ??
+          needMaskingText(n, maskTextClass, maskTextSelector)) &&
         textContent
       ) {
-        textContent = maskTextFn
-          ? maskTextFn(textContent)
-          : textContent.replace(/[\S]/g, '*');
+        textContent = maskText(
+          textContent,
+          maskTextFn,
+          privacy.hash,
+          privacy.hashSalt,
+        );
       }
       return {
         type: NodeType.Text,
@@ -664,6 +729,8 @@ export function serializeNodeWithId(
     maskInputOptions?: MaskInputOptions;
     maskTextFn: MaskTextFn | undefined;
     maskInputFn: MaskInputFn | undefined;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMediaOptions?: MaskMediaOptions;
     slimDOMOptions: SlimDOMOptions;
     keepIframeSrcFn?: KeepIframeSrcFn;
     recordCanvas?: boolean;
@@ -671,6 +738,7 @@ export function serializeNodeWithId(
     onSerialize?: (n: INode) => unknown;
     onIframeLoad?: (iframeINode: INode, node: serializedNodeWithId) => unknown;
     iframeLoadTimeout?: number;
+    privacyEngine?: PrivacyEngine;
   },
 ): serializedNodeWithId | null {
   const {
@@ -685,12 +753,15 @@ export function serializeNodeWithId(
     maskInputOptions = {},
     maskTextFn,
     maskInputFn,
+    maskAttributeFn,
+    maskMediaOptions = {},
     slimDOMOptions,
     recordCanvas = false,
     onSerialize,
     onIframeLoad,
     iframeLoadTimeout = 5000,
     keepIframeSrcFn = () => false,
+    privacyEngine = createPrivacyEngine([]),
   } = options;
   let { preserveWhiteSpace = true } = options;
   const _serializedNode = serializeNode(n, {
@@ -703,8 +774,11 @@ export function serializeNodeWithId(
     maskInputOptions,
     maskTextFn,
     maskInputFn,
+    maskAttributeFn,
+    maskMediaOptions,
     recordCanvas,
     keepIframeSrcFn,
+    privacyEngine,
   });
   if (!_serializedNode) {
     // TODO: dev only
@@ -767,6 +841,8 @@ export function serializeNodeWithId(
       maskInputOptions,
       maskTextFn,
       maskInputFn,
+      maskAttributeFn,
+      maskMediaOptions,
       slimDOMOptions,
       recordCanvas,
       preserveWhiteSpace,
@@ -774,6 +850,7 @@ export function serializeNodeWithId(
       onIframeLoad,
       iframeLoadTimeout,
       keepIframeSrcFn,
+      privacyEngine,
     };
     for (const childN of Array.from(n.childNodes)) {
       const serializedChildNode = serializeNodeWithId(childN, bypassOptions);
@@ -819,6 +896,8 @@ export function serializeNodeWithId(
             maskInputOptions,
             maskTextFn,
             maskInputFn,
+            maskAttributeFn,
+            maskMediaOptions,
             slimDOMOptions,
             recordCanvas,
             preserveWhiteSpace,
@@ -826,6 +905,7 @@ export function serializeNodeWithId(
             onIframeLoad,
             iframeLoadTimeout,
             keepIframeSrcFn,
+            privacyEngine,
           });
 
           if (serializedIframeNode) {
@@ -851,6 +931,8 @@ function snapshot(
     maskAllInputs?: boolean | MaskInputOptions;
     maskTextFn?: MaskTextFn;
     maskInputFn?: MaskTextFn;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMedia?: boolean | MaskMediaOptions;
     slimDOM?: boolean | SlimDOMOptions;
     recordCanvas?: boolean;
     preserveWhiteSpace?: boolean;
@@ -858,6 +940,8 @@ function snapshot(
     onIframeLoad?: (iframeINode: INode, node: serializedNodeWithId) => unknown;
     iframeLoadTimeout?: number;
     keepIframeSrcFn?: KeepIframeSrcFn;
+    dedupeSubtrees?: boolean;
+    privacyRules?: PrivacyRule[];
   },
 ): [serializedNodeWithId | null, idNodeMap] {
   const {
@@ -870,13 +954,18 @@ function snapshot(
     maskAllInputs = false,
     maskTextFn,
     maskInputFn,
+    maskAttributeFn,
+    maskMedia = false,
     slimDOM = false,
     preserveWhiteSpace,
     onSerialize,
     onIframeLoad,
     iframeLoadTimeout,
     keepIframeSrcFn = () => false,
+    dedupeSubtrees: shouldDedupe = false,
+    privacyRules = [],
   } = options || {};
+  validatePrivacyRules(privacyRules, n);
   const idNodeMap: idNodeMap = {};
   const maskInputOptions: MaskInputOptions =
     maskAllInputs === true
@@ -903,6 +992,18 @@ function snapshot(
           password: true,
         }
       : maskAllInputs;
+  const maskMediaOptions: MaskMediaOptions =
+    maskMedia === true
+      ? {
+          img: true,
+          video: true,
+          picture: true,
+          svg: true,
+          backgroundImage: true,
+        }
+      : maskMedia === false
+      ? {}
+      : maskMedia;
   const slimDOMOptions: SlimDOMOptions =
     slimDOM === true || slimDOM === 'all'
       ? // if true: set of sensible options that should not throw away any information
@@ -921,27 +1022,31 @@ function snapshot(
       : slimDOM === false
       ? {}
       : slimDOM;
+  const serialized = serializeNodeWithId(n, {
+    doc: n,
+    map: idNodeMap,
+    blockClass,
+    blockSelector,
+    maskTextClass,
+    maskTextSelector,
+    skipChild: false,
+    inlineStylesheet,
+    maskInputOptions,
+    maskTextFn,
+    maskInputFn,
+    maskAttributeFn,
+    maskMediaOptions,
+    slimDOMOptions,
+    recordCanvas,
+    preserveWhiteSpace,
+    onSerialize,
+    onIframeLoad,
+    iframeLoadTimeout,
+    keepIframeSrcFn,
+    privacyEngine: createPrivacyEngine(privacyRules),
+  });
   return [
-    serializeNodeWithId(n, {
-      doc: n,
-      map: idNodeMap,
-      blockClass,
-      blockSelector,
-      maskTextClass,
-      maskTextSelector,
-      skipChild: false,
-      inlineStylesheet,
-      maskInputOptions,
-      maskTextFn,
-      maskInputFn,
-      slimDOMOptions,
-      recordCanvas,
-      preserveWhiteSpace,
-      onSerialize,
-      onIframeLoad,
-      iframeLoadTimeout,
-      keepIframeSrcFn,
-    }),
+    serialized && shouldDedupe ? dedupeSubtrees(serialized) : serialized,
     idNodeMap,
   ];
 }
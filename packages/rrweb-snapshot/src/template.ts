@@ -0,0 +1,215 @@
+import {
+  NodeType,
+  serializedNodeWithId,
+  attributes,
+  templateInstanceNode,
+} from './types';
+
+const MIN_TEMPLATE_SIZE = 3;
+
+type shape = {
+  // shape id, -1 if the subtree can not be a template
+  id: number;
+  size: number;
+};
+
+function computeShapes(root: serializedNodeWithId): Map<object, shape> {
+  const shapes = new Map<object, shape>();
+  const shapeIds = new Map<string, number>();
+  const getShapeId = (key: string) => {
+    let id = shapeIds.get(key);
+    if (id === undefined) {
+      id = shapeIds.size;
+      shapeIds.set(key, id);
+    }
+    return id;
+  };
+  const walk = (n: serializedNodeWithId): shape => {
+    let result: shape = { id: -1, size: 1 };
+    if (n.type === NodeType.Document || n.type === NodeType.Element) {
+      const children = n.childNodes.map(walk);
+      result.size += children.reduce((sum, child) => sum + child.size, 0);
+      if (
+        n.type === NodeType.Element &&
+        !n.rootId &&
+        !n.isShadow &&
+        !n.isShadowHost &&
+        children.every((child) => child.id !== -1)
+      ) {
+        result.id = getShapeId(
+          [
+            'E',
+            n.tagName,
+            n.isSVG ? 1 : 0,
+            n.needBlock ? 1 : 0,
+            Object.keys(n.attributes).sort().join(' '),
+            children.map((child) => child.id).join(' '),
+          ].join('|'),
+        );
+      }
+    } else if (
+      (n.type === NodeType.Text ||
+        n.type === NodeType.CDATA ||
+        n.type === NodeType.Comment) &&
+      !n.rootId &&
+      !n.isShadow
+    ) {
+      result = {
+        id: getShapeId(
+          `${n.type}|${n.type === NodeType.Text && n.isStyle ? 1 : 0}`,
+        ),
+        size: 1,
+      };
+    }
+    shapes.set(n, result);
+    return result;
+  };
+  walk(root);
+  return shapes;
+}
+
+function flatten(n: serializedNodeWithId): serializedNodeWithId[] {
+  const nodes = [n];
+  if (n.type === NodeType.Element) {
+    n.childNodes.forEach((child) => nodes.push(...flatten(child)));
+  }
+  return nodes;
+}
+
+function toTemplate(
+  n: serializedNodeWithId,
+  counter: { index: number },
+): serializedNodeWithId {
+  const id = counter.index++;
+  if (n.type === NodeType.Element) {
+    return {
+      ...n,
+      id,
+      attributes: { ...n.attributes },
+      childNodes: n.childNodes.map((child) => toTemplate(child, counter)),
+    };
+  }
+  return { ...n, id };
+}
+
+function toInstance(
+  n: serializedNodeWithId,
+  template: serializedNodeWithId,
+  templateId: number,
+): templateInstanceNode & { id: number } {
+  const instance: templateInstanceNode & { id: number } = {
+    type: NodeType.TemplateInstance,
+    templateId,
+    id: n.id,
+  };
+  const nodes = flatten(n);
+  const templateNodes = flatten(template);
+  if (nodes.some((node, index) => node.id !== n.id + index)) {
+    instance.ids = nodes.map((node) => node.id);
+  }
+  nodes.forEach((node, index) => {
+    const templateNode = templateNodes[index];
+    if (
+      node.type === NodeType.Element &&
+      templateNode.type === NodeType.Element
+    ) {
+      const overrides: attributes = {};
+      let overridden = false;
+      for (const name of Object.keys(node.attributes)) {
+        if (node.attributes[name] !== templateNode.attributes[name]) {
+          overrides[name] = node.attributes[name];
+          overridden = true;
+        }
+      }
+      if (overridden) {
+        instance.attributes = instance.attributes || {};
+        instance.attributes[index] = overrides;
+      }
+    } else if (
+      'textContent' in node &&
+      'textContent' in templateNode &&
+      node.textContent !== templateNode.textContent
+    ) {
+      instance.texts = instance.texts || {};
+      instance.texts[index] = node.textContent;
+    }
+  });
+  return instance;
+}
+
+/**
+ * Store the repeated subtrees of a document snapshot as templates, and
+ * replace every instance with a reference to its template.
+ * The input snapshot is not modified.
+ */
+export function dedupeSubtrees(
+  root: serializedNodeWithId,
+  minSize = MIN_TEMPLATE_SIZE,
+): serializedNodeWithId {
+  if (root.type !== NodeType.Document) {
+    return root;
+  }
+  const shapes = computeShapes(root);
+  const counts = new Map<number, number>();
+  shapes.forEach(({ id, size }) => {
+    if (id !== -1 && size >= minSize) {
+      counts.set(id, (counts.get(id) || 0) + 1);
+    }
+  });
+  const templates: serializedNodeWithId[] = [];
+  const templateIds = new Map<number, number>();
+
+  const copy = (n: serializedNodeWithId): serializedNodeWithId => {
+    if (n.type === NodeType.Element) {
+      const { id: shapeId } = shapes.get(n)!;
+      if ((counts.get(shapeId) || 0) > 1) {
+        let templateId = templateIds.get(shapeId);
+        if (templateId === undefined) {
+          templateId = templates.length;
+          templateIds.set(shapeId, templateId);
+          templates.push(toTemplate(n, { index: 0 }));
+        }
+        return toInstance(n, templates[templateId], templateId);
+      }
+      return { ...n, childNodes: n.childNodes.map(copy) };
+    }
+    return n;
+  };
+
+  const childNodes = root.childNodes.map(copy);
+  return templates.length ? { ...root, childNodes, templates } : root;
+}
+
+/**
+ * Expand a template instance to a serialized subtree.
+ */
+export function expandTemplateInstance(
+  n: templateInstanceNode & { id: number },
+  templates: serializedNodeWithId[],
+): serializedNodeWithId {
+  const template = templates[n.templateId];
+  if (!template) {
+    throw new Error(`Template ${n.templateId} is not found.`);
+  }
+  const expand = (node: serializedNodeWithId): serializedNodeWithId => {
+    const index = node.id;
+    const id = n.ids ? n.ids[index] : n.id + index;
+    if (node.type === NodeType.Element) {
+      return {
+        ...node,
+        id,
+        attributes: { ...node.attributes, ...n.attributes?.[index] },
+        childNodes: node.childNodes.map(expand),
+      };
+    }
+    if (
+      (node.type === NodeType.Text || node.type === NodeType.Comment) &&
+      n.texts &&
+      index in n.texts
+    ) {
+      return { ...node, id, textContent: n.texts[index] };
+    }
+    return { ...node, id };
+  };
+  return expand(template);
+}
@@ -5,11 +5,14 @@ export enum NodeType {
   Text,
   CDATA,
   Comment,
+  TemplateInstance,
 }
 
 export type documentNode = {
   type: NodeType.Document;
   childNodes: serializedNodeWithId[];
+  // repeated subtrees, the ids of template nodes are their pre-order indexes
+  templates?: serializedNodeWithId[];
 };
 
 export type documentTypeNode = {
@@ -47,6 +50,20 @@ export type commentNode = {
   textContent: string;
 };
 
+/**
+ * A reference to a template, which will be expanded with the ids and
+ * overrides of the instance.
+ */
+export type templateInstanceNode = {
+  type: NodeType.TemplateInstance;
+  templateId: number;
+  // ids of the nodes in pre-order, omitted if they are consecutive from the id
+  ids?: number[];
+  // overrides keyed by the pre-order indexes of the nodes
+  attributes?: { [index: number]: attributes };
+  texts?: { [index: number]: string };
+};
+
 export type serializedNode = (
   | documentNode
   | documentTypeNode
@@ -54,6 +71,7 @@ export type serializedNode = (
   | textNode
   | cdataNode
   | commentNode
+  | templateInstanceNode
 ) & {
   rootId?: number;
   isShadowHost?: boolean;
@@ -94,6 +112,16 @@ export type MaskInputOptions = Partial<{
   password: boolean;
 }>;
 
+export type MaskMediaOptions = Partial<{
+  img: boolean;
+  video: boolean;
+  // the images and sources in picture elements
+  picture: boolean;
+  svg: boolean;
+  // the urls in the background of inline styles
+  backgroundImage: boolean;
+}>;
+
 export type SlimDOMOptions = Partial<{
   script: boolean;
   comment: boolean;
@@ -109,9 +137,64 @@ export type SlimDOMOptions = Partial<{
 
 export type MaskTextFn = (text: string) => string;
 export type MaskInputFn = (text: string) => string;
+export type MaskAttributeFn = (
+  name: string,
+  value: string,
+  element: HTMLElement,
+) => string;
 
 export type KeepIframeSrcFn = (src: string) => boolean;
 
+/**
+ * block: record the element as a placeholder
+ * ignore: do not record the input events of the element
+ * maskText: mask the text content
+ * maskInput: mask the input values
+ * maskAttributes: mask the values of the listed attributes
+ * hash: mask the text content and the input values with their hashes, which
+ *   only pseudonymise the values, so set a secret salt for the guessable ones
+ * allow: unmask the text content, the input values and the attributes
+ */
+export type PrivacyAction =
+  | 'block'
+  | 'ignore'
+  | 'maskText'
+  | 'maskInput'
+  | 'maskAttributes'
+  | 'hash'
+  | 'allow';
+
+export type PrivacyRule = {
+  selector: string;
+  action: PrivacyAction;
+  // names of the attributes to mask, for the maskAttributes action
+  attributes?: string[];
+  // the secret salt of the hashes, for the hash action
+  salt?: string;
+  // whether the rule applies to the descendants, true by default
+  inherit?: boolean;
+};
+
+/**
+ * The result of the privacy rules for a node. The undefined fields are not
+ * decided by the rules, so the legacy options decide them.
+ */
+export type PrivacyPolicy = {
+  block: boolean;
+  ignore?: boolean;
+  maskText?: boolean;
+  maskInput?: boolean;
+  maskAttributes: string[];
+  hash: boolean;
+  hashSalt?: string;
+};
+
+export type PrivacyEngine = {
+  getPolicy(node: Node | null): PrivacyPolicy;
+  // drop the cached policies after the DOM changes
+  reset(): void;
+};
+
 export type BuildCache = {
   stylesWithHoverClass: Map<string, string>;
 };
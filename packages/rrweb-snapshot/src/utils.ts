@@ -1,4 +1,12 @@
-import { INode, MaskInputFn, MaskInputOptions } from './types';
+import {
+  INode,
+  MaskInputFn,
+  MaskInputOptions,
+  MaskMediaOptions,
+  MaskTextFn,
+  MaskAttributeFn,
+  PrivacyPolicy,
+} from './types';
 
 export function isElement(n: Node | INode): n is Element {
   return n.nodeType === n.ELEMENT_NODE;
@@ -9,25 +17,133 @@ export function isShadowRoot(n: Node): n is ShadowRoot {
   return Boolean(host && host.shadowRoot && host.shadowRoot === n);
 }
 
+/**
+ * FNV-1a hash of the salted text, so the masked values can still be compared.
+ * It is not a cryptographic hash, so it only pseudonymises the values: short
+ * values like card numbers can be guessed from an unsalted hash, and a secret
+ * salt only keeps them from the readers who do not know it.
+ */
+export function hashText(text: string, salt = ''): string {
+  const salted = salt ? salt + '\u0000' + text : text;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < salted.length; i++) {
+    // tslint:disable-next-line: no-bitwise
+    hash ^= salted.charCodeAt(i);
+    hash +=
+      // tslint:disable-next-line: no-bitwise
+      (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+  }
+  // tslint:disable-next-line: no-bitwise
+  return ('0000000' + (hash >>> 0).toString(16)).slice(-8);
+}
+
+export function maskText(
+  text: string,
+  maskTextFn: MaskTextFn | undefined,
+  hash = false,
+  salt?: string,
+): string {
+  if (hash) {
+    return hashText(text, salt);
+  }
+  return maskTextFn ? maskTextFn(text) : text.replace(/[\S]/g, '*');
+}
+
+// the attributes which load the content of the media elements
+export const MEDIA_SOURCE_ATTRIBUTES = ['src', 'srcset', 'poster'];
+
+export function needMaskingMedia(
+  element: Element,
+  maskMediaOptions: MaskMediaOptions,
+): boolean {
+  const tagName = element.tagName.toLowerCase();
+  const parentTagName = element.parentElement?.tagName.toLowerCase();
+  if (parentTagName === 'picture' && maskMediaOptions.picture) {
+    return tagName === 'img' || tagName === 'source';
+  }
+  if (tagName === 'img') {
+    return Boolean(maskMediaOptions.img);
+  }
+  if (
+    tagName === 'video' ||
+    (tagName === 'source' && parentTagName === 'video')
+  ) {
+    return Boolean(maskMediaOptions.video);
+  }
+  return false;
+}
+
+/**
+ * Replace the urls in the background declarations of a style, e.g.
+ * `background: #fff url(a.png)` becomes `background: #fff none`.
+ */
+export function maskBackgroundImage(style: string): string {
+  return style.replace(
+    /(background(?:-image)?\s*:)([^;]*)/gi,
+    (_, name, value) =>
+      name + value.replace(/url\((?:"[^"]*"|'[^']*'|[^)]*)\)/gi, 'none'),
+  );
+}
+
+/**
+ * Mask the value of an attribute by the mask function first, then by the
+ * privacy rules. The value is expected to be transformed already, e.g.
+ * relative urls are absolute.
+ */
+export function maskAttributeValue(
+  element: HTMLElement,
+  name: string,
+  value: string,
+  maskAttributeFn: MaskAttributeFn | undefined,
+  privacy?: PrivacyPolicy,
+): string {
+  let masked = maskAttributeFn ? maskAttributeFn(name, value, element) : value;
+  if (privacy && privacy.maskAttributes.indexOf(name) !== -1) {
+    masked = maskText(masked, undefined, privacy.hash, privacy.hashSalt);
+  }
+  return masked;
+}
+
+export function needMaskingInput({
+  maskInputOptions,
+  tagName,
+  type,
+  privacy,
+}: {
+  maskInputOptions: MaskInputOptions;
+  tagName: string;
+  type: string | number | boolean | null;
+  // the privacy rules take precedence over the mask input options
+  privacy?: PrivacyPolicy;
+}): boolean {
+  return Boolean(
+    privacy?.maskInput ??
+      (maskInputOptions[tagName.toLowerCase() as keyof MaskInputOptions] ||
+        maskInputOptions[type as keyof MaskInputOptions]),
+  );
+}
+
 export function maskInputValue({
   maskInputOptions,
   tagName,
   type,
   value,
   maskInputFn,
+  privacy,
 }: {
   maskInputOptions: MaskInputOptions;
   tagName: string;
   type: string | number | boolean | null;
   value: string | null;
   maskInputFn?: MaskInputFn;
+  // the privacy rules take precedence over the mask input options
+  privacy?: PrivacyPolicy;
 }): string {
   let text = value || '';
-  if (
-    maskInputOptions[tagName.toLowerCase() as keyof MaskInputOptions] ||
-    maskInputOptions[type as keyof MaskInputOptions]
-  ) {
-    if (maskInputFn) {
+  if (needMaskingInput({ maskInputOptions, tagName, type, privacy })) {
+    if (privacy?.hash) {
+      text = hashText(text, privacy.hashSalt);
+    } else if (maskInputFn) {
       text = maskInputFn(text);
     } else {
       text = '*'.repeat(text.length);
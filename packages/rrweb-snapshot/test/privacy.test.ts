@@ -0,0 +1,147 @@
+import 'mocha';
+import { JSDOM } from 'jsdom';
+import { expect } from 'chai';
+import { createPrivacyEngine, validatePrivacyRules } from '../src/privacy';
+import {
+  hashText,
+  maskAttributeValue,
+  maskInputValue,
+  maskText,
+} from '../src/utils';
+import { PrivacyRule } from '../src/types';
+
+const render = (html: string) => new JSDOM(html).window.document;
+
+describe('privacy engine', () => {
+  const doc = render(
+    '<div class="account"><p class="name">Jane</p><p class="public">Hi</p></div>',
+  );
+  const rules: PrivacyRule[] = [
+    { selector: '.account', action: 'maskText' },
+    { selector: '.public', action: 'allow' },
+    { selector: '.name', action: 'block', inherit: false },
+  ];
+  const engine = createPrivacyEngine(rules);
+
+  it('inherits the rules of the ancestors', () => {
+    const name = doc.querySelector('.name')!;
+    expect(engine.getPolicy(name).maskText).to.equal(true);
+    expect(engine.getPolicy(name.firstChild).maskText).to.equal(true);
+  });
+
+  it('lets the rules of the descendants take precedence', () => {
+    const text = doc.querySelector('.public')!.firstChild;
+    expect(engine.getPolicy(text).maskText).to.equal(false);
+  });
+
+  it('applies a rule to the element only if it is not inherited', () => {
+    const name = doc.querySelector('.name')!;
+    expect(engine.getPolicy(name).block).to.equal(true);
+    expect(engine.getPolicy(name.firstChild).block).to.equal(true);
+    expect(engine.getPolicy(doc.querySelector('.public')).block).to.equal(
+      false,
+    );
+  });
+
+  it('leaves the undecided fields to the legacy options', () => {
+    const policy = engine.getPolicy(doc.body);
+    expect(policy.maskText).to.equal(undefined);
+    expect(policy.maskInput).to.equal(undefined);
+  });
+
+  it('resolves the policies again after a reset', () => {
+    const el = render('<div><p>Jane</p></div>').querySelector('p')!;
+    const accountEngine = createPrivacyEngine(rules);
+    expect(accountEngine.getPolicy(el).maskText).to.equal(undefined);
+    el.parentElement!.className = 'account';
+    expect(accountEngine.getPolicy(el).maskText).to.equal(undefined);
+    accountEngine.reset();
+    expect(accountEngine.getPolicy(el).maskText).to.equal(true);
+  });
+
+  it('rejects invalid selectors', () => {
+    expect(() =>
+      validatePrivacyRules([{ selector: '[data-', action: 'block' }], doc),
+    ).to.throw('Invalid selector of the privacy rule: [data-');
+  });
+});
+
+describe('masking with privacy policies', () => {
+  const policy = createPrivacyEngine([
+    { selector: 'input', action: 'maskInput' },
+    { selector: '.card', action: 'hash' },
+  ]).getPolicy;
+  const doc = render('<input type="text" /><input class="card" />');
+  const [input, card] = Array.from(doc.querySelectorAll('input'));
+
+  it('masks the input values over the mask input options', () => {
+    const value = maskInputValue({
+      maskInputOptions: { text: false },
+      tagName: 'input',
+      type: 'text',
+      value: 'jane',
+      privacy: policy(input),
+    });
+    expect(value).to.equal('****');
+  });
+
+  it('hashes the input values', () => {
+    const value = maskInputValue({
+      maskInputOptions: {},
+      tagName: 'input',
+      type: 'text',
+      value: '4242',
+      privacy: policy(card),
+    });
+    expect(value).to.equal(hashText('4242'));
+    expect(value).to.have.length(8);
+    expect(value).not.to.equal(hashText('4243'));
+  });
+
+  it('salts the hashes', () => {
+    const salted = createPrivacyEngine([
+      { selector: '.card', action: 'hash', salt: 'secret' },
+    ]).getPolicy(card);
+    const value = maskInputValue({
+      maskInputOptions: {},
+      tagName: 'input',
+      type: 'text',
+      value: '4242',
+      privacy: salted,
+    });
+    expect(value).to.equal(hashText('4242', 'secret'));
+    expect(value).not.to.equal(hashText('4242'));
+    expect(value).not.to.equal(hashText('4242', 'other'));
+  });
+
+  it('masks the attributes by the function and the policy', () => {
+    const maskAttributeFn = (name: string, value: string, element: Element) =>
+      name === 'title' && element.tagName === 'INPUT'
+        ? value.toUpperCase()
+        : value;
+    expect(
+      maskAttributeValue(
+        input,
+        'title',
+        'jane',
+        maskAttributeFn,
+        policy(input),
+      ),
+    ).to.equal('JANE');
+    const cardPolicy = createPrivacyEngine([
+      { selector: '.card', action: 'maskAttributes', attributes: ['title'] },
+    ]).getPolicy(card);
+    expect(
+      maskAttributeValue(card, 'title', 'jane', maskAttributeFn, cardPolicy),
+    ).to.equal('****');
+    expect(
+      maskAttributeValue(card, 'name', 'card', maskAttributeFn, cardPolicy),
+    ).to.equal('card');
+  });
+
+  it('masks the text with the mask text function', () => {
+    expect(maskText('a b', undefined)).to.equal('* *');
+    expect(maskText('a b', (text) => text.toUpperCase())).to.equal('A B');
+    expect(maskText('a b', undefined, true)).to.equal(hashText('a b'));
+  });
+});
@@ -2,6 +2,7 @@ import 'mocha';
 import { JSDOM } from 'jsdom';
 import { expect } from 'chai';
 import { absoluteToStylesheet, _isBlockedElement } from '../src/snapshot';
+import { maskBackgroundImage, needMaskingMedia } from '../src/utils';
 
 describe('absolute url to stylesheet', () => {
   const href = 'http://localhost/css/style.css';
@@ -128,3 +129,46 @@ describe('isBlockedElement()', () => {
     ).to.equal(true);
   });
 });
+
+describe('media masking', () => {
+  const render = (html: string): Element =>
+    JSDOM.fragment(html).querySelector('[data-subject]')!;
+
+  it('masks the media by the options', () => {
+    expect(needMaskingMedia(render('<img data-subject />'), {})).to.equal(
+      false,
+    );
+    expect(
+      needMaskingMedia(render('<img data-subject />'), { img: true }),
+    ).to.equal(true);
+    expect(
+      needMaskingMedia(
+        render('<video><source data-subject src="a.mp4" /></video>'),
+        { video: true },
+      ),
+    ).to.equal(true);
+  });
+
+  it('masks the images and sources in pictures', () => {
+    const picture =
+      '<picture><source srcset="a.webp" /><img src="a.png" /></picture>';
+    const source = JSDOM.fragment(picture).querySelector('source')!;
+    const img = JSDOM.fragment(picture).querySelector('img')!;
+    expect(needMaskingMedia(source, { picture: true })).to.equal(true);
+    expect(needMaskingMedia(img, { picture: true })).to.equal(true);
+    expect(needMaskingMedia(source, { img: true })).to.equal(false);
+  });
+
+  it('replaces the urls of the backgrounds', () => {
+    expect(
+      maskBackgroundImage(
+        'color: red; background: #fff url("a.png") no-repeat; cursor: url(b.cur), auto',
+      ),
+    ).to.equal(
+      'color: red; background: #fff none no-repeat; cursor: url(b.cur), auto',
+    );
+    expect(
+      maskBackgroundImage("background-image: url('a (1).png'), url(b.png)"),
+    ).to.equal('background-image: none, none');
+  });
+});
@@ -0,0 +1,136 @@
+import 'mocha';
+import { JSDOM } from 'jsdom';
+import { expect } from 'chai';
+import { dedupeSubtrees, expandTemplateInstance } from '../src/template';
+import { buildNodeWithSN, createCache } from '../src/rebuild';
+import {
+  NodeType,
+  serializedNodeWithId,
+  idNodeMap,
+  templateInstanceNode,
+} from '../src/types';
+
+const item = (
+  id: number,
+  href: string,
+  text: string,
+): serializedNodeWithId => ({
+  type: NodeType.Element,
+  tagName: 'li',
+  attributes: { class: 'item' },
+  id,
+  childNodes: [
+    {
+      type: NodeType.Element,
+      tagName: 'a',
+      attributes: { href },
+      id: id + 1,
+      childNodes: [{ type: NodeType.Text, textContent: text, id: id + 2 }],
+    },
+  ],
+});
+
+const doc: serializedNodeWithId = {
+  type: NodeType.Document,
+  id: 1,
+  childNodes: [
+    {
+      type: NodeType.Element,
+      tagName: 'ul',
+      attributes: {},
+      id: 2,
+      childNodes: [item(3, '/a', 'a'), item(6, '/b', 'b'), item(9, '/a', 'c')],
+    },
+  ],
+};
+
+describe('dedupe subtrees', () => {
+  const deduped = dedupeSubtrees(doc);
+
+  it('stores repeated subtrees as templates', () => {
+    if (deduped.type !== NodeType.Document) {
+      throw new Error('should be a document');
+    }
+    expect(deduped.templates).to.have.length(1);
+    expect(deduped.templates![0]).to.deep.equal({
+      ...item(0, '/a', 'a'),
+      id: 0,
+    });
+    const ul = deduped.childNodes[0];
+    if (ul.type !== NodeType.Element) {
+      throw new Error('should be an element');
+    }
+    expect(ul.childNodes).to.deep.equal([
+      { type: NodeType.TemplateInstance, templateId: 0, id: 3 },
+      {
+        type: NodeType.TemplateInstance,
+        templateId: 0,
+        id: 6,
+        attributes: { 1: { href: '/b' } },
+        texts: { 2: 'b' },
+      },
+      {
+        type: NodeType.TemplateInstance,
+        templateId: 0,
+        id: 9,
+        texts: { 2: 'c' },
+      },
+    ]);
+  });
+
+  it('does not modify the input snapshot', () => {
+    const ul = doc.type === NodeType.Document && doc.childNodes[0];
+    expect(
+      ul && ul.type === NodeType.Element && ul.childNodes[1],
+    ).to.deep.equal(item(6, '/b', 'b'));
+  });
+
+  it('keeps the snapshot without repeated subtrees', () => {
+    const single: serializedNodeWithId = {
+      type: NodeType.Document,
+      id: 1,
+      childNodes: [item(2, '/a', 'a')],
+    };
+    expect(dedupeSubtrees(single)).to.equal(single);
+  });
+
+  it('expands instances with ids and overrides', () => {
+    const templates =
+      deduped.type === NodeType.Document ? deduped.templates! : [];
+    const instance = {
+      type: NodeType.TemplateInstance,
+      templateId: 0,
+      id: 20,
+      ids: [20, 31, 42],
+      attributes: { 1: { href: '/d' } },
+      texts: { 2: 'd' },
+    } as templateInstanceNode & { id: number };
+    const expected = item(20, '/d', 'd');
+    if (expected.type === NodeType.Element) {
+      expected.childNodes[0].id = 31;
+      const a = expected.childNodes[0];
+      if (a.type === NodeType.Element) {
+        a.childNodes[0].id = 42;
+      }
+    }
+    expect(expandTemplateInstance(instance, templates)).to.deep.equal(expected);
+  });
+
+  it('can be rebuilt', () => {
+    const { document } = new JSDOM().window;
+    const map: idNodeMap = {};
+    buildNodeWithSN(deduped, {
+      doc: document,
+      map,
+      hackCss: true,
+      cache: createCache(),
+    });
+    expect(document.querySelector('ul')!.innerHTML).to.equal(
+      '<li class="item"><a href="/a">a</a></li>' +
+        '<li class="item"><a href="/b">b</a></li>' +
+        '<li class="item"><a href="/a">c</a></li>',
+    );
+    expect(map[7].textContent).to.equal('b');
+    expect(map[7].__sn).to.deep.include({ id: 7, tagName: 'a' });
+  });
+});
@@ -1,5 +1,7 @@
-import snapshot, { serializeNodeWithId, transformAttribute, visitSnapshot, cleanupSnapshot, needMaskingText, IGNORED_NODE } from './snapshot';
+import snapshot, { serializeNodeWithId, transformAttribute, visitSnapshot, cleanupSnapshot, needMaskingText, IGNORED_NODE, genId } from './snapshot';
 import rebuild, { buildNodeWithSN, addHoverClass, createCache } from './rebuild';
+import { dedupeSubtrees, expandTemplateInstance } from './template';
+import { createPrivacyEngine, validatePrivacyRules } from './privacy';
 export * from './types';
 export * from './utils';
-export { snapshot, serializeNodeWithId, rebuild, buildNodeWithSN, addHoverClass, createCache, transformAttribute, visitSnapshot, cleanupSnapshot, needMaskingText, IGNORED_NODE, };
+export { snapshot, serializeNodeWithId, rebuild, buildNodeWithSN, addHoverClass, createCache, transformAttribute, visitSnapshot, cleanupSnapshot, needMaskingText, IGNORED_NODE, genId, dedupeSubtrees, expandTemplateInstance, createPrivacyEngine, validatePrivacyRules, };
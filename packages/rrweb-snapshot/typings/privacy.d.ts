@@ -0,0 +1,3 @@
+import { PrivacyEngine, PrivacyRule } from './types';
+export declare function validatePrivacyRules(rules: PrivacyRule[], doc: Document): void;
+export declare function createPrivacyEngine(rules: PrivacyRule[]): PrivacyEngine;
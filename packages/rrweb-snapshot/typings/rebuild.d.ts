@@ -8,6 +8,7 @@ export declare function buildNodeWithSN(n: serializedNodeWithId, options: {
     hackCss: boolean;
     afterAppend?: (n: INode) => unknown;
     cache: BuildCache;
+    templates?: serializedNodeWithId[];
 }): INode | null;
 declare function rebuild(n: serializedNodeWithId, options: {
     doc: Document;
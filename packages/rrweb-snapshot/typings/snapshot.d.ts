@@ -1,5 +1,6 @@
-import { serializedNodeWithId, INode, idNodeMap, MaskInputOptions, SlimDOMOptions, MaskTextFn, MaskInputFn, KeepIframeSrcFn } from './types';
+import { serializedNodeWithId, INode, idNodeMap, MaskInputOptions, MaskMediaOptions, SlimDOMOptions, MaskTextFn, MaskAttributeFn, MaskInputFn, KeepIframeSrcFn, PrivacyEngine, PrivacyRule } from './types';
 export declare const IGNORED_NODE = -2;
+export declare function genId(): number;
 export declare function absoluteToStylesheet(cssText: string | null, href: string): string;
 export declare function absoluteToDoc(doc: Document, attributeValue: string): string;
 export declare function transformAttribute(doc: Document, tagName: string, name: string, value: string): string;
@@ -17,6 +18,8 @@ export declare function serializeNodeWithId(n: Node | INode, options: {
     maskInputOptions?: MaskInputOptions;
     maskTextFn: MaskTextFn | undefined;
     maskInputFn: MaskInputFn | undefined;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMediaOptions?: MaskMediaOptions;
     slimDOMOptions: SlimDOMOptions;
     keepIframeSrcFn?: KeepIframeSrcFn;
     recordCanvas?: boolean;
@@ -24,6 +27,7 @@ export declare function serializeNodeWithId(n: Node | INode, options: {
     onSerialize?: (n: INode) => unknown;
     onIframeLoad?: (iframeINode: INode, node: serializedNodeWithId) => unknown;
     iframeLoadTimeout?: number;
+    privacyEngine?: PrivacyEngine;
 }): serializedNodeWithId | null;
 declare function snapshot(n: Document, options?: {
     blockClass?: string | RegExp;
@@ -34,6 +38,8 @@ declare function snapshot(n: Document, options?: {
     maskAllInputs?: boolean | MaskInputOptions;
     maskTextFn?: MaskTextFn;
     maskInputFn?: MaskTextFn;
+    maskAttributeFn?: MaskAttributeFn;
+    maskMedia?: boolean | MaskMediaOptions;
     slimDOM?: boolean | SlimDOMOptions;
     recordCanvas?: boolean;
     preserveWhiteSpace?: boolean;
@@ -41,6 +47,8 @@ declare function snapshot(n: Document, options?: {
     onIframeLoad?: (iframeINode: INode, node: serializedNodeWithId) => unknown;
     iframeLoadTimeout?: number;
     keepIframeSrcFn?: KeepIframeSrcFn;
+    dedupeSubtrees?: boolean;
+    privacyRules?: PrivacyRule[];
 }): [serializedNodeWithId | null, idNodeMap];
 export declare function visitSnapshot(node: serializedNodeWithId, onVisit: (node: serializedNodeWithId) => unknown): void;
 export declare function cleanupSnapshot(): void;
@@ -0,0 +1,5 @@
+import { serializedNodeWithId, templateInstanceNode } from './types';
+export declare function dedupeSubtrees(root: serializedNodeWithId, minSize?: number): serializedNodeWithId;
+export declare function expandTemplateInstance(n: templateInstanceNode & {
+    id: number;
+}, templates: serializedNodeWithId[]): serializedNodeWithId;
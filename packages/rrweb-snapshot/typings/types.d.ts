@@ -4,11 +4,13 @@ export declare enum NodeType {
     Element = 2,
     Text = 3,
     CDATA = 4,
-    Comment = 5
+    Comment = 5,
+    TemplateInstance = 6
 }
 export declare type documentNode = {
     type: NodeType.Document;
     childNodes: serializedNodeWithId[];
+    templates?: serializedNodeWithId[];
 };
 export declare type documentTypeNode = {
     type: NodeType.DocumentType;
@@ -40,7 +42,18 @@ export declare type commentNode = {
     type: NodeType.Comment;
     textContent: string;
 };
-export declare type serializedNode = (documentNode | documentTypeNode | elementNode | textNode | cdataNode | commentNode) & {
+export declare type templateInstanceNode = {
+    type: NodeType.TemplateInstance;
+    templateId: number;
+    ids?: number[];
+    attributes?: {
+        [index: number]: attributes;
+    };
+    texts?: {
+        [index: number]: string;
+    };
+};
+export declare type serializedNode = (documentNode | documentTypeNode | elementNode | textNode | cdataNode | commentNode | templateInstanceNode) & {
     rootId?: number;
     isShadowHost?: boolean;
     isShadow?: boolean;
@@ -75,6 +88,13 @@ export declare type MaskInputOptions = Partial<{
     select: boolean;
     password: boolean;
 }>;
+export declare type MaskMediaOptions = Partial<{
+    img: boolean;
+    video: boolean;
+    picture: boolean;
+    svg: boolean;
+    backgroundImage: boolean;
+}>;
 export declare type SlimDOMOptions = Partial<{
     script: boolean;
     comment: boolean;
@@ -89,7 +109,29 @@ export declare type SlimDOMOptions = Partial<{
 }>;
 export declare type MaskTextFn = (text: string) => string;
 export declare type MaskInputFn = (text: string) => string;
+export declare type MaskAttributeFn = (name: string, value: string, element: HTMLElement) => string;
 export declare type KeepIframeSrcFn = (src: string) => boolean;
+export declare type PrivacyAction = 'block' | 'ignore' | 'maskText' | 'maskInput' | 'maskAttributes' | 'hash' | 'allow';
+export declare type PrivacyRule = {
+    selector: string;
+    action: PrivacyAction;
+    attributes?: string[];
+    salt?: string;
+    inherit?: boolean;
+};
+export declare type PrivacyPolicy = {
+    block: boolean;
+    ignore?: boolean;
+    maskText?: boolean;
+    maskInput?: boolean;
+    maskAttributes: string[];
+    hash: boolean;
+    hashSalt?: string;
+};
+export declare type PrivacyEngine = {
+    getPolicy(node: Node | null): PrivacyPolicy;
+    reset(): void;
+};
 export declare type BuildCache = {
     stylesWithHoverClass: Map<string, string>;
 };
@@ -1,10 +1,23 @@
-import { INode, MaskInputFn, MaskInputOptions } from './types';
+import { INode, MaskInputFn, MaskInputOptions, MaskMediaOptions, MaskTextFn, MaskAttributeFn, PrivacyPolicy } from './types';
 export declare function isElement(n: Node | INode): n is Element;
 export declare function isShadowRoot(n: Node): n is ShadowRoot;
-export declare function maskInputValue({ maskInputOptions, tagName, type, value, maskInputFn, }: {
+export declare function hashText(text: string, salt?: string): string;
+export declare function maskText(text: string, maskTextFn: MaskTextFn | undefined, hash?: boolean, salt?: string): string;
+export declare const MEDIA_SOURCE_ATTRIBUTES: string[];
+export declare function needMaskingMedia(element: Element, maskMediaOptions: MaskMediaOptions): boolean;
+export declare function maskBackgroundImage(style: string): string;
+export declare function maskAttributeValue(element: HTMLElement, name: string, value: string, maskAttributeFn: MaskAttributeFn | undefined, privacy?: PrivacyPolicy): string;
+export declare function needMaskingInput({ maskInputOptions, tagName, type, privacy, }: {
+    maskInputOptions: MaskInputOptions;
+    tagName: string;
+    type: string | number | boolean | null;
+    privacy?: PrivacyPolicy;
+}): boolean;
+export declare function maskInputValue({ maskInputOptions, tagName, type, value, maskInputFn, privacy, }: {
     maskInputOptions: MaskInputOptions;
     tagName: string;
     type: string | number | boolean | null;
     value: string | null;
     maskInputFn?: MaskInputFn;
+    privacy?: PrivacyPolicy;
 }): string;